@@ -83,3 +83,20 @@ it('should work with undefined response', async () => {
     expect(error.name).toBe('AxiosError');
   }
 });
+
+it('should redact the request with the redact function in config', async () => {
+  try {
+    await axios.post('/?access_token=SECRET', { token: 'SECRET' });
+  } catch (err) {
+    err.config.redact = (value: any) =>
+      JSON.parse(JSON.stringify(value).replace(/SECRET/g, '[REDACTED]'));
+
+    const error = new AxiosError(err);
+
+    const message = error[util.inspect.custom]();
+
+    expect(message).toContain('POST /?access_token=[REDACTED]');
+    expect(message).toContain('"token": "[REDACTED]"');
+    expect(message).not.toContain('SECRET');
+  }
+});
@@ -14,6 +14,16 @@ function json(data: JsonValue): string {
   return JSON.stringify(data, null, 2);
 }
 
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type RedactFunction = (value: any) => any;
+
+function getRedact(config: BaseAxiosError['config']): RedactFunction {
+  // set by the request interceptor of messaging-api-common
+  const { redact } = config as { redact?: RedactFunction };
+
+  return typeof redact === 'function' ? redact : (value) => value;
+}
+
 class AxiosError extends Error {
   config: BaseAxiosError['config'];
 
@@ -81,6 +91,8 @@ class AxiosError extends Error {
     let requestMessage = '';
 
     if (this.config) {
+      const redact = getRedact(this.config);
+
       let { data } = this.config;
 
       try {
@@ -92,14 +104,14 @@ class AxiosError extends Error {
       if (this.config.data) {
         requestData = `
 Request Data -
-${indent(json(data))}`;
+${indent(json(redact(data)))}`;
       }
 
       requestMessage = `
 Request -
-  ${this.config.method ? this.config.method.toUpperCase() : ''} ${
+  ${this.config.method ? this.config.method.toUpperCase() : ''} ${redact(
         this.config.url
-      }
+      )}
 ${requestData}`;
     }
 
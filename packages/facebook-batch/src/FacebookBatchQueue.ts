@@ -1,18 +1,49 @@
+import crypto from 'crypto';
+
+import debug from 'debug';
+import {
+  FacebookBatch,
+  FacebookClient,
+  FacebookTypes,
+} from 'messaging-api-messenger';
 import { JsonValue } from 'type-fest';
-import { MessengerClient, MessengerTypes } from 'messaging-api-messenger';
 
 import BatchRequestError from './BatchRequestError';
+import MemoryQueueStorage from './MemoryQueueStorage';
+import QueueClosedError from './QueueClosedError';
 import {
   BatchConfig,
   BatchErrorResponse,
   BatchRequest,
   BatchRequestErrorInfo,
+  BatchResponse,
+  CloseOptions,
   QueueItem,
+  QueueStorage,
+  RestoredResult,
+  StoredQueueItem,
 } from './types';
+import { getUsage, isRetryableError } from './utils';
 
 const MAX_BATCH_SIZE = 50;
 
-const alwaysTrue = (): true => true;
+// the usage percentage from which the queue slows down
+const SLOW_DOWN_USAGE = 50;
+
+const noop = (): void => undefined;
+
+const debugStorage = debug('facebook-batch:storage');
+
+const logStorageError = (err: Error): void => {
+  debugStorage(`Failed to access the queue storage: ${err.message}`);
+};
+
+const isReady = (now: number) => (item: QueueItem): boolean =>
+  (item.retryAt ?? 0) <= now;
+
+function createId(): string {
+  return crypto.randomBytes(12).toString('hex');
+}
 
 export default class FacebookBatchQueue {
   /**
@@ -20,7 +51,7 @@ export default class FacebookBatchQueue {
    */
   readonly queue: QueueItem[];
 
-  private client: MessengerClient;
+  private client: FacebookClient;
 
   private delay: number;
 
@@ -28,42 +59,92 @@ export default class FacebookBatchQueue {
 
   private retryTimes: number;
 
+  private retryDelay: number;
+
+  private maxRetryDelay: number;
+
+  private concurrency: number;
+
+  // the number of batches being sent
+  private sending = 0;
+
+  // the flush waiting for a batch to finish because of the concurrency, which is shared by all the flushes meanwhile
+  private waitingFlush?: Promise<void>;
+
+  // hands the slot of a finished batch over to the waiting flush
+  private handOverSending?: () => void;
+
+  // the highest usage percentage in the headers of the last batch
+  private usage = 0;
+
+  // no batch is sent before this time when the rate limit is reached
+  private blockedUntil = 0;
+
   private includeHeaders: boolean;
 
   private timeout: NodeJS.Timeout;
 
+  private storage: QueueStorage;
+
+  private onRestoredResult: (result: RestoredResult) => void;
+
+  private onStorageError: (err: Error) => void;
+
+  // storage operations run one by one, so they are applied in order
+  private storageTask: Promise<void> = Promise.resolve();
+
+  // the requests which are not settled yet, keyed by their IDs
+  private pending = new Map<string, QueueItem>();
+
+  private closed = false;
+
+  // called when all the pending requests are settled while closing
+  private drained?: () => void;
+
+  /**
+   * Resolves when the pending requests in the storage have been restored into the queue and flushed.
+   */
+  readonly restored: Promise<void>;
+
   /**
    *
-   * @param client - A MessengerClient or FacebookClient instance.
+   * @param clientConfig - The config of the underlying FacebookClient.
    * @param options - Optional batch config.
    *
    * @example
    *
    * ```js
-   * const client = new MessengerClient();
-   * new FacebookBatchQueue(client);
+   * new FacebookBatchQueue({ accessToken: ACCESS_TOKEN });
    *
-   * new FacebookBatchQueue(client, {
+   * new FacebookBatchQueue({ accessToken: ACCESS_TOKEN }, {
    *   delay: 3000,
-   *   shouldRetry: () => true,
+   *   shouldRetry: isError613,
    *   retryTimes: 3,
+   *   concurrency: 2,
    * });
    * ```
    */
   constructor(
-    clientConfig: MessengerTypes.ClientConfig,
+    clientConfig: FacebookTypes.ClientConfig,
     options: BatchConfig = {}
   ) {
     this.queue = [];
 
-    // TODO: we use messenger client here for now, but maybe we will replace it with some facebook base client
-    this.client = new MessengerClient(clientConfig);
+    this.client = new FacebookClient(clientConfig);
     this.delay = options.delay ?? 1000;
-    this.shouldRetry = options.shouldRetry ?? alwaysTrue;
+    this.shouldRetry = options.shouldRetry ?? isRetryableError;
     this.retryTimes = options.retryTimes ?? 0;
+    this.retryDelay = options.retryDelay ?? 1000;
+    this.maxRetryDelay = options.maxRetryDelay ?? 30000;
+    this.concurrency = options.concurrency ?? 1;
     this.includeHeaders = options.includeHeaders ?? true;
+    this.storage = options.storage ?? new MemoryQueueStorage();
+    this.onRestoredResult = options.onRestoredResult ?? noop;
+    this.onStorageError = options.onStorageError ?? logStorageError;
 
     this.timeout = setTimeout(() => this.flush(), this.delay);
+
+    this.restored = this.restore();
   }
 
   /**
@@ -92,11 +173,35 @@ export default class FacebookBatchQueue {
    */
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   push<T extends JsonValue = any>(request: BatchRequest): Promise<T> {
+    if (this.closed) {
+      return Promise.reject(
+        new QueueClosedError(request, 'the queue is closed')
+      );
+    }
+
+    // only the invalid request is rejected, instead of the whole batch it would be sent in
+    try {
+      FacebookBatch.validateBatch([
+        ...this.queue.map((item) => item.request),
+        request,
+      ]);
+    } catch (err) {
+      return Promise.reject(err);
+    }
+
+    const id = createId();
+
     const promise = new Promise((resolve, reject) => {
-      this.queue.push({ request, resolve, reject });
+      this.queue.push(this.track({ id, request, resolve, reject }));
     });
 
-    if (this.queue.length >= MAX_BATCH_SIZE) {
+    this.persist(
+      () => this.storage.set({ id, request, retry: 0 }),
+      (err) => this.discard(id, err)
+    );
+
+    // leaves the requests to the timer when the queue slows down
+    if (this.queue.length >= MAX_BATCH_SIZE && this.usage < SLOW_DOWN_USAGE) {
       this.flush();
     }
 
@@ -108,6 +213,8 @@ export default class FacebookBatchQueue {
    *
    * This queue has a timer to flush items at a time interval, so normally you don't need to call this method.
    *
+   * Retried requests are not sent until their backoff delays have passed. Nothing is sent while the rate limit is reached, and the flush waits for a sending batch to finish when the concurrency is reached.
+   *
    * @example
    *
    * ```js
@@ -115,48 +222,32 @@ export default class FacebookBatchQueue {
    * ```
    */
   async flush(): Promise<void> {
-    const items = this.queue.splice(0, MAX_BATCH_SIZE);
+    const now = Date.now();
 
     clearTimeout(this.timeout);
-    this.timeout = setTimeout(() => this.flush(), this.delay);
+    this.timeout = setTimeout(
+      () => this.flush(),
+      Math.max(this.getDelay(), this.blockedUntil - now)
+    );
 
-    if (items.length < 1) return;
+    if (now < this.blockedUntil || !this.queue.some(isReady(now))) return;
 
-    try {
-      const responses = await this.client.sendBatch(
-        items.map((item) => item.request),
-        {
-          includeHeaders: this.includeHeaders,
-        }
-      );
+    if (this.sending >= this.concurrency) {
+      if (!this.waitingFlush) {
+        this.waitingFlush = new Promise<void>((resolve) => {
+          this.handOverSending = resolve;
+        }).then(() => {
+          this.waitingFlush = undefined;
+          return this.send();
+        });
+      }
 
-      items.forEach(({ request, resolve, reject, retry = 0 }, i) => {
-        const response = responses[i];
-        if (response.code === 200) {
-          resolve(response.body);
-          return;
-        }
+      return this.waitingFlush;
+    }
 
-        const err: BatchRequestErrorInfo = {
-          response: response as BatchErrorResponse,
-          request,
-        };
+    this.sending += 1;
 
-        if (retry < this.retryTimes && this.shouldRetry(err)) {
-          this.queue.push({ request, resolve, reject, retry: retry + 1 });
-        } else {
-          reject(new BatchRequestError(err));
-        }
-      });
-    } catch (err) {
-      items.forEach(({ request, resolve, reject, retry = 0 }) => {
-        if (retry < this.retryTimes && this.shouldRetry(err)) {
-          this.queue.push({ request, resolve, reject, retry: retry + 1 });
-        } else {
-          reject(err);
-        }
-      });
-    }
+    return this.send();
   }
 
   /**
@@ -171,4 +262,372 @@ export default class FacebookBatchQueue {
   stop(): void {
     clearTimeout(this.timeout);
   }
+
+  /**
+   * Closes the queue. Pushing requests into a closed queue is rejected with `QueueClosedError`.
+   *
+   * By default, the queued requests are flushed, including their retries, and the returned promise resolves when all of them are settled. The requests which are not settled by the `timeout`, or all of them when `drain` is `false`, are rejected with `QueueClosedError`, and they are kept in the storage.
+   *
+   * @param options - Optional close options.
+   *
+   * @example
+   *
+   * ```js
+   * process.on('SIGTERM', async () => {
+   *   await bq.close({ drain: true, timeout: 10000 });
+   *   process.exit(0);
+   * });
+   * ```
+   */
+  async close({ drain = true, timeout }: CloseOptions = {}): Promise<void> {
+    this.closed = true;
+
+    if (drain && this.pending.size > 0) {
+      const drained = new Promise<void>((resolve) => {
+        this.drained = resolve;
+      });
+
+      const deadline =
+        timeout === undefined
+          ? undefined
+          : setTimeout(() => this.drained?.(), timeout);
+
+      this.flush();
+
+      await drained;
+
+      if (deadline) {
+        clearTimeout(deadline);
+      }
+    }
+
+    this.stop();
+    this.queue.splice(0, this.queue.length);
+
+    Array.from(this.pending.values()).forEach((item) =>
+      item.reject(
+        new QueueClosedError(
+          item.request,
+          'the queue was closed before the request was settled'
+        )
+      )
+    );
+
+    await this.persist(noop);
+  }
+
+  private track(item: QueueItem): QueueItem {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const settle = (callback: (value?: any) => void) => (
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      value?: any
+    ): void => {
+      // a request rejected when closing may still get its response later
+      if (!this.pending.delete(item.id)) return;
+
+      callback(value);
+
+      if (this.pending.size === 0 && this.drained) {
+        this.drained();
+      }
+    };
+
+    const trackedItem = {
+      ...item,
+      resolve: settle(item.resolve),
+      reject: settle(item.reject),
+    };
+
+    this.pending.set(item.id, trackedItem);
+
+    return trackedItem;
+  }
+
+  // sends a batch with a taken sending slot
+  private async send(): Promise<void> {
+    const items = this.takeReadyItems(Date.now());
+
+    if (items.length < 1) {
+      this.releaseSending();
+      return;
+    }
+
+    const settledIds: string[] = [];
+
+    let responses: BatchResponse[] = [];
+    let batchFailed = false;
+
+    try {
+      responses = await this.client.sendBatch(
+        items.map((item) => item.request),
+        {
+          includeHeaders: this.includeHeaders,
+        }
+      );
+
+      if (!Array.isArray(responses)) {
+        throw new TypeError(
+          `FacebookBatchQueue: expected an array of batch responses, got ${typeof responses}`
+        );
+      }
+    } catch (err) {
+      items.forEach((item) => {
+        if (!this.pending.has(item.id)) return;
+
+        if (!this.retry(item, err)) {
+          settledIds.push(item.id);
+          item.reject(err);
+        }
+      });
+
+      batchFailed = true;
+    } finally {
+      this.releaseSending();
+    }
+
+    items.forEach((item, i) => {
+      if (batchFailed) return;
+
+      const { request, resolve, reject } = item;
+      const response = responses[i];
+
+      // the requests which aren't completed in time have no responses
+      if (!response) {
+        if (!this.pending.has(item.id)) return;
+
+        const err = new Error(
+          `FacebookBatchQueue: no response for ${request.method} ${request.relativeUrl}`
+        );
+
+        if (!this.retry(item, err)) {
+          settledIds.push(item.id);
+          reject(err);
+        }
+        return;
+      }
+
+      if (response.code === 200) {
+        settledIds.push(item.id);
+        resolve(response.body);
+        return;
+      }
+
+      const err: BatchRequestErrorInfo = {
+        response: response as BatchErrorResponse,
+        request,
+      };
+
+      if (!this.pending.has(item.id)) return;
+
+      if (!this.retry(item, err)) {
+        settledIds.push(item.id);
+        reject(new BatchRequestError(err));
+      }
+    });
+
+    // the usage only affects the pace of the following batches, so it never fails the delivered requests
+    // the failed batch has no responses to read the usage from, so the previous usage is kept until the next delivered batch
+    if (!batchFailed) {
+      try {
+        this.updateUsage(responses);
+      } catch (_) {
+        // keeps the previous usage
+      }
+    }
+
+    if (settledIds.length > 0) {
+      await this.persist(() => this.storage.delete(settledIds));
+    }
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private retry(item: QueueItem, err: any): boolean {
+    const retry = item.retry ?? 0;
+
+    // the requests it depends on may have been sent already
+    if (FacebookBatch.getDependencies(item.request).length > 0) {
+      return false;
+    }
+
+    if (retry >= this.retryTimes || !this.shouldRetry(err)) {
+      return false;
+    }
+
+    const retryItem = {
+      ...item,
+      retry: retry + 1,
+      retryAt: Date.now() + this.getRetryDelay(retry + 1),
+    };
+
+    this.queue.push(retryItem);
+    this.persist(() =>
+      this.storage.set({
+        id: item.id,
+        request: item.request,
+        retry: retryItem.retry,
+      })
+    );
+
+    return true;
+  }
+
+  // a request is sent in the same batch as the requests it depends on, so they are taken in groups
+  private takeReadyItems(now: number): QueueItem[] {
+    const groups: QueueItem[][] = [];
+    const groupsByName = new Map<string, QueueItem[]>();
+
+    this.queue.forEach((item) => {
+      const dependencyGroups = FacebookBatch.getDependencies(item.request)
+        .map((name) => groupsByName.get(name))
+        .filter((group): group is QueueItem[] => Boolean(group))
+        .filter((group, i, array) => array.indexOf(group) === i);
+
+      let group: QueueItem[];
+
+      if (dependencyGroups.length > 0) {
+        [group] = dependencyGroups;
+
+        // merges the groups of the requests depended on, keeping the queue order
+        dependencyGroups.slice(1).forEach((dependencyGroup) => {
+          group.push(...dependencyGroup);
+          groups.splice(groups.indexOf(dependencyGroup), 1);
+          dependencyGroup.forEach(({ request }) => {
+            if (request.name) {
+              groupsByName.set(request.name, group);
+            }
+          });
+        });
+        group.sort((a, b) => this.queue.indexOf(a) - this.queue.indexOf(b));
+      } else {
+        group = [];
+        groups.push(group);
+      }
+
+      group.push(item);
+
+      if (item.request.name) {
+        groupsByName.set(item.request.name, group);
+      }
+    });
+
+    const items: QueueItem[] = [];
+
+    // stops at the first group which doesn't fit, so the requests are sent in order
+    groups
+      .filter((group) => group.every(isReady(now)))
+      .some((group) => {
+        if (items.length > 0 && items.length + group.length > MAX_BATCH_SIZE) {
+          return true;
+        }
+
+        items.push(...group);
+        return false;
+      });
+
+    items.forEach((item) => {
+      this.queue.splice(this.queue.indexOf(item), 1);
+    });
+
+    return items;
+  }
+
+  // hands the slot over to a waiting flush if there is one
+  private releaseSending(): void {
+    const next = this.handOverSending;
+
+    if (next) {
+      this.handOverSending = undefined;
+      next();
+    } else {
+      this.sending -= 1;
+    }
+  }
+
+  // doubles the delay every 10% of the usage above `SLOW_DOWN_USAGE`
+  private getDelay(): number {
+    if (this.usage < SLOW_DOWN_USAGE) {
+      return this.delay;
+    }
+
+    return this.delay * 2 ** ((this.usage - SLOW_DOWN_USAGE) / 10);
+  }
+
+  // exponential backoff with equal jitter
+  private getRetryDelay(retry: number): number {
+    const delay = Math.min(
+      this.maxRetryDelay,
+      this.retryDelay * 2 ** (retry - 1)
+    );
+
+    return delay / 2 + (Math.random() * delay) / 2;
+  }
+
+  private updateUsage(responses: BatchResponse[]): void {
+    const { percentage, timeToRegainAccess } = getUsage(responses);
+
+    this.usage = percentage;
+
+    if (timeToRegainAccess > 0) {
+      this.blockedUntil = Date.now() + timeToRegainAccess;
+    }
+  }
+
+  // rejects the request which can't be saved, unless it's being sent already
+  private discard(id: string, err: Error): void {
+    const index = this.queue.findIndex((item) => item.id === id);
+
+    if (index === -1) {
+      this.onStorageError(err);
+      return;
+    }
+
+    const [item] = this.queue.splice(index, 1);
+    item.reject(err);
+  }
+
+  private persist(
+    task: () => void | Promise<void>,
+    onError: (err: Error) => void = this.onStorageError
+  ): Promise<void> {
+    this.storageTask = this.storageTask.then(task).catch((err) => onError(err));
+
+    return this.storageTask;
+  }
+
+  // the results of the restored requests are delivered to `onRestoredResult`, since their promises no longer exist
+  private restore(): Promise<void> {
+    let storedItems: StoredQueueItem[] = [];
+
+    return this.persist(async () => {
+      storedItems = await this.storage.getAll();
+    }).then(() => {
+      // the requests are kept in the storage when the queue is closed before they are restored
+      if (storedItems.length < 1 || this.closed) return;
+
+      const pendingIds = this.queue.map(({ id }) => id);
+
+      this.queue.unshift(
+        ...storedItems
+          .filter(({ id }) => !pendingIds.includes(id))
+          .map(({ id, request, retry }) =>
+            this.track({
+              id,
+              request,
+              retry,
+              resolve: (body?: unknown) =>
+                this.onRestoredResult({
+                  id,
+                  request,
+                  body: body as RestoredResult['body'],
+                }),
+              // eslint-disable-next-line @typescript-eslint/no-explicit-any
+              reject: (error?: any) =>
+                this.onRestoredResult({ id, request, error }),
+            })
+          )
+      );
+
+      return this.flush();
+    });
+  }
 }
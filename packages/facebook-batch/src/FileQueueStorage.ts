@@ -0,0 +1,119 @@
+import fs from 'fs';
+import { promisify } from 'util';
+
+import { QueueStorage, StoredQueueItem } from './types';
+
+const readFile = promisify(fs.readFile);
+const rename = promisify(fs.rename);
+const writeFile = promisify(fs.writeFile);
+
+// buffers are serialized by JSON.stringify as `{ type: 'Buffer', data: [...] }`
+function reviveBuffer(_key: string, value: unknown): unknown {
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+
+  const { type, data } = value as { type?: unknown; data?: unknown };
+
+  if (
+    type === 'Buffer' &&
+    Array.isArray(data) &&
+    Object.keys(value).length === 2
+  ) {
+    return Buffer.from(data);
+  }
+  return value;
+}
+
+/**
+ * Saves pending requests in a JSON file, so they can be restored after restarts. Files in `attachedFiles` must be buffers, since streams can't be saved.
+ *
+ * @example
+ *
+ * ```js
+ * new FacebookBatchQueue(
+ *   { accessToken: ACCESS_TOKEN },
+ *   { storage: new FileQueueStorage('./queue.json') }
+ * );
+ * ```
+ */
+export default class FileQueueStorage implements QueueStorage {
+  /**
+   * The path of the JSON file.
+   */
+  readonly path: string;
+
+  private loading?: Promise<Map<string, StoredQueueItem>>;
+
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async getAll(): Promise<StoredQueueItem[]> {
+    const items = await this.load();
+
+    return Array.from(items.values());
+  }
+
+  async set(item: StoredQueueItem): Promise<void> {
+    const files = item.request.attachedFiles || [];
+
+    if (files.some((file) => !Buffer.isBuffer(file.data))) {
+      throw new Error(
+        `FileQueueStorage: only buffers in \`attachedFiles\` can be saved (request ${item.id})`
+      );
+    }
+
+    const items = await this.load();
+    items.set(item.id, item);
+
+    await this.save(items);
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    const items = await this.load();
+    ids.forEach((id) => items.delete(id));
+
+    await this.save(items);
+  }
+
+  private load(): Promise<Map<string, StoredQueueItem>> {
+    if (!this.loading) {
+      this.loading = readFile(this.path, 'utf8').then(
+        (content) =>
+          new Map(
+            (JSON.parse(
+              content,
+              reviveBuffer
+            ) as StoredQueueItem[]).map((item) => [item.id, item])
+          ),
+        (err) => {
+          if (err.code === 'ENOENT') {
+            return new Map();
+          }
+          throw err;
+        }
+      );
+    }
+
+    return this.loading;
+  }
+
+  // writes to a temporary file and then renames it, so the file is never left half-written
+  private save(items: Map<string, StoredQueueItem>): Promise<void> {
+    const content = JSON.stringify(Array.from(items.values()));
+    const tempPath = `${this.path}.tmp`;
+
+    // a failed write doesn't stop the following ones
+    this.writing = this.writing
+      .catch(() => undefined)
+      .then(async () => {
+        await writeFile(tempPath, content);
+        await rename(tempPath, this.path);
+      });
+
+    return this.writing;
+  }
+}
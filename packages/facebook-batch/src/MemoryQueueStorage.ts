@@ -0,0 +1,27 @@
+import { QueueStorage, StoredQueueItem } from './types';
+
+/**
+ * Keeps pending requests in memory. Requests are lost when the process exits.
+ */
+export default class MemoryQueueStorage implements QueueStorage {
+  private items = new Map<string, StoredQueueItem>();
+
+  getAll(): StoredQueueItem[] {
+    return Array.from(this.items.values());
+  }
+
+  set(item: StoredQueueItem): void {
+    this.items.set(item.id, item);
+  }
+
+  delete(ids: string[]): void {
+    ids.forEach((id) => this.items.delete(id));
+  }
+
+  /**
+   * Removes all the requests.
+   */
+  clear(): void {
+    this.items.clear();
+  }
+}
@@ -0,0 +1,31 @@
+import { BatchRequest } from './types';
+
+export default class QueueClosedError extends Error {
+  /**
+   * The request which is not settled because the queue is closed.
+   */
+  readonly request: BatchRequest;
+
+  /**
+   * @example
+   * ```js
+   * new QueueClosedError(
+   *   {
+   *     method: 'POST',
+   *     relativeUrl: 'me/messages',
+   *     body: {
+   *       messagingType: 'UPDATE',
+   *       recipient: 'PSID',
+   *       message: { text: 'Hello World' },
+   *     },
+   *   },
+   *   'the queue is closed'
+   * )
+   * ```
+   */
+  constructor(request: BatchRequest, reason: string) {
+    super(`Queue Closed Error - ${reason}`);
+
+    this.request = request;
+  }
+}
@@ -1,11 +1,19 @@
-import { MessengerClient } from 'messaging-api-messenger';
+import { FacebookClient } from 'messaging-api-messenger';
 import { mocked } from 'ts-jest/utils';
 
 import BatchRequestError from '../BatchRequestError';
 import FacebookBatchQueue from '../FacebookBatchQueue';
-import { isError613 } from '..';
-
-jest.mock('messaging-api-messenger');
+import MemoryQueueStorage from '../MemoryQueueStorage';
+import QueueClosedError from '../QueueClosedError';
+import { isError613, isRetryableError } from '..';
+
+// validates and groups batch requests with the actual FacebookBatch
+jest.mock('messaging-api-messenger', () => ({
+  ...jest.requireActual('messaging-api-messenger'),
+  FacebookClient: jest.createMockFromModule<
+    typeof import('messaging-api-messenger')
+  >('messaging-api-messenger').FacebookClient,
+}));
 
 const { MessengerBatch } = jest.requireActual('messaging-api-messenger');
 
@@ -24,7 +32,7 @@ let queue: FacebookBatchQueue;
 function setup(
   options = {}
 ): {
-  client: MessengerClient;
+  client: FacebookClient;
   timeout: NodeJS.Timeout;
 } {
   // https://github.com/nodejs/node/blob/e1ad548cd4bfb996ea925584542f30c85aa3dfa1/lib/internal/timers.js#L202-L231
@@ -44,7 +52,7 @@ function setup(
     options
   );
 
-  const client = mocked(MessengerClient).mock.instances[0];
+  const client = mocked(FacebookClient).mock.instances[0];
 
   return {
     client,
@@ -278,7 +286,11 @@ it('should support delay option', async () => {
 });
 
 it('should support retryTimes option', async () => {
-  const { client } = setup({ retryTimes: 3 });
+  const { client } = setup({
+    retryTimes: 3,
+    retryDelay: 0,
+    shouldRetry: () => true,
+  });
 
   const responses = [
     {
@@ -319,6 +331,7 @@ it('should support retryTimes option', async () => {
 it('should support shouldRetry option', async () => {
   const { client } = setup({
     retryTimes: 1,
+    retryDelay: 0,
     shouldRetry: isError613,
   });
 
@@ -409,3 +422,703 @@ it('should reject every promise when call batch failed', async () => {
   expect(error1).toBeDefined();
   expect(error2).toBeDefined();
 });
+
+it('should reject every promise when the batch responses are invalid', async () => {
+  const { client } = setup();
+
+  mocked(client.sendBatch).mockResolvedValue(undefined as any);
+
+  const promise = queue.push(
+    MessengerBatch.sendText('1412611362105802', 'hello')
+  );
+
+  await queue.flush();
+
+  await expect(promise).rejects.toThrow(
+    'FacebookBatchQueue: expected an array of batch responses, got undefined'
+  );
+});
+
+it('should only reject the requests without responses', async () => {
+  const { client } = setup();
+
+  mocked(client.sendBatch).mockResolvedValue([
+    { code: 200, body: { data: [] } },
+    null,
+  ] as any);
+
+  const promise1 = queue.push(
+    MessengerBatch.sendText('1412611362105802', 'hello')
+  );
+  const promise2 = queue.push(
+    MessengerBatch.sendText('1412611362105802', 'world')
+  );
+
+  await queue.flush();
+
+  await expect(promise1).resolves.toEqual({ data: [] });
+  await expect(promise2).rejects.toThrow(
+    'FacebookBatchQueue: no response for POST me/messages'
+  );
+});
+
+describe('dependencies', () => {
+  const upload = MessengerBatch.uploadAttachment(
+    'image',
+    'https://example.com/pic.png',
+    { name: 'upload' }
+  );
+  const send = MessengerBatch.sendAttachment('1412611362105802', {
+    type: 'image',
+    payload: {
+      attachmentId: MessengerBatch.createReference('upload', '$.attachment_id'),
+    },
+  });
+
+  it('should only reject the invalid request', async () => {
+    const { client } = setup();
+
+    mocked(client.sendBatch).mockResolvedValue([
+      { code: 200, body: { attachmentId: '1857777774821032' } },
+    ]);
+
+    const promise = queue.push(upload);
+
+    await expect(queue.push(upload)).rejects.toThrow(
+      'FacebookBatch: request #1 has a duplicate name `upload`.'
+    );
+
+    await queue.flush();
+
+    await expect(promise).resolves.toEqual({
+      attachmentId: '1857777774821032',
+    });
+    await expect(queue.push(send)).rejects.toThrow(
+      'FacebookBatch: request #0 depends on `upload`, which is not a request in the batch.'
+    );
+  });
+
+  it('should send the requests depended on in the same batch', async () => {
+    const { client } = setup();
+
+    let resolveBatch: (responses: any[]) => void = () => undefined;
+    const responses = Array(50).fill({ code: 200, body: { data: [] } });
+
+    mocked(client.sendBatch)
+      .mockReturnValueOnce(
+        new Promise((resolve) => {
+          resolveBatch = resolve;
+        })
+      )
+      .mockResolvedValue(responses);
+
+    for (let i = 0; i < 99; i++) {
+      queue.push(MessengerBatch.sendText('1412611362105802', `${i}`));
+    }
+    queue.push(upload);
+    queue.push(send);
+
+    resolveBatch(responses);
+    await queue.flush();
+
+    expect(mocked(client.sendBatch).mock.calls[1][0]).toHaveLength(49);
+    expect(queue.queue.map(({ request }) => request)).toEqual([upload, send]);
+
+    await queue.flush();
+
+    expect(mocked(client.sendBatch).mock.calls[2][0]).toEqual([upload, send]);
+  });
+
+  it('should not retry the requests with dependencies', async () => {
+    const { client } = setup({
+      retryTimes: 1,
+      retryDelay: 0,
+      shouldRetry: () => true,
+    });
+
+    mocked(client.sendBatch).mockResolvedValue([
+      {
+        code: 400,
+        body: { error: { type: 'OAuthException', message: 'Error', code: 2 } },
+      },
+      {
+        code: 400,
+        body: { error: { type: 'OAuthException', message: 'Error', code: 2 } },
+      },
+    ]);
+
+    queue.push(upload).catch(() => undefined);
+    const promise = queue.push(send);
+
+    await queue.flush();
+
+    await expect(promise).rejects.toBeInstanceOf(BatchRequestError);
+    expect(queue.queue.map(({ request }) => request)).toEqual([upload]);
+  });
+});
+
+it('should pass attached files to the client', async () => {
+  const { client } = setup();
+
+  const reply = {
+    recipientId: '1412611362105802',
+    messageId: 'mid.1489394984387:3dd22de509',
+  };
+
+  mocked(client.sendBatch).mockResolvedValue([{ code: 200, body: reply }]);
+
+  const buffer = Buffer.from('image');
+
+  const promise = queue.push(
+    MessengerBatch.sendImage('1412611362105802', buffer, {
+      filename: 'image.jpg',
+    })
+  );
+
+  await queue.flush();
+
+  expect(mocked(client.sendBatch).mock.calls[0][0]).toEqual([
+    {
+      method: 'POST',
+      relativeUrl: 'me/messages',
+      body: {
+        messagingType: 'UPDATE',
+        recipient: { id: '1412611362105802' },
+        message: {
+          attachment: {
+            type: 'image',
+            payload: {},
+          },
+        },
+      },
+      attachedFiles: [{ data: buffer, filename: 'image.jpg' }],
+    },
+  ]);
+  await expect(promise).resolves.toEqual(reply);
+});
+
+describe('storage', () => {
+  it('should keep requests in the storage until they are settled', async () => {
+    const storage = new MemoryQueueStorage();
+    const { client } = setup({ storage, retryTimes: 1 });
+
+    mocked(client.sendBatch).mockResolvedValue([
+      { code: 200, body: { data: [] } },
+      {
+        code: 400,
+        body: {
+          error: {
+            message: '(#613) Calls to this api have exceeded the rate limit.',
+          },
+        },
+      },
+    ]);
+
+    const request1 = MessengerBatch.sendText('1412611362105802', 'hello');
+    const request2 = MessengerBatch.sendText('1412611362105802', 'world');
+
+    queue.push(request1);
+    queue.push(request2);
+
+    await queue.flush();
+
+    expect(storage.getAll()).toEqual([
+      { id: queue.queue[0].id, request: request2, retry: 1 },
+    ]);
+  });
+
+  it('should re-flush restored requests and deliver the results to the callback', async () => {
+    const storage = new MemoryQueueStorage();
+    const request1 = MessengerBatch.sendText('1412611362105802', 'hello');
+    const request2 = MessengerBatch.sendText('1412611362105802', 'world');
+
+    storage.set({ id: 'ID_1', request: request1, retry: 0 });
+    storage.set({ id: 'ID_2', request: request2, retry: 0 });
+
+    const onRestoredResult = jest.fn();
+    const { client } = setup({ storage, onRestoredResult });
+
+    mocked(client.sendBatch).mockResolvedValue([
+      { code: 200, body: { recipientId: '1412611362105802' } },
+      {
+        code: 400,
+        body: {
+          error: {
+            message:
+              '(#100) Param recipient[id] must be a valid ID string (e.g., "123")',
+          },
+        },
+      },
+    ]);
+
+    await queue.restored;
+
+    expect(mocked(client.sendBatch).mock.calls[0][0]).toEqual([
+      request1,
+      request2,
+    ]);
+    expect(onRestoredResult).toHaveBeenCalledTimes(2);
+    expect(onRestoredResult).toHaveBeenCalledWith({
+      id: 'ID_1',
+      request: request1,
+      body: { recipientId: '1412611362105802' },
+    });
+    expect(onRestoredResult).toHaveBeenCalledWith({
+      id: 'ID_2',
+      request: request2,
+      error: expect.any(BatchRequestError),
+    });
+    expect(storage.getAll()).toEqual([]);
+  });
+
+  it('should reject the requests which fail to be saved', async () => {
+    const error = new Error('disk full');
+    const onStorageError = jest.fn();
+
+    const { client } = setup({
+      storage: {
+        getAll: () => [],
+        set: () => Promise.reject(error),
+        delete: () => undefined,
+      },
+      onStorageError,
+    });
+
+    mocked(client.sendBatch).mockResolvedValue([{ code: 200, body: {} }]);
+
+    const promise = queue.push(
+      MessengerBatch.sendText('1412611362105802', 'hello')
+    );
+
+    await queue.restored;
+
+    await expect(promise).rejects.toBe(error);
+
+    await queue.flush();
+
+    expect(queue.queue).toHaveLength(0);
+    expect(client.sendBatch).not.toHaveBeenCalled();
+    expect(onStorageError).not.toHaveBeenCalled();
+  });
+
+  it('should report the errors of deleting settled requests', async () => {
+    const error = new Error('disk full');
+    const onStorageError = jest.fn();
+
+    const { client } = setup({
+      storage: {
+        getAll: () => [],
+        set: () => undefined,
+        delete: () => Promise.reject(error),
+      },
+      onStorageError,
+    });
+
+    mocked(client.sendBatch).mockResolvedValue([{ code: 200, body: {} }]);
+
+    const promise = queue.push(
+      MessengerBatch.sendText('1412611362105802', 'hello')
+    );
+
+    await queue.flush();
+
+    await expect(promise).resolves.toEqual({});
+    expect(onStorageError).toHaveBeenCalledWith(error);
+  });
+});
+
+describe('#close', () => {
+  it('should flush the queue and wait for the retries', async () => {
+    const { client } = setup({ retryTimes: 1, retryDelay: 0 });
+
+    mocked(client.sendBatch)
+      .mockResolvedValueOnce([
+        { code: 200, body: { data: [] } },
+        {
+          code: 400,
+          body: {
+            error: {
+              message: '(#613) Calls to this api have exceeded the rate limit.',
+            },
+          },
+        },
+      ])
+      .mockResolvedValueOnce([{ code: 200, body: { data: [] } }]);
+
+    const promise1 = queue.push(
+      MessengerBatch.sendText('1412611362105802', 'hello')
+    );
+    const promise2 = queue.push(
+      MessengerBatch.sendText('1412611362105802', 'world')
+    );
+
+    const closed = queue.close({ drain: true });
+
+    await expect(promise1).resolves.toEqual({ data: [] });
+    expect(queue.queue).toHaveLength(1);
+
+    // the retry is flushed by the timer
+    await queue.flush();
+    await closed;
+
+    await expect(promise2).resolves.toEqual({ data: [] });
+    expect(client.sendBatch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject pushing into a closed queue', async () => {
+    const { client } = setup();
+
+    await queue.close();
+
+    const request = MessengerBatch.sendText('1412611362105802', 'hello');
+
+    await expect(queue.push(request)).rejects.toThrow(
+      new QueueClosedError(request, 'the queue is closed')
+    );
+    expect(queue.queue).toHaveLength(0);
+    expect(client.sendBatch).not.toHaveBeenCalled();
+  });
+
+  it('should reject the requests which are not settled by the timeout', async () => {
+    const storage = new MemoryQueueStorage();
+    const { client } = setup({ storage });
+
+    mocked(client.sendBatch).mockReturnValue(new Promise(() => undefined));
+
+    const request = MessengerBatch.sendText('1412611362105802', 'hello');
+    const promise = queue.push(request);
+
+    const closed = queue.close({ drain: true, timeout: 5000 });
+
+    const [onDeadline] = mocked(setTimeout)
+      .mock.calls.filter(([, ms]) => ms === 5000)
+      .pop() as Parameters<typeof setTimeout>;
+    onDeadline();
+
+    await closed;
+
+    const error = await promise.catch((err) => err);
+
+    expect(error).toBeInstanceOf(QueueClosedError);
+    expect(error.request).toEqual(request);
+    expect(error.message).toEqual(
+      'Queue Closed Error - the queue was closed before the request was settled'
+    );
+    expect(storage.getAll()).toEqual([
+      { id: expect.any(String), request, retry: 0 },
+    ]);
+  });
+
+  it('should reject the queued requests without draining', async () => {
+    const { client } = setup();
+
+    const promise = queue.push(
+      MessengerBatch.sendText('1412611362105802', 'hello')
+    );
+
+    await queue.close({ drain: false });
+
+    await expect(promise).rejects.toBeInstanceOf(QueueClosedError);
+    expect(queue.queue).toHaveLength(0);
+    expect(client.sendBatch).not.toHaveBeenCalled();
+  });
+});
+
+describe('retry', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should only retry errors which are safe to retry by default', async () => {
+    const { client } = setup({ retryTimes: 1, retryDelay: 0 });
+
+    const errorResponse = (code: number) => ({
+      code: 400,
+      body: { error: { type: 'OAuthException', message: 'Error', code } },
+    });
+
+    mocked(client.sendBatch).mockResolvedValue([
+      errorResponse(613),
+      errorResponse(4),
+      errorResponse(2),
+      errorResponse(100),
+    ]);
+
+    const requests = [1, 2, 3, 4].map((i) =>
+      MessengerBatch.sendText('1412611362105802', `${i}`)
+    );
+    requests.forEach((request) => queue.push(request).catch(() => undefined));
+
+    await queue.flush();
+
+    expect(queue.queue.map(({ request }) => request)).toEqual(
+      requests.slice(0, 3)
+    );
+  });
+
+  it('should check the error code of the whole batch request', () => {
+    expect(
+      isRetryableError({
+        response: { data: { error: { code: 4 } } },
+      } as any)
+    ).toBe(true);
+    expect(isRetryableError(new Error('boom') as any)).toBe(false);
+  });
+
+  it('should back off retried requests with jitter', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(10000);
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+
+    const { client } = setup({ retryTimes: 2 });
+
+    mocked(client.sendBatch).mockResolvedValue([
+      {
+        code: 400,
+        body: {
+          error: {
+            type: 'OAuthException',
+            message: '(#4) Application request limit reached',
+            code: 4,
+          },
+        },
+      },
+    ]);
+
+    queue
+      .push(MessengerBatch.sendText('1412611362105802', 'hello'))
+      .catch(() => undefined);
+
+    await queue.flush();
+
+    // 1000ms, with the jitter in the upper half
+    expect(queue.queue[0].retryAt).toEqual(10750);
+
+    await queue.flush();
+
+    expect(client.sendBatch).toHaveBeenCalledTimes(1);
+
+    now.mockReturnValue(10750);
+    await queue.flush();
+
+    expect(client.sendBatch).toHaveBeenCalledTimes(2);
+    // doubled to 2000ms
+    expect(queue.queue[0].retryAt).toEqual(12250);
+  });
+});
+
+describe('concurrency', () => {
+  function pushBatch(): void {
+    for (let i = 0; i < 50; i++) {
+      queue.push(MessengerBatch.sendText('1412611362105802', 'hello'));
+    }
+  }
+
+  it('should wait for the sending batch when the concurrency is reached', async () => {
+    const { client } = setup();
+
+    let resolveBatch: (responses: any[]) => void = () => undefined;
+    const responses = Array(50).fill({ code: 200, body: { data: [] } });
+
+    mocked(client.sendBatch)
+      .mockReturnValueOnce(
+        new Promise((resolve) => {
+          resolveBatch = resolve;
+        })
+      )
+      .mockResolvedValue(responses);
+
+    pushBatch();
+    pushBatch();
+
+    expect(client.sendBatch).toHaveBeenCalledTimes(1);
+    expect(queue.queue).toHaveLength(50);
+
+    resolveBatch(responses);
+    await queue.flush();
+
+    expect(client.sendBatch).toHaveBeenCalledTimes(2);
+    expect(queue.queue).toHaveLength(0);
+  });
+
+  it('should share a single waiting flush when the concurrency is reached', async () => {
+    const { client } = setup();
+
+    let resolveBatch: (responses: any[]) => void = () => undefined;
+
+    mocked(client.sendBatch)
+      .mockReturnValueOnce(
+        new Promise((resolve) => {
+          resolveBatch = resolve;
+        })
+      )
+      .mockResolvedValue([{ code: 200, body: { data: [] } }]);
+
+    pushBatch();
+    queue.push(MessengerBatch.sendText('1412611362105802', 'hello'));
+
+    const flushes = [queue.flush(), queue.flush(), queue.flush()];
+
+    resolveBatch(Array(50).fill({ code: 200, body: { data: [] } }));
+    await Promise.all(flushes);
+
+    expect(client.sendBatch).toHaveBeenCalledTimes(2);
+    expect(queue.queue).toHaveLength(0);
+
+    // the slot is released after the waiting flush
+    await queue.flush();
+    queue.push(MessengerBatch.sendText('1412611362105802', 'world'));
+    await queue.flush();
+
+    expect(client.sendBatch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should support concurrency option', () => {
+    const { client } = setup({ concurrency: 2 });
+
+    mocked(client.sendBatch).mockReturnValue(new Promise(() => undefined));
+
+    pushBatch();
+    pushBatch();
+
+    expect(client.sendBatch).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('usage', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should resolve the delivered requests even if the usage headers are invalid', async () => {
+    const { client } = setup();
+
+    mocked(client.sendBatch).mockResolvedValue([
+      {
+        code: 200,
+        headers: [{ name: 'X-App-Usage', value: 'null' }],
+        body: { data: [] },
+      },
+      {
+        code: 200,
+        headers: [{ name: 'X-Business-Use-Case-Usage', value: '{' }],
+        body: { data: [] },
+      },
+      { code: 200, headers: 'invalid', body: { data: [] } },
+    ]);
+
+    const promises = [1, 2, 3].map((i) =>
+      queue.push(MessengerBatch.sendText('1412611362105802', `${i}`))
+    );
+
+    await queue.flush();
+
+    await expect(Promise.all(promises)).resolves.toEqual([
+      { data: [] },
+      { data: [] },
+      { data: [] },
+    ]);
+    expect(setTimeout).toHaveBeenLastCalledWith(expect.any(Function), 1000);
+  });
+
+  it('should slow down when the app usage is high', async () => {
+    const { client } = setup();
+
+    mocked(client.sendBatch).mockResolvedValue([
+      {
+        code: 200,
+        headers: [
+          {
+            name: 'X-App-Usage',
+            value: '{"call_count":70,"total_time":25,"total_cputime":25}',
+          },
+        ],
+        body: { data: [] },
+      },
+    ]);
+
+    queue.push(MessengerBatch.sendText('1412611362105802', 'hello'));
+
+    await queue.flush();
+
+    expect(setTimeout).toHaveBeenLastCalledWith(expect.any(Function), 1000);
+
+    await queue.flush();
+
+    expect(setTimeout).toHaveBeenLastCalledWith(expect.any(Function), 4000);
+  });
+
+  it('should keep slowing down after a failed batch', async () => {
+    const { client } = setup();
+
+    mocked(client.sendBatch)
+      .mockResolvedValueOnce([
+        {
+          code: 200,
+          headers: [
+            {
+              name: 'X-App-Usage',
+              value: '{"call_count":70,"total_time":25,"total_cputime":25}',
+            },
+          ],
+          body: { data: [] },
+        },
+      ])
+      .mockRejectedValueOnce(new Error('Request failed with status code 500'));
+
+    queue.push(MessengerBatch.sendText('1412611362105802', 'hello'));
+    await queue.flush();
+
+    const failed = queue.push(
+      MessengerBatch.sendText('1412611362105802', 'world')
+    );
+    await queue.flush();
+
+    await expect(failed).rejects.toThrow('Request failed with status code 500');
+
+    await queue.flush();
+
+    expect(setTimeout).toHaveBeenLastCalledWith(expect.any(Function), 4000);
+  });
+
+  it('should not send batches until the business use case regains access', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(10000);
+    const { client } = setup();
+
+    mocked(client.sendBatch).mockResolvedValue([
+      {
+        code: 200,
+        headers: [
+          {
+            name: 'X-Business-Use-Case-Usage',
+            value: JSON.stringify({
+              '112233445566778': [
+                {
+                  type: 'messenger',
+                  call_count: 100,
+                  total_cputime: 30,
+                  total_time: 40,
+                  estimated_time_to_regain_access: 2,
+                },
+              ],
+            }),
+          },
+        ],
+        body: { data: [] },
+      },
+    ]);
+
+    queue.push(MessengerBatch.sendText('1412611362105802', 'hello'));
+    await queue.flush();
+
+    queue.push(MessengerBatch.sendText('1412611362105802', 'world'));
+    await queue.flush();
+
+    expect(client.sendBatch).toHaveBeenCalledTimes(1);
+    expect(setTimeout).toHaveBeenLastCalledWith(expect.any(Function), 120000);
+
+    now.mockReturnValue(130000);
+    await queue.flush();
+
+    expect(client.sendBatch).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,85 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+
+import FileQueueStorage from '../FileQueueStorage';
+
+const request = {
+  method: 'POST',
+  relativeUrl: 'me/messages',
+  body: {
+    messagingType: 'UPDATE',
+    recipient: { id: '1412611362105802' },
+    message: { text: 'Hello' },
+  },
+};
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'facebook-batch-'));
+});
+
+afterEach(() => {
+  fs.rmdirSync(dir, { recursive: true });
+});
+
+it('should return no items when the file does not exist', async () => {
+  const storage = new FileQueueStorage(path.join(dir, 'queue.json'));
+
+  expect(await storage.getAll()).toEqual([]);
+});
+
+it('should save items to the file', async () => {
+  const filePath = path.join(dir, 'queue.json');
+  const storage = new FileQueueStorage(filePath);
+
+  await storage.set({ id: 'ID_1', request, retry: 0 });
+  await storage.set({ id: 'ID_2', request, retry: 0 });
+  await storage.set({ id: 'ID_1', request, retry: 1 });
+  await storage.delete(['ID_2']);
+
+  expect(await new FileQueueStorage(filePath).getAll()).toEqual([
+    { id: 'ID_1', request, retry: 1 },
+  ]);
+});
+
+it('should restore buffers in attached files', async () => {
+  const filePath = path.join(dir, 'queue.json');
+  const storage = new FileQueueStorage(filePath);
+  const attachedFiles = [
+    {
+      data: Buffer.from('image'),
+      filename: 'image.jpg',
+    },
+  ];
+
+  await storage.set({
+    id: 'ID_1',
+    request: { ...request, attachedFiles },
+    retry: 0,
+  });
+
+  const [item] = await new FileQueueStorage(filePath).getAll();
+
+  expect(Buffer.isBuffer(item.request.attachedFiles?.[0].data)).toBe(true);
+  expect(item.request.attachedFiles).toEqual(attachedFiles);
+});
+
+it('should reject attached files which are not buffers', async () => {
+  const storage = new FileQueueStorage(path.join(dir, 'queue.json'));
+
+  await expect(
+    storage.set({
+      id: 'ID_1',
+      request: {
+        ...request,
+        attachedFiles: [{ data: Readable.from(['image']) }],
+      },
+      retry: 0,
+    })
+  ).rejects.toThrow(
+    'FileQueueStorage: only buffers in `attachedFiles` can be saved (request ID_1)'
+  );
+});
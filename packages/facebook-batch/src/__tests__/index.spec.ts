@@ -1,4 +1,11 @@
-import { BatchRequestError, FacebookBatchQueue, isError613 } from '..';
+import {
+  BatchRequestError,
+  FacebookBatchQueue,
+  FileQueueStorage,
+  MemoryQueueStorage,
+  QueueClosedError,
+  isError613,
+} from '..';
 
 it('FacebookBatchQueue should be exported', () => {
   expect(FacebookBatchQueue).toBeDefined();
@@ -8,6 +15,15 @@ it('BatchRequestError should be exported', () => {
   expect(BatchRequestError).toBeDefined();
 });
 
+it('QueueClosedError should be exported', () => {
+  expect(QueueClosedError).toBeDefined();
+});
+
+it('queue storages should be exported', () => {
+  expect(FileQueueStorage).toBeDefined();
+  expect(MemoryQueueStorage).toBeDefined();
+});
+
 it('error predicate should be exported', () => {
   expect(isError613).toBeDefined();
 });
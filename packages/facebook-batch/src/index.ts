@@ -1,5 +1,13 @@
 export { default as BatchRequestError } from './BatchRequestError';
 export { default as FacebookBatchQueue } from './FacebookBatchQueue';
-export { getErrorMessage, isError613 } from './utils';
+export { default as FileQueueStorage } from './FileQueueStorage';
+export { default as MemoryQueueStorage } from './MemoryQueueStorage';
+export { default as QueueClosedError } from './QueueClosedError';
+export {
+  getErrorCode,
+  getErrorMessage,
+  isError613,
+  isRetryableError,
+} from './utils';
 
 export * from './types';
@@ -1,4 +1,5 @@
-import { JsonObject } from 'type-fest';
+import { FacebookTypes } from 'messaging-api-messenger';
+import { JsonObject, JsonValue } from 'type-fest';
 
 export type BatchRequestOptions = {
   name?: string;
@@ -11,14 +12,28 @@ export type BatchRequest = {
   name?: string;
   body?: JsonObject;
   responseAccessPath?: string;
+
+  /**
+   * Files uploaded along with the batch in the multipart request body. Use buffers instead of streams if the request may be retried, since a stream can only be read once.
+   */
+  attachedFiles?: FacebookTypes.BatchFile[];
 } & BatchRequestOptions;
 
 export type QueueItem = {
+  /**
+   * The ID of the request in the queue storage.
+   */
+  id: string;
   request: BatchRequest;
   resolve: (value?: unknown) => void;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   reject: (reason?: any) => void;
   retry?: number;
+
+  /**
+   * The time in milliseconds before which the retried request is not sent.
+   */
+  retryAt?: number;
 };
 
 export type BatchResponse<T extends JsonObject = JsonObject> = {
@@ -35,14 +50,113 @@ export type BatchErrorResponse = BatchResponse<{
   };
 }>;
 
+/**
+ * The usage in the `X-App-Usage` header, or in each item of the `X-Business-Use-Case-Usage` header. Usages are percentages of the rate limits.
+ */
+export type UsageHeader = {
+  call_count?: number;
+  total_cputime?: number;
+  total_time?: number;
+
+  /**
+   * The time in minutes until the calls are no longer throttled. Only in the `X-Business-Use-Case-Usage` header.
+   */
+  estimated_time_to_regain_access?: number;
+};
+
 export type BatchRequestErrorInfo = {
   request: BatchRequest;
   response: BatchErrorResponse;
 };
 
+/**
+ * A pending request saved in the queue storage.
+ */
+export type StoredQueueItem = {
+  id: string;
+  request: BatchRequest;
+  retry: number;
+};
+
+/**
+ * The storage of pending requests, which keeps them across restarts. Items must be returned in the order they were first set.
+ */
+export type QueueStorage = {
+  getAll(): StoredQueueItem[] | Promise<StoredQueueItem[]>;
+  set(item: StoredQueueItem): void | Promise<void>;
+  delete(ids: string[]): void | Promise<void>;
+};
+
+/**
+ * The result of a request restored from the queue storage, whose promise no longer exists.
+ */
+export type RestoredResult = {
+  id: string;
+  request: BatchRequest;
+
+  /**
+   * The response body when the request succeeds.
+   */
+  body?: JsonValue;
+
+  /**
+   * The error when the request fails.
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  error?: any;
+};
+
 export type BatchConfig = {
   delay?: number;
   shouldRetry?: (err: BatchRequestErrorInfo) => boolean;
   retryTimes?: number;
+
+  /**
+   * The delay in milliseconds before the first retry of a request. It doubles on every retry, with random jitter. Defaults to `1000`.
+   */
+  retryDelay?: number;
+
+  /**
+   * The maximum delay in milliseconds before a retry. Defaults to `30000`.
+   */
+  maxRetryDelay?: number;
+
+  /**
+   * The maximum number of batches sent at the same time. Defaults to `1`.
+   */
+  concurrency?: number;
+
+  /**
+   * Whether to request the response headers. The queue slows down when the `X-App-Usage` or `X-Business-Use-Case-Usage` header shows the usage is high. Defaults to `true`.
+   */
   includeHeaders?: boolean;
+
+  /**
+   * The storage of pending requests. Defaults to `MemoryQueueStorage`, which loses the requests when the process exits. Use `FileQueueStorage` or your own storage to re-send them after restarts.
+   *
+   * A request which fails to be saved is not sent, and its promise is rejected with the storage error. Streams in `attachedFiles` can't be saved by `FileQueueStorage`, so use buffers instead.
+   */
+  storage?: QueueStorage;
+
+  /**
+   * The callback to be called with the results of the requests restored from the storage.
+   */
+  onRestoredResult?: (result: RestoredResult) => void;
+
+  /**
+   * The callback to be called when the storage fails to restore, update or delete requests. Defaults to logging the error with the `facebook-batch:storage` [debug](https://github.com/visionmedia/debug) namespace.
+   */
+  onStorageError?: (err: Error) => void;
+};
+
+export type CloseOptions = {
+  /**
+   * Whether to flush the queued requests and wait for them to settle. Defaults to `true`. When `false`, the queued requests are rejected right away.
+   */
+  drain?: boolean;
+
+  /**
+   * The time in milliseconds to wait for the requests to settle. The requests which are not settled by then are rejected with `QueueClosedError`.
+   */
+  timeout?: number;
 };
@@ -1,4 +1,4 @@
-import { BatchRequestErrorInfo } from './types';
+import { BatchRequestErrorInfo, BatchResponse, UsageHeader } from './types';
 
 export function getErrorMessage(errInfo: BatchRequestErrorInfo): string {
   try {
@@ -13,3 +13,97 @@ export function isError613(errInfo: BatchRequestErrorInfo): boolean {
   const message = getErrorMessage(errInfo);
   return /#613/.test(message);
 }
+
+/**
+ * Graph API error codes which indicate the request has been rejected without being processed, so it's safe to retry.
+ *
+ * - 2: Service temporarily unavailable
+ * - 4: Application request limit reached
+ * - 613: Calls to this API have exceeded the rate limit
+ *
+ * @see https://developers.facebook.com/docs/graph-api/overview/rate-limiting
+ */
+const RETRYABLE_ERROR_CODES = [2, 4, 613];
+
+export function getErrorCode(
+  errInfo: BatchRequestErrorInfo
+): number | undefined {
+  return (
+    errInfo.response?.body?.error?.code ??
+    // the error of the whole batch request is an axios error
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (errInfo.response as any)?.data?.error?.code
+  );
+}
+
+export function isRetryableError(errInfo: BatchRequestErrorInfo): boolean {
+  const code = getErrorCode(errInfo);
+
+  return (
+    (code !== undefined && RETRYABLE_ERROR_CODES.includes(code)) ||
+    isError613(errInfo)
+  );
+}
+
+// returns an empty list when the header isn't valid JSON
+function parseUsageHeader(value: string): UsageHeader[] {
+  try {
+    const usage = JSON.parse(value);
+
+    // `X-Business-Use-Case-Usage` is a map from business IDs to lists of usages
+    return typeof usage.call_count === 'number'
+      ? [usage]
+      : Object.values(usage)
+          .filter(Array.isArray)
+          .reduce(
+            (usages: UsageHeader[], businessUsages) =>
+              usages.concat(businessUsages),
+            []
+          );
+  } catch (_) {
+    return [];
+  }
+}
+
+/**
+ * Reads the rate limit usage from the `X-App-Usage` and `X-Business-Use-Case-Usage` headers of the batch responses.
+ *
+ * @returns The highest usage percentage, and the time in milliseconds until the calls are no longer throttled.
+ *
+ * @see https://developers.facebook.com/docs/graph-api/overview/rate-limiting
+ */
+export function getUsage(
+  responses: BatchResponse[]
+): { percentage: number; timeToRegainAccess: number } {
+  let percentage = 0;
+  let timeToRegainAccess = 0;
+
+  responses.forEach((response) => {
+    const headers = response && response.headers;
+
+    if (!Array.isArray(headers)) return;
+
+    headers
+      .filter(({ name }) =>
+        ['x-app-usage', 'x-business-use-case-usage'].includes(
+          name.toLowerCase()
+        )
+      )
+      .forEach(({ value }) => {
+        parseUsageHeader(value).forEach((usage) => {
+          percentage = Math.max(
+            percentage,
+            usage.call_count ?? 0,
+            usage.total_cputime ?? 0,
+            usage.total_time ?? 0
+          );
+          timeToRegainAccess = Math.max(
+            timeToRegainAccess,
+            (usage.estimated_time_to_regain_access ?? 0) * 60 * 1000
+          );
+        });
+      });
+  });
+
+  return { percentage, timeToRegainAccess };
+}
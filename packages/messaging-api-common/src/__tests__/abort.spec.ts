@@ -0,0 +1,170 @@
+import { EventEmitter } from 'events';
+
+import axios from 'axios';
+
+import {
+  ABORTED_MESSAGE,
+  createRequestConfig,
+  withRequestOptions,
+} from '../abort';
+import { MockServer } from '../mockServer';
+
+class FakeAbortController {
+  private emitter = new EventEmitter();
+
+  readonly signal = {
+    aborted: false,
+    addEventListener: (type: 'abort', listener: () => void) =>
+      this.emitter.on(type, listener),
+    removeEventListener: (type: 'abort', listener: () => void) =>
+      this.emitter.removeListener(type, listener),
+  };
+
+  abort(): void {
+    this.signal.aborted = true;
+    this.emitter.emit('abort');
+  }
+
+  get listenerCount(): number {
+    return this.emitter.listenerCount('abort');
+  }
+}
+
+let server: MockServer;
+let origin: string;
+
+beforeEach(async () => {
+  jest.useRealTimers();
+
+  server = new MockServer('example');
+  server.route('GET', '/fast', () => ({ body: { ok: true } }));
+  server.route(
+    'GET',
+    '/slow',
+    () =>
+      new Promise((resolve) =>
+        setTimeout(() => resolve({ body: { ok: true } }), 500)
+      )
+  );
+  origin = await server.listen();
+});
+
+afterEach(async () => {
+  await server.close();
+});
+
+it('should return an empty config without options', () => {
+  expect(createRequestConfig()).toEqual({});
+  expect(createRequestConfig({ timeout: 1000 })).toEqual({ timeout: 1000 });
+});
+
+it('should cancel requests when the signal is aborted', async () => {
+  const controller = new FakeAbortController();
+  const config = createRequestConfig({ signal: controller.signal });
+
+  const promise = axios.get(`${origin}/slow`, config);
+  setTimeout(() => controller.abort(), 50);
+
+  const error = await promise.catch((err) => err);
+
+  expect(axios.isCancel(error)).toBe(true);
+  expect(error.message).toEqual(ABORTED_MESSAGE);
+  expect(controller.listenerCount).toEqual(0);
+});
+
+it('should cancel requests immediately if the signal has been aborted', async () => {
+  const controller = new FakeAbortController();
+  controller.abort();
+
+  const config = createRequestConfig({ signal: controller.signal });
+
+  await expect(axios.get(`${origin}/fast`, config)).rejects.toEqual(
+    new axios.Cancel(ABORTED_MESSAGE)
+  );
+  expect(server.requests).toHaveLength(0);
+});
+
+it('should share one cancel token among requests with the same signal', async () => {
+  const controller = new FakeAbortController();
+
+  await expect(
+    axios.get(
+      `${origin}/fast`,
+      createRequestConfig({ signal: controller.signal })
+    )
+  ).resolves.toMatchObject({ data: { ok: true } });
+  await expect(
+    axios.get(
+      `${origin}/fast`,
+      createRequestConfig({ signal: controller.signal })
+    )
+  ).resolves.toMatchObject({ data: { ok: true } });
+
+  expect(controller.listenerCount).toEqual(1);
+
+  controller.abort();
+
+  await expect(
+    axios.get(
+      `${origin}/fast`,
+      createRequestConfig({ signal: controller.signal })
+    )
+  ).rejects.toEqual(new axios.Cancel(ABORTED_MESSAGE));
+  expect(server.requests).toHaveLength(2);
+});
+
+it('should time out requests', async () => {
+  await expect(
+    axios.get(`${origin}/slow`, createRequestConfig({ timeout: 50 }))
+  ).rejects.toThrow('timeout of 50ms exceeded');
+});
+
+describe('#withRequestOptions', () => {
+  function createClient() {
+    return {
+      axios: axios.create({ baseURL: origin }),
+      dataAxios: axios.create({ baseURL: origin }),
+      getFast(): Promise<unknown> {
+        return this.axios.get('/fast').then((res) => res.data);
+      },
+      getSlow(): Promise<unknown> {
+        return this.dataAxios.get('/slow').then((res) => res.data);
+      },
+      getSlowWithTimeout(timeout: number): Promise<unknown> {
+        return this.axios.get('/slow', { timeout }).then((res) => res.data);
+      },
+    };
+  }
+
+  it('should apply the options to every axios instance of the client', async () => {
+    const client = createClient();
+
+    await expect(
+      withRequestOptions(client, { timeout: 50 }).getSlow()
+    ).rejects.toThrow('timeout of 50ms exceeded');
+    await expect(
+      withRequestOptions(client, { timeout: 50 }).getFast()
+    ).resolves.toEqual({ ok: true });
+    await expect(client.getSlow()).resolves.toEqual({ ok: true });
+  });
+
+  it('should cancel the requests of the client when the signal is aborted', async () => {
+    const controller = new FakeAbortController();
+    const client = withRequestOptions(createClient(), {
+      signal: controller.signal,
+    });
+
+    const promise = client.getSlow();
+    setTimeout(() => controller.abort(), 50);
+
+    await expect(promise).rejects.toEqual(new axios.Cancel(ABORTED_MESSAGE));
+  });
+
+  it('should let the config of each request take precedence', async () => {
+    const client = withRequestOptions(createClient(), { timeout: 50 });
+
+    await expect(client.getSlowWithTimeout(5000)).resolves.toEqual({
+      ok: true,
+    });
+  });
+});
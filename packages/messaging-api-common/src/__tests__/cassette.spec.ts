@@ -0,0 +1,198 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import axios, { AxiosAdapter } from 'axios';
+
+import { CassetteOptions, createCassetteAdapter } from '../cassette';
+import { createRedactor } from '../redact';
+import { createRequestInterceptor } from '..';
+
+function createClient(cassette: CassetteOptions, adapter?: AxiosAdapter) {
+  const client = axios.create({
+    baseURL: 'https://example.com/',
+    headers: { Authorization: 'Bearer TOKEN' },
+  });
+  client.interceptors.request.use(
+    createRequestInterceptor({
+      onRequest: jest.fn(),
+      redact: createRedactor({ policy: { keys: ['access_token'] } }),
+    })
+  );
+  client.defaults.adapter = createCassetteAdapter({ cassette, adapter });
+  return client;
+}
+
+function readCassette(cassettePath: string) {
+  return JSON.parse(fs.readFileSync(cassettePath, 'utf8'));
+}
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cassette-'));
+});
+
+afterEach(() => {
+  fs.rmdirSync(dir, { recursive: true });
+});
+
+describe('record', () => {
+  it('should record interactions with secrets redacted', async () => {
+    const cassettePath = path.join(dir, 'nested', 'record.json');
+    const adapter = jest.fn(async (config) => ({
+      status: 200,
+      statusText: 'OK',
+      headers: { 'content-type': 'application/json' },
+      data: '{"access_token":"NEW_TOKEN","ok":true}',
+      config,
+      request: {},
+    }));
+    const client = createClient({ path: cassettePath }, adapter);
+
+    const res = await client.post('/token?access_token=TOKEN', { x: 1 });
+
+    expect(adapter).toBeCalledTimes(1);
+    expect(res.data).toEqual({ access_token: 'NEW_TOKEN', ok: true });
+    expect(readCassette(cassettePath)).toEqual({
+      interactions: [
+        {
+          request: {
+            method: 'post',
+            url: 'https://example.com/token?access_token=[REDACTED]',
+            headers: expect.objectContaining({ Authorization: '[REDACTED]' }),
+            body: { x: 1 },
+          },
+          response: {
+            status: 200,
+            statusText: 'OK',
+            headers: { 'content-type': 'application/json' },
+            body: { access_token: '[REDACTED]', ok: true },
+          },
+        },
+      ],
+    });
+  });
+
+  it('should record failed responses', async () => {
+    const cassettePath = path.join(dir, 'error.json');
+    const adapter = jest.fn(async (config) => {
+      const error: any = new Error('Request failed with status code 400');
+      error.response = {
+        status: 400,
+        statusText: 'Bad Request',
+        headers: {},
+        data: '{"error":"boom"}',
+        config,
+      };
+      throw error;
+    });
+    const client = createClient({ path: cassettePath }, adapter);
+
+    await expect(client.get('/resource')).rejects.toThrow(
+      'Request failed with status code 400'
+    );
+
+    expect(readCassette(cassettePath).interactions[0].response).toEqual({
+      status: 400,
+      statusText: 'Bad Request',
+      headers: {},
+      body: { error: 'boom' },
+    });
+  });
+});
+
+describe('replay', () => {
+  function writeCassette(name: string): string {
+    const cassettePath = path.join(dir, name);
+    fs.writeFileSync(
+      cassettePath,
+      JSON.stringify({
+        interactions: [
+          {
+            request: {
+              method: 'post',
+              url: 'https://example.com/send?access_token=[REDACTED]',
+              headers: {},
+              body: { text: 'first' },
+            },
+            response: {
+              status: 200,
+              statusText: 'OK',
+              headers: {},
+              body: { id: 1 },
+            },
+          },
+          {
+            request: {
+              method: 'post',
+              url: 'https://example.com/send?access_token=[REDACTED]',
+              headers: {},
+              body: { text: 'second' },
+            },
+            response: {
+              status: 400,
+              statusText: 'Bad Request',
+              headers: {},
+              body: { error: 'boom' },
+            },
+          },
+        ],
+      })
+    );
+    return cassettePath;
+  }
+
+  it('should replay matched interactions once in strict mode', async () => {
+    const adapter = jest.fn();
+    const client = createClient(
+      { path: writeCassette('strict.json') },
+      adapter
+    );
+
+    const res = await client.post('/send?access_token=ANOTHER_TOKEN', {
+      text: 'first',
+    });
+
+    expect(res.data).toEqual({ id: 1 });
+    await expect(
+      client.post('/send?access_token=TOKEN', { text: 'second' })
+    ).rejects.toThrow('Request failed with status code 400');
+    await expect(
+      client.post('/send?access_token=TOKEN', { text: 'first' })
+    ).rejects.toThrow('no interaction matches post');
+    expect(adapter).not.toBeCalled();
+  });
+
+  it('should match method and path only in loose mode', async () => {
+    const client = createClient({
+      path: writeCassette('loose.json'),
+      mode: 'replay',
+      match: 'loose',
+    });
+
+    const res1 = await client.post('/send', { text: 'anything' });
+    await expect(client.post('/send', {})).rejects.toThrow(
+      'Request failed with status code 400'
+    );
+    await expect(client.post('/send', {})).rejects.toThrow(
+      'Request failed with status code 400'
+    );
+
+    expect(res1.data).toEqual({ id: 1 });
+    await expect(client.get('/send')).rejects.toThrow(
+      'no interaction matches get'
+    );
+  });
+
+  it('should support custom match function', async () => {
+    const client = createClient({
+      path: writeCassette('custom.json'),
+      match: (recorded, request) => recorded.body.text === request.body.message,
+    });
+
+    const res = await client.put('/anywhere', { message: 'first' });
+
+    expect(res.data).toEqual({ id: 1 });
+  });
+});
@@ -0,0 +1,131 @@
+import MockAdapter from 'axios-mock-adapter';
+import axios from 'axios';
+
+import {
+  createRedactor,
+  createRequestInterceptor,
+  createResponseInterceptor,
+} from '..';
+
+function createMock(options: Parameters<typeof createResponseInterceptor>[0]) {
+  const client = axios.create({ baseURL: 'https://example.com/' });
+  client.interceptors.request.use(createRequestInterceptor());
+  const { onFulfilled, onRejected } = createResponseInterceptor(options);
+  client.interceptors.response.use(onFulfilled, onRejected);
+  const mock = new MockAdapter(client);
+  return { client, mock };
+}
+
+let now: number;
+
+beforeEach(() => {
+  now = 1000;
+  jest.spyOn(Date, 'now').mockImplementation(() => now);
+});
+
+describe('#createResponseInterceptor', () => {
+  it('should call onResponse with the response', async () => {
+    const onResponse = jest.fn();
+    const { client, mock } = createMock({
+      onResponse,
+      requestIdHeader: 'x-request-id',
+    });
+
+    mock.onPost('/resource').reply(() => {
+      now += 150;
+      return [200, { ok: true }, { 'x-request-id': 'REQUEST_ID' }];
+    });
+
+    await client.post('/resource', { foo: 'bar' });
+
+    expect(onResponse).toBeCalledWith({
+      method: 'post',
+      url: 'https://example.com/resource',
+      status: 200,
+      headers: { 'x-request-id': 'REQUEST_ID' },
+      requestId: 'REQUEST_ID',
+      duration: 150,
+      body: { ok: true },
+    });
+  });
+
+  it('should call onError with the failed response and rethrow', async () => {
+    const onError = jest.fn();
+    const { client, mock } = createMock({
+      onError,
+      requestIdHeader: 'x-request-id',
+    });
+
+    mock
+      .onGet('/resource')
+      .reply(400, { message: 'Bad Request' }, { 'x-request-id': 'REQUEST_ID' });
+
+    await expect(client.get('/resource')).rejects.toThrow(
+      'Request failed with status code 400'
+    );
+
+    expect(onError).toBeCalledWith({
+      method: 'get',
+      url: 'https://example.com/resource',
+      status: 400,
+      headers: { 'x-request-id': 'REQUEST_ID' },
+      requestId: 'REQUEST_ID',
+      duration: 0,
+      body: { message: 'Bad Request' },
+      error: expect.any(Error),
+    });
+  });
+
+  it('should call onError without status when there is no response', async () => {
+    const onError = jest.fn();
+    const { client, mock } = createMock({ onError });
+
+    mock.onGet('/resource').networkError();
+
+    await expect(client.get('/resource')).rejects.toThrow('Network Error');
+
+    expect(onError).toBeCalledWith(
+      expect.objectContaining({
+        method: 'get',
+        url: 'https://example.com/resource',
+        status: undefined,
+        requestId: undefined,
+        error: expect.any(Error),
+      })
+    );
+  });
+});
+
+describe('#createRequestInterceptor', () => {
+  it('should redact secrets before calling onRequest', async () => {
+    const onRequest = jest.fn();
+    const client = axios.create({
+      baseURL: 'https://example.com/',
+      headers: { Authorization: 'Bearer TOKEN' },
+    });
+    client.interceptors.request.use(
+      createRequestInterceptor({
+        onRequest,
+        redact: createRedactor({ policy: { keys: ['access_token'] } }),
+      })
+    );
+    const mock = new MockAdapter(client);
+
+    mock.onPost().reply(200);
+
+    await client.post('/resource?access_token=TOKEN', {
+      access_token: 'TOKEN',
+    });
+
+    expect(onRequest).toBeCalledWith({
+      method: 'post',
+      url: 'https://example.com/resource?access_token=[REDACTED]',
+      headers: expect.objectContaining({ Authorization: '[REDACTED]' }),
+      body: { access_token: '[REDACTED]' },
+    });
+    expect(mock.history.post[0].headers.Authorization).toEqual('Bearer TOKEN');
+    expect(JSON.parse(mock.history.post[0].data)).toEqual({
+      access_token: 'TOKEN',
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import MockAdapter from 'axios-mock-adapter';
+import axios from 'axios';
+
+import {
+  MemoryRateLimitStore,
+  RateLimitOptions,
+  RateLimitPolicy,
+  RateLimitStore,
+  createRateLimitInterceptor,
+  createRateLimitNamespace,
+} from '../rateLimit';
+
+function immediateTimeout(callback: () => void): number {
+  callback();
+  return 0;
+}
+
+function createMock(rateLimit: RateLimitOptions, policy?: RateLimitPolicy) {
+  const client = axios.create();
+  client.interceptors.request.use(
+    createRateLimitInterceptor({ namespace: 'test', rateLimit, policy })
+  );
+  const mock = new MockAdapter(client);
+  mock.onAny().reply(200);
+  return { client, mock };
+}
+
+let now: number;
+
+beforeEach(() => {
+  now = 1000000;
+  jest.spyOn(Date, 'now').mockImplementation(() => now);
+  // resolve delays immediately and record them
+  jest.spyOn(global, 'setTimeout').mockImplementation(immediateTimeout as any);
+});
+
+describe('MemoryRateLimitStore', () => {
+  it('should allow bursts up to the capacity', () => {
+    const store = new MemoryRateLimitStore();
+    const bucket = { capacity: 2, interval: 1000 };
+
+    expect(store.consume('key', bucket)).toEqual(0);
+    expect(store.consume('key', bucket)).toEqual(0);
+    expect(store.consume('key', bucket)).toEqual(500);
+    expect(store.consume('key', bucket)).toEqual(1000);
+  });
+
+  it('should refill tokens over time', () => {
+    const store = new MemoryRateLimitStore();
+    const bucket = { capacity: 1, interval: 1000 };
+
+    expect(store.consume('key', bucket)).toEqual(0);
+    expect(store.consume('key', bucket)).toEqual(1000);
+
+    now += 2000;
+
+    expect(store.consume('key', bucket)).toEqual(0);
+  });
+
+  it('should separate buckets by key', () => {
+    const store = new MemoryRateLimitStore();
+    const bucket = { capacity: 1, interval: 1000 };
+
+    expect(store.consume('a', bucket)).toEqual(0);
+    expect(store.consume('b', bucket)).toEqual(0);
+  });
+});
+
+describe('#createRateLimitInterceptor', () => {
+  it('should delay requests exceeding the global limit', async () => {
+    const { client } = createMock({
+      global: { capacity: 1, interval: 1000 },
+      store: new MemoryRateLimitStore(),
+    });
+
+    await client.get('/a');
+    expect(setTimeout).not.toBeCalled();
+
+    await client.get('/b');
+    expect(setTimeout).toBeCalledWith(expect.any(Function), 1000);
+  });
+
+  it('should limit each recipient with the platform policy', async () => {
+    const { client } = createMock(
+      { store: new MemoryRateLimitStore() },
+      {
+        perRecipient: { capacity: 1, interval: 1000 },
+        getRecipient: (config) => config.data && config.data.to,
+      }
+    );
+
+    await client.post('/send', { to: 'user-1' });
+    await client.post('/send', { to: 'user-2' });
+    expect(setTimeout).not.toBeCalled();
+
+    await client.post('/send', { to: 'user-1' });
+    expect(setTimeout).toBeCalledWith(expect.any(Function), 1000);
+  });
+
+  it('should allow to override and disable the platform defaults', async () => {
+    const { client } = createMock(
+      {
+        global: false,
+        rules: [
+          {
+            capacity: 2,
+            interval: 1000,
+            key: (config) =>
+              config.url === '/limited' ? 'limited' : undefined,
+          },
+        ],
+        store: new MemoryRateLimitStore(),
+      },
+      { global: { capacity: 1, interval: 1000 } }
+    );
+
+    await client.get('/a');
+    await client.get('/a');
+    await client.get('/limited');
+    await client.get('/limited');
+    expect(setTimeout).not.toBeCalled();
+
+    await client.get('/limited');
+    expect(setTimeout).toBeCalledWith(expect.any(Function), 500);
+  });
+
+  it('should coordinate clients through a shared store', async () => {
+    // stands in for a store shared across processes, e.g. Redis
+    const sharedStore = new MemoryRateLimitStore();
+    const store: RateLimitStore = {
+      consume: jest.fn((key, bucket) =>
+        Promise.resolve(sharedStore.consume(key, bucket))
+      ),
+    };
+
+    const { client: client1 } = createMock({
+      global: { capacity: 1, interval: 1000 },
+      store,
+    });
+    const { client: client2 } = createMock({
+      global: { capacity: 1, interval: 1000 },
+      store,
+    });
+
+    await client1.get('/a');
+    await client2.get('/a');
+
+    expect(store.consume).toBeCalledWith('test:global', {
+      capacity: 1,
+      interval: 1000,
+    });
+    expect(setTimeout).toBeCalledWith(expect.any(Function), 1000);
+  });
+});
+
+describe('#createRateLimitNamespace', () => {
+  it('should not contain the token', () => {
+    const namespace = createRateLimitNamespace('telegram', 'SECRET_TOKEN');
+
+    expect(namespace).toMatch(/^telegram:[0-9a-f]{16}$/);
+    expect(namespace).not.toContain('SECRET_TOKEN');
+    expect(createRateLimitNamespace('telegram', 'SECRET_TOKEN')).toEqual(
+      namespace
+    );
+  });
+});
@@ -0,0 +1,64 @@
+import { createRedactor } from '../redact';
+
+describe('#createRedactor', () => {
+  it('should redact query parameters in urls and form bodies', () => {
+    const redact = createRedactor({
+      policy: { keys: ['access_token', 'appsecret_proof'] },
+    });
+
+    expect(
+      redact(
+        'https://graph.facebook.com/v6.0/me?access_token=TOKEN&appsecret_proof=PROOF&fields=id'
+      )
+    ).toEqual(
+      'https://graph.facebook.com/v6.0/me?access_token=[REDACTED]&appsecret_proof=[REDACTED]&fields=id'
+    );
+    expect(redact('access_token=TOKEN&text=hello')).toEqual(
+      'access_token=[REDACTED]&text=hello'
+    );
+  });
+
+  it('should redact secret values wherever they appear', () => {
+    const redact = createRedactor({
+      policy: { values: ['123456:ABC-DEF', undefined] },
+    });
+
+    expect(
+      redact('https://api.telegram.org/bot123456:ABC-DEF/sendMessage')
+    ).toEqual('https://api.telegram.org/bot[REDACTED]/sendMessage');
+  });
+
+  it('should redact headers and body fields recursively', () => {
+    const redact = createRedactor({ policy: { keys: ['secret'] } });
+
+    expect(
+      redact({
+        Authorization: 'Bearer TOKEN',
+        'Content-Type': 'application/json',
+      })
+    ).toEqual({
+      Authorization: '[REDACTED]',
+      'Content-Type': 'application/json',
+    });
+    expect(
+      redact({ items: [{ secret: 'SECRET', name: 'foo' }], count: 1 })
+    ).toEqual({ items: [{ secret: '[REDACTED]', name: 'foo' }], count: 1 });
+  });
+
+  it('should support an extra redaction list', () => {
+    const redact = createRedactor({ redact: ['X-Custom-Token'] });
+
+    expect(redact({ 'x-custom-token': 'TOKEN' })).toEqual({
+      'x-custom-token': '[REDACTED]',
+    });
+  });
+
+  it('should leave buffers and other values untouched', () => {
+    const redact = createRedactor();
+    const buffer = Buffer.from('authorization=TOKEN');
+
+    expect(redact(buffer)).toBe(buffer);
+    expect(redact(undefined)).toBeUndefined();
+    expect(redact(1)).toEqual(1);
+  });
+});
@@ -0,0 +1,170 @@
+import MockAdapter from 'axios-mock-adapter';
+import axios, { AxiosInstance } from 'axios';
+
+import {
+  RetryOptions,
+  RetryPolicy,
+  createRetryInterceptor,
+  getRetryAfterFromHeader,
+} from '../retry';
+
+function createMock(
+  retry: RetryOptions = {},
+  policy?: RetryPolicy
+): { client: AxiosInstance; mock: MockAdapter } {
+  const client = axios.create();
+  client.interceptors.response.use(
+    undefined,
+    createRetryInterceptor({ axios: client, retry, policy })
+  );
+  const mock = new MockAdapter(client);
+  return { client, mock };
+}
+
+beforeEach(() => {
+  // resolve delays immediately and record them
+  jest.spyOn(global, 'setTimeout').mockImplementation(((
+    callback: () => void
+  ) => {
+    callback();
+    return 0;
+  }) as any);
+});
+
+it('should retry idempotent requests on 5xx with exponential backoff', async () => {
+  const { client, mock } = createMock();
+
+  mock
+    .onGet('/resource')
+    .replyOnce(500)
+    .onGet('/resource')
+    .replyOnce(503)
+    .onGet('/resource')
+    .replyOnce(200, { ok: true });
+
+  const res = await client.get('/resource');
+
+  expect(res.data).toEqual({ ok: true });
+  expect(mock.history.get).toHaveLength(3);
+  expect(setTimeout).toHaveBeenNthCalledWith(1, expect.any(Function), 1000);
+  expect(setTimeout).toHaveBeenNthCalledWith(2, expect.any(Function), 2000);
+});
+
+it('should not retry non-idempotent requests on 5xx', async () => {
+  const { client, mock } = createMock();
+
+  mock.onPost('/resource').reply(500);
+
+  await expect(client.post('/resource', {})).rejects.toThrow(
+    'Request failed with status code 500'
+  );
+  expect(mock.history.post).toHaveLength(1);
+});
+
+it('should retry non-idempotent requests on 429 and respect Retry-After', async () => {
+  const { client, mock } = createMock();
+
+  mock
+    .onPost('/resource')
+    .replyOnce(429, {}, { 'retry-after': '5' })
+    .onPost('/resource')
+    .replyOnce(200, { ok: true });
+
+  const res = await client.post('/resource', {});
+
+  expect(res.data).toEqual({ ok: true });
+  expect(setTimeout).toHaveBeenCalledWith(expect.any(Function), 5000);
+});
+
+it('should give up after the maximum number of retries', async () => {
+  const { client, mock } = createMock({ retries: 2 });
+
+  mock.onGet('/resource').reply(500);
+
+  await expect(client.get('/resource')).rejects.toThrow(
+    'Request failed with status code 500'
+  );
+  expect(mock.history.get).toHaveLength(3);
+});
+
+it('should cap the delay by maxTimeout', async () => {
+  const { client, mock } = createMock({
+    retries: 3,
+    minTimeout: 1000,
+    factor: 10,
+    maxTimeout: 5000,
+  });
+
+  mock.onGet('/resource').reply(500);
+
+  await expect(client.get('/resource')).rejects.toThrow();
+  expect(setTimeout).toHaveBeenNthCalledWith(1, expect.any(Function), 1000);
+  expect(setTimeout).toHaveBeenNthCalledWith(2, expect.any(Function), 5000);
+  expect(setTimeout).toHaveBeenNthCalledWith(3, expect.any(Function), 5000);
+});
+
+it('should not retry when the delay would exceed maxElapsedTime', async () => {
+  const { client, mock } = createMock({ maxElapsedTime: 10000 });
+
+  mock.onPost('/resource').reply(429, {}, { 'retry-after': '60' });
+
+  await expect(client.post('/resource', {})).rejects.toThrow(
+    'Request failed with status code 429'
+  );
+  expect(mock.history.post).toHaveLength(1);
+});
+
+it('should follow the platform policy', async () => {
+  const { client, mock } = createMock(
+    {},
+    {
+      isRejected: (err) => err.response?.data?.code === 613,
+      isIdempotent: (config) => config.url === '/read',
+      getRetryAfter: (err) => err.response?.data?.retryAfter,
+    }
+  );
+
+  mock
+    .onPost('/send')
+    .replyOnce(400, { code: 613, retryAfter: 3000 })
+    .onPost('/send')
+    .replyOnce(200, { ok: true })
+    .onPost('/read')
+    .replyOnce(502)
+    .onPost('/read')
+    .replyOnce(200, { ok: true });
+
+  await client.post('/send', {});
+  await client.post('/read', {});
+
+  expect(mock.history.post).toHaveLength(4);
+  expect(setTimeout).toHaveBeenNthCalledWith(1, expect.any(Function), 3000);
+  expect(setTimeout).toHaveBeenNthCalledWith(2, expect.any(Function), 1000);
+});
+
+it('should use shouldRetry to override the default decision', async () => {
+  const shouldRetry = jest.fn(() => false);
+  const { client, mock } = createMock({ shouldRetry });
+
+  mock.onGet('/resource').reply(500);
+
+  await expect(client.get('/resource')).rejects.toThrow();
+  expect(shouldRetry).toBeCalledWith(expect.any(Error), 1);
+  expect(mock.history.get).toHaveLength(1);
+});
+
+describe('#getRetryAfterFromHeader', () => {
+  it('should parse seconds and http date', () => {
+    jest.spyOn(Date, 'now').mockReturnValue(Date.UTC(2020, 0, 1));
+
+    const createError = (retryAfter: string): any => ({
+      response: { headers: { 'retry-after': retryAfter } },
+    });
+
+    expect(getRetryAfterFromHeader(createError('120'))).toEqual(120000);
+    expect(
+      getRetryAfterFromHeader(createError('Wed, 01 Jan 2020 00:00:30 GMT'))
+    ).toEqual(30000);
+    expect(getRetryAfterFromHeader(createError('invalid'))).toBeUndefined();
+  });
+});
@@ -0,0 +1,22 @@
+import crypto from 'crypto';
+
+import { createHmacDigest, safeCompare } from '../signature';
+
+it('safeCompare', () => {
+  expect(safeCompare('signature', 'signature')).toBe(true);
+  expect(safeCompare('signature', 'signaturf')).toBe(false);
+  expect(safeCompare('signature', 'sig')).toBe(false);
+  expect(safeCompare(Buffer.from('signature'), 'signature')).toBe(true);
+});
+
+it('createHmacDigest', () => {
+  expect(createHmacDigest('sha256', 'secret', 'body')).toEqual(
+    crypto.createHmac('sha256', 'secret').update('body').digest('hex')
+  );
+  expect(createHmacDigest('sha1', 'secret', Buffer.from('body'))).toEqual(
+    crypto.createHmac('sha1', 'secret').update('body').digest('hex')
+  );
+  expect(createHmacDigest('sha256', 'secret', 'body', 'base64')).toEqual(
+    crypto.createHmac('sha256', 'secret').update('body').digest('base64')
+  );
+});
@@ -0,0 +1,325 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { PassThrough } from 'stream';
+
+import { WebhookPlatform, createWebhookMiddleware } from '../webhook';
+
+function createRequest({
+  method = 'POST',
+  url = '/webhook?foo=bar',
+  headers = {},
+  ...rest
+}: Record<string, any> = {}): IncomingMessage {
+  const req = new PassThrough();
+  Object.assign(req, { method, url, headers, ...rest });
+  return (req as unknown) as IncomingMessage;
+}
+
+function createResponse(): ServerResponse {
+  return ({
+    writeHead: jest.fn(),
+    end: jest.fn(),
+  } as unknown) as ServerResponse;
+}
+
+function createKoaContext(req: IncomingMessage, request = {}) {
+  return {
+    req,
+    res: createResponse(),
+    request,
+    status: 404,
+    body: undefined,
+    set: jest.fn(),
+  };
+}
+
+function flushPromises(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+function createPlatform(): WebhookPlatform<string> {
+  return {
+    platform: 'test',
+    handleRequest: jest.fn((request) => {
+      if (request.headers['x-signature'] !== 'valid') {
+        return { response: { status: 401 } };
+      }
+      return {
+        response: { status: 200, body: { ok: true } },
+        events: [request.rawBody.toString()],
+      };
+    }),
+  };
+}
+
+beforeEach(() => {
+  jest.useRealTimers();
+});
+
+describe('node http and express', () => {
+  it('should read the raw body from the request stream', async () => {
+    const platform = createPlatform();
+    const onEvents = jest.fn();
+    const middleware = createWebhookMiddleware(platform, { onEvents });
+
+    const req = createRequest({ headers: { 'x-signature': 'valid' } });
+    const res = createResponse();
+
+    const promise = middleware(req, res);
+    ((req as unknown) as PassThrough).end('{"hello":"world"}');
+    await promise;
+
+    expect(platform.handleRequest).toBeCalledWith({
+      method: 'POST',
+      url: '/webhook?foo=bar',
+      path: '/webhook',
+      query: { foo: 'bar' },
+      headers: { 'x-signature': 'valid' },
+      rawBody: Buffer.from('{"hello":"world"}'),
+    });
+    expect(res.writeHead).toBeCalledWith(200, {
+      'Content-Type': 'application/json',
+    });
+    expect(res.end).toBeCalledWith('{"ok":true}');
+  });
+
+  it('should use rawBody or body provided by body parsers', async () => {
+    const platform = createPlatform();
+    const onEvents = jest.fn();
+    const middleware = createWebhookMiddleware(platform, { onEvents });
+
+    await middleware(
+      createRequest({
+        headers: { 'x-signature': 'valid' },
+        rawBody: Buffer.from('raw'),
+        body: { parsed: true },
+      }),
+      createResponse()
+    );
+    await middleware(
+      createRequest({
+        headers: { 'x-signature': 'valid' },
+        body: 'text',
+      }),
+      createResponse()
+    );
+    await flushPromises();
+
+    expect(onEvents).toBeCalledTimes(2);
+    expect(onEvents.mock.calls[0][0]).toEqual(['raw']);
+    expect(onEvents.mock.calls[1][0]).toEqual(['text']);
+  });
+
+  it('should call onEvents after the response has been sent', async () => {
+    const calls: string[] = [];
+    const platform = createPlatform();
+    const onEvents = jest.fn(() => {
+      calls.push('onEvents');
+    });
+    const middleware = createWebhookMiddleware(platform, { onEvents });
+
+    const res = createResponse();
+    (res.end as jest.Mock).mockImplementation(() => {
+      calls.push('end');
+    });
+
+    await middleware(
+      createRequest({
+        headers: { 'x-signature': 'valid' },
+        rawBody: 'body',
+      }),
+      res
+    );
+    await flushPromises();
+
+    expect(calls).toEqual(['end', 'onEvents']);
+    expect(onEvents).toBeCalledWith(
+      ['body'],
+      expect.objectContaining({ method: 'POST', path: '/webhook' })
+    );
+  });
+
+  it('should not call onEvents when the request is rejected', async () => {
+    const platform = createPlatform();
+    const onEvents = jest.fn();
+    const middleware = createWebhookMiddleware(platform, { onEvents });
+
+    const res = createResponse();
+
+    await middleware(createRequest({ rawBody: 'body' }), res);
+    await flushPromises();
+
+    expect(res.writeHead).toBeCalledWith(401, {
+      'Content-Type': 'text/plain',
+    });
+    expect(res.end).toBeCalledWith('');
+    expect(onEvents).not.toBeCalled();
+  });
+
+  it('should respond 500 when the body has been parsed without raw body', async () => {
+    const platform = createPlatform();
+    const onError = jest.fn();
+    const middleware = createWebhookMiddleware(platform, {
+      onEvents: jest.fn(),
+      onError,
+    });
+
+    const res = createResponse();
+
+    await middleware(createRequest({ body: { parsed: true } }), res);
+
+    expect(platform.handleRequest).not.toBeCalled();
+    expect(res.writeHead).toBeCalledWith(500, {
+      'Content-Type': 'text/plain',
+    });
+    expect(onError).toBeCalledWith(expect.any(Error), undefined);
+  });
+
+  it('should respond 400 when the platform fails to parse the body', async () => {
+    const onError = jest.fn();
+    const middleware = createWebhookMiddleware(
+      {
+        platform: 'test',
+        handleRequest: (request) => JSON.parse(request.rawBody.toString()),
+      },
+      { onEvents: jest.fn(), onError }
+    );
+
+    const res = createResponse();
+
+    await middleware(createRequest({ rawBody: '{' }), res);
+
+    expect(res.writeHead).toBeCalledWith(400, {
+      'Content-Type': 'text/plain',
+    });
+    expect(onError).toBeCalledWith(
+      expect.any(SyntaxError),
+      expect.objectContaining({ method: 'POST' })
+    );
+  });
+
+  it('should call onError when onEvents throws', async () => {
+    const error = new Error('boom');
+    const onError = jest.fn();
+    const middleware = createWebhookMiddleware(createPlatform(), {
+      onEvents: () => Promise.reject(error),
+      onError,
+    });
+
+    await middleware(
+      createRequest({
+        headers: { 'x-signature': 'valid' },
+        rawBody: 'body',
+      }),
+      createResponse()
+    );
+    await flushPromises();
+
+    expect(onError).toBeCalledWith(
+      error,
+      expect.objectContaining({ method: 'POST' })
+    );
+  });
+
+  it('should pass requests to other paths or with other methods to next', async () => {
+    const platform = { ...createPlatform(), methods: ['POST'] };
+    const middleware = createWebhookMiddleware(platform, {
+      onEvents: jest.fn(),
+      path: '/webhook',
+    });
+    const next = jest.fn();
+
+    const res = createResponse();
+
+    await middleware(createRequest({ url: '/other' }), res, next);
+    await middleware(createRequest({ method: 'GET' }), res, next);
+
+    expect(next).toBeCalledTimes(2);
+    expect(platform.handleRequest).not.toBeCalled();
+    expect(res.writeHead).not.toBeCalled();
+  });
+
+  it('should respond 404 or 405 to the requests not handled without next', async () => {
+    const platform = { ...createPlatform(), methods: ['POST'] };
+    const middleware = createWebhookMiddleware(platform, {
+      onEvents: jest.fn(),
+      path: '/webhook',
+    });
+
+    const otherPathResponse = createResponse();
+    const otherMethodResponse = createResponse();
+
+    await middleware(createRequest({ url: '/other' }), otherPathResponse);
+    await middleware(createRequest({ method: 'PUT' }), otherMethodResponse);
+
+    expect(platform.handleRequest).not.toBeCalled();
+    expect(otherPathResponse.writeHead).toBeCalledWith(404, {
+      'Content-Type': 'text/plain',
+    });
+    expect(otherMethodResponse.writeHead).toBeCalledWith(405, {
+      'Content-Type': 'text/plain',
+    });
+  });
+
+  it('should match the path against originalUrl of express', async () => {
+    const onEvents = jest.fn();
+    const middleware = createWebhookMiddleware(createPlatform(), {
+      onEvents,
+      path: '/webhooks/test',
+    });
+    const next = jest.fn();
+
+    await middleware(
+      createRequest({
+        url: '/',
+        originalUrl: '/webhooks/test',
+        headers: { 'x-signature': 'valid' },
+        rawBody: 'body',
+      }),
+      createResponse(),
+      next
+    );
+    await flushPromises();
+
+    expect(next).not.toBeCalled();
+    expect(onEvents.mock.calls[0][0]).toEqual(['body']);
+  });
+});
+
+describe('koa', () => {
+  it('should detect koa context and set the response on it', async () => {
+    const onEvents = jest.fn();
+    const middleware = createWebhookMiddleware(createPlatform(), { onEvents });
+
+    const ctx = createKoaContext(
+      createRequest({ headers: { 'x-signature': 'valid' } }),
+      { rawBody: 'koa', body: { parsed: true } }
+    );
+
+    await middleware(ctx);
+    await flushPromises();
+
+    expect(ctx.status).toEqual(200);
+    expect(ctx.set).toBeCalledWith('Content-Type', 'application/json');
+    expect(ctx.body).toEqual('{"ok":true}');
+    expect(ctx.res.writeHead).not.toBeCalled();
+    expect(onEvents.mock.calls[0][0]).toEqual(['koa']);
+  });
+
+  it('should pass requests to other paths to next', async () => {
+    const platform = createPlatform();
+    const middleware = createWebhookMiddleware(platform, {
+      onEvents: jest.fn(),
+      path: '/webhook',
+    });
+    const next = jest.fn(() => Promise.resolve());
+
+    const ctx = createKoaContext(createRequest({ url: '/other' }));
+
+    await middleware(ctx, next);
+
+    expect(next).toBeCalledTimes(1);
+    expect(platform.handleRequest).not.toBeCalled();
+    expect(ctx.status).toEqual(404);
+    expect(ctx.set).not.toBeCalled();
+  });
+});
@@ -0,0 +1,176 @@
+import axios, {
+  AxiosInstance,
+  AxiosPromise,
+  AxiosRequestConfig,
+  CancelToken,
+} from 'axios';
+
+/**
+ * The message of errors thrown by aborted requests.
+ */
+const ABORTED_MESSAGE = 'The operation was aborted.';
+
+/**
+ * The subset of `AbortSignal` used to cancel requests, so polyfills like `abort-controller` work as well.
+ */
+export type AbortSignalLike = {
+  readonly aborted: boolean;
+  addEventListener: (type: 'abort', listener: () => void) => void;
+  removeEventListener: (type: 'abort', listener: () => void) => void;
+};
+
+export type RequestOptions = {
+  /**
+   * The signal to abort the request, e.g. `new AbortController().signal`.
+   */
+  signal?: AbortSignalLike;
+
+  /**
+   * The timeout of the request in milliseconds. Overrides the `timeout` of the client.
+   */
+  timeout?: number;
+};
+
+// one cancel token per signal, so requests sharing a signal, e.g. all pages of a paginating request, don't pile up abort listeners
+const cancelTokens = new WeakMap<AbortSignalLike, CancelToken>();
+
+function getCancelToken(signal: AbortSignalLike): CancelToken {
+  let cancelToken = cancelTokens.get(signal);
+
+  if (!cancelToken) {
+    cancelToken = new axios.CancelToken((cancel) => {
+      if (signal.aborted) {
+        cancel(ABORTED_MESSAGE);
+        return;
+      }
+
+      const onAbort = (): void => {
+        signal.removeEventListener('abort', onAbort);
+        cancel(ABORTED_MESSAGE);
+      };
+
+      signal.addEventListener('abort', onAbort);
+    });
+    cancelTokens.set(signal, cancelToken);
+  }
+
+  return cancelToken;
+}
+
+/**
+ * Converts request options into an axios request config. The signal is bridged to a cancel token, which cancels pending requests when the signal is aborted, and cancels new requests immediately after that.
+ *
+ * @param options - The request options
+ * @param options.signal - The signal to abort the requests
+ * @param options.timeout - The timeout of each request in milliseconds
+ * @returns The axios request config
+ *
+ * @example
+ * ```js
+ * const controller = new AbortController();
+ *
+ * axios.get('/users', createRequestConfig({ signal: controller.signal, timeout: 5000 }));
+ *
+ * controller.abort();
+ * ```
+ */
+function createRequestConfig({
+  signal,
+  timeout,
+}: RequestOptions = {}): AxiosRequestConfig {
+  const config: AxiosRequestConfig = {};
+
+  if (timeout !== undefined) {
+    config.timeout = timeout;
+  }
+
+  if (signal) {
+    config.cancelToken = getCancelToken(signal);
+  }
+
+  return config;
+}
+
+function isAxiosInstance(value: unknown): value is AxiosInstance {
+  return (
+    typeof value === 'function' &&
+    'interceptors' in value &&
+    'defaults' in value &&
+    'request' in value
+  );
+}
+
+/**
+ * Wraps an axios instance, so every request sent through it carries the request config. The config of each request takes precedence. Defaults and interceptors are shared with the wrapped instance.
+ *
+ * @param instance - The axios instance
+ * @param requestConfig - The config to be added to every request
+ * @returns The wrapped axios instance
+ */
+function withRequestConfig(
+  instance: AxiosInstance,
+  requestConfig: AxiosRequestConfig
+): AxiosInstance {
+  const request = (config: AxiosRequestConfig): AxiosPromise =>
+    instance.request({ ...requestConfig, ...config });
+
+  const wrapped = (
+    configOrUrl: AxiosRequestConfig | string,
+    config?: AxiosRequestConfig
+  ): AxiosPromise =>
+    typeof configOrUrl === 'string'
+      ? request({ ...config, url: configOrUrl })
+      : request(configOrUrl);
+
+  return Object.assign(wrapped, instance, {
+    request,
+    get: (url: string, config?: AxiosRequestConfig) =>
+      request({ ...config, method: 'get', url }),
+    delete: (url: string, config?: AxiosRequestConfig) =>
+      request({ ...config, method: 'delete', url }),
+    head: (url: string, config?: AxiosRequestConfig) =>
+      request({ ...config, method: 'head', url }),
+    options: (url: string, config?: AxiosRequestConfig) =>
+      request({ ...config, method: 'options', url }),
+    post: (url: string, data?: unknown, config?: AxiosRequestConfig) =>
+      request({ ...config, method: 'post', url, data }),
+    put: (url: string, data?: unknown, config?: AxiosRequestConfig) =>
+      request({ ...config, method: 'put', url, data }),
+    patch: (url: string, data?: unknown, config?: AxiosRequestConfig) =>
+      request({ ...config, method: 'patch', url, data }),
+  }) as AxiosInstance;
+}
+
+/**
+ * Creates a view of the client, whose requests carry the request options, so any method of the client can be aborted or time out. The view shares the state of the client, and the options of a paginating method take precedence.
+ *
+ * @param client - The client, whose axios instances are its properties, e.g. `axios`
+ * @param options - The request options
+ * @returns The view of the client
+ *
+ * @example
+ * ```js
+ * const controller = new AbortController();
+ *
+ * await withRequestOptions(client, { signal: controller.signal, timeout: 5000 }).sendText(USER_ID, 'Hello');
+ * ```
+ */
+function withRequestOptions<T extends { axios: AxiosInstance }>(
+  client: T,
+  options: RequestOptions
+): T {
+  const requestConfig = createRequestConfig(options);
+  const properties: PropertyDescriptorMap = {};
+
+  Object.keys(client).forEach((key) => {
+    const value: unknown = client[key as keyof T];
+
+    if (isAxiosInstance(value)) {
+      properties[key] = { value: withRequestConfig(value, requestConfig) };
+    }
+  });
+
+  return Object.create(client, properties);
+}
+
+export { ABORTED_MESSAGE, createRequestConfig, withRequestOptions };
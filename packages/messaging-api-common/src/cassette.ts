@@ -0,0 +1,346 @@
+import fs from 'fs';
+import path from 'path';
+import querystring from 'querystring';
+
+import axios, {
+  AxiosAdapter,
+  AxiosError,
+  AxiosRequestConfig,
+  AxiosResponse,
+  Method,
+} from 'axios';
+import debug from 'debug';
+import isEqual from 'lodash/isEqual';
+import urlJoin from 'url-join';
+
+import { RedactFunction, createRedactor } from './redact';
+
+const debugCassette = debug('messaging-api:cassette');
+
+/**
+ * - `record` - sends real requests and saves the interactions into the cassette, overwriting the existing one.
+ * - `replay` - responds with the interactions in the cassette without sending any request.
+ */
+export type CassetteMode = 'record' | 'replay';
+
+export type CassetteRequest = {
+  method?: Method;
+  url: string;
+  headers: Record<string, string>;
+
+  /**
+   * The parsed request body, or `null` if the body is binary, e.g. a buffer or a form data stream.
+   */
+  body: any; // eslint-disable-line @typescript-eslint/no-explicit-any
+};
+
+export type CassetteResponse = {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: any; // eslint-disable-line @typescript-eslint/no-explicit-any
+
+  /**
+   * Set to `base64` if the body is a binary response encoded in base64.
+   */
+  bodyEncoding?: 'base64';
+};
+
+export type CassetteInteraction = {
+  request: CassetteRequest;
+  response: CassetteResponse;
+};
+
+/**
+ * - `strict` - matches method, URL including the query string and body. Each interaction is replayed once, in order.
+ * - `loose` - matches method and URL path only. Interactions can be replayed multiple times.
+ * - A function to decide whether the recorded request matches the outgoing request.
+ */
+export type CassetteMatch =
+  | 'strict'
+  | 'loose'
+  | ((recorded: CassetteRequest, request: CassetteRequest) => boolean);
+
+export type CassetteOptions = {
+  /**
+   * The path of the JSON cassette file.
+   */
+  path: string;
+
+  /**
+   * Defaults to `replay` if the cassette file exists, otherwise `record`.
+   */
+  mode?: CassetteMode;
+
+  /**
+   * How to match outgoing requests with recorded ones when replaying. Defaults to `strict`.
+   */
+  match?: CassetteMatch;
+};
+
+type Cassette = {
+  interactions: CassetteInteraction[];
+  used: Set<CassetteInteraction>;
+};
+
+type RedactableRequestConfig = AxiosRequestConfig & {
+  redact?: RedactFunction;
+};
+
+// clients sharing the same cassette file share the interactions
+const cassettes = new Map<string, Cassette>();
+
+function loadCassette(cassettePath: string, mode: CassetteMode): Cassette {
+  const key = `${mode}:${path.resolve(cassettePath)}`;
+  const loaded = cassettes.get(key);
+  if (loaded) {
+    return loaded;
+  }
+
+  const cassette: Cassette = {
+    interactions:
+      mode === 'replay'
+        ? JSON.parse(fs.readFileSync(cassettePath, 'utf8')).interactions
+        : [],
+    used: new Set(),
+  };
+  cassettes.set(key, cassette);
+
+  return cassette;
+}
+
+function saveCassette(cassettePath: string, cassette: Cassette): void {
+  fs.mkdirSync(path.dirname(cassettePath), { recursive: true });
+  fs.writeFileSync(
+    cassettePath,
+    `${JSON.stringify({ interactions: cassette.interactions }, null, 2)}\n`
+  );
+}
+
+function parseBody(data: unknown): unknown {
+  if (data === undefined || data === null || data === '') {
+    return undefined;
+  }
+
+  if (typeof data !== 'string') {
+    // buffers and streams
+    return null;
+  }
+
+  try {
+    return JSON.parse(data);
+  } catch (_) {
+    return data;
+  }
+}
+
+function getRequestUrl(config: AxiosRequestConfig): string {
+  const url = urlJoin(config.baseURL || '', config.url || '/');
+
+  if (!config.params) {
+    return url;
+  }
+
+  return `${url}${url.includes('?') ? '&' : '?'}${querystring.stringify(
+    config.params
+  )}`;
+}
+
+function toCassetteRequest(config: RedactableRequestConfig): CassetteRequest {
+  const redact = config.redact || createRedactor();
+
+  return {
+    method: config.method,
+    url: redact(getRequestUrl(config)),
+    headers: redact({ ...config.headers }),
+    body: redact(parseBody(config.data)),
+  };
+}
+
+function toCassetteResponse(
+  response: AxiosResponse,
+  redact: RedactFunction
+): CassetteResponse {
+  const base = {
+    status: response.status,
+    statusText: response.statusText,
+    headers: redact({ ...response.headers }),
+  };
+
+  if (Buffer.isBuffer(response.data)) {
+    return {
+      ...base,
+      body: response.data.toString('base64'),
+      bodyEncoding: 'base64',
+    };
+  }
+
+  return { ...base, body: redact(parseBody(response.data)) };
+}
+
+function isStream(data: unknown): boolean {
+  return Boolean(
+    data &&
+      typeof data === 'object' &&
+      typeof (data as { pipe?: unknown }).pipe === 'function'
+  );
+}
+
+function stripQuery(url: string): string {
+  return url.split('?')[0];
+}
+
+function isMatched(
+  match: CassetteMatch,
+  recorded: CassetteRequest,
+  request: CassetteRequest
+): boolean {
+  if (typeof match === 'function') {
+    return match(recorded, request);
+  }
+
+  if (recorded.method !== request.method) {
+    return false;
+  }
+
+  if (match === 'loose') {
+    return stripQuery(recorded.url) === stripQuery(request.url);
+  }
+
+  return recorded.url === request.url && isEqual(recorded.body, request.body);
+}
+
+function findInteraction(
+  cassette: Cassette,
+  match: CassetteMatch,
+  request: CassetteRequest
+): CassetteInteraction | undefined {
+  const candidates = cassette.interactions.filter((interaction) =>
+    isMatched(match, interaction.request, request)
+  );
+  const unused = candidates.find(
+    (interaction) => !cassette.used.has(interaction)
+  );
+
+  if (unused || match === 'strict') {
+    return unused;
+  }
+
+  return candidates[candidates.length - 1];
+}
+
+function settle(
+  config: AxiosRequestConfig,
+  response: AxiosResponse
+): AxiosResponse {
+  const { validateStatus } = config;
+
+  if (!validateStatus || validateStatus(response.status)) {
+    return response;
+  }
+
+  const error = new Error(
+    `Request failed with status code ${response.status}`
+  ) as AxiosError;
+  error.config = config;
+  error.request = response.request;
+  error.response = response;
+  error.isAxiosError = true;
+  error.toJSON = () => ({ message: error.message, config });
+
+  throw error;
+}
+
+/**
+ * Creates an axios adapter which records interactions into a JSON cassette, or replays them without sending requests. Secrets are redacted from recorded interactions with the redact function attached by `createRequestInterceptor`. Responses with stream bodies are not recorded.
+ *
+ * @param options - The options of the adapter
+ * @param options.cassette - The cassette options
+ * @param options.adapter - The adapter to send real requests when recording. Defaults to the default adapter of axios.
+ * @returns The axios adapter
+ *
+ * @example
+ * ```js
+ * client.axios.defaults.adapter = createCassetteAdapter({
+ *   cassette: { path: '__fixtures__/send-text.json', match: 'loose' },
+ *   adapter: client.axios.defaults.adapter,
+ * });
+ * ```
+ */
+function createCassetteAdapter({
+  cassette: { path: cassettePath, mode, match = 'strict' },
+  adapter = axios.defaults.adapter,
+}: {
+  cassette: CassetteOptions;
+  adapter?: AxiosAdapter;
+}): AxiosAdapter {
+  const cassetteMode: CassetteMode =
+    mode || (fs.existsSync(cassettePath) ? 'replay' : 'record');
+
+  debugCassette(`Using cassette ${cassettePath} in ${cassetteMode} mode`);
+
+  if (cassetteMode === 'replay') {
+    return async (config: RedactableRequestConfig): Promise<AxiosResponse> => {
+      const cassette = loadCassette(cassettePath, cassetteMode);
+      const request = toCassetteRequest(config);
+      const interaction = findInteraction(cassette, match, request);
+
+      if (!interaction) {
+        throw new Error(
+          `Cassette ${cassettePath}: no interaction matches ${request.method} ${request.url}`
+        );
+      }
+
+      cassette.used.add(interaction);
+
+      const { response } = interaction;
+
+      return settle(config, {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+        data:
+          response.bodyEncoding === 'base64'
+            ? Buffer.from(response.body, 'base64')
+            : response.body,
+        config,
+        request: {},
+      });
+    };
+  }
+
+  return async (config: RedactableRequestConfig): Promise<AxiosResponse> => {
+    if (!adapter) {
+      throw new Error('Cassette: no adapter to send requests');
+    }
+
+    const cassette = loadCassette(cassettePath, cassetteMode);
+    const record = (response: AxiosResponse): void => {
+      if (isStream(response.data)) {
+        return;
+      }
+
+      cassette.interactions.push({
+        request: toCassetteRequest(config),
+        response: toCassetteResponse(
+          response,
+          config.redact || createRedactor()
+        ),
+      });
+      saveCassette(cassettePath, cassette);
+    };
+
+    try {
+      const response = await adapter(config);
+      record(response);
+      return response;
+    } catch (err) {
+      if (err.response) {
+        record(err.response);
+      }
+      throw err;
+    }
+  };
+}
+
+export { createCassetteAdapter };
@@ -1,9 +1,12 @@
 import debug from 'debug';
 import omit from 'lodash/omit';
 import urlJoin from 'url-join';
-import { AxiosRequestConfig, Method } from 'axios';
+import { AxiosError, AxiosRequestConfig, AxiosResponse, Method } from 'axios';
+
+import { RedactFunction, createRedactor } from './redact';
 
 const debugRequest = debug('messaging-api:request');
+const debugResponse = debug('messaging-api:response');
 
 export type RequestPayload = {
   method?: Method;
@@ -14,6 +17,61 @@ export type RequestPayload = {
 
 export type OnRequestFunction = (request: RequestPayload) => void;
 
+export type ResponsePayload = {
+  method?: Method;
+  url: string;
+  status: number;
+  headers: Record<string, string>;
+
+  /**
+   * The request ID assigned by the platform, e.g. `x-line-request-id` of LINE.
+   */
+  requestId?: string;
+
+  /**
+   * The time in milliseconds from sending the request to receiving the response.
+   */
+  duration: number;
+
+  /**
+   * The parsed response body.
+   */
+  body: any; // eslint-disable-line @typescript-eslint/no-explicit-any
+};
+
+export type ErrorPayload = {
+  method?: Method;
+  url: string;
+
+  /**
+   * The HTTP status, or `undefined` if no response has been received, e.g. network errors and timeouts.
+   */
+  status?: number;
+  headers?: Record<string, string>;
+  requestId?: string;
+  duration: number;
+  body?: any; // eslint-disable-line @typescript-eslint/no-explicit-any
+  error: Error;
+};
+
+export type OnResponseFunction = (response: ResponsePayload) => void;
+
+export type OnErrorFunction = (error: ErrorPayload) => void;
+
+export type ResponseInterceptor = {
+  onFulfilled: (response: AxiosResponse) => AxiosResponse;
+  onRejected: (error: AxiosError) => Promise<never>;
+};
+
+type TimedRequestConfig = AxiosRequestConfig & {
+  requestStartedAt?: number;
+
+  /**
+   * Used by `AxiosError` to redact secrets from its inspect output.
+   */
+  redact?: RedactFunction;
+};
+
 function defaultOnRequest(request: RequestPayload): void {
   debugRequest(`${request.method} - ${request.url}`);
   if (request.body) {
@@ -26,14 +84,58 @@ function defaultOnRequest(request: RequestPayload): void {
   }
 }
 
+function defaultOnResponse(response: ResponsePayload): void {
+  debugResponse(
+    `${response.method} - ${response.url} - ${response.status} (${response.duration}ms)`
+  );
+  if (response.requestId) {
+    debugResponse(`Request ID: ${response.requestId}`);
+  }
+}
+
+function defaultOnError(error: ErrorPayload): void {
+  debugResponse(
+    `${error.method} - ${error.url} - ${error.status || error.error.message} (${
+      error.duration
+    }ms)`
+  );
+  if (error.requestId) {
+    debugResponse(`Request ID: ${error.requestId}`);
+  }
+}
+
+/**
+ * Creates an axios request interceptor which calls `onRequest` with every outgoing request. Secrets are redacted from the request before `onRequest` is called, and the redact function is attached to the request config so `AxiosError` can redact its inspect output too.
+ *
+ * @param options - The options of the interceptor
+ * @param options.onRequest - The callback to be called with outgoing requests
+ * @param options.redact - The redact function created by `createRedactor`
+ * @returns The request interceptor
+ *
+ * @example
+ * ```js
+ * axios.interceptors.request.use(
+ *   createRequestInterceptor({
+ *     onRequest: (request) => console.log(request.url),
+ *     redact: createRedactor({ policy: { keys: ['access_token'] } }),
+ *   })
+ * );
+ * ```
+ */
 function createRequestInterceptor({
   onRequest = defaultOnRequest,
-}: { onRequest?: OnRequestFunction } = {}) {
-  return (config: AxiosRequestConfig): AxiosRequestConfig => {
+  redact = createRedactor(),
+}: { onRequest?: OnRequestFunction; redact?: RedactFunction } = {}) {
+  return (config: TimedRequestConfig): AxiosRequestConfig => {
+    // eslint-disable-next-line no-param-reassign
+    config.requestStartedAt = Date.now();
+    // eslint-disable-next-line no-param-reassign
+    config.redact = redact;
+
     onRequest({
       method: config.method,
-      url: urlJoin(config.baseURL || '', config.url || '/'),
-      headers: {
+      url: redact(urlJoin(config.baseURL || '', config.url || '/')),
+      headers: redact({
         ...config.headers.common,
         ...(config.method ? config.headers[config.method] : {}),
         ...omit(config.headers, [
@@ -45,15 +147,105 @@ function createRequestInterceptor({
           'delete',
           'head',
         ]),
-      },
+      }),
 
-      body: config.data,
+      body: redact(config.data),
     });
 
     return config;
   };
 }
 
+function getDuration(config: TimedRequestConfig | undefined): number {
+  return config && config.requestStartedAt
+    ? Date.now() - config.requestStartedAt
+    : 0;
+}
+
+function getUrl(config: AxiosRequestConfig | undefined): string {
+  return config ? urlJoin(config.baseURL || '', config.url || '/') : '';
+}
+
+/**
+ * Creates axios response interceptors which call `onResponse` with every successful response and `onError` with every failed request. The duration is measured from the request interceptor created by `createRequestInterceptor`.
+ *
+ * @param options - The options of the interceptors
+ * @param options.onResponse - The callback to be called with successful responses
+ * @param options.onError - The callback to be called with failed requests
+ * @param options.requestIdHeader - The response header containing the request ID assigned by the platform
+ * @returns The interceptors to be passed to `axios.interceptors.response.use`
+ *
+ * @example
+ * ```js
+ * const { onFulfilled, onRejected } = createResponseInterceptor({
+ *   onResponse: (response) => console.log(response.status, response.duration),
+ *   requestIdHeader: 'x-line-request-id',
+ * });
+ *
+ * axios.interceptors.response.use(onFulfilled, onRejected);
+ * ```
+ */
+function createResponseInterceptor({
+  onResponse = defaultOnResponse,
+  onError = defaultOnError,
+  requestIdHeader,
+}: {
+  onResponse?: OnResponseFunction;
+  onError?: OnErrorFunction;
+  requestIdHeader?: string;
+} = {}): ResponseInterceptor {
+  const getRequestId = (
+    headers: Record<string, string> | undefined
+  ): string | undefined =>
+    requestIdHeader && headers ? headers[requestIdHeader] : undefined;
+
+  return {
+    onFulfilled: (response: AxiosResponse): AxiosResponse => {
+      onResponse({
+        method: response.config.method,
+        url: getUrl(response.config),
+        status: response.status,
+        headers: response.headers,
+        requestId: getRequestId(response.headers),
+        duration: getDuration(response.config),
+        body: response.data,
+      });
+
+      return response;
+    },
+    onRejected: (error: AxiosError): Promise<never> => {
+      const { config, response } = error;
+
+      onError({
+        method: config && config.method,
+        url: getUrl(config),
+        status: response && response.status,
+        headers: response && response.headers,
+        requestId: getRequestId(response && response.headers),
+        duration: getDuration(config),
+        body: response && response.data,
+        error,
+      });
+
+      return Promise.reject(error);
+    },
+  };
+}
+
+export * from './abort';
 export * from './case';
+export * from './cassette';
+export * from './mockServer';
+export * from './rateLimit';
+export * from './redact';
+export * from './retry';
+export * from './signature';
+export * from './webhook';
 
-export { defaultOnRequest as onRequest, createRequestInterceptor };
+export {
+  defaultOnRequest as onRequest,
+  defaultOnResponse as onResponse,
+  defaultOnError as onError,
+  createRequestInterceptor,
+  createResponseInterceptor,
+};
@@ -0,0 +1,278 @@
+import http from 'http';
+import querystring from 'querystring';
+import { AddressInfo } from 'net';
+
+import debug from 'debug';
+
+const debugMockServer = debug('messaging-api:mock-server');
+
+export type MockRequest = {
+  method: string;
+  path: string;
+  query: Record<string, string | string[]>;
+  headers: http.IncomingHttpHeaders;
+
+  /**
+   * The path parameters, e.g. `richMenuId` of `/v2/bot/richmenu/:richMenuId`.
+   */
+  params: Record<string, string>;
+
+  /**
+   * The parsed JSON or form body, or the raw body as a buffer for other content types.
+   */
+  body: any; // eslint-disable-line @typescript-eslint/no-explicit-any
+};
+
+export type MockResponse = {
+  status?: number;
+  headers?: Record<string, string>;
+
+  /**
+   * Objects are serialized into JSON, buffers and strings are sent as is.
+   */
+  body?: unknown;
+};
+
+export type MockHandler = (
+  request: MockRequest
+) => MockResponse | Promise<MockResponse>;
+
+type MockRoute = {
+  method: string;
+  pattern: RegExp;
+  paramNames: string[];
+  handler: MockHandler;
+};
+
+function compilePath(path: string): { pattern: RegExp; paramNames: string[] } {
+  const paramNames: string[] = [];
+  const source = path
+    .split('/')
+    .map((segment) =>
+      segment.replace(
+        /:(\w+)|[.*+?^${}()|[\]\\]/g,
+        (match: string, name?: string) => {
+          if (name) {
+            paramNames.push(name);
+            return '([^/]+)';
+          }
+          return `\\${match}`;
+        }
+      )
+    )
+    .join('/');
+
+  return { pattern: new RegExp(`^${source}$`), paramNames };
+}
+
+function readBody(req: http.IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+function parseBody(rawBody: Buffer, contentType = ''): unknown {
+  if (rawBody.length === 0) {
+    return undefined;
+  }
+
+  if (contentType.includes('application/json')) {
+    return JSON.parse(rawBody.toString());
+  }
+
+  if (contentType.includes('application/x-www-form-urlencoded')) {
+    return querystring.parse(rawBody.toString());
+  }
+
+  return rawBody;
+}
+
+/**
+ * An in-process fake API server. Point clients at it through their `origin` option to run end-to-end tests without network access. Received requests are recorded in `requests`, and platform servers record sent messages in `messages`.
+ *
+ * @example
+ * ```js
+ * const server = new MockServer('example');
+ *
+ * server.route('POST', '/messages/:id', (request) => ({
+ *   body: { id: request.params.id },
+ * }));
+ *
+ * const origin = await server.listen();
+ * // ...
+ * await server.close();
+ * ```
+ */
+class MockServer<SentMessage = unknown> {
+  /**
+   * The platform name used in debug logs.
+   */
+  readonly platform: string;
+
+  /**
+   * All requests received by the server.
+   */
+  readonly requests: MockRequest[] = [];
+
+  /**
+   * Messages sent through the server, recorded by platform servers for assertions.
+   */
+  readonly messages: SentMessage[] = [];
+
+  private routes: MockRoute[] = [];
+
+  private server?: http.Server;
+
+  constructor(platform: string) {
+    this.platform = platform;
+  }
+
+  /**
+   * The origin of the server, e.g. `http://127.0.0.1:54321`. Available after `listen` resolves.
+   */
+  get origin(): string {
+    if (!this.server || !this.server.listening) {
+      throw new Error(`${this.platform} mock server is not listening`);
+    }
+
+    const { port } = this.server.address() as AddressInfo;
+
+    return `http://127.0.0.1:${port}`;
+  }
+
+  /**
+   * Registers a handler for the method and path. Path segments starting with `:` are captured into `request.params`. Routes registered later take precedence, so handlers of platform servers can be overridden, e.g. to simulate errors.
+   *
+   * @param method - The HTTP method
+   * @param path - The path, e.g. `/v2/bot/richmenu/:richMenuId`
+   * @param handler - The handler of matched requests
+   * @returns The server itself
+   */
+  route(method: string, path: string, handler: MockHandler): this {
+    this.routes.unshift({
+      method: method.toUpperCase(),
+      ...compilePath(path),
+      handler,
+    });
+
+    return this;
+  }
+
+  /**
+   * Starts listening on localhost.
+   *
+   * @param port - The port to listen on. Defaults to a random free port.
+   * @returns The origin of the server
+   */
+  listen(port = 0): Promise<string> {
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch((err) => {
+        debugMockServer(err);
+        res.writeHead(500, { 'Content-Type': 'text/plain' });
+        res.end(err.message);
+      });
+    });
+    this.server = server;
+
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, '127.0.0.1', () => resolve(this.origin));
+    });
+  }
+
+  /**
+   * Stops the server.
+   */
+  close(): Promise<void> {
+    const { server } = this;
+
+    if (!server) {
+      return Promise.resolve();
+    }
+
+    this.server = undefined;
+
+    return new Promise((resolve, reject) => {
+      server.close((err) => (err ? reject(err) : resolve()));
+
+      // keep-alive connections prevent the server from closing on Node.js >= 19
+      const { closeAllConnections } = server as {
+        closeAllConnections?: () => void;
+      };
+      if (closeAllConnections) {
+        closeAllConnections.call(server);
+      }
+    });
+  }
+
+  /**
+   * Clears recorded requests and messages.
+   */
+  reset(): void {
+    this.requests.splice(0, this.requests.length);
+    this.messages.splice(0, this.messages.length);
+  }
+
+  private async handle(
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    const [path, search = ''] = (req.url || '/').split('?');
+    const method = (req.method || 'GET').toUpperCase();
+    const rawBody = await readBody(req);
+
+    debugMockServer(`${this.platform}: ${method} ${req.url}`);
+
+    let params: Record<string, string> = {};
+    const route = this.routes.find((r) => {
+      if (r.method !== method) {
+        return false;
+      }
+
+      const match = r.pattern.exec(path);
+      if (!match) {
+        return false;
+      }
+
+      params = r.paramNames.reduce<Record<string, string>>(
+        (acc, name, index) => {
+          acc[name] = decodeURIComponent(match[index + 1]);
+          return acc;
+        },
+        {}
+      );
+
+      return true;
+    });
+
+    const request: MockRequest = {
+      method,
+      path,
+      query: querystring.parse(search) as Record<string, string | string[]>,
+      headers: req.headers,
+      params,
+      body: parseBody(rawBody, req.headers['content-type']),
+    };
+    this.requests.push(request);
+
+    const response: MockResponse = route
+      ? await route.handler(request)
+      : { status: 404, body: { error: 'Not Found' } };
+
+    const { status = 200, headers = {}, body } = response;
+    const isRaw = typeof body === 'string' || Buffer.isBuffer(body);
+
+    res.writeHead(status, {
+      'Content-Type': isRaw ? 'text/plain' : 'application/json',
+      ...headers,
+    });
+    res.end(
+      isRaw || body === undefined ? (body as string) : JSON.stringify(body)
+    );
+  }
+}
+
+export { MockServer };
@@ -0,0 +1,234 @@
+import crypto from 'crypto';
+
+import debug from 'debug';
+import { AxiosRequestConfig } from 'axios';
+
+const debugRateLimit = debug('messaging-api:rate-limit');
+
+/**
+ * A token bucket which allows `capacity` requests in every `interval` milliseconds.
+ */
+export type RateLimitBucket = {
+  capacity: number;
+  interval: number;
+};
+
+export type RateLimitRule = RateLimitBucket & {
+  /**
+   * Returns the key of the bucket for the request, or `undefined` to skip the rule.
+   */
+  key: (config: AxiosRequestConfig) => string | undefined;
+};
+
+/**
+ * Stores token buckets. Implement it on top of a shared storage, e.g. Redis, to coordinate rate limits across multiple processes.
+ */
+export type RateLimitStore = {
+  /**
+   * Takes a token from the bucket atomically. The bucket may go into debt, so concurrent requests queue up in order.
+   *
+   * @returns The time in milliseconds to wait before the token becomes available, `0` if it's available now.
+   */
+  consume: (key: string, bucket: RateLimitBucket) => number | Promise<number>;
+};
+
+export type RateLimitOptions = {
+  /**
+   * The bucket shared by all requests sent with the same token. Set `false` to disable the platform default.
+   */
+  global?: RateLimitBucket | false;
+
+  /**
+   * The bucket for each recipient, e.g. chat ID, PSID or user ID. Set `false` to disable the platform default.
+   */
+  perRecipient?: RateLimitBucket | false;
+
+  /**
+   * Additional rules, e.g. per endpoint quotas.
+   */
+  rules?: RateLimitRule[];
+
+  /**
+   * The store of token buckets. Defaults to the in-memory store shared by all clients in the process.
+   */
+  store?: RateLimitStore;
+};
+
+/**
+ * Platform specific rate limits.
+ */
+export type RateLimitPolicy = {
+  global?: RateLimitBucket;
+  perRecipient?: RateLimitBucket;
+
+  /**
+   * Returns the recipient of the request, or `undefined` if it isn't sent to a recipient.
+   */
+  getRecipient?: (config: AxiosRequestConfig) => string | undefined;
+  rules?: RateLimitRule[];
+};
+
+type BucketState = {
+  tokens: number;
+  updatedAt: number;
+};
+
+const MAX_IDLE_BUCKETS = 10000;
+
+/**
+ * An in-memory store of token buckets.
+ */
+class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, BucketState>();
+
+  consume(key: string, { capacity, interval }: RateLimitBucket): number {
+    const now = Date.now();
+    const ratePerMs = capacity / interval;
+
+    const state = this.buckets.get(key) || { tokens: capacity, updatedAt: now };
+    const tokens =
+      Math.min(capacity, state.tokens + (now - state.updatedAt) * ratePerMs) -
+      1;
+
+    this.buckets.set(key, { tokens, updatedAt: now });
+
+    if (this.buckets.size > MAX_IDLE_BUCKETS) {
+      this.prune(now, interval);
+    }
+
+    return tokens >= 0 ? 0 : Math.ceil(-tokens / ratePerMs);
+  }
+
+  /**
+   * Removes all buckets.
+   */
+  clear(): void {
+    this.buckets.clear();
+  }
+
+  // buckets untouched for a full interval have refilled, so they can be recreated on demand
+  private prune(now: number, interval: number): void {
+    this.buckets.forEach((state, key) => {
+      if (now - state.updatedAt >= interval) {
+        this.buckets.delete(key);
+      }
+    });
+  }
+}
+
+/**
+ * The in-memory store shared by all clients in the process.
+ */
+const defaultRateLimitStore = new MemoryRateLimitStore();
+
+/**
+ * Creates a namespace of buckets without leaking the token into the store.
+ *
+ * @param platform - The platform name, e.g. `telegram`
+ * @param token - The access token or any identity of the client
+ * @returns The namespace
+ */
+function createRateLimitNamespace(platform: string, token: string): string {
+  const digest = crypto
+    .createHash('sha256')
+    .update(token)
+    .digest('hex')
+    .slice(0, 16);
+
+  return `${platform}:${digest}`;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function getRules(
+  options: RateLimitOptions,
+  policy: RateLimitPolicy
+): RateLimitRule[] {
+  const rules: RateLimitRule[] = [];
+
+  const global = options.global === undefined ? policy.global : options.global;
+  if (global) {
+    rules.push({ ...global, key: () => 'global' });
+  }
+
+  const perRecipient =
+    options.perRecipient === undefined
+      ? policy.perRecipient
+      : options.perRecipient;
+  const { getRecipient } = policy;
+  if (perRecipient && getRecipient) {
+    rules.push({
+      ...perRecipient,
+      key: (config) => {
+        const recipient = getRecipient(config);
+        return recipient !== undefined ? `recipient:${recipient}` : undefined;
+      },
+    });
+  }
+
+  return rules.concat(policy.rules || [], options.rules || []);
+}
+
+/**
+ * Creates an axios request interceptor which delays requests to stay under the rate limits.
+ *
+ * @param options - The options of the interceptor
+ * @param options.namespace - The namespace of buckets, usually created by `createRateLimitNamespace`
+ * @param options.rateLimit - The rate limit options
+ * @param options.policy - The platform specific rate limits
+ * @returns The request interceptor
+ *
+ * @example
+ * ```js
+ * axios.interceptors.request.use(
+ *   createRateLimitInterceptor({
+ *     namespace: createRateLimitNamespace('telegram', accessToken),
+ *     rateLimit: { global: { capacity: 30, interval: 1000 } },
+ *   })
+ * );
+ * ```
+ */
+function createRateLimitInterceptor({
+  namespace,
+  rateLimit,
+  policy = {},
+}: {
+  namespace: string;
+  rateLimit: RateLimitOptions;
+  policy?: RateLimitPolicy;
+}): (config: AxiosRequestConfig) => Promise<AxiosRequestConfig> {
+  const rules = getRules(rateLimit, policy);
+  const store = rateLimit.store || defaultRateLimitStore;
+
+  return async (config: AxiosRequestConfig): Promise<AxiosRequestConfig> => {
+    const waits = await Promise.all(
+      rules.map((rule) => {
+        const key = rule.key(config);
+        return key === undefined
+          ? 0
+          : store.consume(`${namespace}:${key}`, {
+              capacity: rule.capacity,
+              interval: rule.interval,
+            });
+      })
+    );
+
+    const wait = Math.max(0, ...waits);
+
+    if (wait > 0) {
+      debugRateLimit(`Delaying ${config.method} - ${config.url} by ${wait}ms`);
+      await sleep(wait);
+    }
+
+    return config;
+  };
+}
+
+export {
+  MemoryRateLimitStore,
+  createRateLimitInterceptor,
+  createRateLimitNamespace,
+  defaultRateLimitStore,
+};
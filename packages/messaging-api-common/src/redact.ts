@@ -0,0 +1,94 @@
+import escapeRegExp from 'lodash/escapeRegExp';
+import isPlainObject from 'lodash/isPlainObject';
+
+/**
+ * The replacement of redacted secrets.
+ */
+const REDACTED = '[REDACTED]';
+
+/**
+ * Platform specific locations of secrets.
+ */
+export type RedactionPolicy = {
+  /**
+   * Names of query parameters, headers and body fields containing secrets, e.g. `access_token`. Names are matched case-insensitively.
+   */
+  keys?: string[];
+
+  /**
+   * Secrets to be masked wherever they appear, e.g. a token in the URL path.
+   */
+  values?: (string | undefined)[];
+};
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type RedactFunction = (value: any) => any;
+
+/**
+ * Keys redacted on every platform.
+ */
+const DEFAULT_REDACTED_KEYS = ['authorization'];
+
+/**
+ * Creates a function which masks secrets in URLs, headers and bodies before they are logged. Strings are redacted by the secret values and by the query parameters named by the keys, so URLs and form-encoded bodies are covered. Plain objects and arrays are redacted recursively by the keys. Other values, e.g. buffers and streams, are returned as is.
+ *
+ * @param options - The options of the redactor
+ * @param options.policy - The platform specific locations of secrets
+ * @param options.redact - Additional names of query parameters, headers and body fields to be redacted
+ * @returns The redact function
+ *
+ * @example
+ * ```js
+ * const redact = createRedactor({ policy: { keys: ['access_token'] } });
+ *
+ * redact('https://example.com/path?access_token=SECRET');
+ * //=> 'https://example.com/path?access_token=[REDACTED]'
+ * ```
+ */
+function createRedactor({
+  policy = {},
+  redact = [],
+}: { policy?: RedactionPolicy; redact?: string[] } = {}): RedactFunction {
+  const keys = DEFAULT_REDACTED_KEYS.concat(
+    policy.keys || [],
+    redact
+  ).map((key) => key.toLowerCase());
+  const values = (policy.values || []).filter((value): value is string =>
+    Boolean(value)
+  );
+
+  const queryPattern = new RegExp(
+    `((?:^|[?&])(?:${keys.map(escapeRegExp).join('|')})=)[^&#]*`,
+    'gi'
+  );
+
+  const redactString = (str: string): string =>
+    values
+      .reduce((acc, value) => acc.split(value).join(REDACTED), str)
+      .replace(queryPattern, `$1${REDACTED}`);
+
+  const redactValue: RedactFunction = (value) => {
+    if (typeof value === 'string') {
+      return redactString(value);
+    }
+
+    if (Array.isArray(value)) {
+      return value.map(redactValue);
+    }
+
+    if (isPlainObject(value)) {
+      return Object.keys(value).reduce<Record<string, unknown>>((acc, key) => {
+        acc[key] = keys.includes(key.toLowerCase())
+          ? REDACTED
+          : redactValue(value[key]);
+        return acc;
+      }, {});
+    }
+
+    return value;
+  };
+
+  return redactValue;
+}
+
+export { REDACTED, createRedactor };
@@ -0,0 +1,236 @@
+import debug from 'debug';
+import {
+  AxiosError,
+  AxiosInstance,
+  AxiosRequestConfig,
+  AxiosResponse,
+} from 'axios';
+
+const debugRetry = debug('messaging-api:retry');
+
+export type RetryOptions = {
+  /**
+   * The maximum number of retries. Defaults to `3`.
+   */
+  retries?: number;
+
+  /**
+   * The delay in milliseconds before the first retry. Defaults to `1000`.
+   */
+  minTimeout?: number;
+
+  /**
+   * The maximum delay in milliseconds between two retries. Defaults to `30000`.
+   */
+  maxTimeout?: number;
+
+  /**
+   * The exponential factor of the delay. Defaults to `2`.
+   */
+  factor?: number;
+
+  /**
+   * The maximum time in milliseconds since the first failure. No more retries will be made if the next retry would exceed it. Defaults to `60000`.
+   */
+  maxElapsedTime?: number;
+
+  /**
+   * Overrides the default decision whether the failed request should be retried.
+   */
+  shouldRetry?: (error: AxiosError, attempt: number) => boolean;
+};
+
+/**
+ * Platform specific rules to decide whether a failed request can be retried.
+ */
+export type RetryPolicy = {
+  /**
+   * Whether the error indicates the request has been rejected without being processed, e.g. rate limited, so it's safe to retry even non-idempotent requests.
+   */
+  isRejected?: (error: AxiosError) => boolean;
+
+  /**
+   * Whether the error is transient, e.g. a temporary server error. Only idempotent requests are retried on transient errors.
+   */
+  isTransient?: (error: AxiosError) => boolean;
+
+  /**
+   * Whether the request can be sent multiple times without side effects. Requests with idempotent HTTP methods (GET, HEAD, OPTIONS, PUT and DELETE) are always considered idempotent.
+   */
+  isIdempotent?: (config: AxiosRequestConfig) => boolean;
+
+  /**
+   * Returns the delay in milliseconds requested by the platform.
+   */
+  getRetryAfter?: (error: AxiosError) => number | undefined;
+};
+
+type RetryState = {
+  attempt: number;
+  startTime: number;
+};
+
+type RetryRequestConfig = AxiosRequestConfig & {
+  retryState?: RetryState;
+};
+
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+
+function isIdempotentMethod(config: AxiosRequestConfig): boolean {
+  return IDEMPOTENT_METHODS.includes((config.method || 'get').toLowerCase());
+}
+
+function isStream(data: unknown): boolean {
+  return Boolean(
+    data &&
+      typeof data === 'object' &&
+      typeof (data as { pipe?: unknown }).pipe === 'function'
+  );
+}
+
+/**
+ * Parses the `Retry-After` header, which can be either seconds or an HTTP date.
+ *
+ * @param error - The axios error
+ * @returns The delay in milliseconds, or `undefined` if the header is absent or invalid.
+ */
+function getRetryAfterFromHeader(error: AxiosError): number | undefined {
+  const retryAfter =
+    error.response &&
+    error.response.headers &&
+    error.response.headers['retry-after'];
+
+  if (!retryAfter) {
+    return undefined;
+  }
+
+  if (/^\d+$/.test(retryAfter)) {
+    return Number(retryAfter) * 1000;
+  }
+
+  const date = Date.parse(retryAfter);
+
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function isTransientError(error: AxiosError): boolean {
+  if (!error.response) {
+    // network errors and timeouts
+    return true;
+  }
+
+  const { status } = error.response;
+
+  return status === 408 || status >= 500;
+}
+
+function isRetryableError(error: AxiosError, policy: RetryPolicy): boolean {
+  if (!error.config || isStream(error.config.data)) {
+    return false;
+  }
+
+  if (
+    (error.response && error.response.status === 429) ||
+    (policy.isRejected && policy.isRejected(error))
+  ) {
+    return true;
+  }
+
+  const isIdempotent =
+    isIdempotentMethod(error.config) ||
+    Boolean(policy.isIdempotent && policy.isIdempotent(error.config));
+
+  return (
+    isIdempotent &&
+    (isTransientError(error) ||
+      Boolean(policy.isTransient && policy.isTransient(error)))
+  );
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Creates an axios response error interceptor which retries failed requests with exponential backoff.
+ *
+ * Requests rejected by rate limits (429 or the platform's rate limit signals) are always retried, and the delay requested by the platform (e.g. `Retry-After`) is respected. Transient errors (network errors, 408 and 5xx) are only retried for idempotent requests. Requests with stream bodies are never retried.
+ *
+ * @param options - The options of the interceptor
+ * @param options.axios - The axios instance to resend requests
+ * @param options.retry - The retry options
+ * @param options.policy - The platform specific retry rules
+ * @returns The response error interceptor
+ *
+ * @example
+ * ```js
+ * this.axios.interceptors.response.use(
+ *   undefined,
+ *   createRetryInterceptor({ axios: this.axios, retry: config.retry })
+ * );
+ * ```
+ */
+function createRetryInterceptor({
+  axios,
+  retry,
+  policy = {},
+}: {
+  axios: AxiosInstance;
+  retry: RetryOptions;
+  policy?: RetryPolicy;
+}): (error: AxiosError) => Promise<AxiosResponse> {
+  const {
+    retries = 3,
+    minTimeout = 1000,
+    maxTimeout = 30000,
+    factor = 2,
+    maxElapsedTime = 60000,
+    shouldRetry,
+  } = retry;
+
+  return async (error: AxiosError): Promise<AxiosResponse> => {
+    const config = error.config as RetryRequestConfig | undefined;
+
+    if (!config) {
+      throw error;
+    }
+
+    const state = config.retryState || { attempt: 0, startTime: Date.now() };
+
+    const retryable = shouldRetry
+      ? shouldRetry(error, state.attempt + 1)
+      : isRetryableError(error, policy);
+
+    if (!retryable || state.attempt >= retries) {
+      throw error;
+    }
+
+    const retryAfter =
+      (policy.getRetryAfter && policy.getRetryAfter(error)) ||
+      getRetryAfterFromHeader(error);
+
+    const delay =
+      retryAfter !== undefined
+        ? retryAfter
+        : Math.min(maxTimeout, minTimeout * factor ** state.attempt);
+
+    if (Date.now() + delay - state.startTime > maxElapsedTime) {
+      throw error;
+    }
+
+    debugRetry(
+      `Retrying ${config.method} - ${config.url} in ${delay}ms (attempt ${
+        state.attempt + 1
+      })`
+    );
+
+    await sleep(delay);
+
+    return axios.request({
+      ...config,
+      retryState: { ...state, attempt: state.attempt + 1 },
+    } as RetryRequestConfig);
+  };
+}
+
+export { createRetryInterceptor, getRetryAfterFromHeader };
@@ -0,0 +1,53 @@
+import crypto from 'crypto';
+
+/**
+ * Compares two strings or buffers in constant time.
+ *
+ * @param a - The first input
+ * @param b - The second input
+ * @returns Whether the inputs are equal
+ *
+ * @example
+ * ```js
+ * safeCompare('signature', 'signature');
+ * //=> true
+ * ```
+ */
+function safeCompare(a: string | Buffer, b: string | Buffer): boolean {
+  const bufferA = Buffer.isBuffer(a) ? a : Buffer.from(a, 'utf8');
+  const bufferB = Buffer.isBuffer(b) ? b : Buffer.from(b, 'utf8');
+
+  // `timingSafeEqual` throws on inputs with different lengths,
+  // so we compare against itself to avoid leaking the length by timing
+  if (bufferA.length !== bufferB.length) {
+    crypto.timingSafeEqual(bufferA, bufferA);
+    return false;
+  }
+
+  return crypto.timingSafeEqual(bufferA, bufferB);
+}
+
+/**
+ * Creates a HMAC digest of the given data.
+ *
+ * @param algorithm - The hash algorithm, e.g. `sha1` or `sha256`
+ * @param secret - The secret key of the HMAC
+ * @param data - The data to be signed, usually the raw request body
+ * @param encoding - The encoding of the digest
+ * @returns The digest string
+ *
+ * @example
+ * ```js
+ * createHmacDigest('sha256', CHANNEL_SECRET, rawBody, 'base64');
+ * ```
+ */
+function createHmacDigest(
+  algorithm: string,
+  secret: string,
+  data: string | Buffer,
+  encoding: 'hex' | 'base64' = 'hex'
+): string {
+  return crypto.createHmac(algorithm, secret).update(data).digest(encoding);
+}
+
+export { safeCompare, createHmacDigest };
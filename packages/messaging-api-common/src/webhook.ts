@@ -0,0 +1,317 @@
+import url from 'url';
+import { IncomingHttpHeaders, IncomingMessage, ServerResponse } from 'http';
+
+import debug from 'debug';
+
+const debugWebhook = debug('messaging-api:webhook');
+
+export type WebhookRequest = {
+  method: string;
+  url: string;
+  path: string;
+  query: Record<string, string | string[] | undefined>;
+  headers: IncomingHttpHeaders;
+
+  /**
+   * The raw request body. It's an empty buffer when the request has no body.
+   */
+  rawBody: Buffer;
+};
+
+export type WebhookResponse = {
+  status: number;
+  headers?: Record<string, string>;
+  body?: string | Record<string, unknown>;
+};
+
+export type WebhookResult<E> = {
+  /**
+   * The response to be sent to the platform immediately.
+   */
+  response: WebhookResponse;
+
+  /**
+   * The events to be handled after the response has been sent.
+   */
+  events?: E[];
+};
+
+/**
+ * A platform adapter which verifies requests, answers handshakes and parses events.
+ */
+export type WebhookPlatform<E> = {
+  platform: string;
+
+  /**
+   * The HTTP methods of the webhook requests, e.g. `['GET', 'POST']`. The middleware passes requests with other methods to `next`, or responds `405` without `next`. Requests with any method are handled if not provided.
+   */
+  methods?: string[];
+
+  /**
+   * Verifies and parses the request. Requests whose bodies can't be parsed should be responded with `400`, since platforms retry requests responded with `5xx`.
+   */
+  handleRequest: (
+    request: WebhookRequest
+  ) => WebhookResult<E> | Promise<WebhookResult<E>>;
+};
+
+export type WebhookMiddlewareOptions<E> = {
+  /**
+   * The callback to be called with parsed events after the platform has been acknowledged.
+   */
+  onEvents: (events: E[], request: WebhookRequest) => void | Promise<void>;
+
+  /**
+   * The callback to be called when any error occurs while handling the request or the events.
+   */
+  onError?: (error: Error, request?: WebhookRequest) => void;
+
+  /**
+   * The path of the webhook, e.g. `/webhooks/messenger`. The middleware passes requests to other paths to `next`, or responds `404` without `next`. Requests to any path are handled if not provided.
+   */
+  path?: string;
+};
+
+type NodeRequest = IncomingMessage & {
+  originalUrl?: string;
+  rawBody?: Buffer | string;
+  body?: unknown;
+};
+
+type KoaContext = {
+  req: NodeRequest;
+  res: ServerResponse;
+  request: {
+    rawBody?: Buffer | string;
+    body?: unknown;
+  };
+  status: number;
+  body: unknown;
+  set: (field: string, value: string) => void;
+};
+
+export type WebhookMiddleware = {
+  /**
+   * Node.js http and Express style.
+   */
+  (req: IncomingMessage, res: ServerResponse, next?: () => void): Promise<void>;
+
+  /**
+   * Koa style.
+   */
+  (ctx: KoaContext, next?: () => Promise<void>): Promise<void>;
+};
+
+function defaultOnError(error: Error): void {
+  debugWebhook('Error occurred when handling webhook:');
+  debugWebhook(error);
+}
+
+function isKoaContext(arg: NodeRequest | KoaContext): arg is KoaContext {
+  const ctx = arg as Partial<KoaContext>;
+  return Boolean(ctx.req && ctx.res && ctx.request);
+}
+
+function readStream(req: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer | string) => {
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Gets the raw body from the body parsers, or reads it from the request stream.
+ */
+async function getRawBody(
+  req: NodeRequest,
+  koaRequest?: KoaContext['request']
+): Promise<Buffer> {
+  const rawBody =
+    (koaRequest && koaRequest.rawBody) ||
+    req.rawBody ||
+    (typeof req.body === 'string' || Buffer.isBuffer(req.body)
+      ? req.body
+      : undefined);
+
+  if (rawBody !== undefined) {
+    return Buffer.isBuffer(rawBody) ? rawBody : Buffer.from(rawBody, 'utf8');
+  }
+
+  if (req.body !== undefined || (koaRequest && koaRequest.body !== undefined)) {
+    throw new Error(
+      'The request body has been parsed without keeping the raw body. Provide `req.rawBody` in your body parser or mount the webhook middleware before it.'
+    );
+  }
+
+  return readStream(req);
+}
+
+function getRequestUrl(req: NodeRequest): string {
+  return req.originalUrl || req.url || '/';
+}
+
+function getRequestMethod(req: NodeRequest): string {
+  return (req.method || 'GET').toUpperCase();
+}
+
+async function createWebhookRequest(
+  req: NodeRequest,
+  koaRequest?: KoaContext['request']
+): Promise<WebhookRequest> {
+  const requestUrl = getRequestUrl(req);
+  const { pathname, query } = url.parse(requestUrl, true);
+
+  return {
+    method: getRequestMethod(req),
+    url: requestUrl,
+    path: pathname || '/',
+    query,
+    headers: req.headers,
+    rawBody: await getRawBody(req, koaRequest),
+  };
+}
+
+function serializeBody(
+  response: WebhookResponse
+): { body: string; contentType: string } {
+  if (typeof response.body === 'object') {
+    return {
+      body: JSON.stringify(response.body),
+      contentType: 'application/json',
+    };
+  }
+  return {
+    body: response.body || '',
+    contentType: 'text/plain',
+  };
+}
+
+function sendNodeResponse(res: ServerResponse, response: WebhookResponse) {
+  const { body, contentType } = serializeBody(response);
+
+  res.writeHead(response.status, {
+    'Content-Type': contentType,
+    ...response.headers,
+  });
+  res.end(body);
+}
+
+function sendKoaResponse(ctx: KoaContext, response: WebhookResponse) {
+  const { body, contentType } = serializeBody(response);
+
+  ctx.status = response.status;
+  ctx.set('Content-Type', contentType);
+  Object.entries(response.headers || {}).forEach(([field, value]) => {
+    ctx.set(field, value);
+  });
+  ctx.body = body;
+}
+
+/**
+ * Creates a webhook middleware for Express, Koa or Node.js http server.
+ *
+ * The middleware captures the raw body, lets the platform verify the request and answer handshakes, acknowledges the platform immediately, and then hands the parsed events to `onEvents` asynchronously so the platform won't retry because of slow handlers. Requests to other paths than `path` or with other methods than the methods of the platform are passed to `next` without reading the body.
+ *
+ * @param platform - The platform adapter
+ * @param options - The options of the middleware
+ * @returns The middleware function
+ *
+ * @example
+ * ```js
+ * // Express or Node.js http
+ * app.post('/webhook', createWebhookMiddleware(platform, { onEvents }));
+ * http.createServer(createWebhookMiddleware(platform, { onEvents }));
+ *
+ * // Koa
+ * app.use(createWebhookMiddleware(platform, { onEvents, path: '/webhook' }));
+ * ```
+ */
+function createWebhookMiddleware<E>(
+  platform: WebhookPlatform<E>,
+  { onEvents, onError = defaultOnError, path }: WebhookMiddlewareOptions<E>
+): WebhookMiddleware {
+  // the status to respond without `next` when the request isn't a webhook request of the platform
+  const getSkipStatus = (req: NodeRequest): number | undefined => {
+    if (path && url.parse(getRequestUrl(req)).pathname !== path) {
+      return 404;
+    }
+    if (platform.methods && !platform.methods.includes(getRequestMethod(req))) {
+      return 405;
+    }
+    return undefined;
+  };
+
+  const middleware = async (
+    reqOrCtx: NodeRequest | KoaContext,
+    resOrNext?: ServerResponse | (() => Promise<void>),
+    nodeNext?: () => void
+  ): Promise<void> => {
+    let req: NodeRequest;
+    let next: (() => void | Promise<void>) | undefined;
+    let send: (response: WebhookResponse) => void;
+
+    if (isKoaContext(reqOrCtx)) {
+      const ctx = reqOrCtx;
+      req = ctx.req;
+      next = resOrNext as (() => Promise<void>) | undefined;
+      send = (response) => sendKoaResponse(ctx, response);
+    } else {
+      const res = resOrNext as ServerResponse;
+      req = reqOrCtx;
+      next = nodeNext;
+      send = (response) => sendNodeResponse(res, response);
+    }
+
+    const skipStatus = getSkipStatus(req);
+
+    if (skipStatus) {
+      if (next) {
+        await next();
+      } else {
+        send({ status: skipStatus });
+      }
+      return;
+    }
+
+    let request: WebhookRequest | undefined;
+    let result: WebhookResult<E>;
+
+    try {
+      request = await createWebhookRequest(
+        req,
+        isKoaContext(reqOrCtx) ? reqOrCtx.request : undefined
+      );
+      result = await platform.handleRequest(request);
+    } catch (err) {
+      onError(err, request);
+      // malformed JSON bodies won't be parsed by retrying either
+      send({ status: request && err instanceof SyntaxError ? 400 : 500 });
+      return;
+    }
+
+    debugWebhook(
+      `${platform.platform} - ${request.method} ${request.url} - ${result.response.status}`
+    );
+
+    send(result.response);
+
+    const { events } = result;
+
+    if (events && events.length > 0) {
+      const webhookRequest = request;
+
+      // handle events after the response has been sent
+      Promise.resolve()
+        .then(() => onEvents(events, webhookRequest))
+        .catch((err) => onError(err, webhookRequest));
+    }
+  };
+
+  return middleware as WebhookMiddleware;
+}
+
+export { createWebhookMiddleware };
@@ -8,12 +8,49 @@ import invariant from 'ts-invariant';
 import warning from 'warning';
 import {
   OnRequestFunction,
+  RateLimitPolicy,
+  RequestOptions,
+  createCassetteAdapter,
+  createHmacDigest,
+  createRateLimitInterceptor,
+  createRateLimitNamespace,
+  createRedactor,
+  createRequestConfig,
   createRequestInterceptor,
+  createResponseInterceptor,
+  createRetryInterceptor,
+  safeCompare,
+  withRequestOptions,
 } from 'messaging-api-common';
 
 import Line from './Line';
 import * as LineTypes from './LineTypes';
 
+/**
+ * @see https://developers.line.biz/en/reference/messaging-api/#rate-limits
+ */
+const rateLimitPolicy: RateLimitPolicy = {
+  global: { capacity: 2000, interval: 1000 },
+  getRecipient: (config) =>
+    config.url === '/v2/bot/message/push' && config.data
+      ? config.data.to
+      : undefined,
+  rules: [
+    {
+      capacity: 200,
+      interval: 1000,
+      key: (config) =>
+        config.url === '/v2/bot/message/multicast' ? 'multicast' : undefined,
+    },
+    {
+      capacity: 60,
+      interval: 60 * 60 * 1000,
+      key: (config) =>
+        config.url === '/v2/bot/message/narrowcast' ? 'narrowcast' : undefined,
+    },
+  ],
+};
+
 function handleError(
   err: BaseAxiosError<{
     message: string;
@@ -105,22 +142,157 @@ export default class LineClient {
         Authorization: `Bearer ${this.accessToken}`,
         'Content-Type': 'application/json',
       },
+      timeout: config.timeout,
+    });
+
+    const redact = createRedactor({
+      policy: { values: [this.accessToken, config.channelSecret] },
+      redact: config.redact,
     });
 
     this.axios.interceptors.request.use(
-      createRequestInterceptor({ onRequest: this.onRequest })
+      createRequestInterceptor({ onRequest: this.onRequest, redact })
     );
 
+    if (config.cassette) {
+      this.axios.defaults.adapter = createCassetteAdapter({
+        cassette: config.cassette,
+        adapter: this.axios.defaults.adapter,
+      });
+    }
+
+    if (config.onResponse || config.onError) {
+      const responseInterceptor = createResponseInterceptor({
+        onResponse: config.onResponse,
+        onError: config.onError,
+        requestIdHeader: 'x-line-request-id',
+      });
+      this.axios.interceptors.response.use(
+        responseInterceptor.onFulfilled,
+        responseInterceptor.onRejected
+      );
+    }
+
+    if (config.rateLimit) {
+      this.axios.interceptors.request.use(
+        createRateLimitInterceptor({
+          namespace: createRateLimitNamespace('line', this.accessToken),
+          rateLimit: config.rateLimit,
+          policy: rateLimitPolicy,
+        })
+      );
+    }
+
+    if (config.retry) {
+      this.axios.interceptors.response.use(
+        undefined,
+        createRetryInterceptor({ axios: this.axios, retry: config.retry })
+      );
+    }
+
     this.dataAxios = axios.create({
       baseURL: `${dataOrigin || 'https://api-data.line.me'}/`,
       headers: {
         Authorization: `Bearer ${this.accessToken}`,
         'Content-Type': 'application/json',
       },
+      timeout: config.timeout,
     });
 
     this.dataAxios.interceptors.request.use(
-      createRequestInterceptor({ onRequest: this.onRequest })
+      createRequestInterceptor({ onRequest: this.onRequest, redact })
+    );
+
+    if (config.cassette) {
+      this.dataAxios.defaults.adapter = createCassetteAdapter({
+        cassette: config.cassette,
+        adapter: this.dataAxios.defaults.adapter,
+      });
+    }
+
+    if (config.onResponse || config.onError) {
+      const responseInterceptor = createResponseInterceptor({
+        onResponse: config.onResponse,
+        onError: config.onError,
+        requestIdHeader: 'x-line-request-id',
+      });
+      this.dataAxios.interceptors.response.use(
+        responseInterceptor.onFulfilled,
+        responseInterceptor.onRejected
+      );
+    }
+
+    if (config.rateLimit) {
+      this.dataAxios.interceptors.request.use(
+        createRateLimitInterceptor({
+          namespace: createRateLimitNamespace('line', this.accessToken),
+          rateLimit: config.rateLimit,
+          policy: rateLimitPolicy,
+        })
+      );
+    }
+
+    if (config.retry) {
+      this.dataAxios.interceptors.response.use(
+        undefined,
+        createRetryInterceptor({ axios: this.dataAxios, retry: config.retry })
+      );
+    }
+  }
+
+  /**
+   * Creates a view of the client whose requests carry the request options, so any method can be aborted or time out. The view shares the state of the client.
+   *
+   * @param options - The request options, e.g. `signal` and `timeout`.
+   * @returns The view of the client.
+   *
+   * @example
+   *
+   * ```js
+   * const controller = new AbortController();
+   *
+   * await client
+   *   .withRequestOptions({ signal: controller.signal, timeout: 5000 })
+   *   .pushText(USER_ID, 'Hello');
+   * ```
+   */
+  withRequestOptions(options: RequestOptions): this {
+    return withRequestOptions(this, options);
+  }
+
+  /**
+   * Verifies the `X-Line-Signature` header of a webhook request.
+   *
+   * The signature is a base64 encoded HMAC-SHA256 digest of the raw request body using the channel secret as the key.
+   *
+   * [Official document - signature validation](https://developers.line.biz/en/reference/messaging-api/#signature-validation)
+   *
+   * @param rawBody - The raw request body. Do not use the re-serialized JSON body because the signature is calculated from the original bytes.
+   * @param signature - The value of the `X-Line-Signature` header.
+   * @returns `true` if the signature is valid.
+   *
+   * @example
+   *
+   * ```js
+   * client.verifySignature(rawBody, req.headers['x-line-signature']);
+   * ```
+   */
+  verifySignature(rawBody: string | Buffer, signature: string): boolean {
+    invariant(
+      this.channelSecret,
+      'LineClient: `channelSecret` is required to verify the signature.'
+    );
+
+    if (typeof signature !== 'string') return false;
+
+    return safeCompare(
+      createHmacDigest(
+        'sha256',
+        this.channelSecret as string,
+        rawBody,
+        'base64'
+      ),
+      signature
     );
   }
 
@@ -1676,6 +1848,7 @@ export default class LineClient {
    *
    * @param groupId - Group ID. Found in the `source` object of [webhook event objects](https://developers.line.biz/en/reference/messaging-api/#webhook-event-objects).
    * @param start - Value of the continuation token found in the `next` property of the JSON object returned in the [response](https://developers.line.biz/en/reference/messaging-api/#get-group-member-user-ids-response). Include this parameter to get the next array of user IDs for the members of the group.
+   * @param options - The options of the request, e.g. `signal` to abort it and `timeout` to override the timeout of the client.
    * @returns Returns status code `200` and a JSON object with the following information.
    *
    * memberIds:
@@ -1687,11 +1860,13 @@ export default class LineClient {
    */
   getGroupMemberIds(
     groupId: string,
-    start?: string
+    start?: string,
+    options: RequestOptions = {}
   ): Promise<{ memberIds: string[]; next?: string }> {
     return this.axios
       .get(
-        `/v2/bot/group/${groupId}/members/ids${start ? `?start=${start}` : ''}`
+        `/v2/bot/group/${groupId}/members/ids${start ? `?start=${start}` : ''}`,
+        createRequestConfig(options)
       )
       .then((res) => res.data, handleError);
   }
@@ -1706,12 +1881,16 @@ export default class LineClient {
    * [Official document - get group member profile](https://developers.line.biz/en/reference/messaging-api/#get-group-member-profile)
    *
    * @param groupId - Group ID. Found in the `source` object of [webhook event objects](https://developers.line.biz/en/reference/messaging-api/#webhook-event-objects).
+   * @param options - The options of the requests. Aborting `signal` stops fetching the remaining pages, and `timeout` applies to each page.
    * @returns Returns status code `200` and a JSON object with the following information.
    *
    * memberIds:
    * - List of user IDs of members in the group. Users of LINE version 7.4.x or earlier are not included in `memberIds`. For more information, see [User consent](https://developers.line.biz/en/docs/messaging-api/user-consent/).
    */
-  async getAllGroupMemberIds(groupId: string): Promise<string[]> {
+  async getAllGroupMemberIds(
+    groupId: string,
+    options: RequestOptions = {}
+  ): Promise<string[]> {
     let allMemberIds: string[] = [];
     let continuationToken;
 
@@ -1722,7 +1901,8 @@ export default class LineClient {
       }: // eslint-disable-next-line no-await-in-loop
       { memberIds: string[]; next?: string } = await this.getGroupMemberIds(
         groupId,
-        continuationToken
+        continuationToken,
+        options
       );
 
       allMemberIds = allMemberIds.concat(memberIds);
@@ -1762,6 +1942,7 @@ export default class LineClient {
    *
    * @param roomId - Room ID. Found in the `source` object of [webhook event objects](https://developers.line.biz/en/reference/messaging-api/#webhook-event-objects).
    * @param start - Value of the continuation token found in the `next` property of the JSON object returned in the [response](https://developers.line.biz/en/reference/messaging-api/#get-room-member-user-ids-response). Include this parameter to get the next array of user IDs for the members of the group.
+   * @param options - The options of the request, e.g. `signal` to abort it and `timeout` to override the timeout of the client.
    * @returns Returns status code `200` and a JSON object with the following information.
    *
    * memberIds:
@@ -1773,11 +1954,13 @@ export default class LineClient {
    */
   getRoomMemberIds(
     roomId: string,
-    start?: string
+    start?: string,
+    options: RequestOptions = {}
   ): Promise<{ memberIds: string[]; next?: string }> {
     return this.axios
       .get(
-        `/v2/bot/room/${roomId}/members/ids${start ? `?start=${start}` : ''}`
+        `/v2/bot/room/${roomId}/members/ids${start ? `?start=${start}` : ''}`,
+        createRequestConfig(options)
       )
       .then((res) => res.data, handleError);
   }
@@ -1792,12 +1975,16 @@ export default class LineClient {
    * [Official document - get room member profile](https://developers.line.biz/en/reference/messaging-api/#get-room-member-user-ids)
    *
    * @param roomId - Room ID. Found in the `source` object of [webhook event objects](https://developers.line.biz/en/reference/messaging-api/#webhook-event-objects).
+   * @param options - The options of the requests. Aborting `signal` stops fetching the remaining pages, and `timeout` applies to each page.
    * @returns Returns status code `200` and a JSON object with the following information.
    *
    * memberIds:
    * - List of user IDs of members in the room. Users of LINE version 7.4.x or earlier are not included in `memberIds`. For more information, see [User consent](https://developers.line.biz/en/docs/messaging-api/user-consent/).
    */
-  async getAllRoomMemberIds(roomId: string): Promise<string[]> {
+  async getAllRoomMemberIds(
+    roomId: string,
+    options: RequestOptions = {}
+  ): Promise<string[]> {
     let allMemberIds: string[] = [];
     let continuationToken;
 
@@ -1808,7 +1995,8 @@ export default class LineClient {
       }: // eslint-disable-next-line no-await-in-loop
       { memberIds: string[]; next?: string } = await this.getRoomMemberIds(
         roomId,
-        continuationToken
+        continuationToken,
+        options
       );
 
       allMemberIds = allMemberIds.concat(memberIds);
@@ -0,0 +1,331 @@
+import { MockRequest, MockResponse, MockServer } from 'messaging-api-common';
+
+import * as LineTypes from './LineTypes';
+
+type ValidationDetail = {
+  property: string;
+  message: string;
+};
+
+type StoredRichMenu = LineTypes.RichMenu & { richMenuId: string };
+
+const REQUIRED_MESSAGE_FIELDS: Record<string, string[]> = {
+  text: ['text'],
+  image: ['originalContentUrl', 'previewImageUrl'],
+  video: ['originalContentUrl', 'previewImageUrl'],
+  audio: ['originalContentUrl', 'duration'],
+  location: ['title', 'address', 'latitude', 'longitude'],
+  sticker: ['packageId', 'stickerId'],
+  imagemap: ['baseUrl', 'altText', 'baseSize', 'actions'],
+  template: ['altText', 'template'],
+  flex: ['altText', 'contents'],
+};
+
+const REQUIRED_RICH_MENU_FIELDS = [
+  'size',
+  'selected',
+  'name',
+  'chatBarText',
+  'areas',
+];
+
+function badRequest(
+  message: string,
+  details?: ValidationDetail[]
+): MockResponse {
+  return {
+    status: 400,
+    body: details ? { message, details } : { message },
+  };
+}
+
+function notFound(): MockResponse {
+  return { status: 404, body: { message: 'Not found' } };
+}
+
+function validateMessages(messages: unknown): ValidationDetail[] {
+  if (!Array.isArray(messages) || messages.length === 0) {
+    return [{ property: 'messages', message: 'must be specified' }];
+  }
+
+  if (messages.length > 5) {
+    return [{ property: 'messages', message: 'Size must be between 1 and 5' }];
+  }
+
+  return messages.reduce<ValidationDetail[]>((details, message, index) => {
+    const requiredFields = REQUIRED_MESSAGE_FIELDS[message && message.type];
+
+    if (!requiredFields) {
+      return details.concat({
+        property: `messages[${index}].type`,
+        message: 'invalid type',
+      });
+    }
+
+    return details.concat(
+      requiredFields
+        .filter(
+          (field) => message[field] === undefined || message[field] === ''
+        )
+        .map((field) => ({
+          property: `messages[${index}].${field}`,
+          message: 'must be specified',
+        }))
+    );
+  }, []);
+}
+
+/**
+ * An in-process fake LINE Messaging API server which implements the reply, push and multicast APIs and the rich menu APIs. Pass its origin as both `origin` and `dataOrigin`. Sent messages are validated and recorded in `messages`.
+ *
+ * @example
+ * ```js
+ * const server = new LineMockServer();
+ * const origin = await server.listen();
+ *
+ * const client = new LineClient({
+ *   accessToken: ACCESS_TOKEN,
+ *   channelSecret: CHANNEL_SECRET,
+ *   origin,
+ *   dataOrigin: origin,
+ * });
+ *
+ * await client.pushText(USER_ID, 'Hello!');
+ *
+ * server.messages;
+ * // [{ type: 'push', to: USER_ID, messages: [{ type: 'text', text: 'Hello!' }] }]
+ * ```
+ */
+export default class LineMockServer extends MockServer<
+  LineTypes.MockSentMessage
+> {
+  /**
+   * Created rich menus by their IDs.
+   */
+  readonly richMenus = new Map<string, StoredRichMenu>();
+
+  /**
+   * Uploaded rich menu images by rich menu IDs.
+   */
+  readonly richMenuImages = new Map<
+    string,
+    { contentType: string; data: Buffer }
+  >();
+
+  /**
+   * IDs of rich menus linked to users.
+   */
+  readonly linkedRichMenus = new Map<string, string>();
+
+  /**
+   * The ID of the default rich menu.
+   */
+  defaultRichMenuId?: string;
+
+  private richMenuCount = 0;
+
+  constructor() {
+    super('line');
+
+    this.route('POST', '/v2/bot/message/reply', (request) =>
+      this.handleSend(request, 'reply')
+    );
+    this.route('POST', '/v2/bot/message/push', (request) =>
+      this.handleSend(request, 'push')
+    );
+    this.route('POST', '/v2/bot/message/multicast', (request) =>
+      this.handleSend(request, 'multicast')
+    );
+
+    this.route('POST', '/v2/bot/richmenu', (request) =>
+      this.authorize(request, () => this.createRichMenu(request.body))
+    );
+    this.route('GET', '/v2/bot/richmenu/:richMenuId', (request) =>
+      this.authorize(request, () => {
+        const richMenu = this.richMenus.get(request.params.richMenuId);
+        return richMenu ? { body: richMenu } : notFound();
+      })
+    );
+    this.route('GET', '/v2/bot/richmenu/list', (request) =>
+      this.authorize(request, () => ({
+        body: { richmenus: Array.from(this.richMenus.values()) },
+      }))
+    );
+    this.route('DELETE', '/v2/bot/richmenu/:richMenuId', (request) =>
+      this.authorize(request, () =>
+        this.withRichMenu(request.params.richMenuId, (richMenuId) => {
+          this.richMenus.delete(richMenuId);
+          this.richMenuImages.delete(richMenuId);
+        })
+      )
+    );
+    this.route('POST', '/v2/bot/richmenu/:richMenuId/content', (request) =>
+      this.authorize(request, () =>
+        this.withRichMenu(request.params.richMenuId, (richMenuId) => {
+          this.richMenuImages.set(richMenuId, {
+            contentType: request.headers['content-type'] || '',
+            data: request.body,
+          });
+        })
+      )
+    );
+    this.route('GET', '/v2/bot/richmenu/:richMenuId/content', (request) =>
+      this.authorize(request, () => {
+        const image = this.richMenuImages.get(request.params.richMenuId);
+        return image
+          ? { headers: { 'Content-Type': image.contentType }, body: image.data }
+          : notFound();
+      })
+    );
+
+    this.route('GET', '/v2/bot/user/:userId/richmenu', (request) =>
+      this.authorize(request, () => {
+        const richMenuId = this.linkedRichMenus.get(request.params.userId);
+        return richMenuId ? { body: { richMenuId } } : notFound();
+      })
+    );
+    this.route('POST', '/v2/bot/user/:userId/richmenu/:richMenuId', (request) =>
+      this.authorize(request, () =>
+        this.withRichMenu(request.params.richMenuId, (richMenuId) => {
+          this.linkedRichMenus.set(request.params.userId, richMenuId);
+        })
+      )
+    );
+    this.route('DELETE', '/v2/bot/user/:userId/richmenu', (request) =>
+      this.authorize(request, () => {
+        this.linkedRichMenus.delete(request.params.userId);
+        return { body: {} };
+      })
+    );
+
+    this.route('GET', '/v2/bot/user/all/richmenu', (request) =>
+      this.authorize(request, () =>
+        this.defaultRichMenuId
+          ? { body: { richMenuId: this.defaultRichMenuId } }
+          : notFound()
+      )
+    );
+    this.route('POST', '/v2/bot/user/all/richmenu/:richMenuId', (request) =>
+      this.authorize(request, () =>
+        this.withRichMenu(request.params.richMenuId, (richMenuId) => {
+          this.defaultRichMenuId = richMenuId;
+        })
+      )
+    );
+    this.route('DELETE', '/v2/bot/user/all/richmenu', (request) =>
+      this.authorize(request, () => {
+        this.defaultRichMenuId = undefined;
+        return { body: {} };
+      })
+    );
+  }
+
+  /**
+   * Clears recorded requests, messages and rich menus.
+   */
+  reset(): void {
+    super.reset();
+    this.richMenus.clear();
+    this.richMenuImages.clear();
+    this.linkedRichMenus.clear();
+    this.defaultRichMenuId = undefined;
+  }
+
+  private authorize(
+    request: MockRequest,
+    handler: () => MockResponse
+  ): MockResponse {
+    if (!/^Bearer .+/.test(request.headers.authorization || '')) {
+      return {
+        status: 401,
+        body: {
+          message:
+            'Authentication failed. Confirm that the access token in the authorization header is valid.',
+        },
+      };
+    }
+
+    return handler();
+  }
+
+  private withRichMenu(
+    richMenuId: string,
+    update: (richMenuId: string) => void
+  ): MockResponse {
+    if (!this.richMenus.has(richMenuId)) {
+      return notFound();
+    }
+
+    update(richMenuId);
+
+    return { body: {} };
+  }
+
+  private handleSend(
+    request: MockRequest,
+    type: LineTypes.MockSentMessage['type']
+  ): MockResponse {
+    return this.authorize(request, () => {
+      const body = request.body || {};
+      const details = validateMessages(body.messages);
+
+      if (type === 'reply' && !body.replyToken) {
+        details.unshift({
+          property: 'replyToken',
+          message: 'must be specified',
+        });
+      }
+
+      if (type === 'push' && typeof body.to !== 'string') {
+        details.unshift({ property: 'to', message: 'must be specified' });
+      }
+
+      if (type === 'multicast') {
+        if (!Array.isArray(body.to) || body.to.length === 0) {
+          details.unshift({ property: 'to', message: 'must be specified' });
+        } else if (body.to.length > 500) {
+          details.unshift({
+            property: 'to',
+            message: 'Size must be between 1 and 500',
+          });
+        }
+      }
+
+      if (details.length > 0) {
+        return badRequest(
+          `The request body has ${details.length} error(s)`,
+          details
+        );
+      }
+
+      this.messages.push({ type, ...body });
+
+      return {
+        headers: {
+          'x-line-request-id': `mock-request-${this.requests.length}`,
+        },
+        body: {},
+      };
+    });
+  }
+
+  private createRichMenu(richMenu: Record<string, unknown>): MockResponse {
+    const details = REQUIRED_RICH_MENU_FIELDS.filter(
+      (field) => !richMenu || richMenu[field] === undefined
+    ).map((field) => ({ property: field, message: 'must be specified' }));
+
+    if (details.length > 0) {
+      return badRequest('The request body has errors', details);
+    }
+
+    this.richMenuCount += 1;
+    const richMenuId = `richmenu-${this.richMenuCount}`;
+
+    this.richMenus.set(richMenuId, {
+      ...(richMenu as LineTypes.RichMenu),
+      richMenuId,
+    });
+
+    return { body: { richMenuId } };
+  }
+}
@@ -1,4 +1,11 @@
-import { OnRequestFunction } from 'messaging-api-common';
+import {
+  CassetteOptions,
+  OnErrorFunction,
+  OnRequestFunction,
+  OnResponseFunction,
+  RateLimitOptions,
+  RetryOptions,
+} from 'messaging-api-common';
 
 export type ClientConfig = {
   accessToken: string;
@@ -6,6 +13,41 @@ export type ClientConfig = {
   origin?: string;
   dataOrigin?: string;
   onRequest?: OnRequestFunction;
+
+  /**
+   * The callback to be called with every successful response.
+   */
+  onResponse?: OnResponseFunction;
+
+  /**
+   * The callback to be called with every failed request.
+   */
+  onError?: OnErrorFunction;
+
+  /**
+   * Additional names of query parameters, headers and body fields to be redacted from `onRequest` payloads and error messages. Secrets of the platform, e.g. the access token, are always redacted.
+   */
+  redact?: string[];
+
+  /**
+   * The timeout of each request in milliseconds. Requests never time out if not provided. It can be overridden by the `timeout` option of paginating methods.
+   */
+  timeout?: number;
+
+  /**
+   * Records requests into a JSON cassette or replays them without sending requests, e.g. for offline testing.
+   */
+  cassette?: CassetteOptions;
+
+  /**
+   * Retries failed requests with exponential backoff. Requests are not retried if not provided.
+   */
+  retry?: RetryOptions;
+
+  /**
+   * Delays requests to stay under the rate limits of the platform. Requests are not limited if not provided.
+   */
+  rateLimit?: RateLimitOptions;
 };
 
 /**
@@ -2522,3 +2564,423 @@ export type LineNotifyOptions = {
    */
   notificationDisabled?: boolean;
 };
+
+/**
+ * Webhook
+ *
+ * [Official document - webhook event objects](https://developers.line.biz/en/reference/messaging-api/#webhook-event-objects)
+ */
+
+export type UserSource = {
+  type: 'user';
+
+  /** ID of the source user */
+  userId: string;
+};
+
+export type GroupSource = {
+  type: 'group';
+
+  /** Group ID of the source group chat */
+  groupId: string;
+
+  /** ID of the source user. Only included in message events. Not included if the user has not agreed to the Official Accounts Terms of Use. */
+  userId?: string;
+};
+
+export type RoomSource = {
+  type: 'room';
+
+  /** Room ID of the source multi-person chat */
+  roomId: string;
+
+  /** ID of the source user. Only included in message events. Not included if the user has not agreed to the Official Accounts Terms of Use. */
+  userId?: string;
+};
+
+export type EventSource = UserSource | GroupSource | RoomSource;
+
+export type ContentProvider = {
+  /**
+   * Provider of the content.
+   * - `line`: The content was sent by a LINE user. The content can be retrieved with `getMessageContent`.
+   * - `external`: The content was sent using `originalContentUrl`.
+   */
+  type: 'line' | 'external';
+
+  /** URL of the content. Only included when `contentProvider.type` is `external`. */
+  originalContentUrl?: string;
+
+  /** URL of the preview image. Only included when `contentProvider.type` is `external`. */
+  previewImageUrl?: string;
+};
+
+export type EventEmoji = {
+  /** Index position for a character in text, with the first character being at position 0. */
+  index: number;
+
+  /** The length of the LINE emoji string. */
+  length: number;
+
+  /** Product ID for a set of LINE emoji. */
+  productId: string;
+
+  /** ID for a LINE emoji inside a set. */
+  emojiId: string;
+};
+
+export type Mentionee = {
+  /** Index position of the user mention for a character in text, with the first character being at position 0. */
+  index: number;
+
+  /** The length of the text of the mentioned user. */
+  length: number;
+
+  /** User ID of the mentioned user. Only included if the user has agreed to the Official Accounts Terms of Use. */
+  userId?: string;
+};
+
+export type TextEventMessage = {
+  id: string;
+  type: 'text';
+
+  /** Message text */
+  text: string;
+
+  /** One or more LINE emoji. */
+  emojis?: EventEmoji[];
+
+  /** Object containing the contents of the mention. */
+  mention?: {
+    mentionees: Mentionee[];
+  };
+};
+
+export type ImageEventMessage = {
+  id: string;
+  type: 'image';
+  contentProvider: ContentProvider;
+
+  /** Object containing the image set. Only included when multiple images are sent simultaneously. */
+  imageSet?: {
+    id: string;
+    index: number;
+    total: number;
+  };
+};
+
+export type VideoEventMessage = {
+  id: string;
+  type: 'video';
+
+  /** Length of video file (milliseconds) */
+  duration: number;
+  contentProvider: ContentProvider;
+};
+
+export type AudioEventMessage = {
+  id: string;
+  type: 'audio';
+
+  /** Length of audio file (milliseconds) */
+  duration: number;
+  contentProvider: ContentProvider;
+};
+
+export type FileEventMessage = {
+  id: string;
+  type: 'file';
+
+  /** File name */
+  fileName: string;
+
+  /** File size in bytes */
+  fileSize: number;
+};
+
+export type LocationEventMessage = {
+  id: string;
+  type: 'location';
+  title?: string;
+  address?: string;
+  latitude: number;
+  longitude: number;
+};
+
+export type StickerEventMessage = {
+  id: string;
+  type: 'sticker';
+  packageId: string;
+  stickerId: string;
+  stickerResourceType:
+    | 'STATIC'
+    | 'ANIMATION'
+    | 'SOUND'
+    | 'ANIMATION_SOUND'
+    | 'POPUP'
+    | 'POPUP_SOUND'
+    | 'NAME_TEXT'
+    | 'PER_STICKER_TEXT';
+
+  /** Keywords describing the sticker. Only included in a part of stickers. */
+  keywords?: string[];
+};
+
+export type EventMessage =
+  | TextEventMessage
+  | ImageEventMessage
+  | VideoEventMessage
+  | AudioEventMessage
+  | FileEventMessage
+  | LocationEventMessage
+  | StickerEventMessage;
+
+export type EventBase = {
+  /**
+   * Channel state.
+   * - `active`: The channel is active.
+   * - `standby`: The channel is waiting for a module to send a response.
+   */
+  mode: 'active' | 'standby';
+
+  /** Time of the event in milliseconds. */
+  timestamp: number;
+
+  /** Source user, group chat, or multi-person chat object with information about the source of the event. */
+  source: EventSource;
+};
+
+export type MessageEvent<M extends EventMessage = EventMessage> = EventBase & {
+  type: 'message';
+
+  /** Token for replying to this event */
+  replyToken: string;
+
+  /** Contents of the message */
+  message: M;
+};
+
+export type UnsendEvent = EventBase & {
+  type: 'unsend';
+  unsend: {
+    /** ID of the message that has been unsent */
+    messageId: string;
+  };
+};
+
+export type FollowEvent = EventBase & {
+  type: 'follow';
+
+  /** Token for replying to this event */
+  replyToken: string;
+};
+
+export type UnfollowEvent = EventBase & {
+  type: 'unfollow';
+};
+
+export type JoinEvent = EventBase & {
+  type: 'join';
+
+  /** Token for replying to this event */
+  replyToken: string;
+};
+
+export type LeaveEvent = EventBase & {
+  type: 'leave';
+};
+
+export type MemberJoinedEvent = EventBase & {
+  type: 'memberJoined';
+
+  /** Token for replying to this event */
+  replyToken: string;
+  joined: {
+    /** Users who joined */
+    members: UserSource[];
+  };
+};
+
+export type MemberLeftEvent = EventBase & {
+  type: 'memberLeft';
+  left: {
+    /** Users who left */
+    members: UserSource[];
+  };
+};
+
+export type PostbackEvent = EventBase & {
+  type: 'postback';
+
+  /** Token for replying to this event */
+  replyToken: string;
+  postback: {
+    /** Postback data */
+    data: string;
+
+    /** Object with the date and time selected by a user through a datetime picker action. */
+    params?: {
+      date?: string;
+      time?: string;
+      datetime?: string;
+    };
+  };
+};
+
+export type VideoPlayCompleteEvent = EventBase & {
+  type: 'videoPlayComplete';
+
+  /** Token for replying to this event */
+  replyToken: string;
+  videoPlayComplete: {
+    /** ID used to identify a video. Returns the same value as the `trackingId` assigned to the video message. */
+    trackingId: string;
+  };
+};
+
+export type BeaconEvent = EventBase & {
+  type: 'beacon';
+
+  /** Token for replying to this event */
+  replyToken: string;
+  beacon: {
+    /** Hardware ID of the beacon that was detected */
+    hwid: string;
+
+    /** Type of beacon event. */
+    type: 'enter' | 'banner' | 'stay';
+
+    /** Device message of beacon that was detected. */
+    dm?: string;
+  };
+};
+
+export type AccountLinkEvent = EventBase & {
+  type: 'accountLink';
+
+  /** Token for replying to this event. This property won't be included if linking the account has failed. */
+  replyToken?: string;
+  link: {
+    /** `ok` if linking was successful, `failed` if it failed for any reason. */
+    result: 'ok' | 'failed';
+
+    /** Specified nonce when verifying the user ID. */
+    nonce: string;
+  };
+};
+
+export type ThingsEvent = EventBase & {
+  type: 'things';
+
+  /** Token for replying to this event */
+  replyToken: string;
+  things: {
+    /** Device ID of the LINE Things-compatible device */
+    deviceId: string;
+
+    /** `link`, `unlink` or `scenarioResult` */
+    type: 'link' | 'unlink' | 'scenarioResult';
+
+    /** Execution result of the automatic communication scenario. Only included when `type` is `scenarioResult`. */
+    result?: {
+      scenarioId: string;
+      revision: number;
+      startTime: number;
+      endTime: number;
+      resultCode: 'success' | 'gatt_error' | 'runtime_error';
+      actionResults?: {
+        type: 'void' | 'binary';
+        data?: string;
+      }[];
+      bleNotificationPayload?: string;
+      errorReason?: string;
+    };
+  };
+};
+
+export type LineEvent =
+  | MessageEvent
+  | UnsendEvent
+  | FollowEvent
+  | UnfollowEvent
+  | JoinEvent
+  | LeaveEvent
+  | MemberJoinedEvent
+  | MemberLeftEvent
+  | PostbackEvent
+  | VideoPlayCompleteEvent
+  | BeaconEvent
+  | AccountLinkEvent
+  | ThingsEvent;
+
+export type LineEventType = LineEvent['type'];
+
+/**
+ * The request body of a webhook request sent from the LINE Platform.
+ */
+export type LineWebhookBody = {
+  /** User ID of a bot that should receive webhook events. */
+  destination: string;
+
+  /** Array of webhook event objects. The LINE Platform may send an empty array that doesn't include a webhook event object to confirm communication. */
+  events: LineEvent[];
+};
+
+/**
+ * Helpers attached to every event returned from `LineWebhook.parseWebhookBody`.
+ */
+export type LineEventHelpers = {
+  /** User ID of a bot that should receive this event. */
+  destination: string;
+
+  /** Token for replying to this event, or `null` if the event type can't be replied. */
+  replyToken: string | null;
+
+  isMessage: boolean;
+  isText: boolean;
+  isImage: boolean;
+  isVideo: boolean;
+  isAudio: boolean;
+  isFile: boolean;
+  isLocation: boolean;
+  isSticker: boolean;
+  isUnsend: boolean;
+  isFollow: boolean;
+  isUnfollow: boolean;
+  isJoin: boolean;
+  isLeave: boolean;
+  isMemberJoined: boolean;
+  isMemberLeft: boolean;
+  isPostback: boolean;
+  isVideoPlayComplete: boolean;
+  isBeacon: boolean;
+  isAccountLink: boolean;
+  isThings: boolean;
+};
+
+export type ParsedLineEvent = LineEvent & LineEventHelpers;
+
+export type ParsedLineWebhookBody = {
+  destination: string;
+  events: ParsedLineEvent[];
+};
+
+/**
+ * A message sending request recorded by `LineMockServer`.
+ */
+export type MockSentMessage =
+  | {
+      type: 'reply';
+      replyToken: string;
+      messages: Message[];
+    }
+  | {
+      type: 'push';
+      to: string;
+      messages: Message[];
+    }
+  | {
+      type: 'multicast';
+      to: string[];
+      messages: Message[];
+    };
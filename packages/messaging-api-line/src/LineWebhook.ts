@@ -0,0 +1,183 @@
+import invariant from 'ts-invariant';
+import {
+  WebhookMiddleware,
+  WebhookMiddlewareOptions,
+  WebhookPlatform,
+  camelcaseKeysDeep,
+  createWebhookMiddleware as createPlatformWebhookMiddleware,
+} from 'messaging-api-common';
+
+import LineClient from './LineClient';
+import * as LineTypes from './LineTypes';
+
+function getReplyToken(event: LineTypes.LineEvent): string | null {
+  return 'replyToken' in event && event.replyToken ? event.replyToken : null;
+}
+
+function isMessageOfType(
+  event: LineTypes.LineEvent,
+  type: LineTypes.EventMessage['type']
+): boolean {
+  return event.type === 'message' && event.message.type === type;
+}
+
+/**
+ * Attaches type helpers, `replyToken` and `destination` to the event.
+ *
+ * @param event - The webhook event object
+ * @param destination - User ID of the bot that should receive the event
+ * @returns The event with helpers
+ */
+function parseEvent(
+  event: LineTypes.LineEvent,
+  destination: string
+): LineTypes.ParsedLineEvent {
+  return {
+    ...event,
+    destination,
+    replyToken: getReplyToken(event),
+    isMessage: event.type === 'message',
+    isText: isMessageOfType(event, 'text'),
+    isImage: isMessageOfType(event, 'image'),
+    isVideo: isMessageOfType(event, 'video'),
+    isAudio: isMessageOfType(event, 'audio'),
+    isFile: isMessageOfType(event, 'file'),
+    isLocation: isMessageOfType(event, 'location'),
+    isSticker: isMessageOfType(event, 'sticker'),
+    isUnsend: event.type === 'unsend',
+    isFollow: event.type === 'follow',
+    isUnfollow: event.type === 'unfollow',
+    isJoin: event.type === 'join',
+    isLeave: event.type === 'leave',
+    isMemberJoined: event.type === 'memberJoined',
+    isMemberLeft: event.type === 'memberLeft',
+    isPostback: event.type === 'postback',
+    isVideoPlayComplete: event.type === 'videoPlayComplete',
+    isBeacon: event.type === 'beacon',
+    isAccountLink: event.type === 'accountLink',
+    isThings: event.type === 'things',
+  } as LineTypes.ParsedLineEvent;
+}
+
+/**
+ * Parses the body of a webhook request sent from the LINE Platform.
+ *
+ * [Official document - request body](https://developers.line.biz/en/reference/messaging-api/#request-body)
+ *
+ * @param body - The raw request body, or the body which has already been parsed as JSON.
+ * @returns The destination and the camelcased events with helpers.
+ *
+ * @example
+ *
+ * ```js
+ * const { destination, events } = LineWebhook.parseWebhookBody(rawBody);
+ *
+ * events.forEach((event) => {
+ *   if (event.isText) {
+ *     client.replyText(event.replyToken, event.message.text);
+ *   }
+ * });
+ * ```
+ */
+function parseWebhookBody(
+  body: string | Buffer | LineTypes.LineWebhookBody
+): LineTypes.ParsedLineWebhookBody {
+  const webhookBody = (typeof body === 'string' || Buffer.isBuffer(body)
+    ? camelcaseKeysDeep(JSON.parse(body.toString()))
+    : camelcaseKeysDeep(body)) as LineTypes.LineWebhookBody;
+
+  const { destination } = webhookBody;
+  const events = webhookBody.events || [];
+
+  return {
+    destination,
+    events: events.map((event) => parseEvent(event, destination)),
+  };
+}
+
+/**
+ * Creates a webhook platform adapter for LINE, which verifies the `X-Line-Signature` header and parses events.
+ *
+ * @param client - The client with `channelSecret`
+ * @returns The platform adapter
+ */
+function createWebhookPlatform(
+  client: LineClient
+): WebhookPlatform<LineTypes.ParsedLineEvent> {
+  invariant(
+    client.channelSecret,
+    'LineWebhook: `channelSecret` is required to verify webhook requests.'
+  );
+
+  return {
+    platform: 'line',
+    methods: ['POST'],
+    handleRequest(request) {
+      if (request.method !== 'POST') {
+        return { response: { status: 405 } };
+      }
+
+      const signature = request.headers['x-line-signature'] as string;
+
+      if (!client.verifySignature(request.rawBody, signature)) {
+        return { response: { status: 401 } };
+      }
+
+      let events;
+      try {
+        ({ events } = parseWebhookBody(request.rawBody));
+      } catch (_) {
+        return { response: { status: 400 } };
+      }
+
+      return { response: { status: 200 }, events };
+    },
+  };
+}
+
+/**
+ * Creates a webhook middleware for Express, Koa or Node.js http server.
+ *
+ * The middleware verifies the signature using the channel secret of the client, responds `200` immediately and then calls `onEvents` with the parsed events.
+ *
+ * @param options - The options of the middleware
+ * @param options.client - The client with `channelSecret`
+ * @param options.onEvents - The callback to be called with parsed events
+ * @param options.onError - The callback to be called when any error occurs
+ * @returns The middleware function
+ *
+ * @example
+ *
+ * ```js
+ * app.post(
+ *   '/webhooks/line',
+ *   LineWebhook.createWebhookMiddleware({
+ *     client,
+ *     onEvents: async (events) => {
+ *       // handle events
+ *     },
+ *   })
+ * );
+ * ```
+ */
+function createWebhookMiddleware({
+  client,
+  ...options
+}: {
+  client: LineClient;
+} & WebhookMiddlewareOptions<LineTypes.ParsedLineEvent>): WebhookMiddleware {
+  return createPlatformWebhookMiddleware(
+    createWebhookPlatform(client),
+    options
+  );
+}
+
+const LineWebhook = {
+  parseWebhookBody,
+  parseEvent,
+  getReplyToken,
+  createWebhookPlatform,
+  createWebhookMiddleware,
+};
+
+export default LineWebhook;
@@ -125,6 +125,26 @@ describe('constructor', () => {
       },
     });
   });
+
+  it('support timeout', () => {
+    axios.create = jest.fn().mockReturnValue({
+      interceptors: {
+        request: {
+          use: jest.fn(),
+        },
+      },
+    });
+    // eslint-disable-next-line no-new
+    new LineClient({
+      accessToken: ACCESS_TOKEN,
+      channelSecret: CHANNEL_SECRET,
+      timeout: 5000,
+    });
+
+    expect(axios.create).toBeCalledWith(
+      expect.objectContaining({ timeout: 5000 })
+    );
+  });
 });
 
 describe('#axios', () => {
@@ -174,7 +194,7 @@ describe('#onRequest', () => {
         x: 1,
       },
       headers: {
-        Authorization: 'Bearer 1234567890',
+        Authorization: '[REDACTED]',
         'Content-Type': 'application/json',
         Accept: 'application/json, text/plain, */*',
       },
@@ -1,3 +1,5 @@
+import { EventEmitter } from 'events';
+
 import MockAdapter from 'axios-mock-adapter';
 
 import LineClient from '../LineClient';
@@ -8,6 +10,25 @@ const ROOM_ID = 'R1QAZ2WSX';
 const ACCESS_TOKEN = '1234567890';
 const CHANNEL_SECRET = 'so-secret';
 
+function createAbortController() {
+  const emitter = new EventEmitter();
+  const signal = {
+    aborted: false,
+    addEventListener: (type: 'abort', listener: () => void) =>
+      emitter.on(type, listener),
+    removeEventListener: (type: 'abort', listener: () => void) =>
+      emitter.removeListener(type, listener),
+  };
+
+  return {
+    signal,
+    abort: () => {
+      signal.aborted = true;
+      emitter.emit('abort');
+    },
+  };
+}
+
 const createMock = (): {
   client: LineClient;
   mock: MockAdapter;
@@ -258,6 +279,27 @@ describe('Group/Room Member', () => {
         'Uxxxxxxxxxxxxxx..6',
       ]);
     });
+
+    it('should stop fetching the remaining pages when the signal is aborted', async () => {
+      const { client, mock } = createMock();
+      const controller = createAbortController();
+
+      mock
+        .onGet(`/v2/bot/group/${GROUP_ID}/members/ids`)
+        .replyOnce((config) => {
+          expect(config.timeout).toEqual(5000);
+          controller.abort();
+          return [200, { memberIds: ['Uxxxxxxxxxxxxxx..1'], next: 'TOKEN' }];
+        });
+
+      await expect(
+        client.getAllGroupMemberIds(GROUP_ID, {
+          signal: controller.signal,
+          timeout: 5000,
+        })
+      ).rejects.toThrow('The operation was aborted.');
+      expect(mock.history.get).toHaveLength(1);
+    });
   });
 
   describe('#getRoomMemberIds', () => {
@@ -1,3 +1,5 @@
+import crypto from 'crypto';
+
 import MockAdapter from 'axios-mock-adapter';
 
 import LineClient from '../LineClient';
@@ -112,6 +114,40 @@ describe('Account link', () => {
   });
 });
 
+describe('Signature', () => {
+  describe('#verifySignature', () => {
+    const RAW_BODY = '{"destination":"U1234","events":[]}';
+    const SIGNATURE = crypto
+      .createHmac('sha256', CHANNEL_SECRET)
+      .update(RAW_BODY)
+      .digest('base64');
+
+    it('should return true when the signature is valid', () => {
+      const { client } = createMock();
+
+      expect(client.verifySignature(RAW_BODY, SIGNATURE)).toBe(true);
+      expect(client.verifySignature(Buffer.from(RAW_BODY), SIGNATURE)).toBe(
+        true
+      );
+    });
+
+    it('should return false when the signature is invalid', () => {
+      const { client } = createMock();
+
+      expect(client.verifySignature(`${RAW_BODY} `, SIGNATURE)).toBe(false);
+      expect(client.verifySignature(RAW_BODY, 'invalid')).toBe(false);
+    });
+
+    it('should throw when channelSecret is not provided', () => {
+      const client = new LineClient({ accessToken: ACCESS_TOKEN });
+
+      expect(() => client.verifySignature(RAW_BODY, SIGNATURE)).toThrow(
+        'LineClient: `channelSecret` is required to verify the signature.'
+      );
+    });
+  });
+});
+
 describe('Error', () => {
   it('should format correctly when no details', async () => {
     const { client, mock } = createMock();
@@ -161,3 +197,83 @@ describe('Error', () => {
 - messages[1].type: Must be one of the following values: [text, image, video, audio, location, sticker, template, imagemap]`);
   });
 });
+
+describe('Response hooks', () => {
+  it('should call onResponse with the request id', async () => {
+    const onResponse = jest.fn();
+    const client = new LineClient({
+      accessToken: ACCESS_TOKEN,
+      onResponse,
+    });
+    const mock = new MockAdapter(client.axios);
+
+    mock
+      .onPost('/v2/bot/message/push')
+      .reply(200, {}, { 'x-line-request-id': 'REQUEST_ID' });
+
+    await client.pushText(RECIPIENT_ID, 'Hello!');
+
+    expect(onResponse).toBeCalledWith(
+      expect.objectContaining({
+        method: 'post',
+        url: 'https://api.line.me/v2/bot/message/push',
+        status: 200,
+        requestId: 'REQUEST_ID',
+        body: {},
+      })
+    );
+  });
+
+  it('should call onError with the failed response', async () => {
+    const onError = jest.fn();
+    const client = new LineClient({
+      accessToken: ACCESS_TOKEN,
+      onError,
+    });
+    const mock = new MockAdapter(client.axios);
+
+    mock
+      .onPost('/v2/bot/message/push')
+      .reply(
+        400,
+        { message: 'The request body has 1 error(s)' },
+        { 'x-line-request-id': 'REQUEST_ID' }
+      );
+
+    await expect(client.pushText(RECIPIENT_ID, 'Hello!')).rejects.toThrow(
+      'LINE API - The request body has 1 error(s)'
+    );
+
+    expect(onError).toBeCalledWith(
+      expect.objectContaining({
+        status: 400,
+        requestId: 'REQUEST_ID',
+        body: { message: 'The request body has 1 error(s)' },
+      })
+    );
+  });
+});
+
+describe('#withRequestOptions', () => {
+  it('should apply the request options to all the apis', async () => {
+    const { client, mock, dataMock } = createMock();
+    const MESSAGE_ID = '1234567890';
+
+    mock.onGet(`/v2/bot/profile/${RECIPIENT_ID}`).reply((config) => {
+      expect(config.timeout).toEqual(5000);
+      return [200, { userId: RECIPIENT_ID }];
+    });
+    dataMock.onGet(`/v2/bot/message/${MESSAGE_ID}/content`).reply((config) => {
+      expect(config.timeout).toEqual(5000);
+      return [200, Buffer.from('a content buffer')];
+    });
+
+    const view = client.withRequestOptions({ timeout: 5000 });
+
+    await view.getUserProfile(RECIPIENT_ID);
+    await view.getMessageContent(MESSAGE_ID);
+
+    expect(view.accessToken).toEqual(client.accessToken);
+    expect.assertions(3);
+  });
+});
@@ -0,0 +1,115 @@
+import fs from 'fs';
+import path from 'path';
+
+import LineClient from '../LineClient';
+import LineMockServer from '../LineMockServer';
+
+const ACCESS_TOKEN = 'ACCESS_TOKEN';
+const CHANNEL_SECRET = 'CHANNEL_SECRET';
+const USER_ID = 'USER_ID';
+
+let server: LineMockServer;
+let client: LineClient;
+
+beforeEach(async () => {
+  jest.useRealTimers();
+
+  server = new LineMockServer();
+  const origin = await server.listen();
+
+  client = new LineClient({
+    accessToken: ACCESS_TOKEN,
+    channelSecret: CHANNEL_SECRET,
+    origin,
+    dataOrigin: origin,
+  });
+});
+
+afterEach(async () => {
+  await server.close();
+});
+
+describe('messages', () => {
+  it('should record reply, push and multicast messages', async () => {
+    await client.replyText('REPLY_TOKEN', 'Hello!');
+    await client.pushSticker(USER_ID, { packageId: '1', stickerId: '1' });
+    await client.multicastText([USER_ID, 'USER_ID_2'], 'Hi!');
+
+    expect(server.messages).toEqual([
+      {
+        type: 'reply',
+        replyToken: 'REPLY_TOKEN',
+        messages: [{ type: 'text', text: 'Hello!' }],
+      },
+      {
+        type: 'push',
+        to: USER_ID,
+        messages: [{ type: 'sticker', packageId: '1', stickerId: '1' }],
+      },
+      {
+        type: 'multicast',
+        to: [USER_ID, 'USER_ID_2'],
+        messages: [{ type: 'text', text: 'Hi!' }],
+      },
+    ]);
+  });
+
+  it('should respond validation errors', async () => {
+    await expect(
+      client.push(USER_ID, [
+        { type: 'image', originalContentUrl: 'url' } as any,
+      ])
+    ).rejects.toThrow(
+      'LINE API - The request body has 1 error(s)\n- messages[0].previewImageUrl: must be specified'
+    );
+
+    expect(server.messages).toEqual([]);
+  });
+});
+
+describe('rich menus', () => {
+  it('should manage rich menus, images and links', async () => {
+    const richMenu = {
+      size: { width: 2500 as const, height: 1686 as const },
+      selected: false,
+      name: 'Menu',
+      chatBarText: 'Open',
+      areas: [],
+    };
+    const image = fs.readFileSync(path.join(__dirname, 'fixture.png'));
+
+    const { richMenuId } = await client.createRichMenu(richMenu);
+    await client.uploadRichMenuImage(richMenuId, image);
+    await client.linkRichMenu(USER_ID, richMenuId);
+    await client.setDefaultRichMenu(richMenuId);
+
+    expect(await client.getRichMenuList()).toEqual([
+      { ...richMenu, richMenuId },
+    ]);
+    expect(await client.getRichMenu(richMenuId)).toEqual({
+      ...richMenu,
+      richMenuId,
+    });
+    expect(await client.downloadRichMenuImage(richMenuId)).toEqual(image);
+    expect(await client.getLinkedRichMenu(USER_ID)).toEqual({ richMenuId });
+    expect(await client.getDefaultRichMenu()).toEqual({ richMenuId });
+
+    await client.unlinkRichMenu(USER_ID);
+    await client.deleteRichMenu(richMenuId);
+
+    expect(await client.getLinkedRichMenu(USER_ID)).toBeNull();
+    expect(await client.getRichMenu(richMenuId)).toBeNull();
+  });
+});
+
+it('should reject requests without access token', async () => {
+  const unauthorizedClient = new LineClient({
+    accessToken: '',
+    channelSecret: CHANNEL_SECRET,
+    origin: server.origin,
+  });
+
+  await expect(unauthorizedClient.pushText(USER_ID, 'Hello!')).rejects.toThrow(
+    'LINE API - Authentication failed.'
+  );
+});
@@ -0,0 +1,225 @@
+import crypto from 'crypto';
+
+import { WebhookRequest } from 'messaging-api-common';
+
+import LineClient from '../LineClient';
+import LineWebhook from '../LineWebhook';
+import * as LineTypes from '../LineTypes';
+
+const DESTINATION = 'Uxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxx';
+
+const textMessageEvent: LineTypes.MessageEvent = {
+  replyToken: 'nHuyWiB7yP5Zw52FIkcQobQuGDXCTA',
+  type: 'message',
+  mode: 'active',
+  timestamp: 1462629479859,
+  source: {
+    type: 'user',
+    userId: 'U4af4980629...',
+  },
+  message: {
+    id: '325708',
+    type: 'text',
+    text: 'Hello, world!',
+  },
+};
+
+const stickerMessageEvent: LineTypes.MessageEvent = {
+  replyToken: 'nHuyWiB7yP5Zw52FIkcQobQuGDXCTA',
+  type: 'message',
+  mode: 'active',
+  timestamp: 1462629479859,
+  source: {
+    type: 'group',
+    groupId: 'Ca56f94637c...',
+    userId: 'U4af4980629...',
+  },
+  message: {
+    id: '325708',
+    type: 'sticker',
+    packageId: '1',
+    stickerId: '1',
+    stickerResourceType: 'STATIC',
+  },
+};
+
+const unfollowEvent: LineTypes.UnfollowEvent = {
+  type: 'unfollow',
+  mode: 'active',
+  timestamp: 1462629479859,
+  source: {
+    type: 'user',
+    userId: 'U4af4980629...',
+  },
+};
+
+const postbackEvent: LineTypes.PostbackEvent = {
+  replyToken: 'b60d432864f44d079f6d8efe86cf404b',
+  type: 'postback',
+  mode: 'active',
+  source: {
+    userId: 'U91eeaf62d...',
+    type: 'user',
+  },
+  timestamp: 1513669370317,
+  postback: {
+    data: 'storeId=12345',
+    params: {
+      datetime: '2017-12-25T01:00',
+    },
+  },
+};
+
+const body: LineTypes.LineWebhookBody = {
+  destination: DESTINATION,
+  events: [textMessageEvent, stickerMessageEvent, unfollowEvent, postbackEvent],
+};
+
+describe('#parseWebhookBody', () => {
+  it('should parse raw string body', () => {
+    const { destination, events } = LineWebhook.parseWebhookBody(
+      JSON.stringify(body)
+    );
+
+    expect(destination).toEqual(DESTINATION);
+    expect(events).toHaveLength(4);
+    expect(events[0]).toEqual(
+      expect.objectContaining({
+        ...textMessageEvent,
+        destination: DESTINATION,
+        isMessage: true,
+        isText: true,
+        isSticker: false,
+        isPostback: false,
+      })
+    );
+  });
+
+  it('should parse buffer body', () => {
+    const { events } = LineWebhook.parseWebhookBody(
+      Buffer.from(JSON.stringify(body))
+    );
+
+    expect(events).toHaveLength(4);
+  });
+
+  it('should parse already parsed body', () => {
+    const { events } = LineWebhook.parseWebhookBody(body);
+
+    expect(events[1]).toEqual(
+      expect.objectContaining({
+        isMessage: true,
+        isText: false,
+        isSticker: true,
+      })
+    );
+    expect(events[3]).toEqual(
+      expect.objectContaining({
+        isMessage: false,
+        isPostback: true,
+        replyToken: 'b60d432864f44d079f6d8efe86cf404b',
+      })
+    );
+  });
+
+  it('should set replyToken to null when the event can not be replied', () => {
+    const { events } = LineWebhook.parseWebhookBody(body);
+
+    expect(events[2].replyToken).toBeNull();
+    expect(events[2].isUnfollow).toBe(true);
+  });
+
+  it('should support verification requests without events', () => {
+    expect(
+      LineWebhook.parseWebhookBody(
+        JSON.stringify({ destination: DESTINATION, events: [] })
+      )
+    ).toEqual({ destination: DESTINATION, events: [] });
+  });
+});
+
+describe('#getReplyToken', () => {
+  it('should return replyToken of the event', () => {
+    expect(LineWebhook.getReplyToken(textMessageEvent)).toEqual(
+      'nHuyWiB7yP5Zw52FIkcQobQuGDXCTA'
+    );
+    expect(LineWebhook.getReplyToken(unfollowEvent)).toBeNull();
+  });
+});
+
+describe('#createWebhookPlatform', () => {
+  const CHANNEL_SECRET = 'so-secret';
+
+  const client = new LineClient({
+    accessToken: '1234567890',
+    channelSecret: CHANNEL_SECRET,
+  });
+
+  function createRequest(
+    rawBody: string,
+    signature = crypto
+      .createHmac('sha256', CHANNEL_SECRET)
+      .update(rawBody)
+      .digest('base64')
+  ): WebhookRequest {
+    return {
+      method: 'POST',
+      url: '/webhooks/line',
+      path: '/webhooks/line',
+      query: {},
+      headers: { 'x-line-signature': signature },
+      rawBody: Buffer.from(rawBody),
+    };
+  }
+
+  it('should throw when channelSecret is not provided', () => {
+    expect(() =>
+      LineWebhook.createWebhookPlatform(
+        new LineClient({ accessToken: '1234567890' })
+      )
+    ).toThrow(
+      'LineWebhook: `channelSecret` is required to verify webhook requests.'
+    );
+  });
+
+  it('should respond 200 with parsed events', async () => {
+    const platform = LineWebhook.createWebhookPlatform(client);
+
+    const result = await platform.handleRequest(
+      createRequest(JSON.stringify(body))
+    );
+
+    expect(result.response).toEqual({ status: 200 });
+    expect(result.events).toHaveLength(4);
+    expect(result.events?.[0].isText).toBe(true);
+  });
+
+  it('should respond 401 when the signature is invalid', async () => {
+    const platform = LineWebhook.createWebhookPlatform(client);
+
+    const result = await platform.handleRequest(
+      createRequest(JSON.stringify(body), 'invalid')
+    );
+
+    expect(result).toEqual({ response: { status: 401 } });
+  });
+
+  it('should respond 400 when the body is malformed', async () => {
+    const platform = LineWebhook.createWebhookPlatform(client);
+
+    const result = await platform.handleRequest(createRequest('{'));
+
+    expect(result).toEqual({ response: { status: 400 } });
+  });
+
+  it('should respond 405 when the method is not POST', async () => {
+    const platform = LineWebhook.createWebhookPlatform(client);
+
+    const result = await platform.handleRequest({
+      ...createRequest(''),
+      method: 'GET',
+    });
+
+    expect(result).toEqual({ response: { status: 405 } });
+  });
+});
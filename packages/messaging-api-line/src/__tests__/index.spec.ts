@@ -1,8 +1,17 @@
-import { Line, LineClient, LineNotify, LinePay } from '..';
+import {
+  Line,
+  LineClient,
+  LineMockServer,
+  LineNotify,
+  LinePay,
+  LineWebhook,
+} from '..';
 
 it('should export api correctly', () => {
   expect(Line).toBeDefined();
   expect(LineClient).toBeDefined();
+  expect(LineMockServer).toBeDefined();
   expect(LinePay).toBeDefined();
   expect(LineNotify).toBeDefined();
+  expect(LineWebhook).toBeDefined();
 });
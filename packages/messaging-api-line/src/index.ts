@@ -1,6 +1,8 @@
 export { default as Line } from './Line';
 export { default as LineClient } from './LineClient';
+export { default as LineMockServer } from './LineMockServer';
 export { default as LineNotify } from './LineNotify';
 export { default as LinePay } from './LinePay';
+export { default as LineWebhook } from './LineWebhook';
 
 export * as LineTypes from './LineTypes';
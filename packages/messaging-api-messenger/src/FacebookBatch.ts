@@ -0,0 +1,115 @@
+import invariant from 'ts-invariant';
+
+import * as FacebookTypes from './FacebookTypes';
+
+/**
+ * Creates a JSONPath expression which references the result of a previous request in the same batch. The request referenced must be named with the `name` option. Note that the path applies to the raw response, so the keys are snakecased.
+ *
+ * @param name - The name of the request to reference
+ * @param path - The JSONPath to the value in the response, e.g. `$.attachment_id`
+ * @returns The expression to be used in the URL or the body of a request
+ *
+ * @see https://developers.facebook.com/docs/graph-api/batch-requests#operations
+ *
+ * @example
+ *
+ * ```js
+ * await client.sendBatch([
+ *   MessengerBatch.uploadAttachment('image', 'https://example.com/pic.png', {
+ *     name: 'upload',
+ *   }),
+ *   MessengerBatch.sendAttachment(USER_ID, {
+ *     type: 'image',
+ *     payload: {
+ *       attachmentId: MessengerBatch.createReference('upload', '$.attachment_id'),
+ *     },
+ *   }),
+ * ]);
+ * ```
+ */
+function createReference(name: string, path: string): string {
+  invariant(name, 'FacebookBatch: the name of the reference is required.');
+  invariant(
+    path.startsWith('$'),
+    `FacebookBatch: the path of the reference must be a JSONPath starting with \`$\`, but received \`${path}\`.`
+  );
+
+  return `{result=${name}:${path}}`;
+}
+
+function collectReferencedNames(value: unknown, names: Set<string>): void {
+  if (typeof value === 'string') {
+    const pattern = /{result=([^:}]+):[^}]*}/g;
+    let match = pattern.exec(value);
+    while (match) {
+      names.add(match[1]);
+      match = pattern.exec(value);
+    }
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => collectReferencedNames(item, names));
+  } else if (value && typeof value === 'object') {
+    Object.values(value as Record<string, unknown>).forEach((item) =>
+      collectReferencedNames(item, names)
+    );
+  }
+}
+
+/**
+ * Gets the names of the requests which the request depends on, through `dependsOn` or JSONPath references in the URL or the body.
+ *
+ * @param item - The request in the batch
+ * @returns The names of the requests depended on
+ */
+function getDependencies(item: FacebookTypes.BatchItem): string[] {
+  const names = new Set<string>();
+
+  if (item.dependsOn) {
+    names.add(item.dependsOn);
+  }
+
+  collectReferencedNames(item.relativeUrl, names);
+  collectReferencedNames(item.body, names);
+
+  return Array.from(names);
+}
+
+/**
+ * Validates the dependency graph of the batch. Every request must have a unique name, and only depend on named requests placed before it, which also rules out cycles.
+ *
+ * @param batch - Requests in the batch
+ * @throws An invariant violation describing the first invalid request
+ */
+function validateBatch(batch: FacebookTypes.BatchItem[]): void {
+  const names = new Set<string>();
+
+  batch.forEach((item, index) => {
+    getDependencies(item).forEach((dependency) => {
+      invariant(
+        dependency !== item.name,
+        `FacebookBatch: request #${index} \`${dependency}\` depends on itself.`
+      );
+      invariant(
+        names.has(dependency),
+        batch.some(({ name }) => name === dependency)
+          ? `FacebookBatch: request #${index} depends on \`${dependency}\`, which must be placed before it.`
+          : `FacebookBatch: request #${index} depends on \`${dependency}\`, which is not a request in the batch.`
+      );
+    });
+
+    if (item.name) {
+      invariant(
+        !names.has(item.name),
+        `FacebookBatch: request #${index} has a duplicate name \`${item.name}\`.`
+      );
+      names.add(item.name);
+    }
+  });
+}
+
+const FacebookBatch = {
+  createReference,
+  getDependencies,
+  validateBatch,
+};
+
+export default FacebookBatch;
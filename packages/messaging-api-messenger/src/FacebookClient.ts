@@ -0,0 +1,972 @@
+import crypto from 'crypto';
+import url from 'url';
+
+import AxiosError from 'axios-error';
+import FormData from 'form-data';
+import appendQuery from 'append-query';
+import axios, {
+  AxiosInstance,
+  AxiosResponse,
+  AxiosTransformer,
+  AxiosError as BaseAxiosError,
+} from 'axios';
+import get from 'lodash/get';
+import invariant from 'ts-invariant';
+import isPlainObject from 'lodash/isPlainObject';
+import omit from 'lodash/omit';
+import {
+  OnRequestFunction,
+  RateLimitPolicy,
+  RequestOptions,
+  RetryPolicy,
+  camelcaseKeysDeep,
+  createCassetteAdapter,
+  createHmacDigest,
+  createRateLimitInterceptor,
+  createRateLimitNamespace,
+  createRedactor,
+  createRequestConfig,
+  createRequestInterceptor,
+  createResponseInterceptor,
+  createRetryInterceptor,
+  safeCompare,
+  snakecaseKeysDeep,
+  withRequestOptions,
+} from 'messaging-api-common';
+
+import FacebookBatch from './FacebookBatch';
+import paginate from './paginate';
+import * as FacebookTypes from './FacebookTypes';
+
+function extractVersion(version: string): string {
+  if (version.startsWith('v')) {
+    return version.slice(1);
+  }
+  return version;
+}
+
+/**
+ * Graph API error codes which indicate the request has been rejected without being processed.
+ *
+ * - 2: Service temporarily unavailable
+ * - 4: Application request limit reached
+ * - 17: User request limit reached
+ * - 32: Page request limit reached
+ * - 613: Calls to this API have exceeded the rate limit
+ *
+ * @see https://developers.facebook.com/docs/graph-api/overview/rate-limiting
+ */
+const RETRYABLE_ERROR_CODES = [2, 4, 17, 32, 613];
+
+function getGraphError(
+  err: BaseAxiosError
+): { code?: number; isTransient?: boolean } | undefined {
+  return err.response && err.response.data && err.response.data.error;
+}
+
+const retryPolicy: RetryPolicy = {
+  isRejected: (err) => {
+    const graphError = getGraphError(err);
+    return Boolean(
+      graphError &&
+        graphError.code &&
+        RETRYABLE_ERROR_CODES.includes(graphError.code)
+    );
+  },
+  isTransient: (err) => {
+    const graphError = getGraphError(err);
+    return Boolean(graphError && graphError.isTransient);
+  },
+};
+
+/**
+ * Appends `appsecret_proof` to the relative url of the batch item, which is signed with the access token in the query or the url-encoded body of the item.
+ */
+function appendBatchItemAppSecretProof<
+  T extends { relativeUrl: string; body?: unknown }
+>(item: T, appSecret: string): T {
+  const urlParts = url.parse(item.relativeUrl, true);
+  let accessToken = get(urlParts, 'query.access_token');
+  if (!accessToken && typeof item.body === 'string') {
+    const entries = decodeURIComponent(item.body)
+      .split('&')
+      .map((pair) => pair.split('='));
+
+    const accessTokenEntry = entries.find(([key]) => key === 'access_token');
+    if (accessTokenEntry) {
+      accessToken = accessTokenEntry[1];
+    }
+  }
+
+  if (accessToken) {
+    const appSecretProof = crypto
+      .createHmac('sha256', appSecret)
+      .update(accessToken, 'utf8')
+      .digest('hex');
+    return {
+      ...item,
+      relativeUrl: appendQuery(item.relativeUrl, {
+        appsecret_proof: appSecretProof,
+      }),
+    };
+  }
+
+  return item;
+}
+
+function handleError(
+  err: BaseAxiosError<{
+    error: {
+      code: number;
+      type: string;
+      message: string;
+    };
+  }>,
+  apiName: string
+): never {
+  if (err.response && err.response.data) {
+    const error = get(err, 'response.data.error');
+    if (error) {
+      const msg = `${apiName} - ${error.code} ${error.type} ${error.message}`;
+      throw new AxiosError(msg, err);
+    }
+  }
+  throw new AxiosError(err.message, err);
+}
+
+/**
+ * The base client of the Facebook Graph API, which handles versioning, `appsecret_proof`, batch requests, paging and errors. `MessengerClient` extends it with the Messenger Platform APIs.
+ *
+ * @example
+ *
+ * ```js
+ * const { FacebookClient } = require('messaging-api-messenger');
+ *
+ * const client = new FacebookClient({
+ *   accessToken: ACCESS_TOKEN,
+ *   appId: APP_ID,
+ *   appSecret: APP_SECRET,
+ * });
+ *
+ * await client.get('/me/feed', { fields: ['id', 'message'], limit: 10 });
+ * ```
+ */
+export default class FacebookClient {
+  /**
+   * The underlying axios instance.
+   */
+  readonly axios: AxiosInstance;
+
+  /**
+   * The version of the Facebook Graph API.
+   */
+  readonly version: string;
+
+  /**
+   * The access token used by the client.
+   */
+  readonly accessToken: string;
+
+  /**
+   * The app secret used by the client.
+   */
+  readonly appSecret?: string;
+
+  /**
+   * The app ID used by the client.
+   */
+  readonly appId?: string;
+
+  /**
+   * The callback to be called when receiving requests.
+   */
+  private onRequest?: OnRequestFunction;
+
+  /**
+   * Whether `appsecret_proof` is not added to the requests.
+   */
+  private skipAppSecretProof: boolean;
+
+  constructor(config: FacebookTypes.ClientConfig) {
+    invariant(
+      typeof config !== 'string',
+      `${this.constructor.name}: do not allow constructing client with ${config} string. Use object instead.`
+    );
+
+    this.accessToken = config.accessToken;
+    invariant(
+      !config.version || typeof config.version === 'string',
+      'Type of `version` must be string.'
+    );
+
+    this.appId = config.appId;
+    this.appSecret = config.appSecret;
+    this.version = extractVersion(config.version || '6.0');
+    this.onRequest = config.onRequest;
+    const { origin } = config;
+
+    let skipAppSecretProof;
+    if (typeof config.skipAppSecretProof === 'boolean') {
+      skipAppSecretProof = config.skipAppSecretProof;
+    } else {
+      skipAppSecretProof = this.appSecret == null;
+    }
+    this.skipAppSecretProof = skipAppSecretProof;
+
+    this.axios = axios.create({
+      baseURL: `${origin || 'https://graph.facebook.com'}/v${this.version}/`,
+      headers: { 'Content-Type': 'application/json' },
+      transformRequest: [
+        // axios use any as type of the data in AxiosTransformer
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        (data: any): any =>
+          data && isPlainObject(data) ? snakecaseKeysDeep(data) : data,
+        ...(axios.defaults.transformRequest as AxiosTransformer[]),
+      ],
+
+      // `transformResponse` allows changes to the response data to be made before
+      // it is passed to then/catch
+      transformResponse: [
+        ...(axios.defaults.transformResponse as AxiosTransformer[]),
+        // axios use any as type of the data in AxiosTransformer
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        (data: any): any =>
+          data && isPlainObject(data) ? camelcaseKeysDeep(data) : data,
+      ],
+      timeout: config.timeout,
+    });
+
+    const redact = createRedactor({
+      policy: {
+        keys: ['access_token', 'appsecret_proof', 'input_token'],
+        values: [this.accessToken, config.appSecret],
+      },
+      redact: config.redact,
+    });
+
+    this.axios.interceptors.request.use(
+      createRequestInterceptor({ onRequest: this.onRequest, redact })
+    );
+
+    if (config.cassette) {
+      this.axios.defaults.adapter = createCassetteAdapter({
+        cassette: config.cassette,
+        adapter: this.axios.defaults.adapter,
+      });
+    }
+
+    if (config.onResponse || config.onError) {
+      const responseInterceptor = createResponseInterceptor({
+        onResponse: config.onResponse,
+        onError: config.onError,
+        requestIdHeader: 'x-fb-trace-id',
+      });
+      this.axios.interceptors.response.use(
+        responseInterceptor.onFulfilled,
+        responseInterceptor.onRejected
+      );
+    }
+
+    if (config.rateLimit) {
+      this.axios.interceptors.request.use(
+        createRateLimitInterceptor({
+          namespace: createRateLimitNamespace(
+            this.getRateLimitPlatform(),
+            this.accessToken
+          ),
+          rateLimit: config.rateLimit,
+          policy: this.getRateLimitPolicy(),
+        })
+      );
+    }
+
+    if (config.retry) {
+      this.axios.interceptors.response.use(
+        undefined,
+        createRetryInterceptor({
+          axios: this.axios,
+          retry: config.retry,
+          policy: retryPolicy,
+        })
+      );
+    }
+
+    // add appsecret_proof to request
+    if (!skipAppSecretProof) {
+      invariant(
+        this.appSecret,
+        'Must provide appSecret when skipAppSecretProof is false'
+      );
+
+      const appSecret = this.appSecret as string;
+
+      this.axios.interceptors.request.use((requestConfig) => {
+        const isBatch =
+          requestConfig.url === '/' && Array.isArray(requestConfig.data.batch);
+
+        if (isBatch) {
+          // eslint-disable-next-line no-param-reassign
+          requestConfig.data.batch = requestConfig.data.batch.map(
+            (item: { relativeUrl: string; body?: string }) =>
+              appendBatchItemAppSecretProof(item, appSecret)
+          );
+        }
+
+        const urlParts = url.parse(requestConfig.url || '', true);
+        const accessToken = get(
+          urlParts,
+          'query.access_token',
+          get(requestConfig, 'params.access_token', this.accessToken)
+        );
+
+        const appSecretProof = crypto
+          .createHmac('sha256', appSecret)
+          .update(accessToken, 'utf8')
+          .digest('hex');
+
+        // eslint-disable-next-line no-param-reassign
+        requestConfig.url = appendQuery(requestConfig.url || '', {
+          appsecret_proof: appSecretProof,
+        });
+
+        return requestConfig;
+      });
+    }
+  }
+
+  /**
+   * Creates a view of the client whose requests carry the request options, so any method can be aborted or time out. The view shares the state of the client.
+   *
+   * @param options - The request options, e.g. `signal` and `timeout`.
+   * @returns The view of the client.
+   *
+   * @example
+   *
+   * ```js
+   * const controller = new AbortController();
+   *
+   * await client
+   *   .withRequestOptions({ signal: controller.signal, timeout: 5000 })
+   *   .getPageInfo();
+   * ```
+   */
+  withRequestOptions(options: RequestOptions): this {
+    return withRequestOptions(this, options);
+  }
+
+  /**
+   * Verifies the `X-Hub-Signature-256` header of a webhook request.
+   *
+   * The signature is a HMAC-SHA256 digest of the raw request body using the app secret as the key, prefixed with `sha256=`. The legacy `X-Hub-Signature` header prefixed with `sha1=` is also accepted.
+   *
+   * @param rawBody - The raw request body. Do not use the re-serialized JSON body because Facebook escapes some unicode characters when signing.
+   * @param signature - The value of the `X-Hub-Signature-256` header.
+   * @returns `true` if the signature is valid.
+   *
+   * @see https://developers.facebook.com/docs/messenger-platform/webhook#security
+   *
+   * @example
+   *
+   * ```js
+   * client.verifySignature(rawBody, req.headers['x-hub-signature-256']);
+   * ```
+   */
+  verifySignature(rawBody: string | Buffer, signature: string): boolean {
+    invariant(
+      this.appSecret,
+      `${this.constructor.name}: \`appSecret\` is required to verify the signature.`
+    );
+
+    if (typeof signature !== 'string') return false;
+
+    const [algorithm, digest] = signature.split('=');
+
+    if (!digest || (algorithm !== 'sha256' && algorithm !== 'sha1')) {
+      return false;
+    }
+
+    return safeCompare(
+      createHmacDigest(algorithm, this.appSecret as string, rawBody),
+      digest
+    );
+  }
+
+  /**
+   * Gets page info using Graph API.
+   *
+   * @returns Page info
+   *
+   * @see https://developers.facebook.com/docs/graph-api/reference/page/
+   *
+   * @example
+   *
+   * ```js
+   * await client.getPageInfo();
+   * // {
+   * //   name: 'Bot Demo',
+   * //   id: '1895382890692546',
+   * // }
+   * ```
+   */
+  getPageInfo({ fields }: { fields?: string[] } = {}): Promise<
+    FacebookTypes.PageInfo
+  > {
+    return this.axios
+      .get('/me', {
+        params: {
+          access_token: this.accessToken,
+          fields: fields ? fields.join(',') : undefined,
+        },
+      })
+      .then((res) => res.data, this.handleError);
+  }
+
+  /**
+   * Gets token information.
+   *
+   * @returns Token information
+   *
+   * @see https://developers.facebook.com/docs/facebook-login/access-tokens/debugging-and-error-handling
+   *
+   * @example
+   *
+   * ```js
+   * await client.debugToken();
+   * // {
+   * //   appId: '000000000000000',
+   * //   application: 'Social Cafe',
+   * //   expiresAt: 1352419328,
+   * //   isValid: true,
+   * //   issuedAt: 1347235328,
+   * //   scopes: ['email', 'user_location'],
+   * //   userId: 1207059,
+   * // }
+   * ```
+   */
+  debugToken(): Promise<FacebookTypes.TokenInfo> {
+    invariant(this.appId, 'App ID is required to debug token');
+    invariant(this.appSecret, 'App Secret is required to debug token');
+
+    const accessToken = `${this.appId}|${this.appSecret}`;
+
+    return this.axios
+      .get(`/debug_token`, {
+        params: {
+          input_token: this.accessToken,
+          access_token: accessToken,
+        },
+      })
+      .then((res) => res.data.data, this.handleError);
+  }
+
+  /**
+   * Create new Webhooks subscriptions.
+   *
+   * @param subscription - Subscription parameters.
+   * @param subscription.accessToken - App access token.
+   * @param subscription.callbackUrl - The URL to receive the POST request when an update is triggered, and a GET request when attempting this publish operation.
+   * @param subscription.verifyToken - An arbitrary string that can be used to confirm to your server that the request is valid.
+   * @param subscription.fields - One or more of the set of valid fields in this object to subscribe to. Default Fields: `messages`, `messaging_postbacks`, `messaging_optins`, `messaging_referrals`, `messaging_handovers` and `messaging_policy_enforcement`.
+   * @param subscription.object - Indicates the object type that this subscription applies to. Defaults to `page`.
+   * @param subscription.includeValues - Indicates if change notifications should include the new values.
+   * @returns Success status
+   *
+   * @see https://developers.facebook.com/docs/graph-api/reference/app/subscriptions
+   *
+   * @example
+   *
+   * ```js
+   * await client.createSubscription({
+   *   accessToken: APP_ACCESS_TOKEN,
+   *   callbackUrl: 'https://mycallback.com',
+   *   fields: ['messages', 'messaging_postbacks', 'messaging_referrals'],
+   *   verifyToken: VERIFY_TOKEN,
+   * });
+   *
+   * // Or provide app id and app secret instead of app access token:
+   * client.createSubscription({
+   *   accessToken: `${APP_ID}|${APP_SECRET}`,
+   *   callbackUrl: 'https://mycallback.com',
+   *   fields: ['messages', 'messaging_postbacks', 'messaging_referrals'],
+   *   verifyToken: VERIFY_TOKEN,
+   * });
+   * ```
+   */
+  createSubscription({
+    object = 'page',
+    callbackUrl,
+    fields = [
+      'messages',
+      'messaging_postbacks',
+      'messaging_optins',
+      'messaging_referrals',
+      'messaging_handovers',
+      'messaging_policy_enforcement',
+    ],
+    includeValues,
+    verifyToken,
+    accessToken: appAccessToken,
+  }: {
+    object?: 'user' | 'page' | 'permissions' | 'payments';
+    callbackUrl: string;
+    fields?: string[];
+    includeValues?: boolean;
+    verifyToken: string;
+    accessToken: string;
+  }): Promise<{ success: boolean }> {
+    const { appId } = this;
+
+    invariant(appId, 'App ID is required to create subscription');
+    invariant(
+      this.appSecret || appAccessToken,
+      'App Secret or App Token is required to create subscription'
+    );
+
+    const accessToken = appAccessToken || `${appId}|${this.appSecret}`;
+
+    return this.axios
+      .post(`/${appId}/subscriptions?access_token=${accessToken}`, {
+        object,
+        callbackUrl,
+        fields: fields.join(','),
+        includeValues,
+        verifyToken,
+      })
+      .then((res) => res.data, this.handleError);
+  }
+
+  /**
+   * Gets the current Webhook subscriptions set up on your app.
+   *
+   * @param options - The other parameters.
+   * @param options.accessToken - App access token.
+   * @returns An array of subscriptions.
+   *
+   * @see https://developers.facebook.com/docs/graph-api/reference/app/subscriptions
+   *
+   * @example
+   *
+   * ```js
+   * await client.getSubscriptions({
+   *   accessToken: APP_ACCESS_TOKEN,
+   * });
+   * // [{
+   * //   object: 'page',
+   * //   callbackUrl: 'https://www.example.com/callback'
+   * //   fields: ['messages', 'messaging_postbacks', 'messaging_optins'],
+   * //   active: true,
+   * // }]
+   *
+   * // Or provide app id and app secret instead of app access token:
+   * await client.getSubscriptions({
+   *   accessToken: `${APP_ID}|${APP_SECRET}`,
+   * });
+   * ```
+   */
+  getSubscriptions({
+    accessToken: appAccessToken,
+  }: {
+    accessToken?: string;
+  } = {}): Promise<FacebookTypes.Subscription[]> {
+    const { appId } = this;
+    invariant(appId, 'App ID is required to get subscriptions');
+    invariant(
+      this.appSecret || appAccessToken,
+      'App Secret or App Token is required to get subscriptions'
+    );
+
+    const accessToken = appAccessToken || `${appId}|${this.appSecret}`;
+
+    return this.axios
+      .get(`/${appId}/subscriptions?access_token=${accessToken}`)
+      .then((res) => res.data.data, this.handleError);
+  }
+
+  /**
+   * Get the current page subscription set up on your app.
+   *
+   * @param options - The other parameters.
+   * @param options.accessToken - App access token.
+   * @returns The current page subscription
+   *
+   * @see https://developers.facebook.com/docs/graph-api/reference/app/subscriptions
+   *
+   * @example
+   *
+   * ```js
+   * await client.getPageSubscription({
+   *   accessToken: APP_ACCESS_TOKEN,
+   * });
+   *
+   * // Or provide app id and app secret instead of app access token:
+   * await client.getPageSubscription({
+   *   accessToken: `${APP_ID}|${APP_SECRET}`,
+   * });
+   * ```
+   */
+  getPageSubscription({
+    accessToken: appAccessToken,
+  }: {
+    accessToken?: string;
+  } = {}): Promise<FacebookTypes.Subscription> {
+    const { appId } = this;
+    invariant(appId, 'App ID is required to get subscription');
+    invariant(
+      this.appSecret || appAccessToken,
+      'App Secret or App Token is required to get subscription'
+    );
+
+    const accessToken = appAccessToken || `${appId}|${this.appSecret}`;
+
+    return this.getSubscriptions({
+      accessToken,
+    }).then(
+      (subscriptions: FacebookTypes.Subscription[]) =>
+        subscriptions.filter(
+          (subscription) => subscription.object === 'page'
+        )[0] || null
+    );
+  }
+
+  /**
+   * Sends multiple requests in a batch.
+   *
+   * @param requests - Subrequests in the batch.
+   * @returns An array of batch results
+   *
+   * @see https://developers.facebook.com/docs/graph-api/making-multiple-requests
+   *
+   * @example
+   *
+   * ```js
+   * const { MessengerBatch } = require('messaging-api-messenger');
+   *
+   * await client.sendBatch([
+   *   MessengerBatch.sendText(USER_ID, '1'),
+   *   MessengerBatch.sendText(USER_ID, '2'),
+   *   MessengerBatch.sendText(USER_ID, '3'),
+   * ]);
+   *
+   * // upload files along with the batch
+   * await client.sendBatch([
+   *   MessengerBatch.sendImage(USER_ID, fs.createReadStream('image.jpg')),
+   *   MessengerBatch.sendImage(USER_ID, buffer, { filename: 'image.png' }),
+   * ]);
+   *
+   * // reference the result of a previous request
+   * await client.sendBatch([
+   *   MessengerBatch.uploadAttachment('image', 'https://example.com/pic.png', {
+   *     name: 'upload',
+   *   }),
+   *   MessengerBatch.sendAttachment(USER_ID, {
+   *     type: 'image',
+   *     payload: {
+   *       attachmentId: MessengerBatch.createReference('upload', '$.attachment_id'),
+   *     },
+   *   }),
+   * ]);
+   * ```
+   */
+  sendBatch(
+    batch: FacebookTypes.BatchItem[],
+    { includeHeaders = true }: { includeHeaders?: boolean } = {}
+  ): Promise<FacebookTypes.BatchResponse[]> {
+    invariant(
+      batch.length <= 50,
+      'limit the number of requests which can be in a batch to 50'
+    );
+
+    FacebookBatch.validateBatch(batch);
+
+    const responseAccessPaths = batch.map((item) => item.responseAccessPath);
+
+    const attachedFiles: {
+      name: string;
+      file: FacebookTypes.BatchFile;
+    }[] = [];
+
+    const bodyEncodedbatch = batch
+      .map((item) => omit(item, 'responseAccessPath'))
+      .map((item) => {
+        if (!item.attachedFiles) {
+          return item;
+        }
+        const names = item.attachedFiles.map((file) => {
+          const name = `file${attachedFiles.length}`;
+          attachedFiles.push({ name, file });
+          return name;
+        });
+        return {
+          ...item,
+          attachedFiles: names.join(','),
+        };
+      })
+      .map((item) => {
+        if (item.body) {
+          const body = snakecaseKeysDeep(item.body) as Record<string, unknown>;
+          return {
+            ...item,
+            body: Object.keys(body)
+              .map((key) => {
+                const val = body[key];
+                return `${encodeURIComponent(key)}=${encodeURIComponent(
+                  typeof val === 'object' ? JSON.stringify(val) : String(val)
+                )}`;
+              })
+              .join('&'),
+          };
+        }
+        return item;
+      });
+
+    let request: Promise<AxiosResponse>;
+    if (attachedFiles.length > 0) {
+      // files can only be uploaded in a multipart request, which isn't snakecased by the request transformer
+      const form = new FormData();
+
+      // the batch in the form can't be signed by the request interceptor, so the items are signed here
+      const signedBatch = this.skipAppSecretProof
+        ? bodyEncodedbatch
+        : bodyEncodedbatch.map((item) =>
+            appendBatchItemAppSecretProof(item, this.appSecret as string)
+          );
+
+      form.append('access_token', this.accessToken);
+      form.append('include_headers', String(includeHeaders));
+      form.append('batch', JSON.stringify(snakecaseKeysDeep(signedBatch)));
+
+      attachedFiles.forEach(({ name, file }) => {
+        form.append(name, file.data, omit(file, 'data'));
+      });
+
+      request = this.axios.post('/', form, {
+        headers: form.getHeaders(),
+        maxContentLength: Infinity, // Facebook limit is 25MB, set a bigger value and let Facebook handle rejection
+      });
+    } else {
+      request = this.axios.post('/', {
+        accessToken: this.accessToken,
+        includeHeaders,
+        batch: bodyEncodedbatch,
+      });
+    }
+
+    return request.then(
+      (res) =>
+        res.data.map((item: { code: number; body: string }, index: number) => {
+          const responseAccessPath = responseAccessPaths[index];
+          const datum = camelcaseKeysDeep(item) as {
+            code: number;
+            body: string;
+          };
+          if (datum.body) {
+            const parsedBody = camelcaseKeysDeep(JSON.parse(datum.body));
+            return {
+              ...datum,
+              body: responseAccessPath
+                ? get(parsedBody, responseAccessPath)
+                : parsedBody,
+            };
+          }
+          return datum;
+        }),
+      this.handleError
+    );
+  }
+
+  /**
+   * Sends a GET request to the Graph API with the access token of the client.
+   *
+   * @param path - The path of the node or the edge, e.g. `/me/accounts`
+   * @param params - Query parameters, with `fields` to select fields and `accessToken` to override the access token
+   * @param requestOptions - Optional `signal` to abort the request and `timeout` to override the timeout of the client.
+   * @returns The camelcased response body
+   *
+   * @example
+   *
+   * ```js
+   * await client.get('/me', { fields: ['id', 'name', 'fan_count'] });
+   * // { id: '1895382890692546', name: 'Bot Demo', fanCount: 100 }
+   * ```
+   */
+  get<T = unknown>(
+    path: string,
+    params: FacebookTypes.GraphParams = {},
+    requestOptions: RequestOptions = {}
+  ): Promise<T> {
+    return this.axios
+      .get<T>(path, {
+        ...createRequestConfig(requestOptions),
+        params: this.createParams(params),
+      })
+      .then((res) => res.data, this.handleError);
+  }
+
+  /**
+   * Sends a POST request to the Graph API with the access token of the client.
+   *
+   * @param path - The path of the node or the edge, e.g. `/me/subscribed_apps`
+   * @param body - The request body, which is snakecased before sending
+   * @param params - Query parameters, with `accessToken` to override the access token
+   * @param requestOptions - Optional `signal` to abort the request and `timeout` to override the timeout of the client.
+   * @returns The camelcased response body
+   *
+   * @example
+   *
+   * ```js
+   * await client.post('/me/subscribed_apps', {
+   *   subscribedFields: ['messages', 'messaging_postbacks'],
+   * });
+   * // { success: true }
+   * ```
+   */
+  post<T = unknown>(
+    path: string,
+    body?: Record<string, unknown>,
+    params: FacebookTypes.GraphParams = {},
+    requestOptions: RequestOptions = {}
+  ): Promise<T> {
+    return this.axios
+      .post<T>(path, body, {
+        ...createRequestConfig(requestOptions),
+        params: this.createParams(params),
+      })
+      .then((res) => res.data, this.handleError);
+  }
+
+  /**
+   * Sends a DELETE request to the Graph API with the access token of the client.
+   *
+   * @param path - The path of the node or the edge
+   * @param params - Query parameters, with `accessToken` to override the access token
+   * @param requestOptions - Optional `signal` to abort the request and `timeout` to override the timeout of the client.
+   * @returns The camelcased response body
+   *
+   * @example
+   *
+   * ```js
+   * await client.delete('/me/subscribed_apps');
+   * // { success: true }
+   * ```
+   */
+  delete<T = unknown>(
+    path: string,
+    params: FacebookTypes.GraphParams = {},
+    requestOptions: RequestOptions = {}
+  ): Promise<T> {
+    return this.axios
+      .delete<T>(path, {
+        ...createRequestConfig(requestOptions),
+        params: this.createParams(params),
+      })
+      .then((res) => res.data, this.handleError);
+  }
+
+  /**
+   * Gets the app access token composed of the app ID and the app secret, which can be used to call app-level APIs, e.g. webhooks subscriptions.
+   *
+   * @returns The app access token
+   *
+   * @see https://developers.facebook.com/docs/facebook-login/access-tokens#apptokens
+   *
+   * @example
+   *
+   * ```js
+   * await client.get(`/${APP_ID}/subscriptions`, {
+   *   accessToken: client.getAppAccessToken(),
+   * });
+   * ```
+   */
+  getAppAccessToken(): string {
+    invariant(this.appId, 'App ID is required to get app access token');
+    invariant(this.appSecret, 'App Secret is required to get app access token');
+
+    return `${this.appId}|${this.appSecret}`;
+  }
+
+  /**
+   * Iterates items of a Graph API edge through the pages, following `paging.cursors.after`, or `paging.next` on time-based edges without cursors, while `paging.next` exists. Breaking out of `for await` stops fetching the remaining pages.
+   *
+   * @param path - The path of the edge, e.g. `/me/custom_labels`
+   * @param params - Parameters of the requests, with optional `limit` of the total items and `pageSize` of each page
+   * @param requestOptions - Optional `signal` to stop fetching the remaining pages and `timeout` of each page.
+   * @returns The async iterator of items
+   *
+   * @example
+   *
+   * ```js
+   * for await (const post of client.paginate('/me/feed', {
+   *   fields: ['id', 'message'],
+   *   limit: 100,
+   *   pageSize: 25,
+   * })) {
+   *   console.log(post.message);
+   * }
+   * ```
+   */
+  paginate<T = unknown>(
+    path: string,
+    {
+      limit,
+      pageSize,
+      ...params
+    }: FacebookTypes.GraphParams & FacebookTypes.PaginateOptions = {},
+    requestOptions: RequestOptions = {}
+  ): AsyncIterableIterator<T> {
+    return paginate(
+      (cursor) =>
+        this.get<FacebookTypes.PagingResult<T>>(
+          path,
+          { ...params, ...cursor },
+          requestOptions
+        ),
+      { limit, pageSize }
+    );
+  }
+
+  /**
+   * Wraps errors of Graph API requests with the code, the type and the message of the Graph API error, prefixed with the name from `getApiName`.
+   */
+  protected handleError = (
+    err: BaseAxiosError<{
+      error: {
+        code: number;
+        type: string;
+        message: string;
+      };
+    }>
+  ): never => handleError(err, this.getApiName());
+
+  /**
+   * The API name prefixing messages of the errors, so subclasses can report errors with their own API names.
+   */
+  protected getApiName(): string {
+    return 'Graph API';
+  }
+
+  /**
+   * The platform name of the rate limit buckets, so clients of different APIs don't share buckets.
+   */
+  protected getRateLimitPlatform(): string {
+    return 'facebook';
+  }
+
+  /**
+   * The policy of the rate limit interceptor.
+   */
+  protected getRateLimitPolicy(): RateLimitPolicy {
+    return {};
+  }
+
+  private createParams({
+    fields,
+    accessToken = this.accessToken,
+    ...params
+  }: FacebookTypes.GraphParams): Record<string, unknown> {
+    return {
+      ...(snakecaseKeysDeep(params) as Record<string, unknown>),
+      access_token: accessToken,
+      fields: fields ? fields.join(',') : undefined,
+    };
+  }
+}
@@ -0,0 +1,174 @@
+import fs from 'fs';
+
+import {
+  CassetteOptions,
+  OnErrorFunction,
+  OnRequestFunction,
+  OnResponseFunction,
+  RateLimitOptions,
+  RetryOptions,
+} from 'messaging-api-common';
+
+export type ClientConfig = {
+  accessToken: string;
+  appId?: string;
+  appSecret?: string;
+  version?: string;
+  origin?: string;
+  onRequest?: OnRequestFunction;
+
+  /**
+   * The callback to be called with every successful response.
+   */
+  onResponse?: OnResponseFunction;
+
+  /**
+   * The callback to be called with every failed request.
+   */
+  onError?: OnErrorFunction;
+
+  /**
+   * Additional names of query parameters, headers and body fields to be redacted from `onRequest` payloads and error messages. Secrets of the platform, e.g. the access token, are always redacted.
+   */
+  redact?: string[];
+
+  /**
+   * The timeout of each request in milliseconds. Requests never time out if not provided. It can be overridden by the `timeout` option of paginating methods.
+   */
+  timeout?: number;
+
+  /**
+   * Records requests into a JSON cassette or replays them without sending requests, e.g. for offline testing.
+   */
+  cassette?: CassetteOptions;
+
+  /**
+   * Retries failed requests with exponential backoff. Requests are not retried if not provided.
+   */
+  retry?: RetryOptions;
+
+  /**
+   * Delays requests to stay under the rate limits of the platform. Requests are not limited if not provided.
+   */
+  rateLimit?: RateLimitOptions;
+  skipAppSecretProof?: boolean;
+};
+
+export type FileData = Buffer | fs.ReadStream;
+
+export type BatchRequestOptions = {
+  name?: string;
+  dependsOn?: string;
+  omitResponseOnSuccess?: boolean;
+};
+
+export type PageInfo = {
+  name: string;
+  id: string;
+};
+
+type Scope = string;
+
+export type TokenInfo = {
+  appId: string;
+  type: 'PAGE' | 'APP' | 'USER';
+  application: string;
+  dataAccessExpiresAt: number;
+  expiresAt: number;
+  isValid: true;
+  issuedAt?: number;
+  profileId: string;
+  scopes: Scope[];
+  userId: string;
+};
+
+export type SubscriptionFields = {
+  name: string;
+  version: string;
+};
+
+export type Subscription = {
+  object: string;
+  callbackUrl: string;
+  active: boolean;
+  fields: SubscriptionFields[];
+};
+
+/**
+ * A file uploaded along with the batch in the multipart request body.
+ */
+export type BatchFile = {
+  data: FileData;
+
+  /** Required when the data is a buffer. */
+  filename?: string;
+  contentType?: string;
+};
+
+export type BatchItem = {
+  method: string;
+  relativeUrl: string;
+  name?: string;
+  body?: Record<string, any>;
+  responseAccessPath?: string;
+
+  /** Files used by the request, e.g. the attachment to upload. */
+  attachedFiles?: BatchFile[];
+} & BatchRequestOptions;
+
+export type Paging = {
+  /** Cursors of cursor-based edges. Not included on time-based edges, e.g. `/me/feed` and insights. */
+  cursors?: {
+    before: string;
+    after: string;
+  };
+
+  /** The URL of the previous page. Not included on the first page. */
+  previous?: string;
+
+  /** The URL of the next page. Not included on the last page. */
+  next?: string;
+};
+
+export type PagingResult<T> = {
+  data: T[];
+  paging?: Paging;
+};
+
+export type PagingOptions = {
+  /** Maximum number of items in a page. */
+  limit?: number;
+
+  /** Cursor of the item before which the page starts. */
+  before?: string;
+
+  /** Cursor of the item after which the page starts. */
+  after?: string;
+};
+
+export type PaginateOptions = {
+  /** Maximum number of items to iterate. Iterates all items by default. */
+  limit?: number;
+
+  /** Maximum number of items in each page, sent as `limit` of the requests. */
+  pageSize?: number;
+};
+
+export type BatchResponse = {
+  code: number;
+  headers?: { name: string; value: string }[];
+  body: Record<string, any>;
+};
+
+/**
+ * Query parameters of a Graph API request. Keys are snakecased before sending.
+ */
+export type GraphParams = {
+  /** Fields to be included in the response. */
+  fields?: string[];
+
+  /** Overrides the access token of the client, e.g. with an app access token. */
+  accessToken?: string;
+
+  [key: string]: unknown;
+};
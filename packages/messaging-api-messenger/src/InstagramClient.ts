@@ -0,0 +1,846 @@
+import omit from 'lodash/omit';
+import { RateLimitPolicy, RequestOptions } from 'messaging-api-common';
+
+import FacebookClient from './FacebookClient';
+import MessengerValidation from './MessengerValidation';
+import paginate from './paginate';
+import * as InstagramTypes from './InstagramTypes';
+import * as MessengerTypes from './MessengerTypes';
+
+const rateLimitPolicy: RateLimitPolicy = {
+  getRecipient: (config) =>
+    config.data && config.data.recipient && config.data.recipient.id
+      ? config.data.recipient.id
+      : undefined,
+};
+
+/**
+ * Client for Instagram Messaging, which uses the Send API of the Messenger Platform with Instagram-scoped IDs (IGSID) of the users.
+ *
+ * It accepts the same config as `MessengerClient` with the access token of the page connected to the Instagram account, and extends `FacebookClient` for the request handling, e.g. `appsecret_proof`, case conversion, retrying and rate limiting.
+ *
+ * @see https://developers.facebook.com/docs/messenger-platform/instagram
+ */
+export default class InstagramClient extends FacebookClient {
+  /**
+   * Whether messages are validated before sending.
+   */
+  readonly validateMessages: boolean;
+
+  constructor(config: InstagramTypes.ClientConfig) {
+    super(config);
+
+    this.validateMessages = Boolean(config.validateMessages);
+  }
+
+  protected getApiName(): string {
+    return 'Instagram API';
+  }
+
+  protected getRateLimitPlatform(): string {
+    return 'instagram';
+  }
+
+  protected getRateLimitPolicy(): RateLimitPolicy {
+    return rateLimitPolicy;
+  }
+
+  /**
+   * Retrieves the profile of an Instagram user who has sent a message to the Instagram account.
+   *
+   * @param igsid - Instagram-scoped user ID.
+   * @param options - Other optional parameters.
+   * @param options.fields - Value must be among `id`, `name`, `username`, `profile_pic`, `follower_count`, `is_user_follow_business`, `is_business_follow_user` and `is_verified_user`, default with `name` and `profile_pic`.
+   * @returns Profile of the user.
+   *
+   * @see https://developers.facebook.com/docs/messenger-platform/instagram/features/user-profile
+   *
+   * @example
+   *
+   * ```js
+   * await client.getUserProfile(IGSID);
+   * // {
+   * //   name: 'Peter Chang',
+   * //   profilePic: 'https://example.com/pic.png',
+   * // }
+   * ```
+   */
+  getUserProfile(
+    igsid: string,
+    {
+      fields = ['name', 'profile_pic'],
+    }: { fields?: InstagramTypes.UserProfileField[] } = {}
+  ): Promise<InstagramTypes.User> {
+    return this.get<InstagramTypes.User>(`/${igsid}`, { fields });
+  }
+
+  /**
+   * Retrieves the current value of one or more profile properties of the Instagram account.
+   *
+   * @param fields - An array of profile properties to retrieve. Value must be among `persistent_menu` and `ice_breakers`.
+   * @returns The current value of the requested properties
+   *
+   * @see https://developers.facebook.com/docs/messenger-platform/instagram/features/ice-breakers
+   *
+   * @example
+   *
+   * ```js
+   * await client.getMessengerProfile(['ice_breakers']);
+   * // [
+   * //   {
+   * //     iceBreakers: [
+   * //       {
+   * //         question: 'Where are you located?',
+   * //         payload: 'LOCATION',
+   * //       },
+   * //     ],
+   * //   },
+   * // ]
+   * ```
+   */
+  getMessengerProfile(
+    fields: InstagramTypes.InstagramProfileField[]
+  ): Promise<InstagramTypes.InstagramProfile[]> {
+    return this.get<{ data: InstagramTypes.InstagramProfile[] }>(
+      '/me/messenger_profile',
+      { platform: 'instagram', fields }
+    ).then((res) => res.data);
+  }
+
+  /**
+   * Sets the values of one or more profile properties of the Instagram account. Only properties set in the request body will be overwritten.
+   *
+   * @param profile - Profile object with `persistentMenu` or `iceBreakers`.
+   * @returns Success status
+   *
+   * @see https://developers.facebook.com/docs/messenger-platform/instagram/features/ice-breakers
+   *
+   * @example
+   *
+   * ```js
+   * await client.setMessengerProfile({
+   *   iceBreakers: [
+   *     {
+   *       question: 'Where are you located?',
+   *       payload: 'LOCATION',
+   *     },
+   *   ],
+   * });
+   * ```
+   */
+  setMessengerProfile(
+    profile: InstagramTypes.InstagramProfile
+  ): Promise<MessengerTypes.MutationSuccessResponse> {
+    return this.post<MessengerTypes.MutationSuccessResponse>(
+      '/me/messenger_profile',
+      profile,
+      { platform: 'instagram' }
+    );
+  }
+
+  /**
+   * Deletes one or more profile properties of the Instagram account.
+   *
+   * @param fields - An array of profile properties to delete. Value must be among `persistent_menu` and `ice_breakers`.
+   * @returns Success status
+   *
+   * @example
+   *
+   * ```js
+   * await client.deleteMessengerProfile(['ice_breakers']);
+   * ```
+   */
+  deleteMessengerProfile(
+    fields: InstagramTypes.InstagramProfileField[]
+  ): Promise<MessengerTypes.MutationSuccessResponse> {
+    return this.axios
+      .delete<MessengerTypes.MutationSuccessResponse>('/me/messenger_profile', {
+        params: {
+          access_token: this.accessToken,
+          platform: 'instagram',
+        },
+        data: {
+          fields,
+        },
+      })
+      .then((res) => res.data, this.handleError);
+  }
+
+  /**
+   * Retrieves the current value of the persistent menu of the Instagram account.
+   *
+   * @returns Array of persistent menu items, or `null` if not set.
+   *
+   * @see https://developers.facebook.com/docs/messenger-platform/instagram/features/persistent-menu
+   */
+  getPersistentMenu(): Promise<MessengerTypes.PersistentMenu | null> {
+    return this.getMessengerProfile(['persistent_menu']).then((res) =>
+      res[0] ? (res[0].persistentMenu as MessengerTypes.PersistentMenu) : null
+    );
+  }
+
+  /**
+   * Sets the persistent menu of the Instagram account. Only `web_url` and `postback` buttons are supported.
+   *
+   * @param persistentMenu - Array of persistent menu items by locales.
+   * @returns Success status
+   *
+   * @see https://developers.facebook.com/docs/messenger-platform/instagram/features/persistent-menu
+   *
+   * @example
+   *
+   * ```js
+   * await client.setPersistentMenu([
+   *   {
+   *     locale: 'default',
+   *     callToActions: [
+   *       {
+   *         type: 'postback',
+   *         title: 'Talk to an agent',
+   *         payload: 'CARE_HELP',
+   *       },
+   *     ],
+   *   },
+   * ]);
+   * ```
+   */
+  setPersistentMenu(
+    persistentMenu: MessengerTypes.PersistentMenu
+  ): Promise<MessengerTypes.MutationSuccessResponse> {
+    return this.setMessengerProfile({ persistentMenu });
+  }
+
+  /**
+   * Deletes the persistent menu of the Instagram account.
+   *
+   * @returns Success status
+   */
+  deletePersistentMenu(): Promise<MessengerTypes.MutationSuccessResponse> {
+    return this.deleteMessengerProfile(['persistent_menu']);
+  }
+
+  /**
+   * Retrieves the current value of ice breakers of the Instagram account.
+   *
+   * @returns Array of ice breakers, or `null` if not set.
+   *
+   * @see https://developers.facebook.com/docs/messenger-platform/instagram/features/ice-breakers
+   */
+  getIceBreakers(): Promise<MessengerTypes.IceBreaker[] | null> {
+    return this.getMessengerProfile(['ice_breakers']).then((res) =>
+      res[0] ? (res[0].iceBreakers as MessengerTypes.IceBreaker[]) : null
+    );
+  }
+
+  /**
+   * Sets ice breakers of the Instagram account, which are shown to users who start a conversation. Tapping an ice breaker sends a postback with its payload.
+   *
+   * @param iceBreakers - Array of ice breakers, up to 4.
+   * @returns Success status
+   *
+   * @see https://developers.facebook.com/docs/messenger-platform/instagram/features/ice-breakers
+   *
+   * @example
+   *
+   * ```js
+   * await client.setIceBreakers([
+   *   {
+   *     question: 'Where are you located?',
+   *     payload: 'LOCATION',
+   *   },
+   * ]);
+   * ```
+   */
+  setIceBreakers(
+    iceBreakers: MessengerTypes.IceBreaker[]
+  ): Promise<MessengerTypes.MutationSuccessResponse> {
+    return this.setMessengerProfile({ iceBreakers });
+  }
+
+  /**
+   * Deletes ice breakers of the Instagram account.
+   *
+   * @returns Success status
+   */
+  deleteIceBreakers(): Promise<MessengerTypes.MutationSuccessResponse> {
+    return this.deleteMessengerProfile(['ice_breakers']);
+  }
+
+  /**
+   * Sends request raw body using the Send API.
+   *
+   * @param body - The raw body to be sent.
+   * @returns An object includes recipientId and messageId.
+   *
+   * @see https://developers.facebook.com/docs/messenger-platform/instagram/features/send-message
+   */
+  sendRawBody(
+    body: Record<string, any>
+  ): Promise<MessengerTypes.SendMessageSuccessResponse> {
+    return this.post<MessengerTypes.SendMessageSuccessResponse>(
+      '/me/messages',
+      body
+    );
+  }
+
+  /**
+   * Sends messages to the specified user using the Send API.
+   *
+   * @param igsidOrRecipient - An Instagram-scoped ID of the recipient or a recipient object
+   * @param message - A message object with `text` or `attachment`.
+   * @param options - Other optional parameters. For example, [messaging types](https://developers.facebook.com/docs/messenger-platform/send-messages#messaging_types) or the `HUMAN_AGENT` tag.
+   * @returns An object includes recipientId and messageId.
+   *
+   * @see https://developers.facebook.com/docs/messenger-platform/instagram/features/send-message
+   *
+   * @example
+   *
+   * ```js
+   * await client.sendMessage(IGSID, {
+   *   text: 'Hello!',
+   * });
+   * ```
+   */
+  sendMessage(
+    igsidOrRecipient: InstagramTypes.IgsidOrRecipient,
+    message: InstagramTypes.Message,
+    options: InstagramTypes.SendOption = {}
+  ): Promise<MessengerTypes.SendMessageSuccessResponse> {
+    const recipient =
+      typeof igsidOrRecipient === 'string'
+        ? {
+            id: igsidOrRecipient,
+          }
+        : igsidOrRecipient;
+
+    let messagingType = 'UPDATE';
+
+    if (options.messagingType) {
+      messagingType = options.messagingType;
+    } else if (options.tag) {
+      messagingType = 'MESSAGE_TAG';
+    }
+
+    const { quickReplies } = options;
+    const createdMessage =
+      quickReplies && quickReplies.length > 0
+        ? { ...message, quickReplies }
+        : message;
+
+    if (this.validateMessages) {
+      try {
+        MessengerValidation.validateMessage(createdMessage);
+      } catch (err) {
+        return Promise.reject(err);
+      }
+    }
+
+    return this.sendRawBody({
+      messagingType,
+      recipient,
+      message: createdMessage,
+      ...omit(options, 'quickReplies'),
+    });
+  }
+
+  /**
+   * Sends plain text messages to the specified user using the Send API.
+   *
+   * @param igsidOrRecipient - An Instagram-scoped ID of the recipient or a recipient object
+   * @param text - Text of the message to be sent.
+   * @param options - Other optional parameters. For example, `quickReplies`.
+   * @returns An object includes recipientId and messageId.
+   *
+   * @example
+   *
+   * ```js
+   * await client.sendText(IGSID, 'Hello!');
+   * ```
+   */
+  sendText(
+    igsidOrRecipient: InstagramTypes.IgsidOrRecipient,
+    text: string,
+    options?: InstagramTypes.SendOption
+  ): Promise<MessengerTypes.SendMessageSuccessResponse> {
+    return this.sendMessage(igsidOrRecipient, { text }, options);
+  }
+
+  /**
+   * Sends attachment messages to the specified user using the Send API.
+   *
+   * @param igsidOrRecipient - An Instagram-scoped ID of the recipient or a recipient object
+   * @param attachment - The attachment object.
+   * @param options - Other optional parameters.
+   * @returns An object includes recipientId and messageId.
+   */
+  sendAttachment(
+    igsidOrRecipient: InstagramTypes.IgsidOrRecipient,
+    attachment: InstagramTypes.Attachment,
+    options?: InstagramTypes.SendOption
+  ): Promise<MessengerTypes.SendMessageSuccessResponse> {
+    return this.sendMessage(igsidOrRecipient, { attachment }, options);
+  }
+
+  /**
+   * Sends images to the specified user using the Send API.
+   *
+   * @param igsidOrRecipient - An Instagram-scoped ID of the recipient or a recipient object
+   * @param image - The URL of the image or an attachment payload.
+   * @param options - Other optional parameters.
+   * @returns An object includes recipientId and messageId.
+   *
+   * @example
+   *
+   * ```js
+   * await client.sendImage(IGSID, 'https://example.com/vr.jpg');
+   * ```
+   */
+  sendImage(
+    igsidOrRecipient: InstagramTypes.IgsidOrRecipient,
+    image: string | MessengerTypes.MediaAttachmentPayload,
+    options?: InstagramTypes.SendOption
+  ): Promise<MessengerTypes.SendMessageSuccessResponse> {
+    return this.sendAttachment(
+      igsidOrRecipient,
+      {
+        type: 'image',
+        payload: typeof image === 'string' ? { url: image } : image,
+      },
+      options
+    );
+  }
+
+  /**
+   * Sends audios to the specified user using the Send API.
+   *
+   * @param igsidOrRecipient - An Instagram-scoped ID of the recipient or a recipient object
+   * @param audio - The URL of the audio or an attachment payload.
+   * @param options - Other optional parameters.
+   * @returns An object includes recipientId and messageId.
+   *
+   * @example
+   *
+   * ```js
+   * await client.sendAudio(IGSID, 'https://example.com/audio.mp3');
+   * ```
+   */
+  sendAudio(
+    igsidOrRecipient: InstagramTypes.IgsidOrRecipient,
+    audio: string | MessengerTypes.MediaAttachmentPayload,
+    options?: InstagramTypes.SendOption
+  ): Promise<MessengerTypes.SendMessageSuccessResponse> {
+    return this.sendAttachment(
+      igsidOrRecipient,
+      {
+        type: 'audio',
+        payload: typeof audio === 'string' ? { url: audio } : audio,
+      },
+      options
+    );
+  }
+
+  /**
+   * Sends videos to the specified user using the Send API.
+   *
+   * @param igsidOrRecipient - An Instagram-scoped ID of the recipient or a recipient object
+   * @param video - The URL of the video or an attachment payload.
+   * @param options - Other optional parameters.
+   * @returns An object includes recipientId and messageId.
+   *
+   * @example
+   *
+   * ```js
+   * await client.sendVideo(IGSID, 'https://example.com/video.mp4');
+   * ```
+   */
+  sendVideo(
+    igsidOrRecipient: InstagramTypes.IgsidOrRecipient,
+    video: string | MessengerTypes.MediaAttachmentPayload,
+    options?: InstagramTypes.SendOption
+  ): Promise<MessengerTypes.SendMessageSuccessResponse> {
+    return this.sendAttachment(
+      igsidOrRecipient,
+      {
+        type: 'video',
+        payload: typeof video === 'string' ? { url: video } : video,
+      },
+      options
+    );
+  }
+
+  /**
+   * Sends a generic template to the specified user using the Send API.
+   *
+   * @param igsidOrRecipient - An Instagram-scoped ID of the recipient or a recipient object
+   * @param elements - Array of elements, up to 10.
+   * @param options - Other optional parameters.
+   * @returns An object includes recipientId and messageId.
+   *
+   * @see https://developers.facebook.com/docs/messenger-platform/instagram/features/generic-template
+   */
+  sendGenericTemplate(
+    igsidOrRecipient: InstagramTypes.IgsidOrRecipient,
+    elements: MessengerTypes.TemplateElement[],
+    options?: InstagramTypes.SendOption
+  ): Promise<MessengerTypes.SendMessageSuccessResponse> {
+    return this.sendAttachment(
+      igsidOrRecipient,
+      {
+        type: 'template',
+        payload: {
+          templateType: 'generic',
+          elements,
+        },
+      },
+      options
+    );
+  }
+
+  /**
+   * Sends a product template of products in the catalog connected to the Instagram account.
+   *
+   * @param igsidOrRecipient - An Instagram-scoped ID of the recipient or a recipient object
+   * @param productIds - IDs of the products, up to 10.
+   * @param options - Other optional parameters.
+   * @returns An object includes recipientId and messageId.
+   *
+   * @see https://developers.facebook.com/docs/messenger-platform/instagram/features/product-template
+   */
+  sendProductTemplate(
+    igsidOrRecipient: InstagramTypes.IgsidOrRecipient,
+    productIds: string[],
+    options?: InstagramTypes.SendOption
+  ): Promise<MessengerTypes.SendMessageSuccessResponse> {
+    return this.sendAttachment(
+      igsidOrRecipient,
+      {
+        type: 'template',
+        payload: {
+          templateType: 'product',
+          elements: productIds.map((id) => ({ id })),
+        },
+      },
+      options
+    );
+  }
+
+  /**
+   * Shares a post published by the Instagram account to the specified user.
+   *
+   * @param igsidOrRecipient - An Instagram-scoped ID of the recipient or a recipient object
+   * @param postId - ID of the post.
+   * @param options - Other optional parameters.
+   * @returns An object includes recipientId and messageId.
+   *
+   * @example
+   *
+   * ```js
+   * await client.sendMediaShare(IGSID, POST_ID);
+   * ```
+   */
+  sendMediaShare(
+    igsidOrRecipient: InstagramTypes.IgsidOrRecipient,
+    postId: string,
+    options?: InstagramTypes.SendOption
+  ): Promise<MessengerTypes.SendMessageSuccessResponse> {
+    return this.sendAttachment(
+      igsidOrRecipient,
+      {
+        type: 'MEDIA_SHARE',
+        payload: {
+          id: postId,
+        },
+      },
+      options
+    );
+  }
+
+  /**
+   * Sends the heart sticker to the specified user.
+   *
+   * @param igsidOrRecipient - An Instagram-scoped ID of the recipient or a recipient object
+   * @param options - Other optional parameters.
+   * @returns An object includes recipientId and messageId.
+   *
+   * @example
+   *
+   * ```js
+   * await client.sendLikeHeart(IGSID);
+   * ```
+   */
+  sendLikeHeart(
+    igsidOrRecipient: InstagramTypes.IgsidOrRecipient,
+    options?: InstagramTypes.SendOption
+  ): Promise<MessengerTypes.SendMessageSuccessResponse> {
+    return this.sendAttachment(
+      igsidOrRecipient,
+      {
+        type: 'like_heart',
+      },
+      options
+    );
+  }
+
+  /**
+   * Sends a private reply to the author of a comment on a post or a reel of the Instagram account, within 7 days after the comment was created.
+   *
+   * @param recipient - An object includes the ID of the comment (`commentId`) to reply to.
+   * @param message - A message object with `text` or `attachment`.
+   * @param options - Other optional parameters. `RESPONSE` will be used as default messaging type.
+   * @returns An object includes recipientId, which is the Instagram-scoped ID of the author, and messageId.
+   *
+   * @see https://developers.facebook.com/docs/messenger-platform/instagram/features/private-replies
+   *
+   * @example
+   *
+   * ```js
+   * await client.sendPrivateReply({ commentId: COMMENT_ID }, { text: 'Hello!' });
+   * ```
+   */
+  sendPrivateReply(
+    recipient: InstagramTypes.RecipientWithCommentId,
+    message: InstagramTypes.Message,
+    options: Omit<InstagramTypes.SendOption, 'tag'> = {}
+  ): Promise<MessengerTypes.SendPrivateReplySuccessResponse> {
+    return this.sendMessage(recipient, message, {
+      messagingType: 'RESPONSE',
+      ...options,
+    });
+  }
+
+  /**
+   * Sends sender actions to the specified user using the Send API.
+   *
+   * @param igsidOrRecipient - An Instagram-scoped ID of the recipient or a recipient object
+   * @param senderAction - One of `typing_on`, `typing_off` or `mark_seen`
+   * @returns An object includes recipientId
+   *
+   * @see https://developers.facebook.com/docs/messenger-platform/instagram/features/sender-actions
+   *
+   * @example
+   *
+   * ```js
+   * await client.sendSenderAction(IGSID, 'typing_on');
+   * ```
+   */
+  sendSenderAction(
+    igsidOrRecipient: InstagramTypes.IgsidOrRecipient,
+    senderAction: InstagramTypes.SenderAction
+  ): Promise<MessengerTypes.SendSenderActionResponse> {
+    const recipient =
+      typeof igsidOrRecipient === 'string'
+        ? {
+            id: igsidOrRecipient,
+          }
+        : igsidOrRecipient;
+
+    return this.sendRawBody({
+      recipient,
+      senderAction,
+    });
+  }
+
+  /**
+   * Marks last message as read for the specified user.
+   *
+   * @param igsidOrRecipient - An Instagram-scoped ID of the recipient or a recipient object
+   * @returns An object includes recipientId
+   */
+  markSeen(
+    igsidOrRecipient: InstagramTypes.IgsidOrRecipient
+  ): Promise<MessengerTypes.SendSenderActionResponse> {
+    return this.sendSenderAction(igsidOrRecipient, 'mark_seen');
+  }
+
+  /**
+   * Turns typing indicators on for the specified user.
+   *
+   * @param igsidOrRecipient - An Instagram-scoped ID of the recipient or a recipient object
+   * @returns An object includes recipientId
+   */
+  typingOn(
+    igsidOrRecipient: InstagramTypes.IgsidOrRecipient
+  ): Promise<MessengerTypes.SendSenderActionResponse> {
+    return this.sendSenderAction(igsidOrRecipient, 'typing_on');
+  }
+
+  /**
+   * Turns typing indicators off for the specified user.
+   *
+   * @param igsidOrRecipient - An Instagram-scoped ID of the recipient or a recipient object
+   * @returns An object includes recipientId
+   */
+  typingOff(
+    igsidOrRecipient: InstagramTypes.IgsidOrRecipient
+  ): Promise<MessengerTypes.SendSenderActionResponse> {
+    return this.sendSenderAction(igsidOrRecipient, 'typing_off');
+  }
+
+  /**
+   * Reacts to a message sent by the specified user.
+   *
+   * @param igsidOrRecipient - An Instagram-scoped ID of the recipient or a recipient object
+   * @param messageId - ID of the message to react to, e.g. the `mid` of the message event.
+   * @param reaction - The reaction to the message. Defaults to `love`.
+   * @returns An object includes recipientId
+   *
+   * @see https://developers.facebook.com/docs/messenger-platform/instagram/features/reactions
+   *
+   * @example
+   *
+   * ```js
+   * await client.sendReaction(IGSID, event.message.mid);
+   * ```
+   */
+  sendReaction(
+    igsidOrRecipient: InstagramTypes.IgsidOrRecipient,
+    messageId: string,
+    reaction: InstagramTypes.MessageReaction = 'love'
+  ): Promise<MessengerTypes.SendSenderActionResponse> {
+    const recipient =
+      typeof igsidOrRecipient === 'string'
+        ? {
+            id: igsidOrRecipient,
+          }
+        : igsidOrRecipient;
+
+    return this.sendRawBody({
+      recipient,
+      senderAction: 'react',
+      payload: {
+        messageId,
+        reaction,
+      },
+    });
+  }
+
+  /**
+   * Removes the reaction from a message sent by the specified user.
+   *
+   * @param igsidOrRecipient - An Instagram-scoped ID of the recipient or a recipient object
+   * @param messageId - ID of the message reacted to.
+   * @returns An object includes recipientId
+   *
+   * @see https://developers.facebook.com/docs/messenger-platform/instagram/features/reactions
+   */
+  removeReaction(
+    igsidOrRecipient: InstagramTypes.IgsidOrRecipient,
+    messageId: string
+  ): Promise<MessengerTypes.SendSenderActionResponse> {
+    const recipient =
+      typeof igsidOrRecipient === 'string'
+        ? {
+            id: igsidOrRecipient,
+          }
+        : igsidOrRecipient;
+
+    return this.sendRawBody({
+      recipient,
+      senderAction: 'unreact',
+      payload: {
+        messageId,
+      },
+    });
+  }
+
+  /**
+   * Retrieves a page of Instagram conversations, ordered by the time of the latest message.
+   *
+   * @param options - Optional parameters, same as `MessengerClient#getConversations` except `platform`.
+   * @param requestOptions - Optional `signal` to abort the request and `timeout` to override the timeout of the client.
+   * @returns Conversations in pagination result
+   *
+   * @see https://developers.facebook.com/docs/messenger-platform/instagram/features/conversations
+   */
+  getConversations(
+    {
+      pageId = 'me',
+      userId,
+      fields,
+      ...paging
+    }: InstagramTypes.ConversationsOptions = {},
+    requestOptions: RequestOptions = {}
+  ): Promise<MessengerTypes.PagingResult<MessengerTypes.Conversation>> {
+    return this.get<MessengerTypes.PagingResult<MessengerTypes.Conversation>>(
+      `/${pageId}/conversations`,
+      { platform: 'instagram', userId, fields, ...paging },
+      requestOptions
+    );
+  }
+
+  /**
+   * Iterates Instagram conversations through all pages.
+   *
+   * @param options - Optional parameters, same as `getConversations` except the cursors, with `limit` of the total conversations and `pageSize` of each page.
+   * @param requestOptions - Optional `signal` to stop fetching the remaining pages and `timeout` of each page.
+   * @returns The async iterator of conversations
+   */
+  iterateConversations(
+    {
+      limit,
+      pageSize,
+      ...options
+    }: Omit<InstagramTypes.ConversationsOptions, 'before' | 'after' | 'limit'> &
+      MessengerTypes.PaginateOptions = {},
+    requestOptions: RequestOptions = {}
+  ): AsyncIterableIterator<MessengerTypes.Conversation> {
+    return paginate(
+      (cursor) =>
+        this.getConversations({ ...options, ...cursor }, requestOptions),
+      { limit, pageSize }
+    );
+  }
+
+  /**
+   * Retrieves a page of messages in the Instagram conversation, from the latest to the earliest.
+   *
+   * @param conversationId - ID of the conversation.
+   * @param options - Optional parameters, same as `MessengerClient#getConversationMessages`.
+   * @param requestOptions - Optional `signal` to abort the request and `timeout` to override the timeout of the client.
+   * @returns Messages in pagination result
+   */
+  getConversationMessages(
+    conversationId: string,
+    {
+      fields = ['id', 'created_time', 'from', 'to', 'message'],
+      ...paging
+    }: MessengerTypes.ConversationMessagesOptions = {},
+    requestOptions: RequestOptions = {}
+  ): Promise<MessengerTypes.PagingResult<MessengerTypes.ConversationMessage>> {
+    return this.get<
+      MessengerTypes.PagingResult<MessengerTypes.ConversationMessage>
+    >(`/${conversationId}/messages`, { fields, ...paging }, requestOptions);
+  }
+
+  /**
+   * Iterates messages in the Instagram conversation through all pages, from the latest to the earliest.
+   *
+   * @param conversationId - ID of the conversation.
+   * @param options - Optional parameters, same as `getConversationMessages` except the cursors, with `limit` of the total messages and `pageSize` of each page.
+   * @param requestOptions - Optional `signal` to stop fetching the remaining pages and `timeout` of each page.
+   * @returns The async iterator of messages
+   */
+  iterateConversationMessages(
+    conversationId: string,
+    {
+      limit,
+      pageSize,
+      ...options
+    }: Omit<
+      MessengerTypes.ConversationMessagesOptions,
+      'before' | 'after' | 'limit'
+    > &
+      MessengerTypes.PaginateOptions = {},
+    requestOptions: RequestOptions = {}
+  ): AsyncIterableIterator<MessengerTypes.ConversationMessage> {
+    return paginate(
+      (cursor) =>
+        this.getConversationMessages(
+          conversationId,
+          { ...options, ...cursor },
+          requestOptions
+        ),
+      { limit, pageSize }
+    );
+  }
+}
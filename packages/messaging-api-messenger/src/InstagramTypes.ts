@@ -0,0 +1,358 @@
+import * as MessengerTypes from './MessengerTypes';
+
+export type ClientConfig = MessengerTypes.ClientConfig;
+
+/**
+ * Instagram-scoped ID (IGSID) of the message recipient.
+ */
+export type RecipientWithID = {
+  id: string;
+};
+
+/**
+ * Used for Private Replies to reference the comment on a post or a reel to reply to.
+ */
+export type RecipientWithCommentId = {
+  commentId: string;
+};
+
+export type Recipient = RecipientWithID | RecipientWithCommentId;
+
+/**
+ * Description of the message recipient. If a string is provided, it will be recognized as an IGSID.
+ */
+export type IgsidOrRecipient = string | Recipient;
+
+export type MediaAttachmentType = 'audio' | 'video' | 'image';
+
+export type MediaAttachment = {
+  type: MediaAttachmentType;
+  payload: MessengerTypes.MediaAttachmentPayload;
+};
+
+/**
+ * Shares a post published by the Instagram account.
+ */
+export type MediaShareAttachment = {
+  type: 'MEDIA_SHARE';
+  payload: {
+    /** ID of the post. */
+    id: string;
+  };
+};
+
+/**
+ * The heart sticker.
+ */
+export type LikeHeartAttachment = {
+  type: 'like_heart';
+};
+
+export type GenericTemplateAttachment = {
+  type: 'template';
+  payload: {
+    templateType: 'generic';
+    elements: MessengerTypes.TemplateElement[];
+  };
+};
+
+export type ProductTemplateAttachment = {
+  type: 'template';
+  payload: {
+    templateType: 'product';
+    elements: { id: string }[];
+  };
+};
+
+export type Attachment =
+  | MediaAttachment
+  | MediaShareAttachment
+  | LikeHeartAttachment
+  | GenericTemplateAttachment
+  | ProductTemplateAttachment;
+
+/**
+ * Instagram only supports text quick replies.
+ */
+export type QuickReply = MessengerTypes.TextQuickReply;
+
+export type TextMessage = {
+  text: string;
+  quickReplies?: QuickReply[];
+};
+
+export type AttachmentMessage = {
+  attachment: Attachment;
+  quickReplies?: QuickReply[];
+};
+
+export type Message = TextMessage | AttachmentMessage;
+
+export type MessagingType = 'RESPONSE' | 'UPDATE' | 'MESSAGE_TAG';
+
+/**
+ * Instagram only supports the `HUMAN_AGENT` tag.
+ */
+export type MessageTag = 'HUMAN_AGENT';
+
+export type SendOption = {
+  messagingType?: MessagingType;
+  tag?: MessageTag;
+  quickReplies?: QuickReply[];
+};
+
+export type SenderAction =
+  | 'mark_seen'
+  | 'typing_on'
+  | 'typing_off'
+  | 'react'
+  | 'unreact';
+
+/**
+ * The reaction to a message. Only `love` is supported by Instagram.
+ */
+export type MessageReaction = 'love';
+
+export type UserProfileField =
+  | 'id'
+  | 'name'
+  | 'username'
+  | 'profile_pic'
+  | 'follower_count'
+  | 'is_user_follow_business'
+  | 'is_business_follow_user'
+  | 'is_verified_user';
+
+/**
+ * Fields are only included when they are requested and the user allows them to be shared.
+ */
+export type User = {
+  id?: string;
+  name?: string;
+  username?: string;
+  profilePic?: string;
+  followerCount?: number;
+  isUserFollowBusiness?: boolean;
+  isBusinessFollowUser?: boolean;
+  isVerifiedUser?: boolean;
+};
+
+export type InstagramProfileField = 'persistent_menu' | 'ice_breakers';
+
+export type InstagramProfile = {
+  persistentMenu?: MessengerTypes.PersistentMenu;
+  iceBreakers?: MessengerTypes.IceBreaker[];
+};
+
+export type ConversationsOptions = Omit<
+  MessengerTypes.ConversationsOptions,
+  'platform'
+>;
+
+export type InstagramEventBase = {
+  sender: {
+    /** The IGSID of the user, or the Instagram account ID for echoes. */
+    id: string;
+  };
+  recipient: {
+    /** The Instagram account ID, or the IGSID of the user for echoes. */
+    id: string;
+  };
+
+  /** Time of the event in milliseconds. */
+  timestamp: number;
+};
+
+export type MediaEventAttachment = {
+  type: 'audio' | 'file' | 'image' | 'video';
+  payload: {
+    url: string;
+  };
+};
+
+/**
+ * Sent when the user shares a post or a reel.
+ */
+export type ShareEventAttachment = {
+  type: 'share' | 'ig_reel' | 'reel';
+  payload: {
+    url: string;
+
+    /** Only included when a reel is shared. */
+    title?: string;
+    reelVideoId?: string;
+  };
+};
+
+/**
+ * Sent when the user mentions the Instagram account in their story.
+ */
+export type StoryMentionEventAttachment = {
+  type: 'story_mention';
+  payload: {
+    /** URL of the story, which expires in 24 hours. */
+    url: string;
+  };
+};
+
+export type EventAttachment =
+  | MediaEventAttachment
+  | ShareEventAttachment
+  | StoryMentionEventAttachment;
+
+export type EventMessage = {
+  mid: string;
+  text?: string;
+  attachments?: EventAttachment[];
+
+  /** Only included when the message is sent by tapping a quick reply. */
+  quickReply?: {
+    payload: string;
+  };
+
+  /** Only included when the message is a reply to a previous message or a story. */
+  replyTo?:
+    | {
+        mid: string;
+      }
+    | {
+        story: {
+          /** URL of the story, which expires in 24 hours. */
+          url: string;
+          id: string;
+        };
+      };
+
+  /** Only included when the message has been deleted by the user. */
+  isDeleted?: true;
+
+  /** Only included when the message type is not supported by the API. */
+  isUnsupported?: true;
+};
+
+export type MessageEvent = InstagramEventBase & {
+  message: EventMessage;
+};
+
+/**
+ * A message sent by the Instagram account.
+ */
+export type EchoEvent = InstagramEventBase & {
+  message: EventMessage & {
+    isEcho: true;
+  };
+};
+
+/**
+ * Subscribed with `messaging_seen`.
+ */
+export type ReadEvent = InstagramEventBase & {
+  read: {
+    /** ID of the last message seen by the user. */
+    mid: string;
+  };
+};
+
+/**
+ * Sent by tapping an ice breaker, a persistent menu item or a button of a generic template.
+ */
+export type PostbackEvent = InstagramEventBase & {
+  postback: {
+    mid: string;
+    title: string;
+    payload: string;
+  };
+};
+
+/**
+ * Sent when the user opens the conversation with an ig.me link with `ref`.
+ */
+export type ReferralEvent = InstagramEventBase & {
+  referral: {
+    ref: string;
+    source: 'IGME' | 'ADS';
+    type: 'OPEN_THREAD';
+  };
+};
+
+export type ReactionEvent = InstagramEventBase & {
+  reaction: {
+    /** ID of the message reacted to. */
+    mid: string;
+    action: 'react' | 'unreact';
+
+    /** Not included when the action is `unreact`. */
+    reaction?: MessageReaction;
+
+    /** Not included when the action is `unreact`. */
+    emoji?: string;
+  };
+};
+
+/**
+ * Events not covered by other types.
+ */
+export type UnknownEvent = InstagramEventBase & Record<string, any>;
+
+/**
+ * Events by the `type` assigned by `InstagramWebhook.parseWebhookBody`.
+ */
+export type InstagramEventMap = {
+  message: MessageEvent;
+  echo: EchoEvent;
+  read: ReadEvent;
+  postback: PostbackEvent;
+  referral: ReferralEvent;
+  reaction: ReactionEvent;
+  unknown: UnknownEvent;
+};
+
+export type InstagramEventType = keyof InstagramEventMap;
+
+export type InstagramEvent = InstagramEventMap[InstagramEventType];
+
+export type InstagramWebhookEntry = {
+  /** The Instagram account ID. */
+  id: string;
+  time: number;
+  messaging?: InstagramEvent[];
+  standby?: InstagramEvent[];
+};
+
+/**
+ * The request body of a webhook request sent from Facebook for Instagram.
+ */
+export type InstagramWebhookBody = {
+  object: 'instagram';
+  entry: InstagramWebhookEntry[];
+};
+
+/**
+ * Helpers attached to every event returned from `InstagramWebhook.parseWebhookBody`.
+ */
+export type InstagramEventHelpers<T extends InstagramEventType> = {
+  type: T;
+
+  /** ID of the Instagram account which receives the event. */
+  pageId: string;
+
+  /** Whether the event comes from `standby`, i.e. the app is not the thread owner and shouldn't respond to it. */
+  isStandby: boolean;
+};
+
+export type ParsedInstagramEvent<
+  T extends InstagramEventType = InstagramEventType
+> = {
+  [K in T]: InstagramEventMap[K] & InstagramEventHelpers<K>;
+}[T];
+
+export type InstagramEventHandler<
+  T extends InstagramEventType = InstagramEventType
+> = (event: ParsedInstagramEvent<T>) => void | Promise<void>;
+
+export type InstagramEventHandlers = {
+  [K in InstagramEventType]?: InstagramEventHandler<K>;
+} & {
+  /** Called with events without their own handlers. */
+  default?: InstagramEventHandler;
+};
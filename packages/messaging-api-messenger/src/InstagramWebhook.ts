@@ -0,0 +1,160 @@
+import invariant from 'ts-invariant';
+import {
+  WebhookMiddleware,
+  WebhookMiddlewareOptions,
+  WebhookPlatform,
+  createWebhookMiddleware as createPlatformWebhookMiddleware,
+} from 'messaging-api-common';
+
+import InstagramClient from './InstagramClient';
+import MessengerWebhook from './MessengerWebhook';
+import * as InstagramTypes from './InstagramTypes';
+import * as MessengerTypes from './MessengerTypes';
+
+// Instagram webhook requests share the structure of Messenger ones, with the Instagram account ID as the entry ID
+
+/**
+ * Parses the body of a webhook request sent from Facebook for Instagram, and flattens `entry[].messaging[]` and `entry[].standby[]` into a list of typed events.
+ *
+ * @param body - The raw request body, or the body which has already been parsed as JSON.
+ * @returns The camelcased events with helpers.
+ *
+ * @example
+ *
+ * ```js
+ * InstagramWebhook.parseWebhookBody(rawBody);
+ * // [
+ * //   {
+ * //     type: 'message',
+ * //     pageId: '17841405309211844',
+ * //     isStandby: false,
+ * //     sender: { id: '1414121032205632' },
+ * //     recipient: { id: '17841405309211844' },
+ * //     timestamp: 1603059201000,
+ * //     message: {
+ * //       mid: 'aWdfZAG1faXRlbToxOklHTWVzc2FnZAUlEOjE3ODQxNDAz',
+ * //       attachments: [{ type: 'story_mention', payload: { url: 'https://lookaside.fbsbx.com/...' } }],
+ * //     },
+ * //   },
+ * // ]
+ * ```
+ */
+function parseWebhookBody(
+  body: string | Buffer | InstagramTypes.InstagramWebhookBody
+): InstagramTypes.ParsedInstagramEvent[] {
+  return (MessengerWebhook.parseWebhookBody(
+    body as string | Buffer | MessengerTypes.MessengerWebhookBody
+  ) as unknown) as InstagramTypes.ParsedInstagramEvent[];
+}
+
+/**
+ * Creates a function which dispatches Instagram events to the handlers by their types. It works the same as `MessengerWebhook.createEventDispatcher`.
+ *
+ * @param handlers - The handlers by event types, with `default` for other events and `standby` for events from `standby`
+ * @returns The dispatch function
+ *
+ * @example
+ *
+ * ```js
+ * const dispatch = InstagramWebhook.createEventDispatcher({
+ *   message: async (event) => {
+ *     const storyMention = (event.message.attachments || []).find(
+ *       (attachment) => attachment.type === 'story_mention'
+ *     );
+ *
+ *     if (storyMention) {
+ *       await client.sendText(event.sender.id, 'Thanks for the mention!');
+ *     }
+ *   },
+ *   postback: async (event) => {
+ *     // an ice breaker or a persistent menu item is tapped
+ *   },
+ * });
+ *
+ * await dispatch(InstagramWebhook.parseWebhookBody(rawBody));
+ * ```
+ */
+function createEventDispatcher(
+  handlers: InstagramTypes.InstagramEventHandlers & {
+    standby?: InstagramTypes.InstagramEventHandlers;
+  }
+): (events: InstagramTypes.ParsedInstagramEvent[]) => Promise<void> {
+  return MessengerWebhook.createEventDispatcher(
+    handlers as MessengerTypes.MessengerEventHandlers
+  ) as (events: InstagramTypes.ParsedInstagramEvent[]) => Promise<void>;
+}
+
+/**
+ * Creates a webhook platform adapter for Instagram, which answers the `hub.challenge` handshake, verifies the `X-Hub-Signature-256` header and parses events.
+ *
+ * @param client - The client with `appSecret`
+ * @param verifyToken - The verify token set in the webhook settings of the app
+ * @returns The platform adapter
+ */
+function createWebhookPlatform(
+  client: InstagramClient,
+  verifyToken: string
+): WebhookPlatform<InstagramTypes.ParsedInstagramEvent> {
+  invariant(
+    client.appSecret,
+    'InstagramWebhook: `appSecret` is required to verify webhook requests.'
+  );
+
+  return {
+    ...((MessengerWebhook.createWebhookPlatform(
+      client,
+      verifyToken
+    ) as unknown) as WebhookPlatform<InstagramTypes.ParsedInstagramEvent>),
+    platform: 'instagram',
+  };
+}
+
+/**
+ * Creates a webhook middleware for Express, Koa or Node.js http server, which handles Instagram webhook requests in the same way as `MessengerWebhook.createWebhookMiddleware`.
+ *
+ * @param options - The options of the middleware
+ * @param options.client - The client with `appSecret`
+ * @param options.verifyToken - The verify token set in the webhook settings of the app
+ * @param options.onEvents - The callback to be called with parsed events
+ * @param options.onError - The callback to be called when any error occurs
+ * @returns The middleware function
+ *
+ * @example
+ *
+ * ```js
+ * app.use(
+ *   '/webhooks/instagram',
+ *   InstagramWebhook.createWebhookMiddleware({
+ *     client,
+ *     verifyToken: VERIFY_TOKEN,
+ *     onEvents: async (events) => {
+ *       // handle events
+ *     },
+ *   })
+ * );
+ * ```
+ */
+function createWebhookMiddleware({
+  client,
+  verifyToken,
+  ...options
+}: {
+  client: InstagramClient;
+  verifyToken: string;
+} & WebhookMiddlewareOptions<
+  InstagramTypes.ParsedInstagramEvent
+>): WebhookMiddleware {
+  return createPlatformWebhookMiddleware(
+    createWebhookPlatform(client, verifyToken),
+    options
+  );
+}
+
+const InstagramWebhook = {
+  parseWebhookBody,
+  createEventDispatcher,
+  createWebhookPlatform,
+  createWebhookMiddleware,
+};
+
+export default InstagramWebhook;
@@ -0,0 +1,34 @@
+import * as MessengerTypes from './MessengerTypes';
+
+/**
+ * An in-memory store of notification tokens. Tokens are lost when the process exits, so use a persistent store in production.
+ */
+export default class MemoryNotificationTokenStore
+  implements MessengerTypes.NotificationTokenStore {
+  private tokens = new Map<string, MessengerTypes.NotificationToken>();
+
+  get(key: string): MessengerTypes.NotificationToken | undefined {
+    return this.tokens.get(key);
+  }
+
+  set(key: string, token: MessengerTypes.NotificationToken): void {
+    this.tokens.set(key, token);
+  }
+
+  delete(key: string): void {
+    this.tokens.delete(key);
+  }
+
+  take(key: string): MessengerTypes.NotificationToken | undefined {
+    const token = this.tokens.get(key);
+    this.tokens.delete(key);
+    return token;
+  }
+
+  /**
+   * Removes all tokens.
+   */
+  clear(): void {
+    this.tokens.clear();
+  }
+}
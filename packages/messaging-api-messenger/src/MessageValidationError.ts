@@ -0,0 +1,30 @@
+import * as MessengerTypes from './MessengerTypes';
+
+export default class MessageValidationError extends Error {
+  /**
+   * All the invalid values found in the message, with their paths.
+   */
+  readonly issues: MessengerTypes.MessageValidationIssue[];
+
+  /**
+   * @example
+   * ```js
+   * new MessageValidationError([
+   *   {
+   *     path: 'message.attachment.payload.buttons',
+   *     message: 'must have at most 3 items, got 4',
+   *   },
+   * ])
+   * ```
+   */
+  constructor(issues: MessengerTypes.MessageValidationIssue[]) {
+    super(
+      `Message Validation Error - ${issues
+        .map(({ path, message }) => `${path} ${message}`)
+        .join('; ')}`
+    );
+
+    this.issues = issues;
+    this.name = 'MessageValidationError';
+  }
+}
@@ -2,6 +2,7 @@ import FormData from 'form-data';
 import omit from 'lodash/omit';
 import { camelcaseKeysDeep, snakecaseKeysDeep } from 'messaging-api-common';
 
+import MessengerValidation from './MessengerValidation';
 import * as MessengerTypes from './MessengerTypes';
 
 function createMessage(
@@ -360,6 +361,19 @@ function createOneTimeNotifReqTemplate(
   );
 }
 
+function createRecurringNotifReqTemplate(
+  attrs: MessengerTypes.RecurringNotifReqAttributes,
+  options?: { quickReplies?: MessengerTypes.QuickReply[] }
+): MessengerTypes.Message {
+  return createTemplate(
+    {
+      templateType: 'notification_messages',
+      ...attrs,
+    },
+    options
+  );
+}
+
 const Messenger = {
   createMessage,
   createText,
@@ -382,6 +396,8 @@ const Messenger = {
   createAirlineItineraryTemplate,
   createAirlineUpdateTemplate,
   createOneTimeNotifReqTemplate,
+  createRecurringNotifReqTemplate,
+  validateMessage: MessengerValidation.validateMessage,
 };
 
 export default Messenger;
@@ -1,6 +1,7 @@
 import omit from 'lodash/omit';
 import pick from 'lodash/pick';
 
+import FacebookBatch from './FacebookBatch';
 import Messenger from './Messenger';
 import * as MessengerTypes from './MessengerTypes';
 
@@ -8,6 +9,16 @@ function omitUndefinedFields(obj = {}): object {
   return JSON.parse(JSON.stringify(obj));
 }
 
+// avoid depending on `fs` here, since this module is also bundled for browsers
+function isFileData(value: unknown): value is MessengerTypes.FileData {
+  return (
+    (typeof Buffer !== 'undefined' && Buffer.isBuffer(value)) ||
+    (typeof value === 'object' &&
+      value !== null &&
+      typeof (value as { pipe?: unknown }).pipe === 'function')
+  );
+}
+
 function pickBatchOptions<T extends MessengerTypes.BatchRequestOptions>(
   options: T
 ): Pick<T, 'name' | 'dependsOn' | 'omitResponseOnSuccess'> {
@@ -63,6 +74,33 @@ function sendMessage(
   );
 }
 
+function sendMessageFileData(
+  psidOrRecipient: MessengerTypes.PsidOrRecipient,
+  type: MessengerTypes.MediaAttachmentType,
+  filedata: MessengerTypes.FileData,
+  {
+    filename,
+    isReusable,
+    ...options
+  }: MessengerTypes.SendOption &
+    MessengerTypes.UploadOption &
+    MessengerTypes.BatchRequestOptions = {}
+): MessengerTypes.BatchItem {
+  const attachment: MessengerTypes.FileDataMediaAttachment = {
+    type,
+    payload: { isReusable },
+  };
+
+  return {
+    ...sendMessage(
+      psidOrRecipient,
+      { attachment } as MessengerTypes.AttachmentMessage,
+      options
+    ),
+    attachedFiles: [{ data: filedata, filename }],
+  };
+}
+
 function sendText(
   psidOrRecipient: MessengerTypes.PsidOrRecipient,
   text: string,
@@ -89,9 +127,18 @@ function sendAttachment(
 
 function sendAudio(
   psidOrRecipient: MessengerTypes.PsidOrRecipient,
-  audio: string | MessengerTypes.MediaAttachmentPayload,
-  options?: MessengerTypes.SendOption & MessengerTypes.BatchRequestOptions
+  audio:
+    | string
+    | MessengerTypes.FileData
+    | MessengerTypes.MediaAttachmentPayload,
+  options?: MessengerTypes.SendOption &
+    MessengerTypes.UploadOption &
+    MessengerTypes.BatchRequestOptions
 ): MessengerTypes.BatchItem {
+  if (isFileData(audio)) {
+    return sendMessageFileData(psidOrRecipient, 'audio', audio, options);
+  }
+
   return sendMessage(
     psidOrRecipient,
     Messenger.createAudio(audio, options),
@@ -101,9 +148,18 @@ function sendAudio(
 
 function sendImage(
   psidOrRecipient: MessengerTypes.PsidOrRecipient,
-  image: string | MessengerTypes.MediaAttachmentPayload,
-  options?: MessengerTypes.SendOption & MessengerTypes.BatchRequestOptions
+  image:
+    | string
+    | MessengerTypes.FileData
+    | MessengerTypes.MediaAttachmentPayload,
+  options?: MessengerTypes.SendOption &
+    MessengerTypes.UploadOption &
+    MessengerTypes.BatchRequestOptions
 ): MessengerTypes.BatchItem {
+  if (isFileData(image)) {
+    return sendMessageFileData(psidOrRecipient, 'image', image, options);
+  }
+
   return sendMessage(
     psidOrRecipient,
     Messenger.createImage(image, options),
@@ -113,9 +169,18 @@ function sendImage(
 
 function sendVideo(
   psidOrRecipient: MessengerTypes.PsidOrRecipient,
-  video: string | MessengerTypes.MediaAttachmentPayload,
-  options?: MessengerTypes.SendOption & MessengerTypes.BatchRequestOptions
+  video:
+    | string
+    | MessengerTypes.FileData
+    | MessengerTypes.MediaAttachmentPayload,
+  options?: MessengerTypes.SendOption &
+    MessengerTypes.UploadOption &
+    MessengerTypes.BatchRequestOptions
 ): MessengerTypes.BatchItem {
+  if (isFileData(video)) {
+    return sendMessageFileData(psidOrRecipient, 'video', video, options);
+  }
+
   return sendMessage(
     psidOrRecipient,
     Messenger.createVideo(video, options),
@@ -125,9 +190,18 @@ function sendVideo(
 
 function sendFile(
   psidOrRecipient: MessengerTypes.PsidOrRecipient,
-  file: string | MessengerTypes.MediaAttachmentPayload,
-  options?: MessengerTypes.SendOption & MessengerTypes.BatchRequestOptions
+  file:
+    | string
+    | MessengerTypes.FileData
+    | MessengerTypes.MediaAttachmentPayload,
+  options?: MessengerTypes.SendOption &
+    MessengerTypes.UploadOption &
+    MessengerTypes.BatchRequestOptions
 ): MessengerTypes.BatchItem {
+  if (isFileData(file)) {
+    return sendMessageFileData(psidOrRecipient, 'file', file, options);
+  }
+
   return sendMessage(
     psidOrRecipient,
     Messenger.createFile(file, options),
@@ -265,6 +339,30 @@ function sendOneTimeNotifReqTemplate(
   );
 }
 
+function sendRecurringNotifReqTemplate(
+  psidOrRecipient: MessengerTypes.PsidOrRecipient,
+  attrs: MessengerTypes.RecurringNotifReqAttributes,
+  options?: MessengerTypes.SendOption & MessengerTypes.BatchRequestOptions
+): MessengerTypes.BatchItem {
+  return sendMessage(
+    psidOrRecipient,
+    Messenger.createRecurringNotifReqTemplate(attrs, options),
+    options
+  );
+}
+
+function sendPrivateReply(
+  recipient: MessengerTypes.PrivateReplyRecipient,
+  msg: MessengerTypes.Message,
+  options: Omit<MessengerTypes.SendOption, 'tag'> &
+    MessengerTypes.BatchRequestOptions = {}
+): MessengerTypes.BatchItem {
+  return sendMessage(recipient, msg, {
+    messagingType: 'RESPONSE',
+    ...options,
+  });
+}
+
 function getUserProfile(
   userId: string,
   options: {
@@ -420,6 +518,112 @@ function markSeen(
   return sendSenderAction(idOrRecipient, 'mark_seen', options);
 }
 
+function sendReaction(
+  psidOrRecipient: MessengerTypes.PsidOrRecipient,
+  messageId: string,
+  reaction: MessengerTypes.MessageReaction = 'love',
+  options: MessengerTypes.SenderActionOption &
+    MessengerTypes.BatchRequestOptions = {}
+): MessengerTypes.BatchItem {
+  const recipient =
+    typeof psidOrRecipient === 'string'
+      ? {
+          id: psidOrRecipient,
+        }
+      : psidOrRecipient;
+
+  const batchRequestOptions = pickBatchOptions(options);
+
+  return sendRequest(
+    {
+      recipient,
+      senderAction: 'react',
+      payload: {
+        messageId,
+        reaction,
+      },
+      ...omitUndefinedFields(omitBatchOptions(options)),
+    },
+    batchRequestOptions
+  );
+}
+
+function removeReaction(
+  psidOrRecipient: MessengerTypes.PsidOrRecipient,
+  messageId: string,
+  options: MessengerTypes.SenderActionOption &
+    MessengerTypes.BatchRequestOptions = {}
+): MessengerTypes.BatchItem {
+  const recipient =
+    typeof psidOrRecipient === 'string'
+      ? {
+          id: psidOrRecipient,
+        }
+      : psidOrRecipient;
+
+  const batchRequestOptions = pickBatchOptions(options);
+
+  return sendRequest(
+    {
+      recipient,
+      senderAction: 'unreact',
+      payload: {
+        messageId,
+      },
+      ...omitUndefinedFields(omitBatchOptions(options)),
+    },
+    batchRequestOptions
+  );
+}
+
+function uploadAttachment(
+  type: MessengerTypes.MediaAttachmentType,
+  attachment: string | MessengerTypes.FileData,
+  {
+    filename,
+    isReusable = false,
+    ...options
+  }: MessengerTypes.UploadOption & MessengerTypes.BatchRequestOptions = {}
+): MessengerTypes.BatchItem {
+  const batchRequestOptions = pickBatchOptions(options);
+
+  if (typeof attachment === 'string') {
+    return {
+      method: 'POST',
+      relativeUrl: 'me/message_attachments',
+      body: {
+        message: {
+          attachment: {
+            type,
+            payload: {
+              url: attachment,
+              isReusable,
+            },
+          },
+        },
+      },
+      ...batchRequestOptions,
+    };
+  }
+
+  return {
+    method: 'POST',
+    relativeUrl: 'me/message_attachments',
+    body: {
+      message: {
+        attachment: {
+          type,
+          payload: {
+            isReusable,
+          },
+        },
+      },
+    },
+    attachedFiles: [{ data: attachment, filename }],
+    ...batchRequestOptions,
+  };
+}
+
 function passThreadControl(
   recipientId: string,
   targetAppId: number,
@@ -573,6 +777,8 @@ const MessengerBatch = {
   sendAirlineItineraryTemplate,
   sendAirlineUpdateTemplate,
   sendOneTimeNotifReqTemplate,
+  sendRecurringNotifReqTemplate,
+  sendPrivateReply,
 
   getUserProfile,
   getUserPersistentMenu,
@@ -583,6 +789,10 @@ const MessengerBatch = {
   typingOn,
   typingOff,
   markSeen,
+  sendReaction,
+  removeReaction,
+
+  uploadAttachment,
 
   passThreadControl,
   passThreadControlToPageInbox,
@@ -593,6 +803,10 @@ const MessengerBatch = {
   associateLabel,
   dissociateLabel,
   getAssociatedLabels,
+
+  createReference: FacebookBatch.createReference,
+  getDependencies: FacebookBatch.getDependencies,
+  validateBatch: FacebookBatch.validateBatch,
 };
 
 export default MessengerBatch;
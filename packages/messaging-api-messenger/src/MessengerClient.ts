@@ -1,37 +1,34 @@
 import crypto from 'crypto';
 import fs from 'fs';
 import querystring from 'querystring';
-import url from 'url';
 
 import AxiosError from 'axios-error';
 import FormData from 'form-data';
-import appendQuery from 'append-query';
-import axios, {
-  AxiosInstance,
-  AxiosTransformer,
-  AxiosError as BaseAxiosError,
-} from 'axios';
 import get from 'lodash/get';
-import invariant from 'ts-invariant';
-import isPlainObject from 'lodash/isPlainObject';
+import isEqual from 'lodash/isEqual';
 import omit from 'lodash/omit';
 import warning from 'warning';
+import { AxiosError as BaseAxiosError } from 'axios';
 import {
-  OnRequestFunction,
-  camelcaseKeysDeep,
-  createRequestInterceptor,
+  RateLimitPolicy,
+  RequestOptions,
+  createRequestConfig,
   snakecaseKeysDeep,
 } from 'messaging-api-common';
 
+import FacebookClient from './FacebookClient';
 import Messenger from './Messenger';
+import MessengerValidation from './MessengerValidation';
+import paginate from './paginate';
+import * as FacebookTypes from './FacebookTypes';
 import * as MessengerTypes from './MessengerTypes';
 
-function extractVersion(version: string): string {
-  if (version.startsWith('v')) {
-    return version.slice(1);
-  }
-  return version;
-}
+const rateLimitPolicy: RateLimitPolicy = {
+  getRecipient: (config) =>
+    config.data && config.data.recipient && config.data.recipient.id
+      ? config.data.recipient.id
+      : undefined,
+};
 
 function handleError(
   err: BaseAxiosError<{
@@ -52,7 +49,38 @@ function handleError(
   throw new AxiosError(err.message, err);
 }
 
-export default class MessengerClient {
+const MESSENGER_PROFILE_PROPERTIES: Record<
+  MessengerTypes.MessengerProfileField,
+  keyof MessengerTypes.DesiredMessengerProfile
+> = {
+  get_started: 'getStarted',
+  persistent_menu: 'persistentMenu',
+  greeting: 'greeting',
+  ice_breakers: 'iceBreakers',
+  whitelisted_domains: 'whitelistedDomains',
+  account_linking_url: 'accountLinkingUrl',
+};
+
+// the values returned by the Graph API are normalized before comparing, so they aren't reported as changed because of defaults or ordering
+function normalizeMessengerProfileValue(
+  property: keyof MessengerTypes.DesiredMessengerProfile,
+  value: MessengerTypes.MessengerProfileValue
+): unknown {
+  if (property === 'persistentMenu' && Array.isArray(value)) {
+    return (value as Partial<MessengerTypes.PersistentMenuItem>[]).map(
+      (item) => ({
+        composerInputDisabled: false,
+        ...item,
+      })
+    );
+  }
+  if (property === 'whitelistedDomains' && Array.isArray(value)) {
+    return [...(value as string[])].sort();
+  }
+  return value;
+}
+
+export default class MessengerClient extends FacebookClient {
   /**
    * @deprecated Use `new MessengerClient(...)` instead.
    */
@@ -65,393 +93,24 @@ export default class MessengerClient {
   }
 
   /**
-   * The underlying axios instance.
-   */
-  readonly axios: AxiosInstance;
-
-  /**
-   * The version of the Facebook Graph API.
-   */
-  readonly version: string;
-
-  /**
-   * The access token used by the client.
+   * Whether messages are validated before sending.
    */
-  readonly accessToken: string;
-
-  /**
-   * The app secret used by the client.
-   */
-  readonly appSecret?: string;
-
-  /**
-   * The app ID used by the client.
-   */
-  readonly appId?: string;
-
-  /**
-   * The callback to be called when receiving requests.
-   */
-  private onRequest?: OnRequestFunction;
+  readonly validateMessages: boolean;
 
   constructor(config: MessengerTypes.ClientConfig) {
-    invariant(
-      typeof config !== 'string',
-      `MessengerClient: do not allow constructing client with ${config} string. Use object instead.`
-    );
+    super(config);
 
-    this.accessToken = config.accessToken;
-    invariant(
-      !config.version || typeof config.version === 'string',
-      'Type of `version` must be string.'
-    );
-
-    this.appId = config.appId;
-    this.appSecret = config.appSecret;
-    this.version = extractVersion(config.version || '6.0');
-    this.onRequest = config.onRequest;
-    const { origin } = config;
-
-    let skipAppSecretProof;
-    if (typeof config.skipAppSecretProof === 'boolean') {
-      skipAppSecretProof = config.skipAppSecretProof;
-    } else {
-      skipAppSecretProof = this.appSecret == null;
-    }
-
-    this.axios = axios.create({
-      baseURL: `${origin || 'https://graph.facebook.com'}/v${this.version}/`,
-      headers: { 'Content-Type': 'application/json' },
-      transformRequest: [
-        // axios use any as type of the data in AxiosTransformer
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        (data: any): any =>
-          data && isPlainObject(data) ? snakecaseKeysDeep(data) : data,
-        ...(axios.defaults.transformRequest as AxiosTransformer[]),
-      ],
-
-      // `transformResponse` allows changes to the response data to be made before
-      // it is passed to then/catch
-      transformResponse: [
-        ...(axios.defaults.transformResponse as AxiosTransformer[]),
-        // axios use any as type of the data in AxiosTransformer
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        (data: any): any =>
-          data && isPlainObject(data) ? camelcaseKeysDeep(data) : data,
-      ],
-    });
-
-    this.axios.interceptors.request.use(
-      createRequestInterceptor({ onRequest: this.onRequest })
-    );
-
-    // add appsecret_proof to request
-    if (!skipAppSecretProof) {
-      invariant(
-        this.appSecret,
-        'Must provide appSecret when skipAppSecretProof is false'
-      );
-
-      const appSecret = this.appSecret as string;
-
-      this.axios.interceptors.request.use((requestConfig) => {
-        const isBatch =
-          requestConfig.url === '/' && Array.isArray(requestConfig.data.batch);
-
-        if (isBatch) {
-          // eslint-disable-next-line no-param-reassign
-          requestConfig.data.batch = requestConfig.data.batch.map(
-            (item: any) => {
-              const urlParts = url.parse(item.relativeUrl, true);
-              let accessToken = get(urlParts, 'query.access_token');
-              if (!accessToken && item.body) {
-                const entries = decodeURIComponent(item.body)
-                  .split('&')
-                  .map((pair) => pair.split('='));
-
-                const accessTokenEntry = entries.find(
-                  ([key]) => key === 'access_token'
-                );
-                if (accessTokenEntry) {
-                  accessToken = accessTokenEntry[1];
-                }
-              }
-
-              if (accessToken) {
-                const appSecretProof = crypto
-                  .createHmac('sha256', appSecret)
-                  .update(accessToken, 'utf8')
-                  .digest('hex');
-                return {
-                  ...item,
-                  relativeUrl: appendQuery(item.relativeUrl, {
-                    appsecret_proof: appSecretProof,
-                  }),
-                };
-              }
-
-              return item;
-            }
-          );
-        }
-
-        const urlParts = url.parse(requestConfig.url || '', true);
-        const accessToken = get(
-          urlParts,
-          'query.access_token',
-          this.accessToken
-        );
-
-        const appSecretProof = crypto
-          .createHmac('sha256', appSecret)
-          .update(accessToken, 'utf8')
-          .digest('hex');
-
-        // eslint-disable-next-line no-param-reassign
-        requestConfig.url = appendQuery(requestConfig.url || '', {
-          appsecret_proof: appSecretProof,
-        });
-
-        return requestConfig;
-      });
-    }
-  }
-
-  /**
-   * Gets page info using Graph API.
-   *
-   * @returns Page info
-   *
-   * @see https://developers.facebook.com/docs/graph-api/reference/page/
-   *
-   * @example
-   *
-   * ```js
-   * await client.getPageInfo();
-   * // {
-   * //   name: 'Bot Demo',
-   * //   id: '1895382890692546',
-   * // }
-   * ```
-   */
-  getPageInfo({ fields }: { fields?: string[] } = {}): Promise<
-    MessengerTypes.PageInfo
-  > {
-    return this.axios
-      .get('/me', {
-        params: {
-          access_token: this.accessToken,
-          fields: fields ? fields.join(',') : undefined,
-        },
-      })
-      .then((res) => res.data, handleError);
+    this.validateMessages = Boolean(config.validateMessages);
   }
 
-  /**
-   * Gets token information.
-   *
-   * @returns Token information
-   *
-   * @see https://developers.facebook.com/docs/facebook-login/access-tokens/debugging-and-error-handling
-   *
-   * @example
-   *
-   * ```js
-   * await client.debugToken();
-   * // {
-   * //   appId: '000000000000000',
-   * //   application: 'Social Cafe',
-   * //   expiresAt: 1352419328,
-   * //   isValid: true,
-   * //   issuedAt: 1347235328,
-   * //   scopes: ['email', 'user_location'],
-   * //   userId: 1207059,
-   * // }
-   * ```
-   */
-  debugToken(): Promise<MessengerTypes.TokenInfo> {
-    invariant(this.appId, 'App ID is required to debug token');
-    invariant(this.appSecret, 'App Secret is required to debug token');
-
-    const accessToken = `${this.appId}|${this.appSecret}`;
+  protected handleError = handleError;
 
-    return this.axios
-      .get(`/debug_token`, {
-        params: {
-          input_token: this.accessToken,
-          access_token: accessToken,
-        },
-      })
-      .then((res) => res.data.data, handleError);
+  protected getRateLimitPlatform(): string {
+    return 'messenger';
   }
 
-  /**
-   * Create new Webhooks subscriptions.
-   *
-   * @param subscription - Subscription parameters.
-   * @param subscription.accessToken - App access token.
-   * @param subscription.callbackUrl - The URL to receive the POST request when an update is triggered, and a GET request when attempting this publish operation.
-   * @param subscription.verifyToken - An arbitrary string that can be used to confirm to your server that the request is valid.
-   * @param subscription.fields - One or more of the set of valid fields in this object to subscribe to. Default Fields: `messages`, `messaging_postbacks`, `messaging_optins`, `messaging_referrals`, `messaging_handovers` and `messaging_policy_enforcement`.
-   * @param subscription.object - Indicates the object type that this subscription applies to. Defaults to `page`.
-   * @param subscription.includeValues - Indicates if change notifications should include the new values.
-   * @returns Success status
-   *
-   * @see https://developers.facebook.com/docs/graph-api/reference/app/subscriptions
-   *
-   * @example
-   *
-   * ```js
-   * await client.createSubscription({
-   *   accessToken: APP_ACCESS_TOKEN,
-   *   callbackUrl: 'https://mycallback.com',
-   *   fields: ['messages', 'messaging_postbacks', 'messaging_referrals'],
-   *   verifyToken: VERIFY_TOKEN,
-   * });
-   *
-   * // Or provide app id and app secret instead of app access token:
-   * client.createSubscription({
-   *   accessToken: `${APP_ID}|${APP_SECRET}`,
-   *   callbackUrl: 'https://mycallback.com',
-   *   fields: ['messages', 'messaging_postbacks', 'messaging_referrals'],
-   *   verifyToken: VERIFY_TOKEN,
-   * });
-   * ```
-   */
-  createSubscription({
-    object = 'page',
-    callbackUrl,
-    fields = [
-      'messages',
-      'messaging_postbacks',
-      'messaging_optins',
-      'messaging_referrals',
-      'messaging_handovers',
-      'messaging_policy_enforcement',
-    ],
-    includeValues,
-    verifyToken,
-    accessToken: appAccessToken,
-  }: {
-    object?: 'user' | 'page' | 'permissions' | 'payments';
-    callbackUrl: string;
-    fields?: string[];
-    includeValues?: boolean;
-    verifyToken: string;
-    accessToken: string;
-  }): Promise<{ success: boolean }> {
-    const { appId } = this;
-
-    invariant(appId, 'App ID is required to create subscription');
-    invariant(
-      this.appSecret || appAccessToken,
-      'App Secret or App Token is required to create subscription'
-    );
-
-    const accessToken = appAccessToken || `${appId}|${this.appSecret}`;
-
-    return this.axios
-      .post(`/${appId}/subscriptions?access_token=${accessToken}`, {
-        object,
-        callbackUrl,
-        fields: fields.join(','),
-        includeValues,
-        verifyToken,
-      })
-      .then((res) => res.data, handleError);
-  }
-
-  /**
-   * Gets the current Webhook subscriptions set up on your app.
-   *
-   * @param options - The other parameters.
-   * @param options.accessToken - App access token.
-   * @returns An array of subscriptions.
-   *
-   * @see https://developers.facebook.com/docs/graph-api/reference/app/subscriptions
-   *
-   * @example
-   *
-   * ```js
-   * await client.getSubscriptions({
-   *   accessToken: APP_ACCESS_TOKEN,
-   * });
-   * // [{
-   * //   object: 'page',
-   * //   callbackUrl: 'https://www.example.com/callback'
-   * //   fields: ['messages', 'messaging_postbacks', 'messaging_optins'],
-   * //   active: true,
-   * // }]
-   *
-   * // Or provide app id and app secret instead of app access token:
-   * await client.getSubscriptions({
-   *   accessToken: `${APP_ID}|${APP_SECRET}`,
-   * });
-   * ```
-   */
-  getSubscriptions({
-    accessToken: appAccessToken,
-  }: {
-    accessToken?: string;
-  } = {}): Promise<MessengerTypes.MessengerSubscription[]> {
-    const { appId } = this;
-    invariant(appId, 'App ID is required to get subscriptions');
-    invariant(
-      this.appSecret || appAccessToken,
-      'App Secret or App Token is required to get subscriptions'
-    );
-
-    const accessToken = appAccessToken || `${appId}|${this.appSecret}`;
-
-    return this.axios
-      .get(`/${appId}/subscriptions?access_token=${accessToken}`)
-      .then((res) => res.data.data, handleError);
-  }
-
-  /**
-   * Get the current page subscription set up on your app.
-   *
-   * @param options - The other parameters.
-   * @param options.accessToken - App access token.
-   * @returns The current page subscription
-   *
-   * @see https://developers.facebook.com/docs/graph-api/reference/app/subscriptions
-   *
-   * @example
-   *
-   * ```js
-   * await client.getPageSubscription({
-   *   accessToken: APP_ACCESS_TOKEN,
-   * });
-   *
-   * // Or provide app id and app secret instead of app access token:
-   * await client.getPageSubscription({
-   *   accessToken: `${APP_ID}|${APP_SECRET}`,
-   * });
-   * ```
-   */
-  getPageSubscription({
-    accessToken: appAccessToken,
-  }: {
-    accessToken?: string;
-  } = {}): Promise<MessengerTypes.MessengerSubscription> {
-    const { appId } = this;
-    invariant(appId, 'App ID is required to get subscription');
-    invariant(
-      this.appSecret || appAccessToken,
-      'App Secret or App Token is required to get subscription'
-    );
-
-    const accessToken = appAccessToken || `${appId}|${this.appSecret}`;
-
-    return this.getSubscriptions({
-      accessToken,
-    }).then(
-      (subscriptions: MessengerTypes.MessengerSubscription[]) =>
-        subscriptions.filter(
-          (subscription) => subscription.object === 'page'
-        )[0] || null
-    );
+  protected getRateLimitPolicy(): RateLimitPolicy {
+    return rateLimitPolicy;
   }
 
   /**
@@ -634,6 +293,110 @@ export default class MessengerClient {
       .then((res) => res.data, handleError);
   }
 
+  /**
+   * Syncs the Messenger Profile to the desired values. It compares the desired values with the current ones and only sets or deletes the properties which are different.
+   *
+   * @param desired - The desired values of `getStarted`, `persistentMenu`, `greeting`, `iceBreakers`, `whitelistedDomains` and `accountLinkingUrl`. Properties set to `null` will be deleted, and properties not included will be left unchanged.
+   * @param options - Optional parameters.
+   * @param options.dryRun - Computes the changes without applying them.
+   * @returns The changes of the properties and whether they have been applied
+   *
+   * @see https://developers.facebook.com/docs/messenger-platform/reference/messenger-profile-api
+   *
+   * @example
+   *
+   * ```js
+   * const { changes } = await client.syncMessengerProfile(
+   *   {
+   *     getStarted: { payload: 'GET_STARTED' },
+   *     greeting: [{ locale: 'default', text: 'Hello!' }],
+   *     accountLinkingUrl: null,
+   *   },
+   *   { dryRun: true }
+   * );
+   * // [
+   * //   {
+   * //     field: 'greeting',
+   * //     action: 'set',
+   * //     current: [{ locale: 'default', text: 'Hi!' }],
+   * //     desired: [{ locale: 'default', text: 'Hello!' }],
+   * //   },
+   * // ]
+   * ```
+   */
+  async syncMessengerProfile(
+    desired: MessengerTypes.DesiredMessengerProfile,
+    { dryRun = false }: MessengerTypes.SyncMessengerProfileOptions = {}
+  ): Promise<MessengerTypes.MessengerProfilePlan> {
+    const fields = (Object.keys(
+      MESSENGER_PROFILE_PROPERTIES
+    ) as MessengerTypes.MessengerProfileField[]).filter(
+      (field) => desired[MESSENGER_PROFILE_PROPERTIES[field]] !== undefined
+    );
+
+    if (fields.length === 0) {
+      return { changes: [], applied: false };
+    }
+
+    const current: MessengerTypes.MessengerProfile = Object.assign(
+      {},
+      ...(await this.getMessengerProfile(fields))
+    );
+
+    const changes: MessengerTypes.MessengerProfileChange[] = [];
+
+    fields.forEach((field) => {
+      const property = MESSENGER_PROFILE_PROPERTIES[field];
+      const currentValue = current[property];
+      const desiredValue = desired[property];
+
+      if (desiredValue === null) {
+        if (currentValue !== undefined) {
+          changes.push({ field, action: 'delete', current: currentValue });
+        }
+      } else if (
+        !isEqual(
+          normalizeMessengerProfileValue(property, currentValue),
+          normalizeMessengerProfileValue(property, desiredValue)
+        )
+      ) {
+        changes.push({
+          field,
+          action: 'set',
+          current: currentValue,
+          desired: desiredValue,
+        });
+      }
+    });
+
+    if (dryRun || changes.length === 0) {
+      return { changes, applied: false };
+    }
+
+    const profile: MessengerTypes.MessengerProfile = {};
+    const deletedFields: MessengerTypes.MessengerProfileField[] = [];
+
+    changes.forEach(({ field, action, desired: desiredValue }) => {
+      if (action === 'set') {
+        Object.assign(profile, {
+          [MESSENGER_PROFILE_PROPERTIES[field]]: desiredValue,
+        });
+      } else {
+        deletedFields.push(field);
+      }
+    });
+
+    if (Object.keys(profile).length > 0) {
+      await this.setMessengerProfile(profile);
+    }
+
+    if (deletedFields.length > 0) {
+      await this.deleteMessengerProfile(deletedFields);
+    }
+
+    return { changes, applied: true };
+  }
+
   /**
    * Retrieves the current value of get started button.
    *
@@ -1227,6 +990,28 @@ export default class MessengerClient {
       .then((res) => res.data, handleError);
   }
 
+  /**
+   * Sends requests in a batch, same as `FacebookClient#sendBatch`. When `validateMessages` is set, the messages of the requests are validated before sending, and the batch is rejected with `MessageValidationError` if any message is invalid.
+   *
+   * @param batch - Array of requests, up to 50.
+   * @param options - Other optional parameters, e.g. `includeHeaders`.
+   * @returns Responses of the requests, in the same order.
+   */
+  sendBatch(
+    batch: MessengerTypes.BatchItem[],
+    options?: { includeHeaders?: boolean }
+  ): Promise<FacebookTypes.BatchResponse[]> {
+    if (this.validateMessages) {
+      try {
+        MessengerValidation.validateBatch(batch);
+      } catch (err) {
+        return Promise.reject(err);
+      }
+    }
+
+    return super.sendBatch(batch, options);
+  }
+
   /**
    * Sends messages to the specified user using the Send API.
    *
@@ -1278,10 +1063,20 @@ export default class MessengerClient {
       messagingType = 'MESSAGE_TAG';
     }
 
+    const createdMessage = Messenger.createMessage(message, options);
+
+    if (this.validateMessages) {
+      try {
+        MessengerValidation.validateMessage(createdMessage);
+      } catch (err) {
+        return Promise.reject(err);
+      }
+    }
+
     return this.sendRawBody({
       messagingType,
       recipient,
-      message: Messenger.createMessage(message, options),
+      message: createdMessage,
       ...omit(options, 'quickReplies'),
     });
   }
@@ -2156,6 +1951,65 @@ export default class MessengerClient {
     );
   }
 
+  /**
+   * Sends a recurring notification opt-in request. The `notification_messages` token will be sent in the `optin` webhook event after the user opts in.
+   *
+   * @param psidOrRecipient - A facebook page-scoped ID of the recipient or a recipient object
+   * @param attrs - The title, the topic (`payload`) and the frequency of the notifications
+   * @param options - Other optional parameters. For example, [messaging types](https://developers.facebook.com/docs/messenger-platform/send-messages#messaging_types) or [tags](https://developers.facebook.com/docs/messenger-platform/message-tags).
+   * @returns An object includes recipientId and messageId.
+   *
+   * @see https://developers.facebook.com/docs/messenger-platform/send-messages/recurring-notifications
+   *
+   * @example
+   *
+   * ```js
+   * await client.sendRecurringNotifReqTemplate(USER_ID, {
+   *   title: 'Weekly deals',
+   *   payload: 'WEEKLY_DEALS',
+   *   notificationMessagesFrequency: 'WEEKLY',
+   * });
+   * ```
+   */
+  sendRecurringNotifReqTemplate(
+    psidOrRecipient: MessengerTypes.PsidOrRecipient,
+    attrs: MessengerTypes.RecurringNotifReqAttributes,
+    options?: MessengerTypes.SendOption
+  ): Promise<MessengerTypes.SendMessageSuccessResponse> {
+    return this.sendMessage(
+      psidOrRecipient,
+      Messenger.createRecurringNotifReqTemplate(attrs, options),
+      options
+    );
+  }
+
+  /**
+   * Sends a private reply in Messenger to the author of a Page post or comment. Only one private reply can be sent to each post or comment, within 7 days after it was created.
+   *
+   * @param recipient - An object includes either the ID of the post (`postId`) or the ID of the comment (`commentId`) to reply to.
+   * @param message - A [message](https://developers.facebook.com/docs/messenger-platform/reference/send-api#message) object.
+   * @param options - Other optional parameters. `RESPONSE` will be used as default messaging type.
+   * @returns An object includes recipientId, which is the page-scoped ID of the author, and messageId.
+   *
+   * @see https://developers.facebook.com/docs/messenger-platform/discovery/private-replies
+   *
+   * @example
+   *
+   * ```js
+   * await client.sendPrivateReply({ commentId: COMMENT_ID }, { text: 'Hello!' });
+   * ```
+   */
+  sendPrivateReply(
+    recipient: MessengerTypes.PrivateReplyRecipient,
+    message: MessengerTypes.Message,
+    options: Omit<MessengerTypes.SendOption, 'tag'> = {}
+  ): Promise<MessengerTypes.SendPrivateReplySuccessResponse> {
+    return this.sendMessage(recipient, message, {
+      messagingType: 'RESPONSE',
+      ...options,
+    });
+  }
+
   /**
    * Sends sender actions to specified user using the Send API, to let users know you are processing their requests.
    *
@@ -2267,87 +2121,82 @@ export default class MessengerClient {
   }
 
   /**
-   * Sends multiple requests in a batch.
+   * Reacts to a message sent by the specified user.
    *
-   * @param requests - Subrequests in the batch.
-   * @returns An array of batch results
+   * @param psidOrRecipient - A facebook page-scoped ID of the recipient or a recipient object
+   * @param messageId - ID of the message to react to, e.g. the `mid` of the message event.
+   * @param reaction - The reaction to the message. Defaults to `love`.
+   * @param options - Other optional parameters.
+   * @param options.personaId - ID of the persona.
+   * @returns An object includes recipientId
    *
-   * @see https://developers.facebook.com/docs/graph-api/making-multiple-requests
+   * @see https://developers.facebook.com/docs/messenger-platform/send-messages/sender-actions
    *
    * @example
    *
    * ```js
-   * const { MessengerBatch } = require('messaging-api-messenger');
-   *
-   * await client.sendBatch([
-   *   MessengerBatch.sendText(USER_ID, '1'),
-   *   MessengerBatch.sendText(USER_ID, '2'),
-   *   MessengerBatch.sendText(USER_ID, '3'),
-   * ]);
+   * await client.sendReaction(USER_ID, event.message.mid);
+   * ```
    */
-  sendBatch(
-    batch: MessengerTypes.BatchItem[],
-    { includeHeaders = true }: { includeHeaders?: boolean } = {}
-  ): Promise<
-    {
-      code: number;
-      headers?: { name: string; value: string }[];
-      body: Record<string, any>;
-    }[]
-  > {
-    invariant(
-      batch.length <= 50,
-      'limit the number of requests which can be in a batch to 50'
-    );
-
-    const responseAccessPaths = batch.map((item) => item.responseAccessPath);
-
-    const bodyEncodedbatch = batch
-      .map((item) => omit(item, 'responseAccessPath'))
-      .map((item) => {
-        if (item.body) {
-          const body = snakecaseKeysDeep(item.body) as Record<string, any>;
-          return {
-            ...item,
-            body: Object.keys(body)
-              .map((key) => {
-                const val = body[key];
-                return `${encodeURIComponent(key)}=${encodeURIComponent(
-                  typeof val === 'object' ? JSON.stringify(val) : val
-                )}`;
-              })
-              .join('&'),
-          };
-        }
-        return item;
-      });
+  sendReaction(
+    psidOrRecipient: MessengerTypes.PsidOrRecipient,
+    messageId: string,
+    reaction: MessengerTypes.MessageReaction = 'love',
+    options?: MessengerTypes.SenderActionOption
+  ): Promise<MessengerTypes.SendSenderActionResponse> {
+    const recipient =
+      typeof psidOrRecipient === 'string'
+        ? {
+            id: psidOrRecipient,
+          }
+        : psidOrRecipient;
+    return this.sendRawBody({
+      recipient,
+      senderAction: 'react',
+      payload: {
+        messageId,
+        reaction,
+      },
+      ...options,
+    });
+  }
 
-    return this.axios
-      .post('/', {
-        accessToken: this.accessToken,
-        includeHeaders,
-        batch: bodyEncodedbatch,
-      })
-      .then(
-        (res) =>
-          res.data.map(
-            (item: { code: number; body: string }, index: number) => {
-              const responseAccessPath = responseAccessPaths[index];
-              const datum = camelcaseKeysDeep(item) as Record<string, any>;
-              if (datum.body) {
-                const parsedBody = camelcaseKeysDeep(JSON.parse(datum.body));
-                return {
-                  ...datum,
-                  body: responseAccessPath
-                    ? get(parsedBody, responseAccessPath)
-                    : parsedBody,
-                };
-              }
-              return datum;
-            }
-          ),
-        handleError
-      );
+  /**
+   * Removes the reaction from a message sent by the specified user.
+   *
+   * @param psidOrRecipient - A facebook page-scoped ID of the recipient or a recipient object
+   * @param messageId - ID of the message reacted to.
+   * @param options - Other optional parameters.
+   * @param options.personaId - ID of the persona.
+   * @returns An object includes recipientId
+   *
+   * @see https://developers.facebook.com/docs/messenger-platform/send-messages/sender-actions
+   *
+   * @example
+   *
+   * ```js
+   * await client.removeReaction(USER_ID, event.message.mid);
+   * ```
+   */
+  removeReaction(
+    psidOrRecipient: MessengerTypes.PsidOrRecipient,
+    messageId: string,
+    options?: MessengerTypes.SenderActionOption
+  ): Promise<MessengerTypes.SendSenderActionResponse> {
+    const recipient =
+      typeof psidOrRecipient === 'string'
+        ? {
+            id: psidOrRecipient,
+          }
+        : psidOrRecipient;
+    return this.sendRawBody({
+      recipient,
+      senderAction: 'unreact',
+      payload: {
+        messageId,
+      },
+      ...options,
+    });
   }
 
   /**
@@ -2587,6 +2436,37 @@ export default class MessengerClient {
       .then((res) => res.data, handleError);
   }
 
+  /**
+   * Iterates custom labels through all pages.
+   *
+   * @param options - Optional `fields` of the labels, `limit` of the total labels and `pageSize` of each page.
+   * @param requestOptions - Optional `signal` to stop fetching the remaining pages and `timeout` of each page.
+   * @returns The async iterator of custom labels
+   *
+   * @see https://developers.facebook.com/docs/messenger-platform/identity/custom-labels#get_all_labels
+   *
+   * @example
+   *
+   * ```js
+   * for await (const label of client.iterateLabels()) {
+   *   console.log(label.name);
+   * }
+   * ```
+   */
+  iterateLabels(
+    {
+      fields = ['name'],
+      ...options
+    }: { fields?: string[] } & MessengerTypes.PaginateOptions = {},
+    requestOptions: RequestOptions = {}
+  ): AsyncIterableIterator<{ name: string; id: string }> {
+    return this.paginate(
+      '/me/custom_labels',
+      { fields, ...options },
+      requestOptions
+    );
+  }
+
   /**
    * Deletes a Label.
    *
@@ -3636,6 +3516,7 @@ export default class MessengerClient {
    * Retrieves personas associated with a page using the cursor.
    *
    * @param cursor - Pagination cursor.
+   * @param options - The options of the request, e.g. `signal` to abort it and `timeout` to override the timeout of the client.
    * @returns - Persona data in pagination result
    *
    * @see https://developers.facebook.com/docs/messenger-platform/send-messages/personas/#retrieve_all
@@ -3667,7 +3548,8 @@ export default class MessengerClient {
    * ```
    */
   getPersonas(
-    cursor?: string
+    cursor?: string,
+    options: RequestOptions = {}
   ): Promise<{
     data: {
       id: string;
@@ -3687,7 +3569,8 @@ export default class MessengerClient {
       }>(
         `/me/personas?access_token=${this.accessToken}${
           cursor ? `&after=${cursor}` : ''
-        }`
+        }`,
+        createRequestConfig(options)
       )
       .then((res) => res.data, handleError);
   }
@@ -3695,6 +3578,7 @@ export default class MessengerClient {
   /**
    * Retrieves all personas associated with a page.
    *
+   * @param options - The options of the requests. Aborting `signal` stops fetching the remaining pages, and `timeout` applies to each page.
    * @returns an array of all personas
    *
    * @example
@@ -3715,39 +3599,56 @@ export default class MessengerClient {
    * // ]
    * ```
    */
-  async getAllPersonas(): Promise<
+  async getAllPersonas(
+    options: RequestOptions = {}
+  ): Promise<
     {
       id: string;
       name: string;
       profilePictureUrl: string;
     }[]
   > {
-    let allPersonas: {
+    const personas: {
       id: string;
       name: string;
       profilePictureUrl: string;
     }[] = [];
-    let cursor;
 
-    do {
-      const {
-        data,
-        paging,
-      }: {
-        data: {
-          id: string;
-          name: string;
-          profilePictureUrl: string;
-        }[];
-        paging: { cursors: { before: string; after: string } };
-        // eslint-disable-next-line no-await-in-loop
-      } = await this.getPersonas(cursor);
+    for await (const persona of paginate(({ after }) =>
+      this.getPersonas(after, options)
+    )) {
+      personas.push(persona);
+    }
 
-      allPersonas = allPersonas.concat(data);
-      cursor = paging ? paging.cursors.after : null;
-    } while (cursor);
+    return personas;
+  }
 
-    return allPersonas;
+  /**
+   * Iterates personas associated with a page through all pages.
+   *
+   * @param options - Optional `limit` of the total personas and `pageSize` of each page.
+   * @param requestOptions - Optional `signal` to stop fetching the remaining pages and `timeout` of each page.
+   * @returns The async iterator of personas
+   *
+   * @see https://developers.facebook.com/docs/messenger-platform/send-messages/personas/#retrieve_all
+   *
+   * @example
+   *
+   * ```js
+   * for await (const persona of client.iteratePersonas({ limit: 10 })) {
+   *   console.log(persona.name);
+   * }
+   * ```
+   */
+  iteratePersonas(
+    options: MessengerTypes.PaginateOptions = {},
+    requestOptions: RequestOptions = {}
+  ): AsyncIterableIterator<{
+    id: string;
+    name: string;
+    profilePictureUrl: string;
+  }> {
+    return this.paginate('/me/personas', options, requestOptions);
   }
 
   /**
@@ -3771,4 +3672,226 @@ export default class MessengerClient {
       )
       .then((res) => res.data, handleError);
   }
+
+  /**
+   * Retrieves a page of conversations of the page.
+   *
+   * @param options - Optional parameters.
+   * @param options.pageId - ID of the page. Defaults to `me`, the page of the access token.
+   * @param options.platform - `messenger` or `instagram`. Defaults to `messenger`.
+   * @param options.userId - PSID of the user to find the conversation with.
+   * @param options.fields - Fields of the conversations. Defaults to `id` and `updated_time`.
+   * @param options.limit - Maximum number of conversations in the page.
+   * @param options.after - Cursor of the conversation after which the page starts.
+   * @param requestOptions - Optional `signal` to abort the request and `timeout` to override the timeout of the client.
+   * @returns Conversations in pagination result
+   *
+   * @see https://developers.facebook.com/docs/messenger-platform/conversations
+   *
+   * @example
+   *
+   * ```js
+   * await client.getConversations({ fields: ['id', 'updated_time', 'participants'] });
+   * // {
+   * //   data: [
+   * //     {
+   * //       id: 't_10208234719932356',
+   * //       updatedTime: '2020-09-01T03:27:40+0000',
+   * //       participants: { data: [{ id: '1254459154682919', name: 'John' }, ...] },
+   * //     },
+   * //   ],
+   * //   paging: { cursors: { before: 'BEFORE', after: 'AFTER' }, next: 'https://graph.facebook.com/...' },
+   * // }
+   * ```
+   */
+  getConversations(
+    {
+      pageId = 'me',
+      platform = 'messenger',
+      userId,
+      fields,
+      ...paging
+    }: MessengerTypes.ConversationsOptions = {},
+    requestOptions: RequestOptions = {}
+  ): Promise<MessengerTypes.PagingResult<MessengerTypes.Conversation>> {
+    return this.axios
+      .get<MessengerTypes.PagingResult<MessengerTypes.Conversation>>(
+        `/${pageId}/conversations`,
+        {
+          ...createRequestConfig(requestOptions),
+          params: {
+            access_token: this.accessToken,
+            platform,
+            user_id: userId,
+            fields: fields ? fields.join(',') : undefined,
+            ...paging,
+          },
+        }
+      )
+      .then((res) => res.data, handleError);
+  }
+
+  /**
+   * Iterates conversations of the page through all pages.
+   *
+   * @param options - Optional parameters, same as `getConversations` except the cursors, with `limit` of the total conversations and `pageSize` of each page.
+   * @param requestOptions - Optional `signal` to stop fetching the remaining pages and `timeout` of each page.
+   * @returns The async iterator of conversations
+   *
+   * @see https://developers.facebook.com/docs/messenger-platform/conversations
+   *
+   * @example
+   *
+   * ```js
+   * for await (const conversation of client.iterateConversations()) {
+   *   console.log(conversation.id);
+   * }
+   * ```
+   */
+  iterateConversations(
+    {
+      limit,
+      pageSize,
+      ...options
+    }: Omit<MessengerTypes.ConversationsOptions, 'before' | 'after' | 'limit'> &
+      MessengerTypes.PaginateOptions = {},
+    requestOptions: RequestOptions = {}
+  ): AsyncIterableIterator<MessengerTypes.Conversation> {
+    return paginate(
+      (cursor) =>
+        this.getConversations({ ...options, ...cursor }, requestOptions),
+      { limit, pageSize }
+    );
+  }
+
+  /**
+   * Retrieves a page of messages in the conversation, from the latest to the earliest.
+   *
+   * @param conversationId - ID of the conversation.
+   * @param options - Optional parameters.
+   * @param options.fields - Fields of the messages. Defaults to `id`, `created_time`, `from`, `to` and `message`.
+   * @param options.limit - Maximum number of messages in the page.
+   * @param options.after - Cursor of the message after which the page starts.
+   * @param requestOptions - Optional `signal` to abort the request and `timeout` to override the timeout of the client.
+   * @returns Messages in pagination result
+   *
+   * @see https://developers.facebook.com/docs/messenger-platform/conversations
+   *
+   * @example
+   *
+   * ```js
+   * await client.getConversationMessages('t_10208234719932356');
+   * // {
+   * //   data: [
+   * //     {
+   * //       id: 'm_OKnMZKH_FQgv8VyK1mdHI8C2YBh6xHVmuifZswmuVSQxjmGLsWjXJcpXAhzv_AYQ',
+   * //       createdTime: '2020-09-01T03:27:40+0000',
+   * //       from: { id: '1254459154682919', name: 'John', email: '1254459154682919@facebook.com' },
+   * //       to: { data: [{ id: '1895382890692546', name: 'Bot Demo', email: '1895382890692546@facebook.com' }] },
+   * //       message: 'Hello',
+   * //     },
+   * //   ],
+   * //   paging: { cursors: { before: 'BEFORE', after: 'AFTER' } },
+   * // }
+   * ```
+   */
+  getConversationMessages(
+    conversationId: string,
+    {
+      fields = ['id', 'created_time', 'from', 'to', 'message'],
+      ...paging
+    }: MessengerTypes.ConversationMessagesOptions = {},
+    requestOptions: RequestOptions = {}
+  ): Promise<MessengerTypes.PagingResult<MessengerTypes.ConversationMessage>> {
+    return this.axios
+      .get<MessengerTypes.PagingResult<MessengerTypes.ConversationMessage>>(
+        `/${conversationId}/messages`,
+        {
+          ...createRequestConfig(requestOptions),
+          params: {
+            access_token: this.accessToken,
+            fields: fields.join(','),
+            ...paging,
+          },
+        }
+      )
+      .then((res) => res.data, handleError);
+  }
+
+  /**
+   * Iterates messages in the conversation through all pages, from the latest to the earliest.
+   *
+   * @param conversationId - ID of the conversation.
+   * @param options - Optional parameters, same as `getConversationMessages` except the cursors, with `limit` of the total messages and `pageSize` of each page.
+   * @param requestOptions - Optional `signal` to stop fetching the remaining pages and `timeout` of each page.
+   * @returns The async iterator of messages
+   *
+   * @see https://developers.facebook.com/docs/messenger-platform/conversations
+   *
+   * @example
+   *
+   * ```js
+   * for await (const message of client.iterateConversationMessages(conversationId)) {
+   *   console.log(message.from.name, message.message);
+   * }
+   * ```
+   */
+  iterateConversationMessages(
+    conversationId: string,
+    {
+      limit,
+      pageSize,
+      ...options
+    }: Omit<
+      MessengerTypes.ConversationMessagesOptions,
+      'before' | 'after' | 'limit'
+    > &
+      MessengerTypes.PaginateOptions = {},
+    requestOptions: RequestOptions = {}
+  ): AsyncIterableIterator<MessengerTypes.ConversationMessage> {
+    return paginate(
+      (cursor) =>
+        this.getConversationMessages(
+          conversationId,
+          { ...options, ...cursor },
+          requestOptions
+        ),
+      { limit, pageSize }
+    );
+  }
+
+  /**
+   * Retrieves a message by its ID.
+   *
+   * @param messageId - ID of the message, e.g. from `getConversationMessages` or the `mid` of webhook events.
+   * @param options - Optional parameters.
+   * @param options.fields - Fields of the message. Defaults to `id`, `created_time`, `from`, `to` and `message`.
+   * @param requestOptions - Optional `signal` to abort the request and `timeout` to override the timeout of the client.
+   * @returns The message
+   *
+   * @see https://developers.facebook.com/docs/messenger-platform/conversations
+   *
+   * @example
+   *
+   * ```js
+   * await client.getMessage(messageId, { fields: ['id', 'message', 'attachments'] });
+   * ```
+   */
+  getMessage(
+    messageId: string,
+    {
+      fields = ['id', 'created_time', 'from', 'to', 'message'],
+    }: { fields?: MessengerTypes.ConversationMessageField[] } = {},
+    requestOptions: RequestOptions = {}
+  ): Promise<MessengerTypes.ConversationMessage> {
+    return this.axios
+      .get<MessengerTypes.ConversationMessage>(`/${messageId}`, {
+        ...createRequestConfig(requestOptions),
+        params: {
+          access_token: this.accessToken,
+          fields: fields.join(','),
+        },
+      })
+      .then((res) => res.data, handleError);
+  }
 }
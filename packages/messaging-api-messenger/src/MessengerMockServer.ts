@@ -0,0 +1,192 @@
+import {
+  MockRequest,
+  MockResponse,
+  MockServer,
+  camelcaseKeysDeep,
+} from 'messaging-api-common';
+
+import * as MessengerTypes from './MessengerTypes';
+
+const MESSAGING_TYPES = [
+  'RESPONSE',
+  'UPDATE',
+  'MESSAGE_TAG',
+  'NON_PROMOTIONAL_SUBSCRIPTION',
+];
+
+const SENDER_ACTIONS = [
+  'mark_seen',
+  'typing_on',
+  'typing_off',
+  'react',
+  'unreact',
+];
+
+const ATTACHMENT_TYPES = ['audio', 'file', 'image', 'template', 'video'];
+
+const RECIPIENT_FIELDS = [
+  'id',
+  'phone_number',
+  'user_ref',
+  'post_id',
+  'comment_id',
+  'one_time_notif_token',
+];
+
+function graphError(message: string, code = 100, status = 400): MockResponse {
+  return {
+    status,
+    body: {
+      error: {
+        message,
+        type: 'OAuthException',
+        code,
+        fbtrace_id: 'MOCK_FBTRACE_ID',
+      },
+    },
+  };
+}
+
+function validateMessage(message: Record<string, any>): string | undefined {
+  if (typeof message.text === 'string') {
+    if (message.text.length === 0) {
+      return 'param message[text] must be non-empty.';
+    }
+    if (message.text.length > 2000) {
+      return 'param message[text] must be less than 2000 characters.';
+    }
+    return undefined;
+  }
+
+  if (message.attachment) {
+    if (!ATTACHMENT_TYPES.includes(message.attachment.type)) {
+      return `param message[attachment][type] must be one of {${ATTACHMENT_TYPES.join(
+        ', '
+      )}}.`;
+    }
+    if (!message.attachment.payload) {
+      return 'param message[attachment][payload] must be non-empty.';
+    }
+    return undefined;
+  }
+
+  return 'param message must contain text or attachment.';
+}
+
+function validateSendBody(body: Record<string, any>): string | undefined {
+  const { recipient, message, sender_action: senderAction } = body;
+
+  if (
+    !recipient ||
+    !RECIPIENT_FIELDS.some((field) => recipient[field] !== undefined)
+  ) {
+    return 'param recipient must be non-empty.';
+  }
+
+  if (
+    body.messaging_type !== undefined &&
+    !MESSAGING_TYPES.includes(body.messaging_type)
+  ) {
+    return `param messaging_type must be one of {${MESSAGING_TYPES.join(
+      ', '
+    )}}.`;
+  }
+
+  if (body.messaging_type === 'MESSAGE_TAG' && !body.tag) {
+    return 'param tag must be non-empty when messaging_type is MESSAGE_TAG.';
+  }
+
+  if (senderAction !== undefined) {
+    if (!SENDER_ACTIONS.includes(senderAction)) {
+      return `param sender_action must be one of {${SENDER_ACTIONS.join(
+        ', '
+      )}}.`;
+    }
+    if (
+      (senderAction === 'react' || senderAction === 'unreact') &&
+      !(body.payload && body.payload.message_id)
+    ) {
+      return 'param payload[message_id] must be non-empty.';
+    }
+    return message ? 'param message and sender_action conflict.' : undefined;
+  }
+
+  if (!message) {
+    return 'param message must be non-empty.';
+  }
+
+  return validateMessage(message);
+}
+
+/**
+ * An in-process fake Graph API server which implements the Send API (`/me/messages`). Sent messages are validated and recorded in `messages`.
+ *
+ * @example
+ * ```js
+ * const server = new MessengerMockServer();
+ * const origin = await server.listen();
+ *
+ * const client = new MessengerClient({ accessToken: ACCESS_TOKEN, origin });
+ *
+ * await client.sendText(USER_ID, 'Hello!');
+ *
+ * server.messages;
+ * // [{ recipient: { id: USER_ID }, messagingType: 'UPDATE', message: { text: 'Hello!' } }]
+ * ```
+ */
+export default class MessengerMockServer extends MockServer<
+  MessengerTypes.MockSentMessage
+> {
+  private messageCount = 0;
+
+  constructor() {
+    super('messenger');
+
+    this.route('POST', '/:version/me/messages', (request) =>
+      this.handleSend(request)
+    );
+  }
+
+  private handleSend(request: MockRequest): MockResponse {
+    if (!request.query.access_token) {
+      return graphError(
+        'An active access token must be used to query information about the current user.',
+        2500
+      );
+    }
+
+    // attachments uploaded with form data are accepted without being validated or recorded
+    if (Buffer.isBuffer(request.body)) {
+      this.messageCount += 1;
+      return {
+        body: { recipient_id: '', message_id: `mid.${this.messageCount}` },
+      };
+    }
+
+    const body = request.body || {};
+    const error = validateSendBody(body);
+
+    if (error) {
+      return graphError(`(#100) ${error}`);
+    }
+
+    this.messages.push(
+      camelcaseKeysDeep(body) as MessengerTypes.MockSentMessage
+    );
+
+    const recipientId = body.recipient.id || '';
+
+    if (body.sender_action) {
+      return { body: { recipient_id: recipientId } };
+    }
+
+    this.messageCount += 1;
+
+    return {
+      body: {
+        recipient_id: recipientId,
+        message_id: `mid.${this.messageCount}`,
+      },
+    };
+  }
+}
@@ -0,0 +1,315 @@
+import MemoryNotificationTokenStore from './MemoryNotificationTokenStore';
+import MessengerClient from './MessengerClient';
+import NotificationTokenError from './NotificationTokenError';
+import * as MessengerTypes from './MessengerTypes';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// one-time notification tokens don't come with the expiry, but they are valid for one year after the user opts in
+const ONE_TIME_NOTIF_TOKEN_TTL = 365 * DAY;
+
+// the periods are rolling, so a monthly notification can be sent again 30 days after the last one
+const FREQUENCY_PERIODS: Record<
+  MessengerTypes.NotificationMessagesFrequency,
+  number
+> = {
+  DAILY: DAY,
+  WEEKLY: 7 * DAY,
+  MONTHLY: 30 * DAY,
+};
+
+function getTokenKey(
+  type: MessengerTypes.NotificationTokenType,
+  psid: string,
+  payload: string
+): string {
+  return `${type}:${psid}:${payload}`;
+}
+
+/**
+ * Keeps track of the tokens granted by one-time and recurring notification opt-ins, and sends notifications outside the 24-hour window with them.
+ *
+ * @example
+ *
+ * ```js
+ * const notifications = new MessengerNotifications({ client });
+ *
+ * await notifications.requestRecurringNotification(USER_ID, {
+ *   title: 'Weekly deals',
+ *   payload: 'WEEKLY_DEALS',
+ *   notificationMessagesFrequency: 'WEEKLY',
+ * });
+ *
+ * // in the webhook handler
+ * const dispatch = MessengerWebhook.createEventDispatcher({
+ *   optin: (event) => notifications.handleOptin(event),
+ * });
+ *
+ * // later, outside the 24-hour window
+ * await notifications.sendRecurringNotification(USER_ID, 'WEEKLY_DEALS', {
+ *   text: 'This week: 20% off everything!',
+ * });
+ * ```
+ */
+export default class MessengerNotifications {
+  /**
+   * The client to send opt-in requests and notifications.
+   */
+  readonly client: MessengerClient;
+
+  /**
+   * The store of granted tokens.
+   */
+  readonly store: MessengerTypes.NotificationTokenStore;
+
+  /**
+   * @param options - The options
+   * @param options.client - The client to send opt-in requests and notifications
+   * @param options.store - The store of tokens. Defaults to an in-memory store.
+   */
+  constructor({
+    client,
+    store = new MemoryNotificationTokenStore(),
+  }: {
+    client: MessengerClient;
+    store?: MessengerTypes.NotificationTokenStore;
+  }) {
+    this.client = client;
+    this.store = store;
+  }
+
+  /**
+   * Asks the user to opt in to a one-time notification about the topic.
+   *
+   * @param psid - A facebook page-scoped ID of the user
+   * @param attrs - The title and the topic (`payload`) of the notification
+   * @param options - Other optional parameters of the send API
+   * @returns An object includes recipientId and messageId.
+   */
+  requestOneTimeNotification(
+    psid: string,
+    attrs: MessengerTypes.OneTimeNotifReqAttributes,
+    options?: MessengerTypes.SendOption
+  ): Promise<MessengerTypes.SendMessageSuccessResponse> {
+    return this.client.sendOneTimeNotifReqTemplate(psid, attrs, options);
+  }
+
+  /**
+   * Asks the user to opt in to recurring notifications about the topic.
+   *
+   * @param psid - A facebook page-scoped ID of the user
+   * @param attrs - The title, the topic (`payload`) and the frequency of the notifications
+   * @param options - Other optional parameters of the send API
+   * @returns An object includes recipientId and messageId.
+   */
+  requestRecurringNotification(
+    psid: string,
+    attrs: MessengerTypes.RecurringNotifReqAttributes,
+    options?: MessengerTypes.SendOption
+  ): Promise<MessengerTypes.SendMessageSuccessResponse> {
+    return this.client.sendRecurringNotifReqTemplate(psid, attrs, options);
+  }
+
+  /**
+   * Saves the token from an `optin` webhook event. Recurring notification tokens are removed when the user stops the notifications. Optins from plugins are ignored.
+   *
+   * @param event - The `optin` webhook event
+   * @returns The saved token, or `undefined` when no token is saved.
+   */
+  async handleOptin(
+    event: MessengerTypes.OptinEvent
+  ): Promise<MessengerTypes.NotificationToken | undefined> {
+    const { optin } = event;
+    const psid = event.sender.id;
+
+    if (!('type' in optin)) {
+      return undefined;
+    }
+
+    const key = getTokenKey(optin.type, psid, optin.payload);
+
+    if (optin.type === 'one_time_notif_req') {
+      const token: MessengerTypes.NotificationToken = {
+        type: optin.type,
+        token: optin.oneTimeNotifToken,
+        psid,
+        payload: optin.payload,
+        expiresAt: event.timestamp + ONE_TIME_NOTIF_TOKEN_TTL,
+      };
+
+      await this.store.set(key, token);
+
+      return token;
+    }
+
+    if (optin.notificationMessagesStatus === 'STOP_NOTIFICATIONS') {
+      await this.store.delete(key);
+
+      return undefined;
+    }
+
+    const previous = await this.store.get(key);
+
+    const token: MessengerTypes.NotificationToken = {
+      type: optin.type,
+      token: optin.notificationMessagesToken,
+      psid,
+      payload: optin.payload,
+      expiresAt: optin.tokenExpiryTimestamp,
+      frequency: optin.notificationMessagesFrequency,
+      timezone: optin.notificationMessagesTimezone,
+      // the frequency still applies when the user opts in again
+      lastSentAt: previous ? previous.lastSentAt : undefined,
+    };
+
+    await this.store.set(key, token);
+
+    return token;
+  }
+
+  /**
+   * Gets the token which hasn't expired. Expired tokens are removed from the store.
+   *
+   * @param type - The type of the token
+   * @param psid - A facebook page-scoped ID of the user
+   * @param payload - The topic of the notifications
+   * @returns The token, or `undefined` when no valid token is found.
+   */
+  async getToken(
+    type: MessengerTypes.NotificationTokenType,
+    psid: string,
+    payload: string
+  ): Promise<MessengerTypes.NotificationToken | undefined> {
+    try {
+      return await this.findToken(type, psid, payload);
+    } catch (err) {
+      if (err instanceof NotificationTokenError) {
+        return undefined;
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Sends a notification with the one-time notification token of the topic. The token can only be used once, so it is taken from the store atomically before sending, and restored if the notification fails to be sent.
+   *
+   * @param psid - A facebook page-scoped ID of the user
+   * @param payload - The topic of the notification
+   * @param message - A [message](https://developers.facebook.com/docs/messenger-platform/reference/send-api#message) object.
+   * @param options - Other optional parameters of the send API
+   * @returns An object includes recipientId and messageId.
+   * @throws {@link NotificationTokenError} when no valid token is found.
+   */
+  async sendOneTimeNotification(
+    psid: string,
+    payload: string,
+    message: MessengerTypes.Message,
+    options?: MessengerTypes.SendOption
+  ): Promise<MessengerTypes.SendMessageSuccessResponse> {
+    const type = 'one_time_notif_req';
+    const key = getTokenKey(type, psid, payload);
+    const token = await this.store.take(key);
+
+    // the expired token has been removed by `take`
+    this.assertValidToken(token, type, psid, payload);
+
+    try {
+      return await this.client.sendMessage(
+        { oneTimeNotifToken: token.token },
+        message,
+        options
+      );
+    } catch (err) {
+      await this.store.set(key, token);
+      throw err;
+    }
+  }
+
+  /**
+   * Sends a notification with the recurring notification token of the topic, at most once per period of the frequency chosen by the user.
+   *
+   * @param psid - A facebook page-scoped ID of the user
+   * @param payload - The topic of the notifications
+   * @param message - A [message](https://developers.facebook.com/docs/messenger-platform/reference/send-api#message) object.
+   * @param options - Other optional parameters of the send API
+   * @returns An object includes recipientId and messageId.
+   * @throws {@link NotificationTokenError} when no valid token is found or a notification has been sent in the current period.
+   */
+  async sendRecurringNotification(
+    psid: string,
+    payload: string,
+    message: MessengerTypes.Message,
+    options?: MessengerTypes.SendOption
+  ): Promise<MessengerTypes.SendMessageSuccessResponse> {
+    const token = await this.findToken('notification_messages', psid, payload);
+
+    if (token.lastSentAt && token.frequency) {
+      const retryAt = token.lastSentAt + FREQUENCY_PERIODS[token.frequency];
+
+      if (Date.now() < retryAt) {
+        throw new NotificationTokenError({
+          code: 'FREQUENCY_LIMITED',
+          type: token.type,
+          psid,
+          payload,
+          retryAt,
+        });
+      }
+    }
+
+    const res = await this.client.sendMessage(
+      { notificationMessagesToken: token.token },
+      message,
+      options
+    );
+
+    await this.store.set(getTokenKey(token.type, psid, payload), {
+      ...token,
+      lastSentAt: Date.now(),
+    });
+
+    return res;
+  }
+
+  private async findToken(
+    type: MessengerTypes.NotificationTokenType,
+    psid: string,
+    payload: string
+  ): Promise<MessengerTypes.NotificationToken> {
+    const key = getTokenKey(type, psid, payload);
+    const token = await this.store.get(key);
+
+    if (token && token.expiresAt <= Date.now()) {
+      await this.store.delete(key);
+    }
+
+    this.assertValidToken(token, type, psid, payload);
+
+    return token;
+  }
+
+  private assertValidToken(
+    token: MessengerTypes.NotificationToken | undefined,
+    type: MessengerTypes.NotificationTokenType,
+    psid: string,
+    payload: string
+  ): asserts token is MessengerTypes.NotificationToken {
+    if (!token) {
+      throw new NotificationTokenError({
+        code: 'TOKEN_NOT_FOUND',
+        type,
+        psid,
+        payload,
+      });
+    }
+
+    if (token.expiresAt <= Date.now()) {
+      throw new NotificationTokenError({
+        code: 'TOKEN_EXPIRED',
+        type,
+        psid,
+        payload,
+      });
+    }
+  }
+}
@@ -1,15 +1,10 @@
-import fs from 'fs';
+import * as FacebookTypes from './FacebookTypes';
 
-import { OnRequestFunction } from 'messaging-api-common';
-
-export type ClientConfig = {
-  accessToken: string;
-  appId?: string;
-  appSecret?: string;
-  version?: string;
-  origin?: string;
-  onRequest?: OnRequestFunction;
-  skipAppSecretProof?: boolean;
+export type ClientConfig = FacebookTypes.ClientConfig & {
+  /**
+   * Validates messages with `Messenger.validateMessage` before sending them, so invalid messages are rejected locally instead of by the Graph API. Defaults to `false`.
+   */
+  validateMessages?: boolean;
 };
 
 /**
@@ -55,6 +50,13 @@ export type RecipientWithOneTimeNotifToken = {
   oneTimeNotifToken: string;
 };
 
+/**
+ * Used for the Messenger Platform's Recurring Notifications API.
+ */
+export type RecipientWithNotificationMessagesToken = {
+  notificationMessagesToken: string;
+};
+
 /**
  * Description of the message recipient. All requests must include one to identify the recipient.
  */
@@ -64,13 +66,21 @@ export type Recipient =
   | RecipientWithUserRef
   | RecipientWithPostId
   | RecipientWithCommentId
-  | RecipientWithOneTimeNotifToken;
+  | RecipientWithOneTimeNotifToken
+  | RecipientWithNotificationMessagesToken;
 
 /**
  * Description of the message recipient. If a string is provided, it will be recognized as a psid.
  */
 export type PsidOrRecipient = string | Recipient;
 
+/**
+ * The Page post or comment to reply to with a private reply.
+ */
+export type PrivateReplyRecipient =
+  | RecipientWithPostId
+  | RecipientWithCommentId;
+
 export type UrlMediaAttachmentPayload = {
   url: string;
   isReusable?: boolean;
@@ -115,7 +125,8 @@ export type TemplateAttachmentPayload = {
     | 'airline_checkin'
     | 'airline_itinerary'
     | 'airline_update'
-    | 'one_time_notif_req';
+    | 'one_time_notif_req'
+    | 'notification_messages';
   [key: string]: any; // FIXME: list all of templates
 };
 
@@ -158,6 +169,14 @@ export type AttachmentMessage = {
 
 export type Message = TextMessage | AttachmentMessage;
 
+export type MessageValidationIssue = {
+  /** The path of the invalid value in the message, e.g. `message.attachment.payload.buttons[3]`. */
+  path: string;
+
+  /** What's wrong with the value. */
+  message: string;
+};
+
 export type MessagingType =
   | 'RESPONSE'
   | 'UPDATE'
@@ -392,7 +411,55 @@ export type OneTimeNotifReqAttributes = {
   payload: string;
 };
 
-export type SenderAction = 'mark_seen' | 'typing_on' | 'typing_off';
+export type NotificationMessagesFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export type RecurringNotifReqAttributes = {
+  /** Title of the opt-in request, up to 65 characters. */
+  title: string;
+
+  /** The image shown in the opt-in request. */
+  imageUrl?: string;
+
+  /** The topic of the notifications, which will be sent back in the `optin` webhook event. */
+  payload: string;
+
+  /** How often the notifications can be sent to the user. */
+  notificationMessagesFrequency: NotificationMessagesFrequency;
+
+  /** Whether to ask the user to opt in again when the token expires. Defaults to `ENABLED`. */
+  notificationMessagesReoptin?: 'ENABLED' | 'DISABLED';
+
+  /** The timezone of the user, e.g. `America/New_York`. */
+  notificationMessagesTimezone?: string;
+
+  /** Text of the opt-in button. */
+  notificationMessagesCtaText?:
+    | 'ALLOW'
+    | 'FREQUENCY'
+    | 'GET'
+    | 'OPT_IN'
+    | 'SIGN_UP';
+};
+
+export type SenderAction =
+  | 'mark_seen'
+  | 'typing_on'
+  | 'typing_off'
+  | 'react'
+  | 'unreact';
+
+/**
+ * The reaction to a message, e.g. `love`.
+ */
+export type MessageReaction =
+  | 'smile'
+  | 'angry'
+  | 'sad'
+  | 'wow'
+  | 'love'
+  | 'like'
+  | 'dislike'
+  | 'other';
 
 /**
  * Fields can be retrieved from a person's profile information
@@ -471,6 +538,56 @@ export type MessengerProfile = {
   };
 };
 
+export type MessengerProfileField =
+  | 'get_started'
+  | 'persistent_menu'
+  | 'greeting'
+  | 'ice_breakers'
+  | 'whitelisted_domains'
+  | 'account_linking_url';
+
+/**
+ * The desired values of the Messenger Profile properties to sync. Properties set to `null` will be deleted, and properties not included will be left unchanged.
+ */
+export type DesiredMessengerProfile = {
+  [K in
+    | 'getStarted'
+    | 'persistentMenu'
+    | 'greeting'
+    | 'iceBreakers'
+    | 'whitelistedDomains'
+    | 'accountLinkingUrl']?: MessengerProfile[K] | null;
+};
+
+/**
+ * The value of a Messenger Profile property which can be synced.
+ */
+export type MessengerProfileValue = MessengerProfile[keyof DesiredMessengerProfile];
+
+export type MessengerProfileChange = {
+  field: MessengerProfileField;
+  action: 'set' | 'delete';
+
+  /** The current value of the property. `undefined` when it hasn't been set. */
+  current?: MessengerProfileValue;
+
+  /** The desired value of the property. `undefined` when it will be deleted. */
+  desired?: MessengerProfileValue;
+};
+
+export type MessengerProfilePlan = {
+  /** The properties which are different from the desired values. */
+  changes: MessengerProfileChange[];
+
+  /** Whether the changes have been applied. `false` for dry runs and when nothing changes. */
+  applied: boolean;
+};
+
+export type SyncMessengerProfileOptions = {
+  /** Computes the changes without applying them. */
+  dryRun?: boolean;
+};
+
 export type MessengerProfileResponse = {
   data: MessengerProfile[];
 };
@@ -484,6 +601,14 @@ export type SendMessageSuccessResponse = {
   messageId: string;
 };
 
+export type SendPrivateReplySuccessResponse = {
+  /**
+   * Page-scoped ID of the author of the post or comment.
+   */
+  recipientId: string;
+  messageId: string;
+};
+
 export type SendSenderActionResponse = {
   recipientId: string;
 };
@@ -493,13 +618,9 @@ export type MessageTagResponse = {
   description: string;
 }[];
 
-export type FileData = Buffer | fs.ReadStream;
+export type FileData = FacebookTypes.FileData;
 
-export type BatchRequestOptions = {
-  name?: string;
-  dependsOn?: string;
-  omitResponseOnSuccess?: boolean;
-};
+export type BatchRequestOptions = FacebookTypes.BatchRequestOptions;
 
 export type Model =
   | 'CUSTOM'
@@ -531,25 +652,9 @@ export type MessengerNLPConfig = {
   nBest?: number;
 };
 
-export type PageInfo = {
-  name: string;
-  id: string;
-};
+export type PageInfo = FacebookTypes.PageInfo;
 
-type Scope = string;
-
-export type TokenInfo = {
-  appId: string;
-  type: 'PAGE' | 'APP' | 'USER';
-  application: string;
-  dataAccessExpiresAt: number;
-  expiresAt: number;
-  isValid: true;
-  issuedAt?: number;
-  profileId: string;
-  scopes: Scope[];
-  userId: string;
-};
+export type TokenInfo = FacebookTypes.TokenInfo;
 
 export type MessagingFeatureReview = {
   feature: string;
@@ -561,22 +666,496 @@ export type Persona = {
   profilePictureUrl: string;
 };
 
-export type SubscriptionFields = {
-  name: string;
-  version: string;
+export type SubscriptionFields = FacebookTypes.SubscriptionFields;
+
+export type MessengerSubscription = FacebookTypes.Subscription;
+
+export type BatchFile = FacebookTypes.BatchFile;
+
+export type BatchItem = FacebookTypes.BatchItem;
+
+export type Paging = FacebookTypes.Paging;
+
+export type PagingResult<T> = FacebookTypes.PagingResult<T>;
+
+export type PagingOptions = FacebookTypes.PagingOptions;
+
+export type PaginateOptions = FacebookTypes.PaginateOptions;
+
+export type ConversationField =
+  | 'id'
+  | 'link'
+  | 'message_count'
+  | 'snippet'
+  | 'unread_count'
+  | 'updated_time'
+  | 'participants'
+  | 'senders'
+  | 'can_reply'
+  | 'is_subscribed';
+
+export type ConversationsOptions = PagingOptions & {
+  /** ID of the page. Defaults to `me`, the page of the access token. */
+  pageId?: string;
+
+  /** Defaults to `messenger`. */
+  platform?: 'messenger' | 'instagram';
+
+  /** PSID of the user to find the conversation with. */
+  userId?: string;
+
+  /** Defaults to `id` and `updated_time`. */
+  fields?: ConversationField[];
 };
 
-export type MessengerSubscription = {
-  object: string;
-  callbackUrl: string;
-  active: boolean;
-  fields: SubscriptionFields[];
+export type ConversationParticipant = {
+  id: string;
+  name?: string;
+  email?: string;
+};
+
+export type Conversation = {
+  id: string;
+  link?: string;
+  messageCount?: number;
+  snippet?: string;
+  unreadCount?: number;
+  updatedTime?: string;
+  participants?: PagingResult<ConversationParticipant>;
+  senders?: PagingResult<ConversationParticipant>;
+  canReply?: boolean;
+  isSubscribed?: boolean;
+};
+
+export type ConversationMessageField =
+  | 'id'
+  | 'created_time'
+  | 'from'
+  | 'to'
+  | 'message'
+  | 'attachments'
+  | 'sticker'
+  | 'tags'
+  | 'shares';
+
+export type ConversationMessagesOptions = PagingOptions & {
+  /** Defaults to `id`, `created_time`, `from`, `to` and `message`. */
+  fields?: ConversationMessageField[];
 };
 
-export type BatchItem = {
-  method: string;
-  relativeUrl: string;
+export type ConversationMessageAttachment = {
+  id: string;
+  mimeType?: string;
   name?: string;
-  body?: Record<string, any>;
-  responseAccessPath?: string;
-} & BatchRequestOptions;
+  size?: number;
+  fileUrl?: string;
+  imageData?: {
+    url: string;
+    previewUrl: string;
+    width: number;
+    height: number;
+  };
+  videoData?: {
+    url: string;
+    previewUrl: string;
+    width: number;
+    height: number;
+  };
+};
+
+export type ConversationMessage = {
+  id: string;
+  createdTime: string;
+  from?: ConversationParticipant;
+  to?: PagingResult<ConversationParticipant>;
+
+  /** The text of the message. Empty if the message only has attachments. */
+  message?: string;
+  attachments?: PagingResult<ConversationMessageAttachment>;
+
+  /** The URL of the sticker. */
+  sticker?: string;
+  tags?: PagingResult<{ name: string }>;
+};
+
+/**
+ * A message recorded by `MessengerMockServer`.
+ */
+export type MockSentMessage = {
+  recipient: Recipient;
+  messagingType?: MessagingType;
+  tag?: MessageTag;
+  message?: Message;
+  senderAction?: SenderAction;
+  personaId?: string;
+};
+
+export type EventSender = {
+  /** The PSID of the user, or the page ID for echoes. */
+  id: string;
+};
+
+export type EventRecipient = {
+  /** The page ID, or the PSID of the user for echoes. */
+  id: string;
+};
+
+export type MessengerEventBase = {
+  sender: EventSender;
+  recipient: EventRecipient;
+
+  /** Time of the event in milliseconds. */
+  timestamp: number;
+};
+
+export type MediaEventAttachment = {
+  type: 'audio' | 'file' | 'image' | 'video';
+  payload: {
+    url: string;
+
+    /** Only included when the image is a sticker. */
+    stickerId?: number;
+  };
+};
+
+export type LocationEventAttachment = {
+  type: 'location';
+  payload: {
+    coordinates: {
+      lat: number;
+      long: number;
+    };
+  };
+};
+
+export type FallbackEventAttachment = {
+  type: 'fallback';
+  payload: null;
+  title?: string;
+  url?: string;
+};
+
+export type TemplateEventAttachment = {
+  type: 'template';
+  payload: Record<string, any>;
+};
+
+export type EventAttachment =
+  | MediaEventAttachment
+  | LocationEventAttachment
+  | FallbackEventAttachment
+  | TemplateEventAttachment;
+
+export type EventMessage = {
+  mid: string;
+  text?: string;
+  attachments?: EventAttachment[];
+
+  /** Only included when the message is sent by tapping a quick reply. */
+  quickReply?: {
+    payload: string;
+  };
+
+  /** Only included when the message is a reply to a previous message. */
+  replyTo?: {
+    mid: string;
+  };
+
+  /** Only included when built-in NLP is enabled. */
+  nlp?: Record<string, any>;
+};
+
+export type EventReferral = {
+  ref?: string;
+  source:
+    | 'SHORTLINK'
+    | 'ADS'
+    | 'MESSENGER_CODE'
+    | 'DISCOVER_TAB'
+    | 'CUSTOMER_CHAT_PLUGIN';
+  type: 'OPEN_THREAD';
+
+  /** Only included when the source is `ADS`. */
+  adId?: string;
+
+  /** Only included when the source is `CUSTOMER_CHAT_PLUGIN`. */
+  refererUri?: string;
+};
+
+export type MessageEvent = MessengerEventBase & {
+  message: EventMessage;
+};
+
+/**
+ * A message sent by the page, subscribed with `message_echoes`.
+ */
+export type EchoEvent = MessengerEventBase & {
+  message: EventMessage & {
+    isEcho: true;
+
+    /** ID of the app which sent the message. */
+    appId?: number;
+
+    /** Custom string passed to the Send API as the `metadata` field. */
+    metadata?: string;
+  };
+};
+
+/**
+ * Subscribed with `message_reads`.
+ */
+export type ReadEvent = MessengerEventBase & {
+  read: {
+    /** All messages sent before this timestamp were read. */
+    watermark: number;
+  };
+};
+
+/**
+ * Subscribed with `message_deliveries`.
+ */
+export type DeliveryEvent = MessengerEventBase & {
+  delivery: {
+    mids?: string[];
+
+    /** All messages sent before this timestamp were delivered. */
+    watermark: number;
+  };
+};
+
+export type PostbackEvent = MessengerEventBase & {
+  postback: {
+    title: string;
+    payload: string;
+    mid?: string;
+
+    /** Only included when the postback is sent by the get started button of a referral. */
+    referral?: EventReferral;
+  };
+};
+
+export type ReferralEvent = MessengerEventBase & {
+  referral: EventReferral;
+};
+
+export type PluginOptin = {
+  /** The `data-ref` attribute of the plugin. */
+  ref?: string;
+
+  /** Only included when the optin is from the checkbox plugin. */
+  userRef?: string;
+};
+
+export type OneTimeNotifOptin = {
+  type: 'one_time_notif_req';
+  payload: string;
+
+  /** The token to send a message with `sendOneTimeNotifReqTemplate` once. */
+  oneTimeNotifToken: string;
+};
+
+export type RecurringNotifOptin = {
+  type: 'notification_messages';
+  payload: string;
+
+  /** The token to send messages with `sendRecurringNotifReqTemplate` at the chosen frequency until it expires. */
+  notificationMessagesToken: string;
+  notificationMessagesFrequency: NotificationMessagesFrequency;
+  notificationMessagesTimezone: string;
+
+  /** Time when the token expires in milliseconds. */
+  tokenExpiryTimestamp: number;
+
+  /** Whether the token is refreshed by the user opting in again. */
+  userTokenStatus: 'REFRESHED' | 'NOT_REFRESHED';
+
+  /** Only included when the user stops or resumes the notifications. */
+  notificationMessagesStatus?: 'STOP_NOTIFICATIONS' | 'RESUME_NOTIFICATIONS';
+  title?: string;
+};
+
+export type OptinEvent = MessengerEventBase & {
+  optin: PluginOptin | OneTimeNotifOptin | RecurringNotifOptin;
+};
+
+/**
+ * Sent to the app which receives thread control.
+ */
+export type PassThreadControlEvent = MessengerEventBase & {
+  passThreadControl: {
+    newOwnerAppId: string;
+    metadata?: string;
+  };
+};
+
+/**
+ * Sent to the app which thread control has been taken from.
+ */
+export type TakeThreadControlEvent = MessengerEventBase & {
+  takeThreadControl: {
+    previousOwnerAppId: string;
+    metadata?: string;
+  };
+};
+
+/**
+ * Sent to the primary receiver when a secondary receiver requests thread control.
+ */
+export type RequestThreadControlEvent = MessengerEventBase & {
+  requestThreadControl: {
+    requestedOwnerAppId: number;
+    metadata?: string;
+  };
+};
+
+export type ReactionEvent = MessengerEventBase & {
+  reaction: {
+    /** Not included when the action is `unreact`. */
+    reaction?: MessageReaction;
+
+    /** Not included when the action is `unreact`. */
+    emoji?: string;
+    action: 'react' | 'unreact';
+
+    /** ID of the message reacted to. */
+    mid: string;
+  };
+};
+
+/**
+ * Events not covered by other types, e.g. `account_linking`.
+ */
+export type UnknownEvent = MessengerEventBase & Record<string, any>;
+
+/**
+ * Events by the `type` assigned by `MessengerWebhook.parseWebhookBody`.
+ */
+export type MessengerEventMap = {
+  message: MessageEvent;
+  echo: EchoEvent;
+  read: ReadEvent;
+  delivery: DeliveryEvent;
+  postback: PostbackEvent;
+  referral: ReferralEvent;
+  optin: OptinEvent;
+  passThreadControl: PassThreadControlEvent;
+  takeThreadControl: TakeThreadControlEvent;
+  requestThreadControl: RequestThreadControlEvent;
+  reaction: ReactionEvent;
+  unknown: UnknownEvent;
+};
+
+export type MessengerEventType = keyof MessengerEventMap;
+
+export type MessengerEvent = MessengerEventMap[MessengerEventType];
+
+export type MessengerWebhookEntry = {
+  /** The page ID. */
+  id: string;
+  time: number;
+
+  /** Events sent to the thread owner. */
+  messaging?: MessengerEvent[];
+
+  /** Events sent to apps which are not the thread owner, when the page uses the handover protocol. */
+  standby?: MessengerEvent[];
+};
+
+/**
+ * The request body of a webhook request sent from Facebook.
+ */
+export type MessengerWebhookBody = {
+  object: 'page';
+  entry: MessengerWebhookEntry[];
+};
+
+/**
+ * Helpers attached to every event returned from `MessengerWebhook.parseWebhookBody`.
+ */
+export type MessengerEventHelpers<T extends MessengerEventType> = {
+  type: T;
+
+  /** ID of the page which receives the event. */
+  pageId: string;
+
+  /** Whether the event comes from `standby`, i.e. the app is not the thread owner and shouldn't respond to it. */
+  isStandby: boolean;
+};
+
+export type ParsedMessengerEvent<
+  T extends MessengerEventType = MessengerEventType
+> = {
+  [K in T]: MessengerEventMap[K] & MessengerEventHelpers<K>;
+}[T];
+
+export type MessengerEventHandler<
+  T extends MessengerEventType = MessengerEventType
+> = (event: ParsedMessengerEvent<T>) => void | Promise<void>;
+
+export type MessengerEventHandlers = {
+  [K in MessengerEventType]?: MessengerEventHandler<K>;
+} & {
+  /** Called with events without their own handlers. */
+  default?: MessengerEventHandler;
+};
+
+export type NotificationTokenType =
+  | 'one_time_notif_req'
+  | 'notification_messages';
+
+/**
+ * A token granted by the user to send notifications outside the 24-hour window.
+ */
+export type NotificationToken = {
+  type: NotificationTokenType;
+  token: string;
+
+  /** The page-scoped ID of the user who opted in. */
+  psid: string;
+
+  /** The topic of the notifications set in the opt-in request. */
+  payload: string;
+
+  /** Time when the token expires in milliseconds. */
+  expiresAt: number;
+
+  /** Only included in recurring notification tokens. */
+  frequency?: NotificationMessagesFrequency;
+
+  /** Only included in recurring notification tokens. */
+  timezone?: string;
+
+  /** Time of the last notification sent with the token in milliseconds. */
+  lastSentAt?: number;
+};
+
+/**
+ * The store of notification tokens keyed by the token type, the user and the topic, which can be backed by Redis or a database to share tokens between processes.
+ */
+export type NotificationTokenStore = {
+  get: (
+    key: string
+  ) => NotificationToken | undefined | Promise<NotificationToken | undefined>;
+  set: (key: string, token: NotificationToken) => void | Promise<void>;
+  delete: (key: string) => void | Promise<void>;
+
+  /**
+   * Gets and removes the token atomically, so a one-time notification token can't be taken by concurrent sends twice.
+   */
+  take: (
+    key: string
+  ) => NotificationToken | undefined | Promise<NotificationToken | undefined>;
+};
+
+export type NotificationTokenErrorCode =
+  | 'TOKEN_NOT_FOUND'
+  | 'TOKEN_EXPIRED'
+  | 'FREQUENCY_LIMITED';
+
+export type NotificationTokenErrorInfo = {
+  code: NotificationTokenErrorCode;
+  type: NotificationTokenType;
+  psid: string;
+  payload: string;
+  retryAt?: number;
+};
@@ -0,0 +1,343 @@
+import { camelcaseKeysDeep } from 'messaging-api-common';
+
+import MessageValidationError from './MessageValidationError';
+import * as MessengerTypes from './MessengerTypes';
+
+// https://developers.facebook.com/docs/messenger-platform/send-messages/template
+const LIMITS = {
+  text: 2000,
+  buttonTemplateText: 640,
+  quickReplies: 13,
+  quickReplyTitle: 20,
+  payload: 1000,
+  buttons: 3,
+  buttonTitle: 20,
+  genericElements: 10,
+  elementTitle: 80,
+  elementSubtitle: 80,
+  mediaElements: 1,
+};
+
+type Issues = MessengerTypes.MessageValidationIssue[];
+
+// counts code points instead of UTF-16 code units, so emojis count as single characters
+function getLength(value: string): number {
+  return Array.from(value).length;
+}
+
+function checkString(
+  issues: Issues,
+  path: string,
+  value: unknown,
+  { required = false, max }: { required?: boolean; max?: number }
+): void {
+  if (value === undefined || value === null) {
+    if (required) {
+      issues.push({ path, message: 'is required' });
+    }
+    return;
+  }
+
+  if (typeof value !== 'string') {
+    issues.push({ path, message: `must be a string, got ${typeof value}` });
+    return;
+  }
+
+  if (required && value.length === 0) {
+    issues.push({ path, message: 'must not be empty' });
+    return;
+  }
+
+  if (max !== undefined && getLength(value) > max) {
+    issues.push({
+      path,
+      message: `must be at most ${max} characters, got ${getLength(value)}`,
+    });
+  }
+}
+
+function checkUrl(issues: Issues, path: string, value: unknown): void {
+  if (value === undefined || value === null) {
+    return;
+  }
+
+  if (typeof value !== 'string' || !/^https?:\/\//i.test(value)) {
+    issues.push({ path, message: 'must be a URL with http or https scheme' });
+  }
+}
+
+function checkArray(
+  issues: Issues,
+  path: string,
+  value: unknown,
+  { min = 0, max }: { min?: number; max: number }
+): value is any[] {
+  if (value === undefined || value === null) {
+    if (min > 0) {
+      issues.push({ path, message: 'is required' });
+    }
+    return false;
+  }
+
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: 'must be an array' });
+    return false;
+  }
+
+  if (value.length < min) {
+    issues.push({
+      path,
+      message: `must have at least ${min} items, got ${value.length}`,
+    });
+  } else if (value.length > max) {
+    issues.push({
+      path,
+      message: `must have at most ${max} items, got ${value.length}`,
+    });
+  }
+
+  return true;
+}
+
+function checkButton(
+  issues: Issues,
+  path: string,
+  button: MessengerTypes.TemplateButton
+): void {
+  checkString(issues, `${path}.title`, button.title, {
+    required: button.type !== 'account_unlink',
+    max: LIMITS.buttonTitle,
+  });
+
+  switch (button.type) {
+    case 'web_url':
+      checkString(issues, `${path}.url`, button.url, { required: true });
+      checkUrl(issues, `${path}.url`, button.url);
+      break;
+    case 'account_link':
+      checkUrl(issues, `${path}.url`, button.url);
+      break;
+    case 'postback':
+      checkString(issues, `${path}.payload`, button.payload, {
+        required: true,
+        max: LIMITS.payload,
+      });
+      break;
+    case 'phone_number':
+      checkString(issues, `${path}.payload`, button.payload, {
+        required: true,
+      });
+      if (
+        typeof button.payload === 'string' &&
+        !button.payload.startsWith('+')
+      ) {
+        issues.push({
+          path: `${path}.payload`,
+          message: 'must be a phone number starting with +',
+        });
+      }
+      break;
+    default:
+  }
+}
+
+function checkButtons(
+  issues: Issues,
+  path: string,
+  buttons: unknown,
+  { min = 0 }: { min?: number } = {}
+): void {
+  if (checkArray(issues, path, buttons, { min, max: LIMITS.buttons })) {
+    buttons.forEach((button, i) =>
+      checkButton(issues, `${path}[${i}]`, button)
+    );
+  }
+}
+
+function checkTemplate(
+  issues: Issues,
+  path: string,
+  payload: MessengerTypes.TemplateAttachmentPayload
+): void {
+  switch (payload.templateType) {
+    case 'button':
+      checkString(issues, `${path}.text`, payload.text, {
+        required: true,
+        max: LIMITS.buttonTemplateText,
+      });
+      checkButtons(issues, `${path}.buttons`, payload.buttons, { min: 1 });
+      break;
+    case 'generic':
+      if (
+        checkArray(issues, `${path}.elements`, payload.elements, {
+          min: 1,
+          max: LIMITS.genericElements,
+        })
+      ) {
+        payload.elements.forEach(
+          (element: MessengerTypes.TemplateElement, i: number) => {
+            const elementPath = `${path}.elements[${i}]`;
+
+            checkString(issues, `${elementPath}.title`, element.title, {
+              required: true,
+              max: LIMITS.elementTitle,
+            });
+            checkString(issues, `${elementPath}.subtitle`, element.subtitle, {
+              max: LIMITS.elementSubtitle,
+            });
+            checkUrl(issues, `${elementPath}.imageUrl`, element.imageUrl);
+            if (element.defaultAction) {
+              checkUrl(
+                issues,
+                `${elementPath}.defaultAction.url`,
+                element.defaultAction.url
+              );
+            }
+            checkButtons(issues, `${elementPath}.buttons`, element.buttons);
+          }
+        );
+      }
+      break;
+    case 'media':
+      if (
+        checkArray(issues, `${path}.elements`, payload.elements, {
+          min: 1,
+          max: LIMITS.mediaElements,
+        })
+      ) {
+        payload.elements.forEach(
+          (element: MessengerTypes.MediaElement, i: number) => {
+            const elementPath = `${path}.elements[${i}]`;
+
+            checkUrl(issues, `${elementPath}.url`, element.url);
+            checkButtons(issues, `${elementPath}.buttons`, element.buttons);
+          }
+        );
+      }
+      break;
+    default:
+  }
+}
+
+function checkQuickReplies(
+  issues: Issues,
+  path: string,
+  quickReplies: unknown
+): void {
+  if (!checkArray(issues, path, quickReplies, { max: LIMITS.quickReplies })) {
+    return;
+  }
+
+  quickReplies.forEach((quickReply: MessengerTypes.QuickReply, i: number) => {
+    if (quickReply.contentType !== 'text') {
+      return;
+    }
+
+    const quickReplyPath = `${path}[${i}]`;
+
+    checkString(issues, `${quickReplyPath}.title`, quickReply.title, {
+      required: !quickReply.imageUrl,
+      max: LIMITS.quickReplyTitle,
+    });
+    checkString(issues, `${quickReplyPath}.payload`, quickReply.payload, {
+      required: true,
+      max: LIMITS.payload,
+    });
+    checkUrl(issues, `${quickReplyPath}.imageUrl`, quickReply.imageUrl);
+  });
+}
+
+/**
+ * Finds the values in the message which violate the limits of the Send API, e.g. the length of texts and titles, the number of buttons, elements and quick replies, and the schemes of URLs.
+ *
+ * @param message - A [message](https://developers.facebook.com/docs/messenger-platform/reference/send-api#message) object.
+ * @returns All the invalid values with their paths. Empty when the message is valid.
+ */
+function getMessageValidationIssues(
+  message: MessengerTypes.Message
+): MessengerTypes.MessageValidationIssue[] {
+  const issues: Issues = [];
+  const { text, attachment, quickReplies } = camelcaseKeysDeep(message) as {
+    text?: string;
+    attachment?: MessengerTypes.Attachment;
+    quickReplies?: MessengerTypes.QuickReply[];
+  };
+
+  if (text === undefined && attachment === undefined) {
+    issues.push({
+      path: 'message',
+      message: 'must have either text or attachment',
+    });
+  }
+
+  checkString(issues, 'message.text', text, { max: LIMITS.text });
+
+  if (attachment && attachment.payload) {
+    if (attachment.type === 'template') {
+      checkTemplate(issues, 'message.attachment.payload', attachment.payload);
+    } else if ('url' in attachment.payload) {
+      checkUrl(
+        issues,
+        'message.attachment.payload.url',
+        attachment.payload.url
+      );
+    }
+  }
+
+  checkQuickReplies(issues, 'message.quickReplies', quickReplies);
+
+  return issues;
+}
+
+/**
+ * Validates the message locally before sending it, so limit violations are reported with the paths of the invalid values instead of the 400 errors of the Graph API.
+ *
+ * @param message - A [message](https://developers.facebook.com/docs/messenger-platform/reference/send-api#message) object.
+ * @throws {@link MessageValidationError} with all the invalid values when the message is invalid.
+ *
+ * @example
+ *
+ * ```js
+ * Messenger.validateMessage(
+ *   Messenger.createButtonTemplate('What do you want to do next?', buttons)
+ * );
+ * // MessageValidationError: Message Validation Error - message.attachment.payload.buttons must have at most 3 items, got 4
+ * ```
+ */
+function validateMessage(message: MessengerTypes.Message): void {
+  const issues = getMessageValidationIssues(message);
+
+  if (issues.length > 0) {
+    throw new MessageValidationError(issues);
+  }
+}
+
+/**
+ * Validates the messages sent by the requests of the batch, e.g. the requests built with `MessengerBatch.send*`. Requests without messages are skipped.
+ *
+ * @param batch - The requests of the batch.
+ * @throws {@link MessageValidationError} with all the invalid values when any message is invalid. The paths are prefixed with the indexes of the requests, e.g. `batch[1].message.text`.
+ */
+function validateBatch(batch: MessengerTypes.BatchItem[]): void {
+  const issues: Issues = [];
+
+  batch.forEach((item, i) => {
+    if (item.body && item.body.message) {
+      getMessageValidationIssues(item.body.message).forEach((issue) =>
+        issues.push({ ...issue, path: `batch[${i}].${issue.path}` })
+      );
+    }
+  });
+
+  if (issues.length > 0) {
+    throw new MessageValidationError(issues);
+  }
+}
+
+const MessengerValidation = {
+  getMessageValidationIssues,
+  validateMessage,
+  validateBatch,
+};
+
+export default MessengerValidation;
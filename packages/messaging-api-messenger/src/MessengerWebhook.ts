@@ -0,0 +1,271 @@
+import invariant from 'ts-invariant';
+import {
+  WebhookMiddleware,
+  WebhookMiddlewareOptions,
+  WebhookPlatform,
+  camelcaseKeysDeep,
+  createWebhookMiddleware as createPlatformWebhookMiddleware,
+  safeCompare,
+} from 'messaging-api-common';
+
+import MessengerClient from './MessengerClient';
+import * as MessengerTypes from './MessengerTypes';
+
+// types of events other than messages, which are the same as their payload fields
+const PAYLOAD_EVENT_TYPES: MessengerTypes.MessengerEventType[] = [
+  'read',
+  'delivery',
+  'postback',
+  'referral',
+  'optin',
+  'passThreadControl',
+  'takeThreadControl',
+  'requestThreadControl',
+  'reaction',
+];
+
+/**
+ * Gets the type of the event by its payload field, e.g. `postback`. Messages with `isEcho` are typed as `echo`.
+ *
+ * @param event - The camelcased webhook event object
+ * @returns The event type, or `unknown` if the event is not supported
+ */
+function getEventType(
+  event: MessengerTypes.MessengerEvent
+): MessengerTypes.MessengerEventType {
+  if ('message' in event && event.message) {
+    return event.message.isEcho ? 'echo' : 'message';
+  }
+
+  return PAYLOAD_EVENT_TYPES.find((type) => type in event) || 'unknown';
+}
+
+/**
+ * Attaches `type`, `pageId` and `isStandby` to the event.
+ *
+ * @param event - The camelcased webhook event object
+ * @param options - Where the event comes from
+ * @param options.pageId - ID of the page of the entry
+ * @param options.isStandby - Whether the event comes from `standby`
+ * @returns The event with helpers
+ */
+function parseEvent(
+  event: MessengerTypes.MessengerEvent,
+  { pageId, isStandby }: { pageId: string; isStandby: boolean }
+): MessengerTypes.ParsedMessengerEvent {
+  return {
+    ...event,
+    type: getEventType(event),
+    pageId,
+    isStandby,
+  } as MessengerTypes.ParsedMessengerEvent;
+}
+
+/**
+ * Parses the body of a webhook request sent from Facebook, and flattens `entry[].messaging[]` and `entry[].standby[]` into a list of typed events. Events from `standby` are marked with `isStandby`, so a bot using the handover protocol can tell whether it's the thread owner.
+ *
+ * @param body - The raw request body, or the body which has already been parsed as JSON.
+ * @returns The camelcased events with helpers.
+ *
+ * @example
+ *
+ * ```js
+ * MessengerWebhook.parseWebhookBody(rawBody);
+ * // [
+ * //   {
+ * //     type: 'message',
+ * //     pageId: '1895382890692546',
+ * //     isStandby: false,
+ * //     sender: { id: '1412611362105802' },
+ * //     recipient: { id: '1895382890692546' },
+ * //     timestamp: 1458692752478,
+ * //     message: { mid: 'mid.1457764197618:41d102a3e1ae206a38', text: 'hello' },
+ * //   },
+ * // ]
+ * ```
+ */
+function parseWebhookBody(
+  body: string | Buffer | MessengerTypes.MessengerWebhookBody
+): MessengerTypes.ParsedMessengerEvent[] {
+  const webhookBody = (typeof body === 'string' || Buffer.isBuffer(body)
+    ? camelcaseKeysDeep(JSON.parse(body.toString()))
+    : camelcaseKeysDeep(body)) as MessengerTypes.MessengerWebhookBody;
+
+  return (webhookBody.entry || []).reduce<
+    MessengerTypes.ParsedMessengerEvent[]
+  >(
+    (events, entry) =>
+      events.concat(
+        (entry.messaging || []).map((event) =>
+          parseEvent(event, { pageId: entry.id, isStandby: false })
+        ),
+        (entry.standby || []).map((event) =>
+          parseEvent(event, { pageId: entry.id, isStandby: true })
+        )
+      ),
+    []
+  );
+}
+
+/**
+ * Creates a function which dispatches events to the handlers by their types. It can be passed to `createWebhookMiddleware` as `onEvents`.
+ *
+ * Events are handled one by one in order. Events sent to the thread owner are handled by the top-level handlers, while `standby` events are only handled by the handlers in `standby`, so the bot won't respond to threads controlled by other apps. Events without handlers are ignored.
+ *
+ * @param handlers - The handlers by event types, with `default` for other events and `standby` for events from `standby`
+ * @returns The dispatch function
+ *
+ * @example
+ *
+ * ```js
+ * const dispatch = MessengerWebhook.createEventDispatcher({
+ *   message: async (event) => {
+ *     await client.sendText(event.sender.id, event.message.text);
+ *   },
+ *   passThreadControl: async (event) => {
+ *     // the bot becomes the thread owner
+ *   },
+ *   standby: {
+ *     message: async (event) => {
+ *       // the message is handled by another app, e.g. the page inbox
+ *     },
+ *   },
+ * });
+ *
+ * await dispatch(MessengerWebhook.parseWebhookBody(rawBody));
+ * ```
+ */
+function createEventDispatcher({
+  standby = {},
+  ...handlers
+}: MessengerTypes.MessengerEventHandlers & {
+  standby?: MessengerTypes.MessengerEventHandlers;
+}): (events: MessengerTypes.ParsedMessengerEvent[]) => Promise<void> {
+  return (events) =>
+    events.reduce<Promise<void>>((promise, event) => {
+      const eventHandlers = event.isStandby ? standby : handlers;
+      const handler = (eventHandlers[event.type] || eventHandlers.default) as
+        | MessengerTypes.MessengerEventHandler
+        | undefined;
+
+      return handler ? promise.then(() => handler(event)) : promise;
+    }, Promise.resolve());
+}
+
+/**
+ * Creates a webhook platform adapter for Messenger, which answers the `hub.challenge` handshake, verifies the `X-Hub-Signature-256` header and parses events.
+ *
+ * @param client - The client with `appSecret`, e.g. `MessengerClient` or `InstagramClient`
+ * @param verifyToken - The verify token set in the webhook settings of the app
+ * @returns The platform adapter
+ */
+function createWebhookPlatform(
+  client: Pick<MessengerClient, 'appSecret' | 'verifySignature'>,
+  verifyToken: string
+): WebhookPlatform<MessengerTypes.ParsedMessengerEvent> {
+  invariant(
+    client.appSecret,
+    'MessengerWebhook: `appSecret` is required to verify webhook requests.'
+  );
+
+  return {
+    platform: 'messenger',
+    methods: ['GET', 'POST'],
+    handleRequest(request) {
+      if (request.method === 'GET') {
+        const { query } = request;
+
+        const token = query['hub.verify_token'];
+
+        if (
+          query['hub.mode'] === 'subscribe' &&
+          typeof token === 'string' &&
+          safeCompare(token, verifyToken)
+        ) {
+          return {
+            response: { status: 200, body: query['hub.challenge'] as string },
+          };
+        }
+
+        return { response: { status: 403 } };
+      }
+
+      if (request.method !== 'POST') {
+        return { response: { status: 405 } };
+      }
+
+      const signature = (request.headers['x-hub-signature-256'] ||
+        request.headers['x-hub-signature']) as string;
+
+      if (!client.verifySignature(request.rawBody, signature)) {
+        return { response: { status: 401 } };
+      }
+
+      let events;
+      try {
+        events = parseWebhookBody(request.rawBody);
+      } catch (_) {
+        return { response: { status: 400 } };
+      }
+
+      return {
+        response: { status: 200, body: 'EVENT_RECEIVED' },
+        events,
+      };
+    },
+  };
+}
+
+/**
+ * Creates a webhook middleware for Express, Koa or Node.js http server.
+ *
+ * The middleware answers the verification request using the verify token, verifies the signature using the app secret of the client, responds `200` immediately and then calls `onEvents` with the parsed events.
+ *
+ * @param options - The options of the middleware
+ * @param options.client - The client with `appSecret`
+ * @param options.verifyToken - The verify token set in the webhook settings of the app
+ * @param options.onEvents - The callback to be called with parsed events
+ * @param options.onError - The callback to be called when any error occurs
+ * @returns The middleware function
+ *
+ * @example
+ *
+ * ```js
+ * app.use(
+ *   '/webhooks/messenger',
+ *   MessengerWebhook.createWebhookMiddleware({
+ *     client,
+ *     verifyToken: VERIFY_TOKEN,
+ *     onEvents: async (events) => {
+ *       // handle events
+ *     },
+ *   })
+ * );
+ * ```
+ */
+function createWebhookMiddleware({
+  client,
+  verifyToken,
+  ...options
+}: {
+  client: MessengerClient;
+  verifyToken: string;
+} & WebhookMiddlewareOptions<
+  MessengerTypes.ParsedMessengerEvent
+>): WebhookMiddleware {
+  return createPlatformWebhookMiddleware(
+    createWebhookPlatform(client, verifyToken),
+    options
+  );
+}
+
+const MessengerWebhook = {
+  parseWebhookBody,
+  parseEvent,
+  getEventType,
+  createEventDispatcher,
+  createWebhookPlatform,
+  createWebhookMiddleware,
+};
+
+export default MessengerWebhook;
@@ -0,0 +1,58 @@
+import * as MessengerTypes from './MessengerTypes';
+
+const MESSAGES: Record<MessengerTypes.NotificationTokenErrorCode, string> = {
+  TOKEN_NOT_FOUND: 'no token has been granted',
+  TOKEN_EXPIRED: 'the token has expired',
+  FREQUENCY_LIMITED: 'the notification frequency has been reached',
+};
+
+export default class NotificationTokenError extends Error {
+  readonly code: MessengerTypes.NotificationTokenErrorCode;
+
+  readonly type: MessengerTypes.NotificationTokenType;
+
+  /**
+   * The page-scoped ID of the user to notify.
+   */
+  readonly psid: string;
+
+  /**
+   * The topic of the notification.
+   */
+  readonly payload: string;
+
+  /**
+   * Time in milliseconds when the next notification can be sent. Only included when the code is `FREQUENCY_LIMITED`.
+   */
+  readonly retryAt?: number;
+
+  /**
+   * @example
+   * ```js
+   * new NotificationTokenError({
+   *   code: 'TOKEN_EXPIRED',
+   *   type: 'notification_messages',
+   *   psid: 'PSID',
+   *   payload: 'WEEKLY_DEALS',
+   * })
+   * ```
+   */
+  constructor({
+    code,
+    type,
+    psid,
+    payload,
+    retryAt,
+  }: MessengerTypes.NotificationTokenErrorInfo) {
+    super(
+      `Notification Token Error - ${MESSAGES[code]} (${type} ${payload} for ${psid})`
+    );
+
+    this.code = code;
+    this.type = type;
+    this.psid = psid;
+    this.payload = payload;
+    this.retryAt = retryAt;
+    this.name = 'NotificationTokenError';
+  }
+}
@@ -0,0 +1,307 @@
+import crypto from 'crypto';
+
+import MockAdapter from 'axios-mock-adapter';
+
+import FacebookClient from '../FacebookClient';
+
+const ACCESS_TOKEN = '1234567890';
+const APP_ID = 'APP_ID';
+const APP_SECRET = 'APP_SECRET';
+
+const createMock = (
+  config: { appId?: string; appSecret?: string } = {}
+): { client: FacebookClient; mock: MockAdapter } => {
+  const client = new FacebookClient({
+    accessToken: ACCESS_TOKEN,
+    ...config,
+  });
+  const mock = new MockAdapter(client.axios);
+  return { client, mock };
+};
+
+const getAppSecretProof = (accessToken: string): string =>
+  crypto.createHmac('sha256', APP_SECRET).update(accessToken).digest('hex');
+
+describe('constructor', () => {
+  it('should create axios with graph api version', () => {
+    const client = new FacebookClient({
+      accessToken: ACCESS_TOKEN,
+      version: 'v8.0',
+    });
+
+    expect(client.version).toEqual('8.0');
+    expect(client.axios.defaults.baseURL).toEqual(
+      'https://graph.facebook.com/v8.0/'
+    );
+  });
+});
+
+describe('#get', () => {
+  it('should call graph api with fields and snakecased params', async () => {
+    const { client, mock } = createMock();
+
+    let url;
+    let params;
+    mock.onGet().reply((config) => {
+      url = config.url;
+      params = config.params;
+      return [200, { data: [{ id: '1895382890692546', fan_count: 100 }] }];
+    });
+
+    const res = await client.get('/me/accounts', {
+      fields: ['id', 'fan_count'],
+      isPlace: false,
+      limit: 10,
+    });
+
+    expect(url).toEqual('/me/accounts');
+    expect(params).toEqual({
+      access_token: ACCESS_TOKEN,
+      fields: 'id,fan_count',
+      is_place: false,
+      limit: 10,
+    });
+    expect(res).toEqual({ data: [{ id: '1895382890692546', fanCount: 100 }] });
+  });
+
+  it('should compute appsecret_proof with the access token in params', async () => {
+    const { client, mock } = createMock({
+      appId: APP_ID,
+      appSecret: APP_SECRET,
+    });
+
+    let url;
+    mock.onGet().reply((config) => {
+      url = config.url;
+      return [200, { data: [] }];
+    });
+
+    await client.get(`/${APP_ID}/subscriptions`, {
+      accessToken: client.getAppAccessToken(),
+    });
+
+    expect(url).toEqual(
+      `/${APP_ID}/subscriptions?appsecret_proof=${getAppSecretProof(
+        `${APP_ID}|${APP_SECRET}`
+      )}`
+    );
+  });
+
+  it('should prefix errors with Graph API', async () => {
+    const { client, mock } = createMock();
+
+    mock.onGet().reply(400, {
+      error: {
+        message: 'Invalid OAuth access token.',
+        type: 'OAuthException',
+        code: 190,
+      },
+    });
+
+    await expect(client.get('/me')).rejects.toThrow(
+      'Graph API - 190 OAuthException Invalid OAuth access token.'
+    );
+  });
+});
+
+describe('#post', () => {
+  it('should call graph api with snakecased body', async () => {
+    const { client, mock } = createMock();
+
+    let url;
+    let params;
+    let data;
+    mock.onPost().reply((config) => {
+      url = config.url;
+      params = config.params;
+      data = config.data;
+      return [200, { success: true }];
+    });
+
+    const res = await client.post('/me/subscribed_apps', {
+      subscribedFields: ['messages', 'messaging_postbacks'],
+    });
+
+    expect(url).toEqual('/me/subscribed_apps');
+    expect(params).toEqual({ access_token: ACCESS_TOKEN });
+    expect(JSON.parse(data)).toEqual({
+      subscribed_fields: ['messages', 'messaging_postbacks'],
+    });
+    expect(res).toEqual({ success: true });
+  });
+});
+
+describe('#delete', () => {
+  it('should call graph api', async () => {
+    const { client, mock } = createMock();
+
+    let url;
+    let params;
+    mock.onDelete().reply((config) => {
+      url = config.url;
+      params = config.params;
+      return [200, { success: true }];
+    });
+
+    const res = await client.delete('/me/subscribed_apps');
+
+    expect(url).toEqual('/me/subscribed_apps');
+    expect(params).toEqual({ access_token: ACCESS_TOKEN });
+    expect(res).toEqual({ success: true });
+  });
+});
+
+describe('#paginate', () => {
+  it('should follow the after cursor while the next page exists', async () => {
+    const { client, mock } = createMock();
+
+    mock
+      .onGet('/me/feed')
+      .replyOnce(200, {
+        data: [{ id: '1' }, { id: '2' }],
+        paging: {
+          cursors: { before: 'BEFORE', after: 'AFTER' },
+          next: 'https://graph.facebook.com/v6.0/me/feed?after=AFTER',
+        },
+      })
+      .onGet('/me/feed')
+      .replyOnce(200, {
+        data: [{ id: '3' }],
+        paging: { cursors: { before: 'AFTER', after: 'LAST' } },
+      });
+
+    const posts = [];
+    for await (const post of client.paginate('/me/feed', {
+      fields: ['id'],
+      pageSize: 2,
+    })) {
+      posts.push(post);
+    }
+
+    expect(posts).toEqual([{ id: '1' }, { id: '2' }, { id: '3' }]);
+    expect(mock.history.get.map(({ params }) => params)).toEqual([
+      { access_token: ACCESS_TOKEN, fields: 'id', limit: 2 },
+      { access_token: ACCESS_TOKEN, fields: 'id', limit: 2, after: 'AFTER' },
+    ]);
+  });
+
+  it('should follow the next url on time-based edges without cursors', async () => {
+    const { client, mock } = createMock();
+
+    mock
+      .onGet('/me/feed')
+      .replyOnce(200, {
+        data: [{ id: '1' }, { id: '2' }],
+        paging: {
+          previous:
+            'https://graph.facebook.com/v6.0/me/feed?since=1600000000&__paging_token=PREVIOUS',
+          next:
+            'https://graph.facebook.com/v6.0/me/feed?limit=2&until=1500000000&__paging_token=NEXT',
+        },
+      })
+      .onGet('/me/feed')
+      .replyOnce(200, { data: [{ id: '3' }], paging: {} });
+
+    const posts = [];
+    for await (const post of client.paginate('/me/feed', { pageSize: 2 })) {
+      posts.push(post);
+    }
+
+    expect(posts).toEqual([{ id: '1' }, { id: '2' }, { id: '3' }]);
+    expect(mock.history.get.map(({ params }) => params)).toEqual([
+      { access_token: ACCESS_TOKEN, limit: 2 },
+      { access_token: ACCESS_TOKEN, limit: 2, until: '1500000000' },
+    ]);
+  });
+
+  it('should stop at the limit', async () => {
+    const { client, mock } = createMock();
+
+    mock.onGet('/me/feed').reply(200, {
+      data: [{ id: '1' }, { id: '2' }, { id: '3' }],
+      paging: {
+        cursors: { before: 'BEFORE', after: 'AFTER' },
+        next: 'https://graph.facebook.com/v6.0/me/feed?after=AFTER',
+      },
+    });
+
+    const posts = [];
+    for await (const post of client.paginate('/me/feed', { limit: 2 })) {
+      posts.push(post);
+    }
+
+    expect(posts).toEqual([{ id: '1' }, { id: '2' }]);
+    expect(mock.history.get).toHaveLength(1);
+    expect(mock.history.get[0].params).toMatchObject({ limit: 2 });
+  });
+});
+
+describe('#getAppAccessToken', () => {
+  it('should compose app access token', () => {
+    const { client } = createMock({ appId: APP_ID, appSecret: APP_SECRET });
+
+    expect(client.getAppAccessToken()).toEqual(`${APP_ID}|${APP_SECRET}`);
+  });
+
+  it('should throw without app secret', () => {
+    const { client } = createMock({ appId: APP_ID });
+
+    expect(() => client.getAppAccessToken()).toThrow(
+      'App Secret is required to get app access token'
+    );
+  });
+});
+
+describe('#sendBatch', () => {
+  it('should send batch requests without messenger specific code', async () => {
+    const { client, mock } = createMock();
+
+    let data;
+    mock.onPost().reply((config) => {
+      data = config.data;
+      return [200, [{ code: 200, body: '{"id":"1895382890692546"}' }]];
+    });
+
+    const res = await client.sendBatch([
+      { method: 'GET', relativeUrl: 'me?fields=id' },
+    ]);
+
+    expect(JSON.parse(data)).toEqual({
+      access_token: ACCESS_TOKEN,
+      include_headers: true,
+      batch: [{ method: 'GET', relative_url: 'me?fields=id' }],
+    });
+    expect(res).toEqual([{ code: 200, body: { id: '1895382890692546' } }]);
+  });
+});
+
+describe('#withRequestOptions', () => {
+  it('should apply the request options to every method', async () => {
+    const { client, mock } = createMock();
+    const controller = {
+      aborted: false,
+      addEventListener: jest.fn(),
+      removeEventListener: jest.fn(),
+    };
+
+    let timeout;
+    let cancelToken;
+    mock.onGet('/me').reply((config) => {
+      timeout = config.timeout;
+      cancelToken = config.cancelToken;
+      return [200, { id: '1895382890692546', name: 'Bot Demo' }];
+    });
+
+    await client
+      .withRequestOptions({ signal: controller, timeout: 5000 })
+      .getPageInfo();
+
+    expect(timeout).toEqual(5000);
+    expect(cancelToken).toBeDefined();
+
+    await client.getPageInfo();
+
+    expect(timeout).toEqual(0);
+    expect(cancelToken).toBeUndefined();
+  });
+});
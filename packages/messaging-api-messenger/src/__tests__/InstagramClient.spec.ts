@@ -0,0 +1,441 @@
+import MockAdapter from 'axios-mock-adapter';
+
+import InstagramClient from '../InstagramClient';
+
+const ACCESS_TOKEN = '1234567890';
+const APP_SECRET = 'APP_SECRET';
+const IGSID = '1414121032205632';
+
+const createMock = (): { client: InstagramClient; mock: MockAdapter } => {
+  const client = new InstagramClient({
+    accessToken: ACCESS_TOKEN,
+  });
+  const mock = new MockAdapter(client.axios);
+  return { client, mock };
+};
+
+const reply = {
+  recipient_id: IGSID,
+  message_id: 'aWdfZAG1faXRlbToxOklHTWVzc2FnZAUlEOjE3ODQxNDAz',
+};
+
+describe('constructor', () => {
+  it('should share the request handling of facebook client', () => {
+    const client = new InstagramClient({
+      accessToken: ACCESS_TOKEN,
+      appSecret: APP_SECRET,
+      version: 'v8.0',
+    });
+
+    expect(client.accessToken).toEqual(ACCESS_TOKEN);
+    expect(client.appSecret).toEqual(APP_SECRET);
+    expect(client.version).toEqual('8.0');
+    expect(client.axios.defaults.baseURL).toEqual(
+      'https://graph.facebook.com/v8.0/'
+    );
+  });
+});
+
+describe('#getUserProfile', () => {
+  it('should call api with default fields', async () => {
+    const { client, mock } = createMock();
+
+    let url;
+    let params;
+    mock.onGet().reply((config) => {
+      url = config.url;
+      params = config.params;
+      return [
+        200,
+        { name: 'Peter Chang', profile_pic: 'https://example.com/pic.png' },
+      ];
+    });
+
+    const res = await client.getUserProfile(IGSID);
+
+    expect(url).toEqual(`/${IGSID}`);
+    expect(params).toEqual({
+      access_token: ACCESS_TOKEN,
+      fields: 'name,profile_pic',
+    });
+    expect(res).toEqual({
+      name: 'Peter Chang',
+      profilePic: 'https://example.com/pic.png',
+    });
+  });
+
+  it('should support instagram fields', async () => {
+    const { client, mock } = createMock();
+
+    let params;
+    mock.onGet().reply((config) => {
+      params = config.params;
+      return [200, { follower_count: 100, is_user_follow_business: true }];
+    });
+
+    const res = await client.getUserProfile(IGSID, {
+      fields: ['follower_count', 'is_user_follow_business'],
+    });
+
+    expect(params).toEqual({
+      access_token: ACCESS_TOKEN,
+      fields: 'follower_count,is_user_follow_business',
+    });
+    expect(res).toEqual({ followerCount: 100, isUserFollowBusiness: true });
+  });
+
+  it('should prefix errors with Instagram API', async () => {
+    const { client, mock } = createMock();
+
+    mock.onGet().reply(400, {
+      error: {
+        message: 'Invalid OAuth access token.',
+        type: 'OAuthException',
+        code: 190,
+      },
+    });
+
+    await expect(client.getUserProfile(IGSID)).rejects.toThrow(
+      'Instagram API - 190 OAuthException Invalid OAuth access token.'
+    );
+  });
+});
+
+describe('instagram profile', () => {
+  it('should get ice breakers with instagram platform', async () => {
+    const { client, mock } = createMock();
+
+    let url;
+    let params;
+    mock.onGet().reply((config) => {
+      url = config.url;
+      params = config.params;
+      return [
+        200,
+        {
+          data: [
+            {
+              ice_breakers: [
+                { question: 'Where are you located?', payload: 'LOCATION' },
+              ],
+            },
+          ],
+        },
+      ];
+    });
+
+    const res = await client.getIceBreakers();
+
+    expect(url).toEqual('/me/messenger_profile');
+    expect(params).toEqual({
+      access_token: ACCESS_TOKEN,
+      platform: 'instagram',
+      fields: 'ice_breakers',
+    });
+    expect(res).toEqual([
+      { question: 'Where are you located?', payload: 'LOCATION' },
+    ]);
+  });
+
+  it('should set persistent menu with instagram platform', async () => {
+    const { client, mock } = createMock();
+
+    let params;
+    let data;
+    mock.onPost().reply((config) => {
+      params = config.params;
+      data = config.data;
+      return [200, { result: 'success' }];
+    });
+
+    const res = await client.setPersistentMenu([
+      {
+        locale: 'default',
+        callToActions: [
+          { type: 'postback', title: 'Talk to an agent', payload: 'CARE_HELP' },
+        ],
+      },
+    ]);
+
+    expect(params).toEqual({
+      access_token: ACCESS_TOKEN,
+      platform: 'instagram',
+    });
+    expect(JSON.parse(data)).toEqual({
+      persistent_menu: [
+        {
+          locale: 'default',
+          call_to_actions: [
+            {
+              type: 'postback',
+              title: 'Talk to an agent',
+              payload: 'CARE_HELP',
+            },
+          ],
+        },
+      ],
+    });
+    expect(res).toEqual({ result: 'success' });
+  });
+
+  it('should delete ice breakers with instagram platform', async () => {
+    const { client, mock } = createMock();
+
+    let params;
+    let data;
+    mock.onDelete().reply((config) => {
+      params = config.params;
+      data = config.data;
+      return [200, { result: 'success' }];
+    });
+
+    await client.deleteIceBreakers();
+
+    expect(params).toEqual({
+      access_token: ACCESS_TOKEN,
+      platform: 'instagram',
+    });
+    expect(JSON.parse(data)).toEqual({ fields: ['ice_breakers'] });
+  });
+});
+
+describe('send api', () => {
+  it('should reject invalid messages when validateMessages is set', async () => {
+    const client = new InstagramClient({
+      accessToken: ACCESS_TOKEN,
+      validateMessages: true,
+    });
+    const mock = new MockAdapter(client.axios);
+
+    await expect(
+      client.sendText(IGSID, 'Pick a color', {
+        quickReplies: [
+          {
+            contentType: 'text',
+            title: 'A very very long color name',
+            payload: 'COLOR',
+          },
+        ],
+      })
+    ).rejects.toThrow(
+      'Message Validation Error - message.quickReplies[0].title must be at most 20 characters, got 27'
+    );
+    expect(mock.history.post).toHaveLength(0);
+  });
+
+  it('should send text with quick replies', async () => {
+    const { client, mock } = createMock();
+
+    let url;
+    let params;
+    let data;
+    mock.onPost().reply((config) => {
+      url = config.url;
+      params = config.params;
+      data = config.data;
+      return [200, reply];
+    });
+
+    const res = await client.sendText(IGSID, 'Hello!', {
+      quickReplies: [{ contentType: 'text', title: 'Red', payload: 'RED' }],
+    });
+
+    expect(url).toEqual('/me/messages');
+    expect(params).toEqual({ access_token: ACCESS_TOKEN });
+    expect(JSON.parse(data)).toEqual({
+      messaging_type: 'UPDATE',
+      recipient: { id: IGSID },
+      message: {
+        text: 'Hello!',
+        quick_replies: [{ content_type: 'text', title: 'Red', payload: 'RED' }],
+      },
+    });
+    expect(res).toEqual({
+      recipientId: IGSID,
+      messageId: 'aWdfZAG1faXRlbToxOklHTWVzc2FnZAUlEOjE3ODQxNDAz',
+    });
+  });
+
+  it('should send with HUMAN_AGENT tag', async () => {
+    const { client, mock } = createMock();
+
+    let data;
+    mock.onPost().reply((config) => {
+      data = config.data;
+      return [200, reply];
+    });
+
+    await client.sendImage(IGSID, 'https://example.com/vr.jpg', {
+      tag: 'HUMAN_AGENT',
+    });
+
+    expect(JSON.parse(data)).toEqual({
+      messaging_type: 'MESSAGE_TAG',
+      tag: 'HUMAN_AGENT',
+      recipient: { id: IGSID },
+      message: {
+        attachment: {
+          type: 'image',
+          payload: { url: 'https://example.com/vr.jpg' },
+        },
+      },
+    });
+  });
+
+  it('should send media share and like heart', async () => {
+    const { client, mock } = createMock();
+
+    const data: Record<string, any>[] = [];
+    mock.onPost().reply((config) => {
+      data.push(JSON.parse(config.data));
+      return [200, reply];
+    });
+
+    await client.sendMediaShare(IGSID, 'POST_ID');
+    await client.sendLikeHeart(IGSID);
+
+    expect(data.map((body) => body.message)).toEqual([
+      { attachment: { type: 'MEDIA_SHARE', payload: { id: 'POST_ID' } } },
+      { attachment: { type: 'like_heart' } },
+    ]);
+  });
+
+  it('should send product template', async () => {
+    const { client, mock } = createMock();
+
+    let data;
+    mock.onPost().reply((config) => {
+      data = config.data;
+      return [200, reply];
+    });
+
+    await client.sendProductTemplate(IGSID, ['PRODUCT_ID']);
+
+    expect(JSON.parse(data).message).toEqual({
+      attachment: {
+        type: 'template',
+        payload: {
+          template_type: 'product',
+          elements: [{ id: 'PRODUCT_ID' }],
+        },
+      },
+    });
+  });
+
+  it('should send private reply to comment', async () => {
+    const { client, mock } = createMock();
+
+    let data;
+    mock.onPost().reply((config) => {
+      data = config.data;
+      return [200, reply];
+    });
+
+    await client.sendPrivateReply({ commentId: 'COMMENT_ID' }, { text: 'Hi!' });
+
+    expect(JSON.parse(data)).toEqual({
+      messaging_type: 'RESPONSE',
+      recipient: { comment_id: 'COMMENT_ID' },
+      message: { text: 'Hi!' },
+    });
+  });
+
+  it('should send sender actions', async () => {
+    const { client, mock } = createMock();
+
+    let data;
+    mock.onPost().reply((config) => {
+      data = config.data;
+      return [200, { recipient_id: IGSID }];
+    });
+
+    const res = await client.typingOn(IGSID);
+
+    expect(JSON.parse(data)).toEqual({
+      recipient: { id: IGSID },
+      sender_action: 'typing_on',
+    });
+    expect(res).toEqual({ recipientId: IGSID });
+  });
+});
+
+describe('reactions', () => {
+  it('should react to and unreact from messages', async () => {
+    const { client, mock } = createMock();
+
+    const data: Record<string, any>[] = [];
+    mock.onPost().reply((config) => {
+      data.push(JSON.parse(config.data));
+      return [200, { recipient_id: IGSID }];
+    });
+
+    await client.sendReaction(IGSID, 'MESSAGE_ID');
+    await client.removeReaction(IGSID, 'MESSAGE_ID');
+
+    expect(data).toEqual([
+      {
+        recipient: { id: IGSID },
+        sender_action: 'react',
+        payload: { message_id: 'MESSAGE_ID', reaction: 'love' },
+      },
+      {
+        recipient: { id: IGSID },
+        sender_action: 'unreact',
+        payload: { message_id: 'MESSAGE_ID' },
+      },
+    ]);
+  });
+});
+
+describe('conversations api', () => {
+  it('should get conversations with instagram platform', async () => {
+    const { client, mock } = createMock();
+
+    let url;
+    let params;
+    mock.onGet().reply((config) => {
+      url = config.url;
+      params = config.params;
+      return [200, { data: [{ id: 'aWdfZAG06MTpJR01lc3NhZA2VUaHJlYWQ' }] }];
+    });
+
+    const res = await client.getConversations({ userId: IGSID });
+
+    expect(url).toEqual('/me/conversations');
+    expect(params).toEqual({
+      access_token: ACCESS_TOKEN,
+      platform: 'instagram',
+      user_id: IGSID,
+      fields: undefined,
+    });
+    expect(res).toEqual({
+      data: [{ id: 'aWdfZAG06MTpJR01lc3NhZA2VUaHJlYWQ' }],
+    });
+  });
+
+  it('should iterate conversation messages through all pages', async () => {
+    const { client, mock } = createMock();
+
+    mock
+      .onGet('/CONVERSATION_ID/messages')
+      .replyOnce(200, {
+        data: [{ id: 'm_1' }],
+        paging: {
+          cursors: { after: 'AFTER' },
+          next: 'https://graph.facebook.com/v6.0/CONVERSATION_ID/messages',
+        },
+      })
+      .onGet('/CONVERSATION_ID/messages')
+      .replyOnce(200, { data: [{ id: 'm_2' }] });
+
+    const messages = [];
+    for await (const message of client.iterateConversationMessages(
+      'CONVERSATION_ID'
+    )) {
+      messages.push(message);
+    }
+
+    expect(messages).toEqual([{ id: 'm_1' }, { id: 'm_2' }]);
+    expect(mock.history.get[1].params).toMatchObject({ after: 'AFTER' });
+  });
+});
@@ -0,0 +1,206 @@
+import crypto from 'crypto';
+
+import { WebhookRequest } from 'messaging-api-common';
+
+import InstagramClient from '../InstagramClient';
+import InstagramWebhook from '../InstagramWebhook';
+
+const APP_SECRET = 'APP_SECRET';
+const VERIFY_TOKEN = 'VERIFY_TOKEN';
+const ACCOUNT_ID = '17841405309211844';
+const IGSID = '1414121032205632';
+
+const body = {
+  object: 'instagram',
+  entry: [
+    {
+      id: ACCOUNT_ID,
+      time: 1603059201000,
+      messaging: [
+        {
+          sender: { id: IGSID },
+          recipient: { id: ACCOUNT_ID },
+          timestamp: 1603059201000,
+          message: {
+            mid: 'MESSAGE_ID_1',
+            attachments: [
+              {
+                type: 'story_mention',
+                payload: { url: 'https://lookaside.fbsbx.com/story' },
+              },
+            ],
+          },
+        },
+        {
+          sender: { id: IGSID },
+          recipient: { id: ACCOUNT_ID },
+          timestamp: 1603059202000,
+          message: {
+            mid: 'MESSAGE_ID_2',
+            text: 'Nice story!',
+            reply_to: {
+              story: { url: 'https://lookaside.fbsbx.com/story', id: '123' },
+            },
+          },
+        },
+        {
+          sender: { id: IGSID },
+          recipient: { id: ACCOUNT_ID },
+          timestamp: 1603059203000,
+          reaction: {
+            mid: 'MESSAGE_ID_3',
+            action: 'react',
+            reaction: 'love',
+            emoji: '❤️',
+          },
+        },
+        {
+          sender: { id: IGSID },
+          recipient: { id: ACCOUNT_ID },
+          timestamp: 1603059204000,
+          postback: {
+            mid: 'MESSAGE_ID_4',
+            title: 'Where are you located?',
+            payload: 'LOCATION',
+          },
+        },
+        {
+          sender: { id: ACCOUNT_ID },
+          recipient: { id: IGSID },
+          timestamp: 1603059205000,
+          message: { mid: 'MESSAGE_ID_5', text: 'Hi!', is_echo: true },
+        },
+      ],
+    },
+  ],
+};
+
+const client = new InstagramClient({
+  accessToken: 'ACCESS_TOKEN',
+  appSecret: APP_SECRET,
+});
+
+function createRequest(request: Partial<WebhookRequest> = {}): WebhookRequest {
+  const rawBody = JSON.stringify(body);
+  return {
+    method: 'POST',
+    url: '/webhooks/instagram',
+    path: '/webhooks/instagram',
+    query: {},
+    headers: {
+      'x-hub-signature-256': `sha256=${crypto
+        .createHmac('sha256', APP_SECRET)
+        .update(rawBody)
+        .digest('hex')}`,
+    },
+    rawBody: Buffer.from(rawBody),
+    ...request,
+  };
+}
+
+describe('#parseWebhookBody', () => {
+  it('should parse instagram events with types', () => {
+    const events = InstagramWebhook.parseWebhookBody(JSON.stringify(body));
+
+    expect(events.map((event) => event.type)).toEqual([
+      'message',
+      'message',
+      'reaction',
+      'postback',
+      'echo',
+    ]);
+    expect(events[0]).toEqual({
+      type: 'message',
+      pageId: ACCOUNT_ID,
+      isStandby: false,
+      sender: { id: IGSID },
+      recipient: { id: ACCOUNT_ID },
+      timestamp: 1603059201000,
+      message: {
+        mid: 'MESSAGE_ID_1',
+        attachments: [
+          {
+            type: 'story_mention',
+            payload: { url: 'https://lookaside.fbsbx.com/story' },
+          },
+        ],
+      },
+    });
+    expect(events[1]).toMatchObject({
+      message: {
+        replyTo: {
+          story: { url: 'https://lookaside.fbsbx.com/story', id: '123' },
+        },
+      },
+    });
+  });
+});
+
+describe('#createEventDispatcher', () => {
+  it('should dispatch events to the handlers by types', async () => {
+    const message = jest.fn();
+    const reaction = jest.fn();
+    const defaultHandler = jest.fn();
+
+    const dispatch = InstagramWebhook.createEventDispatcher({
+      message,
+      reaction,
+      default: defaultHandler,
+    });
+
+    await dispatch(InstagramWebhook.parseWebhookBody(body));
+
+    expect(message).toBeCalledTimes(2);
+    expect(reaction).toBeCalledWith(
+      expect.objectContaining({
+        type: 'reaction',
+        reaction: {
+          mid: 'MESSAGE_ID_3',
+          action: 'react',
+          reaction: 'love',
+          emoji: '❤️',
+        },
+      })
+    );
+    expect(defaultHandler).toBeCalledTimes(2);
+  });
+});
+
+describe('#createWebhookPlatform', () => {
+  it('should respond EVENT_RECEIVED with parsed events', async () => {
+    const platform = InstagramWebhook.createWebhookPlatform(
+      client,
+      VERIFY_TOKEN
+    );
+
+    const result = await platform.handleRequest(createRequest());
+
+    expect(platform.platform).toEqual('instagram');
+    expect(result.response).toEqual({ status: 200, body: 'EVENT_RECEIVED' });
+    expect(result.events).toHaveLength(5);
+  });
+
+  it('should respond 401 when the signature is invalid', async () => {
+    const platform = InstagramWebhook.createWebhookPlatform(
+      client,
+      VERIFY_TOKEN
+    );
+
+    expect(
+      await platform.handleRequest(
+        createRequest({ headers: { 'x-hub-signature-256': 'sha256=invalid' } })
+      )
+    ).toEqual({ response: { status: 401 } });
+  });
+
+  it('should throw when appSecret is not provided', () => {
+    expect(() =>
+      InstagramWebhook.createWebhookPlatform(
+        new InstagramClient({ accessToken: 'ACCESS_TOKEN' }),
+        VERIFY_TOKEN
+      )
+    ).toThrow(
+      'InstagramWebhook: `appSecret` is required to verify webhook requests.'
+    );
+  });
+});
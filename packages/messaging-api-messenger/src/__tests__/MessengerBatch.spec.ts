@@ -1,3 +1,5 @@
+import fs from 'fs';
+
 import MessengerBatch from '../MessengerBatch';
 
 const RECIPIENT_ID = '1QAZ2WSX';
@@ -359,6 +361,37 @@ describe('sendImage', () => {
       })
     ).toEqual(request);
   });
+
+  it('should create send image request with attached file', () => {
+    const buffer = Buffer.from('image');
+
+    expect(
+      MessengerBatch.sendImage(RECIPIENT_ID, buffer, {
+        filename: 'pic.png',
+        isReusable: true,
+        name: 'image',
+      })
+    ).toEqual({
+      method: 'POST',
+      relativeUrl: 'me/messages',
+      name: 'image',
+      body: {
+        messagingType: 'UPDATE',
+        message: {
+          attachment: {
+            type: 'image',
+            payload: {
+              isReusable: true,
+            },
+          },
+        },
+        recipient: {
+          id: RECIPIENT_ID,
+        },
+      },
+      attachedFiles: [{ data: buffer, filename: 'pic.png' }],
+    });
+  });
 });
 
 describe('sendVideo', () => {
@@ -1094,6 +1127,63 @@ describe('sendOneTimeNotifReqTemplate', () => {
   });
 });
 
+describe('sendRecurringNotifReqTemplate', () => {
+  it('should create send recurring notif req template request', () => {
+    expect(
+      MessengerBatch.sendRecurringNotifReqTemplate(RECIPIENT_ID, {
+        title: 'Weekly deals',
+        payload: 'WEEKLY_DEALS',
+        notificationMessagesFrequency: 'WEEKLY',
+      })
+    ).toEqual({
+      method: 'POST',
+      relativeUrl: 'me/messages',
+      body: {
+        messagingType: 'UPDATE',
+        message: {
+          attachment: {
+            type: 'template',
+            payload: {
+              templateType: 'notification_messages',
+              title: 'Weekly deals',
+              payload: 'WEEKLY_DEALS',
+              notificationMessagesFrequency: 'WEEKLY',
+            },
+          },
+        },
+        recipient: {
+          id: RECIPIENT_ID,
+        },
+      },
+    });
+  });
+});
+
+describe('sendPrivateReply', () => {
+  it('should create send private reply request', () => {
+    expect(
+      MessengerBatch.sendPrivateReply(
+        { commentId: '123456789_987654321' },
+        { text: 'Hello' },
+        { name: 'reply' }
+      )
+    ).toEqual({
+      method: 'POST',
+      relativeUrl: 'me/messages',
+      name: 'reply',
+      body: {
+        messagingType: 'RESPONSE',
+        message: {
+          text: 'Hello',
+        },
+        recipient: {
+          commentId: '123456789_987654321',
+        },
+      },
+    });
+  });
+});
+
 describe('getUserProfile', () => {
   it('should create get user profile request', () => {
     expect(MessengerBatch.getUserProfile(RECIPIENT_ID)).toEqual({
@@ -1502,6 +1592,65 @@ describe('typingOff', () => {
   });
 });
 
+describe('sendReaction', () => {
+  it('should create send reaction request', () => {
+    expect(MessengerBatch.sendReaction(RECIPIENT_ID, 'mid.1')).toEqual({
+      method: 'POST',
+      relativeUrl: 'me/messages',
+      body: {
+        recipient: {
+          id: RECIPIENT_ID,
+        },
+        senderAction: 'react',
+        payload: {
+          messageId: 'mid.1',
+          reaction: 'love',
+        },
+      },
+    });
+  });
+
+  it('should support batch options', () => {
+    expect(
+      MessengerBatch.sendReaction(RECIPIENT_ID, 'mid.1', 'like', {
+        name: 'react',
+      })
+    ).toEqual({
+      method: 'POST',
+      relativeUrl: 'me/messages',
+      body: {
+        recipient: {
+          id: RECIPIENT_ID,
+        },
+        senderAction: 'react',
+        payload: {
+          messageId: 'mid.1',
+          reaction: 'like',
+        },
+      },
+      name: 'react',
+    });
+  });
+});
+
+describe('removeReaction', () => {
+  it('should create remove reaction request', () => {
+    expect(MessengerBatch.removeReaction(RECIPIENT_ID, 'mid.1')).toEqual({
+      method: 'POST',
+      relativeUrl: 'me/messages',
+      body: {
+        recipient: {
+          id: RECIPIENT_ID,
+        },
+        senderAction: 'unreact',
+        payload: {
+          messageId: 'mid.1',
+        },
+      },
+    });
+  });
+});
+
 describe('markSeen', () => {
   it('should create send mark seen request', () => {
     expect(MessengerBatch.markSeen(RECIPIENT_ID)).toEqual({
@@ -1762,3 +1911,110 @@ describe('getAssociatedLabels', () => {
     });
   });
 });
+
+describe('uploadAttachment', () => {
+  it('should create upload attachment request', () => {
+    expect(
+      MessengerBatch.uploadAttachment('image', 'https://example.com/pic.png', {
+        isReusable: true,
+        name: 'upload',
+      })
+    ).toEqual({
+      method: 'POST',
+      relativeUrl: 'me/message_attachments',
+      name: 'upload',
+      body: {
+        message: {
+          attachment: {
+            type: 'image',
+            payload: {
+              url: 'https://example.com/pic.png',
+              isReusable: true,
+            },
+          },
+        },
+      },
+    });
+  });
+});
+
+describe('uploadAttachment with file', () => {
+  it('should create upload attachment request with attached file', () => {
+    const stream = fs.createReadStream(__filename);
+
+    const request = MessengerBatch.uploadAttachment('file', stream);
+    stream.destroy();
+
+    expect(request).toEqual({
+      method: 'POST',
+      relativeUrl: 'me/message_attachments',
+      body: {
+        message: {
+          attachment: {
+            type: 'file',
+            payload: {
+              isReusable: false,
+            },
+          },
+        },
+      },
+      attachedFiles: [{ data: stream, filename: undefined }],
+    });
+  });
+});
+
+describe('createReference', () => {
+  it('should create JSONPath reference', () => {
+    expect(MessengerBatch.createReference('upload', '$.attachment_id')).toEqual(
+      '{result=upload:$.attachment_id}'
+    );
+  });
+
+  it('should throw when path is not a JSONPath', () => {
+    expect(() =>
+      MessengerBatch.createReference('upload', 'attachment_id')
+    ).toThrow(
+      'FacebookBatch: the path of the reference must be a JSONPath starting with `$`, but received `attachment_id`.'
+    );
+  });
+});
+
+describe('getDependencies', () => {
+  it('should collect dependsOn and references in url and body', () => {
+    expect(
+      MessengerBatch.getDependencies({
+        method: 'POST',
+        relativeUrl: `${MessengerBatch.createReference('a', '$.id')}/label`,
+        body: {
+          user: MessengerBatch.createReference('b', '$.data.*.id'),
+          ids: [MessengerBatch.createReference('c', '$.id')],
+        },
+        dependsOn: 'a',
+      })
+    ).toEqual(['a', 'b', 'c']);
+  });
+});
+
+describe('validateBatch', () => {
+  it('should pass when requests depend on previous named requests', () => {
+    expect(() =>
+      MessengerBatch.validateBatch([
+        MessengerBatch.getUserProfile(RECIPIENT_ID, { name: 'profile' }),
+        MessengerBatch.sendText(RECIPIENT_ID, 'Hello', {
+          dependsOn: 'profile',
+        }),
+      ])
+    ).not.toThrow();
+  });
+
+  it('should throw when request depends on itself', () => {
+    expect(() =>
+      MessengerBatch.validateBatch([
+        MessengerBatch.sendText(RECIPIENT_ID, 'Hello', {
+          name: 'text',
+          dependsOn: 'text',
+        }),
+      ])
+    ).toThrow('FacebookBatch: request #0 `text` depends on itself.');
+  });
+});
@@ -1,3 +1,4 @@
+import FormData from 'form-data';
 import MockAdapter from 'axios-mock-adapter';
 
 import MessengerBatch from '../MessengerBatch';
@@ -342,4 +343,43 @@ describe('appsecret proof', () => {
       ],
     });
   });
+
+  it('should add appsecret proof to multipart batch requests if appSecret exists', async () => {
+    const client = new MessengerClient({
+      accessToken: ACCESS_TOKEN,
+      appSecret: APP_SECRET,
+    });
+
+    const mock = new MockAdapter(client.axios);
+
+    const USER_ID = 'USER_ID';
+
+    let data;
+    mock.onPost().reply((config) => {
+      data = config.data;
+      return [200, []];
+    });
+
+    await client.sendBatch([
+      MessengerBatch.sendText(USER_ID, 'Hello', { accessToken: 'token1' }),
+      MessengerBatch.sendImage(USER_ID, Buffer.from('image'), {
+        filename: 'pic.png',
+        accessToken: 'token2',
+      }),
+    ]);
+
+    expect(data).toBeInstanceOf(FormData);
+
+    const body = ((data as unknown) as FormData).getBuffer().toString();
+    const [, batch] = /name="batch"\r\n\r\n(.*)\r\n/.exec(body) || [];
+
+    expect(
+      JSON.parse(batch).map(
+        (item: { relative_url: string }) => item.relative_url
+      )
+    ).toEqual([
+      'me/messages?appsecret_proof=99eed1703c01487bce54ccf12b7e8007880e3bf7f3820656f17f200b5c976266',
+      'me/messages?appsecret_proof=f1405d923148b8e76e002138a7adddfec6ce4075712095d88b4b4b6777ad45e5',
+    ]);
+  });
 });
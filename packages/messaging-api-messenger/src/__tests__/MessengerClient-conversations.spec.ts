@@ -0,0 +1,338 @@
+import MockAdapter from 'axios-mock-adapter';
+
+import MessengerClient from '../MessengerClient';
+
+const ACCESS_TOKEN = '1234567890';
+const CONVERSATION_ID = 't_10208234719932356';
+const MESSAGE_ID =
+  'm_OKnMZKH_FQgv8VyK1mdHI8C2YBh6xHVmuifZswmuVSQxjmGLsWjXJcpXAhzv_AYQ';
+
+const createMock = (): { client: MessengerClient; mock: MockAdapter } => {
+  const client = new MessengerClient({
+    accessToken: ACCESS_TOKEN,
+  });
+  const mock = new MockAdapter(client.axios);
+  return { client, mock };
+};
+
+const snakecaseMessage = {
+  id: MESSAGE_ID,
+  created_time: '2020-09-01T03:27:40+0000',
+  from: {
+    id: '1254459154682919',
+    name: 'John',
+    email: '1254459154682919@facebook.com',
+  },
+  to: {
+    data: [
+      {
+        id: '1895382890692546',
+        name: 'Bot Demo',
+        email: '1895382890692546@facebook.com',
+      },
+    ],
+  },
+  message: 'Hello',
+};
+
+const camelcaseMessage = {
+  id: MESSAGE_ID,
+  createdTime: '2020-09-01T03:27:40+0000',
+  from: {
+    id: '1254459154682919',
+    name: 'John',
+    email: '1254459154682919@facebook.com',
+  },
+  to: {
+    data: [
+      {
+        id: '1895382890692546',
+        name: 'Bot Demo',
+        email: '1895382890692546@facebook.com',
+      },
+    ],
+  },
+  message: 'Hello',
+};
+
+describe('conversations api', () => {
+  describe('#getConversations', () => {
+    it('should call messenger api to get conversations of the page', async () => {
+      const { client, mock } = createMock();
+
+      const reply = {
+        data: [
+          {
+            id: CONVERSATION_ID,
+            updated_time: '2020-09-01T03:27:40+0000',
+          },
+        ],
+        paging: {
+          cursors: { before: 'BEFORE', after: 'AFTER' },
+          next: 'https://graph.facebook.com/v6.0/me/conversations?after=AFTER',
+        },
+      };
+
+      let url;
+      let params;
+      mock.onGet().reply((config) => {
+        url = config.url;
+        params = config.params;
+        return [200, reply];
+      });
+
+      const res = await client.getConversations();
+
+      expect(url).toEqual('/me/conversations');
+      expect(params).toEqual({
+        access_token: ACCESS_TOKEN,
+        platform: 'messenger',
+        user_id: undefined,
+        fields: undefined,
+      });
+      expect(res).toEqual({
+        data: [
+          {
+            id: CONVERSATION_ID,
+            updatedTime: '2020-09-01T03:27:40+0000',
+          },
+        ],
+        paging: {
+          cursors: { before: 'BEFORE', after: 'AFTER' },
+          next: 'https://graph.facebook.com/v6.0/me/conversations?after=AFTER',
+        },
+      });
+    });
+
+    it('should support options', async () => {
+      const { client, mock } = createMock();
+
+      let url;
+      let params;
+      mock.onGet().reply((config) => {
+        url = config.url;
+        params = config.params;
+        return [200, { data: [] }];
+      });
+
+      await client.getConversations({
+        pageId: '1895382890692546',
+        userId: '1254459154682919',
+        fields: ['id', 'participants'],
+        limit: 10,
+        after: 'AFTER',
+      });
+
+      expect(url).toEqual('/1895382890692546/conversations');
+      expect(params).toEqual({
+        access_token: ACCESS_TOKEN,
+        platform: 'messenger',
+        user_id: '1254459154682919',
+        fields: 'id,participants',
+        limit: 10,
+        after: 'AFTER',
+      });
+    });
+  });
+
+  describe('#iterateConversations', () => {
+    it('should iterate conversations through all pages', async () => {
+      const { client, mock } = createMock();
+
+      mock
+        .onGet('/me/conversations')
+        .replyOnce(200, {
+          data: [{ id: 't_1' }, { id: 't_2' }],
+          paging: {
+            cursors: { before: 'BEFORE', after: 'AFTER' },
+            next:
+              'https://graph.facebook.com/v6.0/me/conversations?after=AFTER',
+          },
+        })
+        .onGet('/me/conversations')
+        .replyOnce(200, {
+          data: [{ id: 't_3' }],
+          paging: { cursors: { before: 'AFTER', after: 'LAST' } },
+        });
+
+      const conversations = [];
+      for await (const conversation of client.iterateConversations()) {
+        conversations.push(conversation);
+      }
+
+      expect(conversations).toEqual([
+        { id: 't_1' },
+        { id: 't_2' },
+        { id: 't_3' },
+      ]);
+      expect(mock.history.get).toHaveLength(2);
+      expect(mock.history.get[1].params).toMatchObject({
+        access_token: ACCESS_TOKEN,
+        platform: 'messenger',
+        after: 'AFTER',
+      });
+    });
+  });
+
+  describe('#iterateConversations with paginate options', () => {
+    it('should stop fetching pages when breaking out of the loop', async () => {
+      const { client, mock } = createMock();
+
+      mock.onGet('/me/conversations').reply(200, {
+        data: [{ id: 't_1' }, { id: 't_2' }],
+        paging: {
+          cursors: { before: 'BEFORE', after: 'AFTER' },
+          next: 'https://graph.facebook.com/v6.0/me/conversations?after=AFTER',
+        },
+      });
+
+      for await (const conversation of client.iterateConversations()) {
+        if (conversation.id === 't_1') break;
+      }
+
+      expect(mock.history.get).toHaveLength(1);
+    });
+
+    it('should request pages with the page size until the limit', async () => {
+      const { client, mock } = createMock();
+
+      mock.onGet('/me/conversations').reply(200, {
+        data: [{ id: 't_1' }, { id: 't_2' }],
+        paging: {
+          cursors: { before: 'BEFORE', after: 'AFTER' },
+          next: 'https://graph.facebook.com/v6.0/me/conversations?after=AFTER',
+        },
+      });
+
+      const conversations = [];
+      for await (const conversation of client.iterateConversations({
+        limit: 3,
+        pageSize: 2,
+      })) {
+        conversations.push(conversation);
+      }
+
+      expect(conversations).toEqual([
+        { id: 't_1' },
+        { id: 't_2' },
+        { id: 't_1' },
+      ]);
+      expect(mock.history.get.map(({ params }) => params.limit)).toEqual([
+        2,
+        1,
+      ]);
+    });
+  });
+
+  describe('#getConversationMessages', () => {
+    it('should call messenger api to get messages in the conversation', async () => {
+      const { client, mock } = createMock();
+
+      const reply = {
+        data: [snakecaseMessage],
+        paging: { cursors: { before: 'BEFORE', after: 'AFTER' } },
+      };
+
+      let url;
+      let params;
+      mock.onGet().reply((config) => {
+        url = config.url;
+        params = config.params;
+        return [200, reply];
+      });
+
+      const res = await client.getConversationMessages(CONVERSATION_ID, {
+        limit: 20,
+      });
+
+      expect(url).toEqual(`/${CONVERSATION_ID}/messages`);
+      expect(params).toEqual({
+        access_token: ACCESS_TOKEN,
+        fields: 'id,created_time,from,to,message',
+        limit: 20,
+      });
+      expect(res).toEqual({
+        data: [camelcaseMessage],
+        paging: { cursors: { before: 'BEFORE', after: 'AFTER' } },
+      });
+    });
+  });
+
+  describe('#iterateConversationMessages', () => {
+    it('should iterate messages through all pages', async () => {
+      const { client, mock } = createMock();
+
+      mock
+        .onGet(`/${CONVERSATION_ID}/messages`)
+        .replyOnce(200, {
+          data: [snakecaseMessage],
+          paging: {
+            cursors: { before: 'BEFORE', after: 'AFTER' },
+            next: `https://graph.facebook.com/v6.0/${CONVERSATION_ID}/messages?after=AFTER`,
+          },
+        })
+        .onGet(`/${CONVERSATION_ID}/messages`)
+        .replyOnce(200, {
+          data: [{ ...snakecaseMessage, id: 'm_2' }],
+          paging: { cursors: { before: 'AFTER', after: 'LAST' } },
+        });
+
+      const messages = [];
+      for await (const message of client.iterateConversationMessages(
+        CONVERSATION_ID
+      )) {
+        messages.push(message);
+      }
+
+      expect(messages).toEqual([
+        camelcaseMessage,
+        { ...camelcaseMessage, id: 'm_2' },
+      ]);
+      expect(mock.history.get[1].params).toEqual({
+        access_token: ACCESS_TOKEN,
+        fields: 'id,created_time,from,to,message',
+        after: 'AFTER',
+      });
+    });
+  });
+
+  describe('#getMessage', () => {
+    it('should call messenger api to get the message', async () => {
+      const { client, mock } = createMock();
+
+      let url;
+      let params;
+      mock.onGet().reply((config) => {
+        url = config.url;
+        params = config.params;
+        return [200, snakecaseMessage];
+      });
+
+      const res = await client.getMessage(MESSAGE_ID);
+
+      expect(url).toEqual(`/${MESSAGE_ID}`);
+      expect(params).toEqual({
+        access_token: ACCESS_TOKEN,
+        fields: 'id,created_time,from,to,message',
+      });
+      expect(res).toEqual(camelcaseMessage);
+    });
+
+    it('should support fields', async () => {
+      const { client, mock } = createMock();
+
+      let params;
+      mock.onGet().reply((config) => {
+        params = config.params;
+        return [200, { id: MESSAGE_ID, message: 'Hello' }];
+      });
+
+      await client.getMessage(MESSAGE_ID, { fields: ['id', 'message'] });
+
+      expect(params).toEqual({
+        access_token: ACCESS_TOKEN,
+        fields: 'id,message',
+      });
+    });
+  });
+});
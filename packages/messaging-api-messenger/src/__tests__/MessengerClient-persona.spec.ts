@@ -1,3 +1,5 @@
+import { EventEmitter } from 'events';
+
 import MockAdapter from 'axios-mock-adapter';
 
 import MessengerClient from '../MessengerClient';
@@ -15,6 +17,25 @@ afterEach(() => {
   axios.create = _create;
 });
 
+function createAbortController() {
+  const emitter = new EventEmitter();
+  const signal = {
+    aborted: false,
+    addEventListener: (type: 'abort', listener: () => void) =>
+      emitter.on(type, listener),
+    removeEventListener: (type: 'abort', listener: () => void) =>
+      emitter.removeListener(type, listener),
+  };
+
+  return {
+    signal,
+    abort: () => {
+      signal.aborted = true;
+      emitter.emit('abort');
+    },
+  };
+}
+
 const createMock = (): { client: MessengerClient; mock: MockAdapter } => {
   const client = new MessengerClient({
     accessToken: ACCESS_TOKEN,
@@ -180,6 +201,84 @@ describe('persona api', () => {
         },
       ]);
     });
+
+    it('should stop fetching the remaining pages when the signal is aborted', async () => {
+      const { client, mock } = createMock();
+      const controller = createAbortController();
+
+      mock
+        .onGet(`/me/personas?access_token=${ACCESS_TOKEN}`)
+        .replyOnce((config) => {
+          expect(config.timeout).toEqual(5000);
+          controller.abort();
+          return [
+            200,
+            {
+              data: [],
+              paging: {
+                cursors: { before: 'BEFORE', after: 'AFTER' },
+                next: 'https://graph.facebook.com/v6.0/me/personas?after=AFTER',
+              },
+            },
+          ];
+        });
+
+      await expect(
+        client.getAllPersonas({ signal: controller.signal, timeout: 5000 })
+      ).rejects.toThrow('The operation was aborted.');
+      expect(mock.history.get).toHaveLength(1);
+    });
+  });
+
+  describe('#iteratePersonas', () => {
+    it('should iterate personas up to the limit with the page size', async () => {
+      const { client, mock } = createMock();
+
+      mock
+        .onGet('/me/personas')
+        .replyOnce(200, {
+          data: [
+            { name: '7', id: '1007240332817468' },
+            { name: '6', id: '243523459665626' },
+          ],
+          paging: {
+            cursors: { before: 'BEFORE', after: 'AFTER' },
+            next: 'https://graph.facebook.com/v6.0/me/personas?after=AFTER',
+          },
+        })
+        .onGet('/me/personas')
+        .replyOnce(200, {
+          data: [{ name: '5', id: '313552169447330' }],
+          paging: {
+            cursors: { before: 'BEFORE', after: 'AFTER_2' },
+            next: 'https://graph.facebook.com/v6.0/me/personas?after=AFTER_2',
+          },
+        });
+
+      const personas = [];
+      for await (const persona of client.iteratePersonas({
+        limit: 3,
+        pageSize: 2,
+      })) {
+        personas.push(persona);
+      }
+
+      expect(personas).toEqual([
+        { name: '7', id: '1007240332817468' },
+        { name: '6', id: '243523459665626' },
+        { name: '5', id: '313552169447330' },
+      ]);
+      expect(mock.history.get).toHaveLength(2);
+      expect(mock.history.get[0].params).toMatchObject({
+        access_token: ACCESS_TOKEN,
+        limit: 2,
+      });
+      expect(mock.history.get[1].params).toMatchObject({
+        access_token: ACCESS_TOKEN,
+        after: 'AFTER',
+        limit: 1,
+      });
+    });
   });
 
   describe('#getPersonas', () => {
@@ -184,6 +184,137 @@ describe('messenger profile', () => {
   });
 });
 
+describe('#syncMessengerProfile', () => {
+  const currentProfile = {
+    data: [
+      { get_started: { payload: 'GET_STARTED' } },
+      {
+        persistent_menu: [
+          {
+            locale: 'default',
+            call_to_actions: [
+              { type: 'postback', title: 'Restart', payload: 'RESTART' },
+            ],
+          },
+        ],
+      },
+      { greeting: [{ locale: 'default', text: 'Hi!' }] },
+      {
+        whitelisted_domains: [
+          'https://b.example.com/',
+          'https://a.example.com/',
+        ],
+      },
+      { account_linking_url: 'https://example.com/oauth' },
+    ],
+  };
+
+  const desiredProfile = {
+    getStarted: { payload: 'GET_STARTED' },
+    persistentMenu: [
+      {
+        locale: 'default',
+        composerInputDisabled: false,
+        callToActions: [
+          {
+            type: 'postback' as const,
+            title: 'Restart',
+            payload: 'RESTART',
+          },
+        ],
+      },
+    ],
+    greeting: [{ locale: 'default', text: 'Hello!' }],
+    iceBreakers: [{ question: 'Where are you located?', payload: 'LOCATION' }],
+    whitelistedDomains: ['https://a.example.com/', 'https://b.example.com/'],
+    accountLinkingUrl: null,
+  };
+
+  it('should compute the changes without applying them in dry run', async () => {
+    const { client, mock } = createMock();
+
+    let url;
+    mock.onGet().reply((config) => {
+      url = config.url;
+      return [200, currentProfile];
+    });
+
+    const res = await client.syncMessengerProfile(desiredProfile, {
+      dryRun: true,
+    });
+
+    expect(url).toEqual(
+      `/me/messenger_profile?fields=get_started,persistent_menu,greeting,ice_breakers,whitelisted_domains,account_linking_url&access_token=${ACCESS_TOKEN}`
+    );
+    expect(res).toEqual({
+      changes: [
+        {
+          field: 'greeting',
+          action: 'set',
+          current: [{ locale: 'default', text: 'Hi!' }],
+          desired: [{ locale: 'default', text: 'Hello!' }],
+        },
+        {
+          field: 'ice_breakers',
+          action: 'set',
+          current: undefined,
+          desired: [
+            { question: 'Where are you located?', payload: 'LOCATION' },
+          ],
+        },
+        {
+          field: 'account_linking_url',
+          action: 'delete',
+          current: 'https://example.com/oauth',
+        },
+      ],
+      applied: false,
+    });
+    expect(mock.history.post).toHaveLength(0);
+    expect(mock.history.delete).toHaveLength(0);
+  });
+
+  it('should only set and delete the changed properties', async () => {
+    const { client, mock } = createMock();
+
+    mock.onGet().reply(200, currentProfile);
+    mock.onPost().reply(200, { result: 'success' });
+    mock.onDelete().reply(200, { result: 'success' });
+
+    const res = await client.syncMessengerProfile(desiredProfile);
+
+    expect(res.applied).toEqual(true);
+    expect(mock.history.post).toHaveLength(1);
+    expect(JSON.parse(mock.history.post[0].data)).toEqual({
+      greeting: [{ locale: 'default', text: 'Hello!' }],
+      ice_breakers: [
+        { question: 'Where are you located?', payload: 'LOCATION' },
+      ],
+    });
+    expect(mock.history.delete).toHaveLength(1);
+    expect(JSON.parse(mock.history.delete[0].data)).toEqual({
+      fields: ['account_linking_url'],
+    });
+  });
+
+  it('should not call the api when nothing changes', async () => {
+    const { client, mock } = createMock();
+
+    mock.onGet().reply(200, {
+      data: [{ get_started: { payload: 'GET_STARTED' } }],
+    });
+
+    const res = await client.syncMessengerProfile({
+      getStarted: { payload: 'GET_STARTED' },
+      accountLinkingUrl: null,
+    });
+
+    expect(res).toEqual({ changes: [], applied: false });
+    expect(mock.history.post).toHaveLength(0);
+    expect(mock.history.delete).toHaveLength(0);
+  });
+});
+
 describe('get started button', () => {
   describe('#getGetStarted', () => {
     it('should respond data of get started', async () => {
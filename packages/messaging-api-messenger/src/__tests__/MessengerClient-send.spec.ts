@@ -512,6 +512,126 @@ describe('send api', () => {
     });
   });
 
+  describe('#sendMessage with validateMessages', () => {
+    it('should reject invalid messages without calling api', async () => {
+      const client = new MessengerClient({
+        accessToken: ACCESS_TOKEN,
+        validateMessages: true,
+      });
+      const mock = new MockAdapter(client.axios);
+
+      await expect(
+        client.sendMessage(USER_ID, { text: 'x'.repeat(2001) })
+      ).rejects.toThrow(
+        'Message Validation Error - message.text must be at most 2000 characters, got 2001'
+      );
+      expect(mock.history.post).toHaveLength(0);
+    });
+
+    it('should validate quick replies from options', async () => {
+      const client = new MessengerClient({
+        accessToken: ACCESS_TOKEN,
+        validateMessages: true,
+      });
+
+      await expect(
+        client.sendText(USER_ID, 'Pick a color', {
+          quickReplies: [
+            {
+              contentType: 'text',
+              title: 'A very very long color name',
+              payload: 'COLOR',
+            },
+          ],
+        })
+      ).rejects.toThrow(
+        'Message Validation Error - message.quickReplies[0].title must be at most 20 characters, got 27'
+      );
+    });
+
+    it('should not validate messages by default', async () => {
+      const { client, mock } = createMock();
+
+      mock.onPost().reply(200, {
+        recipient_id: USER_ID,
+        message_id: 'mid.1489394984387:3dd22de509',
+      });
+
+      await client.sendMessage(USER_ID, { text: 'x'.repeat(2001) });
+
+      expect(mock.history.post).toHaveLength(1);
+    });
+  });
+
+  describe('#sendPrivateReply', () => {
+    it('should call messages api with comment id and default RESPONSE type', async () => {
+      const { client, mock } = createMock();
+
+      const reply = {
+        recipient_id: USER_ID,
+        message_id: 'mid.1489394984387:3dd22de509',
+      };
+
+      let url;
+      let data;
+      mock.onPost().reply((config) => {
+        url = config.url;
+        data = config.data;
+        return [200, reply];
+      });
+
+      const res = await client.sendPrivateReply(
+        { commentId: '123456789_987654321' },
+        { text: 'Thanks for your comment!' }
+      );
+
+      expect(url).toEqual(`/me/messages?access_token=${ACCESS_TOKEN}`);
+      expect(JSON.parse(data)).toEqual({
+        messaging_type: 'RESPONSE',
+        recipient: {
+          comment_id: '123456789_987654321',
+        },
+        message: {
+          text: 'Thanks for your comment!',
+        },
+      });
+
+      expect(res).toEqual({
+        recipientId: USER_ID,
+        messageId: 'mid.1489394984387:3dd22de509',
+      });
+    });
+
+    it('should support post id and custom messaging type', async () => {
+      const { client, mock } = createMock();
+
+      let data;
+      mock.onPost().reply((config) => {
+        data = config.data;
+        return [
+          200,
+          { recipient_id: USER_ID, message_id: 'mid.1489394984387:3dd22de509' },
+        ];
+      });
+
+      await client.sendPrivateReply(
+        { postId: '123456789_123456789' },
+        { text: 'Hello!' },
+        { messagingType: 'UPDATE' }
+      );
+
+      expect(JSON.parse(data)).toEqual({
+        messaging_type: 'UPDATE',
+        recipient: {
+          post_id: '123456789_123456789',
+        },
+        message: {
+          text: 'Hello!',
+        },
+      });
+    });
+  });
+
   describe('#sendAttachment', () => {
     it('should call messages api with attachment', async () => {
       const { client, mock } = createMock();
@@ -1095,6 +1215,24 @@ describe('send api', () => {
   });
 
   describe('#sendBatch', () => {
+    it('should reject batches with invalid messages when validateMessages is set', async () => {
+      const client = new MessengerClient({
+        accessToken: ACCESS_TOKEN,
+        validateMessages: true,
+      });
+      const mock = new MockAdapter(client.axios);
+
+      await expect(
+        client.sendBatch([
+          MessengerBatch.sendText(USER_ID, 'Hello'),
+          MessengerBatch.sendText(USER_ID, 'x'.repeat(2001)),
+        ])
+      ).rejects.toThrow(
+        'Message Validation Error - batch[1].message.text must be at most 2000 characters, got 2001'
+      );
+      expect(mock.history.post).toHaveLength(0);
+    });
+
     it('call messages api with batch requests', async () => {
       const { client, mock } = createMock();
 
@@ -1254,6 +1392,158 @@ describe('send api', () => {
         client.sendBatch(bigBatch);
       }).toThrow();
     });
+
+    it('should send requests referencing results of previous requests', async () => {
+      const { client, mock } = createMock();
+
+      const reply = [
+        { code: 200, body: '{"attachment_id":"1857777774821032"}' },
+        {
+          code: 200,
+          body:
+            '{"recipient_id":"1QAZ2WSX","message_id":"mid.1489394984387:3dd22de509"}',
+        },
+      ];
+
+      let data;
+      mock.onPost().reply((config) => {
+        data = config.data;
+        return [200, reply];
+      });
+
+      await client.sendBatch([
+        MessengerBatch.uploadAttachment(
+          'image',
+          'https://example.com/pic.png',
+          {
+            name: 'upload',
+          }
+        ),
+        MessengerBatch.sendAttachment(USER_ID, {
+          type: 'image',
+          payload: {
+            attachmentId: MessengerBatch.createReference(
+              'upload',
+              '$.attachment_id'
+            ),
+          },
+        }),
+      ]);
+
+      expect(JSON.parse(data).batch).toEqual([
+        {
+          method: 'POST',
+          relative_url: 'me/message_attachments',
+          name: 'upload',
+          body: `message=${encodeURIComponent(
+            '{"attachment":{"type":"image","payload":{"url":"https://example.com/pic.png","is_reusable":false}}}'
+          )}`,
+        },
+        {
+          method: 'POST',
+          relative_url: 'me/messages',
+          body: `messaging_type=UPDATE&recipient=%7B%22id%22%3A%22${USER_ID}%22%7D&message=${encodeURIComponent(
+            '{"attachment":{"type":"image","payload":{"attachment_id":"{result=upload:$.attachment_id}"}}}'
+          )}`,
+        },
+      ]);
+    });
+
+    it('should send attached files in multipart body', async () => {
+      const { client, mock } = createMock();
+
+      const reply = [
+        {
+          code: 200,
+          body:
+            '{"recipient_id":"1QAZ2WSX","message_id":"mid.1489394984387:3dd22de509"}',
+        },
+        {
+          code: 200,
+          body:
+            '{"recipient_id":"1QAZ2WSX","message_id":"mid.1489394984387:3dd22de510"}',
+        },
+      ];
+
+      let url;
+      let data;
+      mock.onPost().reply((config) => {
+        url = config.url;
+        data = config.data;
+        return [200, reply];
+      });
+
+      const res = await client.sendBatch([
+        MessengerBatch.sendText(USER_ID, 'Hello'),
+        MessengerBatch.sendImage(USER_ID, Buffer.from('image'), {
+          filename: 'pic.png',
+        }),
+      ]);
+
+      expect(url).toEqual('/');
+      expect(data).toBeInstanceOf(FormData);
+
+      const body = ((data as unknown) as FormData).getBuffer().toString();
+
+      expect(body).toContain(
+        `Content-Disposition: form-data; name="access_token"\r\n\r\n${ACCESS_TOKEN}`
+      );
+      expect(body).toContain(
+        'Content-Disposition: form-data; name="include_headers"\r\n\r\ntrue'
+      );
+      expect(body).toContain(
+        `Content-Disposition: form-data; name="batch"\r\n\r\n${JSON.stringify([
+          {
+            method: 'POST',
+            relative_url: 'me/messages',
+            body: `messaging_type=UPDATE&recipient=%7B%22id%22%3A%22${USER_ID}%22%7D&message=%7B%22text%22%3A%22Hello%22%7D`,
+          },
+          {
+            method: 'POST',
+            relative_url: 'me/messages',
+            body: `messaging_type=UPDATE&recipient=%7B%22id%22%3A%22${USER_ID}%22%7D&message=${encodeURIComponent(
+              '{"attachment":{"type":"image","payload":{}}}'
+            )}`,
+            attached_files: 'file0',
+          },
+        ])}`
+      );
+      expect(body).toContain(
+        'Content-Disposition: form-data; name="file0"; filename="pic.png"\r\nContent-Type: image/png\r\n\r\nimage'
+      );
+      expect(res[1].body).toEqual({
+        recipientId: USER_ID,
+        messageId: 'mid.1489394984387:3dd22de510',
+      });
+    });
+
+    it('should throw if the dependency graph is invalid', () => {
+      const { client, mock } = createMock();
+
+      const send = MessengerBatch.sendText(
+        MessengerBatch.createReference('profile', '$.id'),
+        'Hello'
+      );
+      const profile = MessengerBatch.getUserProfile(USER_ID, {
+        name: 'profile',
+      });
+
+      expect(() => client.sendBatch([send, profile])).toThrow(
+        'FacebookBatch: request #0 depends on `profile`, which must be placed before it.'
+      );
+      expect(() =>
+        client.sendBatch([
+          profile,
+          MessengerBatch.sendText(USER_ID, 'Hello', { dependsOn: 'unknown' }),
+        ])
+      ).toThrow(
+        'FacebookBatch: request #1 depends on `unknown`, which is not a request in the batch.'
+      );
+      expect(() => client.sendBatch([profile, profile])).toThrow(
+        'FacebookBatch: request #1 has a duplicate name `profile`.'
+      );
+      expect(mock.history.post).toHaveLength(0);
+    });
   });
 
   describe('#sendSenderAction', () => {
@@ -1383,4 +1673,105 @@ describe('send api', () => {
       });
     });
   });
+
+  describe('#sendReaction', () => {
+    it('should call messages api with react sender action', async () => {
+      const { client, mock } = createMock();
+
+      const reply = {
+        recipient_id: USER_ID,
+      };
+
+      let url;
+      let data;
+      mock.onPost().reply((config) => {
+        url = config.url;
+        data = config.data;
+        return [200, reply];
+      });
+
+      const res = await client.sendReaction(
+        USER_ID,
+        'mid.1489394984387:3dd22de509'
+      );
+
+      expect(url).toEqual(`/me/messages?access_token=${ACCESS_TOKEN}`);
+      expect(JSON.parse(data)).toEqual({
+        recipient: {
+          id: USER_ID,
+        },
+        sender_action: 'react',
+        payload: {
+          message_id: 'mid.1489394984387:3dd22de509',
+          reaction: 'love',
+        },
+      });
+
+      expect(res).toEqual({
+        recipientId: USER_ID,
+      });
+    });
+
+    it('should support custom reaction and persona', async () => {
+      const { client, mock } = createMock();
+
+      let data;
+      mock.onPost().reply((config) => {
+        data = config.data;
+        return [200, { recipient_id: USER_ID }];
+      });
+
+      await client.sendReaction(
+        USER_ID,
+        'mid.1489394984387:3dd22de509',
+        'like',
+        {
+          personaId: 'PERSONA_ID',
+        }
+      );
+
+      expect(JSON.parse(data)).toEqual({
+        recipient: {
+          id: USER_ID,
+        },
+        sender_action: 'react',
+        payload: {
+          message_id: 'mid.1489394984387:3dd22de509',
+          reaction: 'like',
+        },
+        persona_id: 'PERSONA_ID',
+      });
+    });
+  });
+
+  describe('#removeReaction', () => {
+    it('should call messages api with unreact sender action', async () => {
+      const { client, mock } = createMock();
+
+      let data;
+      mock.onPost().reply((config) => {
+        data = config.data;
+        return [200, { recipient_id: USER_ID }];
+      });
+
+      const res = await client.removeReaction(
+        USER_ID,
+        'mid.1489394984387:3dd22de509'
+      );
+
+      expect(JSON.parse(data)).toEqual({
+        recipient: {
+          id: USER_ID,
+        },
+        sender_action: 'unreact',
+        payload: {
+          message_id: 'mid.1489394984387:3dd22de509',
+        },
+      });
+
+      expect(res).toEqual({
+        recipientId: USER_ID,
+      });
+    });
+  });
 });
@@ -1325,3 +1325,56 @@ describe('#sendOneTimeNotifReqTemplate', () => {
     });
   });
 });
+
+describe('#sendRecurringNotifReqTemplate', () => {
+  it('should call messages api with notification messages template', async () => {
+    const { client, mock } = createMock();
+
+    const reply = {
+      recipient_id: USER_ID,
+      message_id: 'mid.1489394984387:3dd22de509',
+    };
+
+    let url;
+    let data;
+    mock.onPost().reply((config) => {
+      url = config.url;
+      data = config.data;
+      return [200, reply];
+    });
+
+    const res = await client.sendRecurringNotifReqTemplate(USER_ID, {
+      title: 'Weekly deals',
+      imageUrl: 'https://example.com/deals.png',
+      payload: 'WEEKLY_DEALS',
+      notificationMessagesFrequency: 'WEEKLY',
+      notificationMessagesCtaText: 'SIGN_UP',
+    });
+
+    expect(url).toEqual(`/me/messages?access_token=${ACCESS_TOKEN}`);
+    expect(JSON.parse(data)).toEqual({
+      messaging_type: 'UPDATE',
+      recipient: {
+        id: USER_ID,
+      },
+      message: {
+        attachment: {
+          type: 'template',
+          payload: {
+            template_type: 'notification_messages',
+            title: 'Weekly deals',
+            image_url: 'https://example.com/deals.png',
+            payload: 'WEEKLY_DEALS',
+            notification_messages_frequency: 'WEEKLY',
+            notification_messages_cta_text: 'SIGN_UP',
+          },
+        },
+      },
+    });
+
+    expect(res).toEqual({
+      recipientId: USER_ID,
+      messageId: 'mid.1489394984387:3dd22de509',
+    });
+  });
+});
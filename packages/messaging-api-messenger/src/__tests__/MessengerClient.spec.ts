@@ -1,3 +1,4 @@
+import crypto from 'crypto';
 import fs from 'fs';
 
 import FormData from 'form-data';
@@ -351,6 +352,49 @@ describe('#getMessagingFeatureReview', () => {
   });
 });
 
+describe('custom labels', () => {
+  describe('#iterateLabels', () => {
+    it('should iterate labels through all pages', async () => {
+      const { client, mock } = createMock();
+
+      mock
+        .onGet('/me/custom_labels')
+        .replyOnce(200, {
+          data: [{ name: 'myLabel', id: '1001200005003' }],
+          paging: {
+            cursors: { before: 'BEFORE', after: 'AFTER' },
+            next:
+              'https://graph.facebook.com/v6.0/me/custom_labels?after=AFTER',
+          },
+        })
+        .onGet('/me/custom_labels')
+        .replyOnce(200, {
+          data: [{ name: 'myOtherLabel', id: '1001200005002' }],
+          paging: { cursors: { before: 'AFTER', after: 'LAST' } },
+        });
+
+      const labels = [];
+      for await (const label of client.iterateLabels()) {
+        labels.push(label);
+      }
+
+      expect(labels).toEqual([
+        { name: 'myLabel', id: '1001200005003' },
+        { name: 'myOtherLabel', id: '1001200005002' },
+      ]);
+      expect(mock.history.get[0].params).toEqual({
+        access_token: ACCESS_TOKEN,
+        fields: 'name',
+      });
+      expect(mock.history.get[1].params).toMatchObject({
+        access_token: ACCESS_TOKEN,
+        fields: 'name',
+        after: 'AFTER',
+      });
+    });
+  });
+});
+
 describe('user profile', () => {
   describe('#getUserProfile', () => {
     it('should get user profile with default fields', async () => {
@@ -933,6 +977,49 @@ describe('ID Matching', () => {
   });
 });
 
+describe('signature', () => {
+  describe('#verifySignature', () => {
+    const RAW_BODY = '{"object":"page","entry":[]}';
+
+    it('should return true when the sha256 signature is valid', () => {
+      const { client } = createMock();
+
+      const signature = `sha256=${crypto
+        .createHmac('sha256', APP_SECRET)
+        .update(RAW_BODY)
+        .digest('hex')}`;
+
+      expect(client.verifySignature(RAW_BODY, signature)).toBe(true);
+    });
+
+    it('should return true when the legacy sha1 signature is valid', () => {
+      const { client } = createMock();
+
+      const signature = `sha1=${crypto
+        .createHmac('sha1', APP_SECRET)
+        .update(RAW_BODY)
+        .digest('hex')}`;
+
+      expect(client.verifySignature(RAW_BODY, signature)).toBe(true);
+    });
+
+    it('should return false when the signature is invalid', () => {
+      const { client } = createMock();
+
+      const digest = crypto
+        .createHmac('sha256', APP_SECRET)
+        .update(RAW_BODY)
+        .digest('hex');
+
+      expect(client.verifySignature(`${RAW_BODY} `, `sha256=${digest}`)).toBe(
+        false
+      );
+      expect(client.verifySignature(RAW_BODY, `md5=${digest}`)).toBe(false);
+      expect(client.verifySignature(RAW_BODY, digest)).toBe(false);
+    });
+  });
+});
+
 describe('Error', () => {
   it('should be formatted correctly', async () => {
     const { client, mock } = createMock();
@@ -961,3 +1048,60 @@ describe('Error', () => {
     );
   });
 });
+
+describe('retry', () => {
+  beforeEach(() => {
+    jest.spyOn(global, 'setTimeout').mockImplementation(((
+      callback: () => void
+    ) => {
+      callback();
+      return 0;
+    }) as any);
+  });
+
+  it('should retry sending when rate limited', async () => {
+    const client = new MessengerClient({
+      accessToken: ACCESS_TOKEN,
+      retry: {},
+    });
+    const mock = new MockAdapter(client.axios);
+
+    mock
+      .onPost()
+      .replyOnce(400, {
+        error: {
+          message: 'Calls to this api have exceeded the rate limit.',
+          type: 'OAuthException',
+          code: 613,
+        },
+      })
+      .onPost()
+      .replyOnce(200, { recipient_id: USER_ID, message_id: 'mid.1' });
+
+    const res = await client.sendText(USER_ID, 'Hello!');
+
+    expect(res).toEqual({ recipientId: USER_ID, messageId: 'mid.1' });
+    expect(mock.history.post).toHaveLength(2);
+  });
+
+  it('should not retry sending on other errors', async () => {
+    const client = new MessengerClient({
+      accessToken: ACCESS_TOKEN,
+      retry: {},
+    });
+    const mock = new MockAdapter(client.axios);
+
+    mock.onPost().reply(400, {
+      error: {
+        message: 'Invalid OAuth access token.',
+        type: 'OAuthException',
+        code: 190,
+      },
+    });
+
+    await expect(client.sendText(USER_ID, 'Hello!')).rejects.toThrow(
+      'Messenger API - 190 OAuthException Invalid OAuth access token.'
+    );
+    expect(mock.history.post).toHaveLength(1);
+  });
+});
@@ -0,0 +1,100 @@
+import MessengerClient from '../MessengerClient';
+import MessengerMockServer from '../MessengerMockServer';
+
+const ACCESS_TOKEN = 'ACCESS_TOKEN';
+const USER_ID = 'USER_ID';
+
+let server: MessengerMockServer;
+let client: MessengerClient;
+
+beforeEach(async () => {
+  jest.useRealTimers();
+
+  server = new MessengerMockServer();
+  const origin = await server.listen();
+
+  client = new MessengerClient({ accessToken: ACCESS_TOKEN, origin });
+});
+
+afterEach(async () => {
+  await server.close();
+});
+
+it('should record sent messages', async () => {
+  const res = await client.sendText(USER_ID, 'Hello!', {
+    messagingType: 'RESPONSE',
+  });
+  await client.typingOn(USER_ID);
+
+  expect(res).toEqual({ recipientId: USER_ID, messageId: 'mid.1' });
+  expect(server.messages).toEqual([
+    {
+      messagingType: 'RESPONSE',
+      recipient: { id: USER_ID },
+      message: { text: 'Hello!' },
+    },
+    {
+      recipient: { id: USER_ID },
+      senderAction: 'typing_on',
+    },
+  ]);
+});
+
+it('should respond Graph API errors for invalid payloads', async () => {
+  await expect(client.sendText(USER_ID, '')).rejects.toThrow(
+    'Messenger API - 100 OAuthException (#100) param message[text] must be non-empty.'
+  );
+  await expect(
+    client.sendRawBody({ recipient: {}, message: { text: 'Hello!' } })
+  ).rejects.toThrow(
+    'Messenger API - 100 OAuthException (#100) param recipient must be non-empty.'
+  );
+
+  await expect(
+    client.sendRawBody({ recipient: { id: USER_ID }, senderAction: 'react' })
+  ).rejects.toThrow(
+    'Messenger API - 100 OAuthException (#100) param payload[message_id] must be non-empty.'
+  );
+
+  expect(server.messages).toEqual([]);
+});
+
+it('should record reactions', async () => {
+  await client.sendReaction(USER_ID, 'mid.1');
+  await client.removeReaction(USER_ID, 'mid.1');
+
+  expect(server.messages).toEqual([
+    {
+      recipient: { id: USER_ID },
+      senderAction: 'react',
+      payload: { messageId: 'mid.1', reaction: 'love' },
+    },
+    {
+      recipient: { id: USER_ID },
+      senderAction: 'unreact',
+      payload: { messageId: 'mid.1' },
+    },
+  ]);
+});
+
+it('should allow to override endpoints and reset records', async () => {
+  server.route('POST', '/:version/me/messages', () => ({
+    status: 400,
+    body: {
+      error: {
+        message: '(#613) Calls to this api have exceeded the rate limit.',
+        type: 'OAuthException',
+        code: 613,
+      },
+    },
+  }));
+
+  await expect(client.sendText(USER_ID, 'Hello!')).rejects.toThrow(
+    'Messenger API - 613 OAuthException (#613) Calls to this api have exceeded the rate limit.'
+  );
+  expect(server.requests).toHaveLength(1);
+
+  server.reset();
+
+  expect(server.requests).toEqual([]);
+});
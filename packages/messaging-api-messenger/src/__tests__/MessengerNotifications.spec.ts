@@ -0,0 +1,368 @@
+import MockAdapter from 'axios-mock-adapter';
+
+import MemoryNotificationTokenStore from '../MemoryNotificationTokenStore';
+import MessengerClient from '../MessengerClient';
+import MessengerNotifications from '../MessengerNotifications';
+import NotificationTokenError from '../NotificationTokenError';
+import * as MessengerTypes from '../MessengerTypes';
+
+const ACCESS_TOKEN = '1234567890';
+const PAGE_ID = '1134713619900975';
+const USER_ID = '1QAZ2WSX';
+const NOW = 1600000000000;
+const DAY = 24 * 60 * 60 * 1000;
+
+const reply = {
+  recipient_id: USER_ID,
+  message_id: 'mid.1489394984387:3dd22de509',
+};
+
+const createNotifications = (): {
+  notifications: MessengerNotifications;
+  store: MemoryNotificationTokenStore;
+  mock: MockAdapter;
+} => {
+  const client = new MessengerClient({
+    accessToken: ACCESS_TOKEN,
+  });
+  const store = new MemoryNotificationTokenStore();
+  const notifications = new MessengerNotifications({ client, store });
+  const mock = new MockAdapter(client.axios);
+  return { notifications, store, mock };
+};
+
+const createOptinEvent = (
+  optin: MessengerTypes.OptinEvent['optin']
+): MessengerTypes.OptinEvent => ({
+  sender: { id: USER_ID },
+  recipient: { id: PAGE_ID },
+  timestamp: NOW,
+  optin,
+});
+
+const oneTimeNotifOptin: MessengerTypes.OneTimeNotifOptin = {
+  type: 'one_time_notif_req',
+  payload: 'BACK_IN_STOCK',
+  oneTimeNotifToken: 'ONE_TIME_TOKEN',
+};
+
+const recurringNotifOptin: MessengerTypes.RecurringNotifOptin = {
+  type: 'notification_messages',
+  payload: 'WEEKLY_DEALS',
+  notificationMessagesToken: 'RECURRING_TOKEN',
+  notificationMessagesFrequency: 'WEEKLY',
+  notificationMessagesTimezone: 'America/New_York',
+  tokenExpiryTimestamp: NOW + 180 * DAY,
+  userTokenStatus: 'NOT_REFRESHED',
+};
+
+let now: number;
+
+beforeEach(() => {
+  now = NOW;
+  jest.spyOn(Date, 'now').mockImplementation(() => now);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('#requestRecurringNotification', () => {
+  it('should send notification messages template', async () => {
+    const { notifications, mock } = createNotifications();
+
+    let data;
+    mock.onPost().reply((config) => {
+      data = config.data;
+      return [200, reply];
+    });
+
+    await notifications.requestRecurringNotification(USER_ID, {
+      title: 'Weekly deals',
+      payload: 'WEEKLY_DEALS',
+      notificationMessagesFrequency: 'WEEKLY',
+    });
+
+    expect(JSON.parse(data).message.attachment.payload).toEqual({
+      template_type: 'notification_messages',
+      title: 'Weekly deals',
+      payload: 'WEEKLY_DEALS',
+      notification_messages_frequency: 'WEEKLY',
+    });
+  });
+});
+
+describe('#handleOptin', () => {
+  it('should save one time notif token which expires in one year', async () => {
+    const { notifications } = createNotifications();
+
+    const token = await notifications.handleOptin(
+      createOptinEvent(oneTimeNotifOptin)
+    );
+
+    expect(token).toEqual({
+      type: 'one_time_notif_req',
+      token: 'ONE_TIME_TOKEN',
+      psid: USER_ID,
+      payload: 'BACK_IN_STOCK',
+      expiresAt: NOW + 365 * DAY,
+    });
+    expect(
+      await notifications.getToken(
+        'one_time_notif_req',
+        USER_ID,
+        'BACK_IN_STOCK'
+      )
+    ).toEqual(token);
+  });
+
+  it('should keep the last sent time when the recurring token is refreshed', async () => {
+    const { notifications, store } = createNotifications();
+
+    store.set(`notification_messages:${USER_ID}:WEEKLY_DEALS`, {
+      type: 'notification_messages',
+      token: 'OLD_TOKEN',
+      psid: USER_ID,
+      payload: 'WEEKLY_DEALS',
+      expiresAt: NOW + DAY,
+      frequency: 'WEEKLY',
+      lastSentAt: NOW - DAY,
+    });
+
+    const token = await notifications.handleOptin(
+      createOptinEvent({ ...recurringNotifOptin, userTokenStatus: 'REFRESHED' })
+    );
+
+    expect(token).toEqual({
+      type: 'notification_messages',
+      token: 'RECURRING_TOKEN',
+      psid: USER_ID,
+      payload: 'WEEKLY_DEALS',
+      expiresAt: NOW + 180 * DAY,
+      frequency: 'WEEKLY',
+      timezone: 'America/New_York',
+      lastSentAt: NOW - DAY,
+    });
+  });
+
+  it('should remove recurring token when the user stops notifications', async () => {
+    const { notifications } = createNotifications();
+
+    await notifications.handleOptin(createOptinEvent(recurringNotifOptin));
+    const token = await notifications.handleOptin(
+      createOptinEvent({
+        ...recurringNotifOptin,
+        notificationMessagesStatus: 'STOP_NOTIFICATIONS',
+      })
+    );
+
+    expect(token).toBeUndefined();
+    expect(
+      await notifications.getToken(
+        'notification_messages',
+        USER_ID,
+        'WEEKLY_DEALS'
+      )
+    ).toBeUndefined();
+  });
+
+  it('should ignore plugin optins', async () => {
+    const { notifications } = createNotifications();
+
+    expect(
+      await notifications.handleOptin(createOptinEvent({ ref: 'PASS_THROUGH' }))
+    ).toBeUndefined();
+  });
+});
+
+describe('#sendOneTimeNotification', () => {
+  it('should send with the token only once', async () => {
+    const { notifications, mock } = createNotifications();
+
+    let data;
+    mock.onPost().reply((config) => {
+      data = config.data;
+      return [200, reply];
+    });
+
+    await notifications.handleOptin(createOptinEvent(oneTimeNotifOptin));
+
+    const res = await notifications.sendOneTimeNotification(
+      USER_ID,
+      'BACK_IN_STOCK',
+      { text: 'The item is back in stock!' }
+    );
+
+    expect(JSON.parse(data)).toEqual({
+      messaging_type: 'UPDATE',
+      recipient: { one_time_notif_token: 'ONE_TIME_TOKEN' },
+      message: { text: 'The item is back in stock!' },
+    });
+    expect(res).toEqual({
+      recipientId: USER_ID,
+      messageId: 'mid.1489394984387:3dd22de509',
+    });
+
+    await expect(
+      notifications.sendOneTimeNotification(USER_ID, 'BACK_IN_STOCK', {
+        text: 'The item is back in stock!',
+      })
+    ).rejects.toMatchObject({ code: 'TOKEN_NOT_FOUND' });
+  });
+
+  it('should remove the token before sending', async () => {
+    const { notifications, store, mock } = createNotifications();
+
+    let token;
+    mock.onPost().reply(() => {
+      token = store.get(`one_time_notif_req:${USER_ID}:BACK_IN_STOCK`);
+      return [200, reply];
+    });
+
+    await notifications.handleOptin(createOptinEvent(oneTimeNotifOptin));
+
+    await notifications.sendOneTimeNotification(USER_ID, 'BACK_IN_STOCK', {
+      text: 'The item is back in stock!',
+    });
+
+    expect(mock.history.post).toHaveLength(1);
+    expect(token).toBeUndefined();
+  });
+
+  it('should keep the token when the request fails', async () => {
+    const { notifications, mock } = createNotifications();
+
+    mock.onPost().reply(500, {});
+
+    await notifications.handleOptin(createOptinEvent(oneTimeNotifOptin));
+
+    await expect(
+      notifications.sendOneTimeNotification(USER_ID, 'BACK_IN_STOCK', {
+        text: 'The item is back in stock!',
+      })
+    ).rejects.toThrow();
+    expect(
+      await notifications.getToken(
+        'one_time_notif_req',
+        USER_ID,
+        'BACK_IN_STOCK'
+      )
+    ).toBeDefined();
+  });
+
+  it('should send only once when sending concurrently', async () => {
+    const { notifications, mock } = createNotifications();
+
+    mock.onPost().reply(200, reply);
+
+    await notifications.handleOptin(createOptinEvent(oneTimeNotifOptin));
+
+    const results = await Promise.all(
+      [1, 2].map(() =>
+        notifications
+          .sendOneTimeNotification(USER_ID, 'BACK_IN_STOCK', {
+            text: 'The item is back in stock!',
+          })
+          .catch((err) => err)
+      )
+    );
+
+    expect(mock.history.post).toHaveLength(1);
+    expect(results).toContainEqual({
+      recipientId: USER_ID,
+      messageId: 'mid.1489394984387:3dd22de509',
+    });
+    expect(
+      results.find((result) => result instanceof NotificationTokenError)
+    ).toHaveProperty('code', 'TOKEN_NOT_FOUND');
+  });
+
+  it('should throw and remove expired token', async () => {
+    const { notifications, mock } = createNotifications();
+
+    await notifications.handleOptin(createOptinEvent(oneTimeNotifOptin));
+
+    now = NOW + 366 * DAY;
+
+    const error = await notifications
+      .sendOneTimeNotification(USER_ID, 'BACK_IN_STOCK', {
+        text: 'The item is back in stock!',
+      })
+      .catch((err) => err);
+
+    expect(error).toBeInstanceOf(NotificationTokenError);
+    expect(error.name).toEqual('NotificationTokenError');
+    expect(error.code).toEqual('TOKEN_EXPIRED');
+    expect(error.message).toEqual(
+      `Notification Token Error - the token has expired (one_time_notif_req BACK_IN_STOCK for ${USER_ID})`
+    );
+    expect(mock.history.post).toHaveLength(0);
+    expect(
+      await notifications.getToken(
+        'one_time_notif_req',
+        USER_ID,
+        'BACK_IN_STOCK'
+      )
+    ).toBeUndefined();
+  });
+});
+
+describe('#sendRecurringNotification', () => {
+  it('should send with the token once per period', async () => {
+    const { notifications, mock } = createNotifications();
+
+    const data: Record<string, any>[] = [];
+    mock.onPost().reply((config) => {
+      data.push(JSON.parse(config.data));
+      return [200, reply];
+    });
+
+    await notifications.handleOptin(createOptinEvent(recurringNotifOptin));
+
+    await notifications.sendRecurringNotification(USER_ID, 'WEEKLY_DEALS', {
+      text: 'This week: 20% off everything!',
+    });
+
+    now = NOW + 3 * DAY;
+
+    await expect(
+      notifications.sendRecurringNotification(USER_ID, 'WEEKLY_DEALS', {
+        text: 'Another deal',
+      })
+    ).rejects.toMatchObject({
+      code: 'FREQUENCY_LIMITED',
+      retryAt: NOW + 7 * DAY,
+    });
+
+    now = NOW + 7 * DAY;
+
+    await notifications.sendRecurringNotification(USER_ID, 'WEEKLY_DEALS', {
+      text: 'Next week: 30% off everything!',
+    });
+
+    expect(data).toEqual([
+      {
+        messaging_type: 'UPDATE',
+        recipient: { notification_messages_token: 'RECURRING_TOKEN' },
+        message: { text: 'This week: 20% off everything!' },
+      },
+      {
+        messaging_type: 'UPDATE',
+        recipient: { notification_messages_token: 'RECURRING_TOKEN' },
+        message: { text: 'Next week: 30% off everything!' },
+      },
+    ]);
+  });
+
+  it('should throw when no token is granted', async () => {
+    const { notifications } = createNotifications();
+
+    await expect(
+      notifications.sendRecurringNotification(USER_ID, 'WEEKLY_DEALS', {
+        text: 'This week: 20% off everything!',
+      })
+    ).rejects.toThrow(
+      `Notification Token Error - no token has been granted (notification_messages WEEKLY_DEALS for ${USER_ID})`
+    );
+  });
+});
@@ -0,0 +1,200 @@
+import MessageValidationError from '../MessageValidationError';
+import Messenger from '../Messenger';
+import MessengerBatch from '../MessengerBatch';
+import MessengerValidation from '../MessengerValidation';
+
+const {
+  getMessageValidationIssues,
+  validateMessage,
+  validateBatch,
+} = MessengerValidation;
+
+const postbackButton = {
+  type: 'postback',
+  title: 'Start Chatting',
+  payload: 'USER_DEFINED_PAYLOAD',
+};
+
+describe('#validateMessage', () => {
+  it('should pass valid messages', () => {
+    expect(() =>
+      validateMessage(
+        Messenger.createButtonTemplate('What do you want to do next?', [
+          {
+            type: 'web_url',
+            url: 'https://petersapparel.parseapp.com',
+            title: 'Show Website',
+          },
+          postbackButton,
+        ])
+      )
+    ).not.toThrow();
+    expect(() =>
+      validateMessage(
+        Messenger.createText('Hello', {
+          quickReplies: [
+            { contentType: 'text', title: 'Red', payload: 'RED' },
+            { contentType: 'user_email' },
+          ],
+        })
+      )
+    ).not.toThrow();
+  });
+
+  it('should throw with all the issues', () => {
+    const error = (() => {
+      try {
+        validateMessage(
+          Messenger.createButtonTemplate('x'.repeat(641), [
+            postbackButton,
+            postbackButton,
+            postbackButton,
+            { type: 'web_url', url: 'ftp://example.com', title: 'Website' },
+          ])
+        );
+      } catch (err) {
+        return err;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(MessageValidationError);
+    expect(error.name).toEqual('MessageValidationError');
+    expect(error.issues).toEqual([
+      {
+        path: 'message.attachment.payload.text',
+        message: 'must be at most 640 characters, got 641',
+      },
+      {
+        path: 'message.attachment.payload.buttons',
+        message: 'must have at most 3 items, got 4',
+      },
+      {
+        path: 'message.attachment.payload.buttons[3].url',
+        message: 'must be a URL with http or https scheme',
+      },
+    ]);
+    expect(error.message).toEqual(
+      'Message Validation Error - message.attachment.payload.text must be at most 640 characters, got 641; message.attachment.payload.buttons must have at most 3 items, got 4; message.attachment.payload.buttons[3].url must be a URL with http or https scheme'
+    );
+  });
+});
+
+describe('#validateBatch', () => {
+  it('should throw with the issues of all the messages in the batch', () => {
+    expect(() =>
+      validateBatch([
+        MessengerBatch.sendText('1QAZ2WSX', 'Hello'),
+        MessengerBatch.typingOn('1QAZ2WSX'),
+        MessengerBatch.sendText('1QAZ2WSX', 'x'.repeat(2001)),
+      ])
+    ).toThrow(
+      'Message Validation Error - batch[2].message.text must be at most 2000 characters, got 2001'
+    );
+  });
+
+  it('should pass batches without invalid messages', () => {
+    expect(() =>
+      validateBatch([
+        MessengerBatch.sendText('1QAZ2WSX', 'Hello'),
+        MessengerBatch.getUserProfile('1QAZ2WSX'),
+      ])
+    ).not.toThrow();
+  });
+});
+
+describe('#getMessageValidationIssues', () => {
+  it('should check generic template elements', () => {
+    const elements = Array.from({ length: 11 }, () => ({
+      title: 'Welcome to Peters Hats',
+      imageUrl: 'https://petersfancybrownhats.com/company_image.png',
+      subtitle: "We've got the right hat for everyone.",
+      buttons: [postbackButton],
+    }));
+    elements[1] = {
+      ...elements[1],
+      title: 'x'.repeat(81),
+      imageUrl: 'petersfancybrownhats.com/company_image.png',
+      buttons: [{ type: 'phone_number', title: 'Call', payload: '0912345678' }],
+    };
+
+    expect(
+      getMessageValidationIssues(Messenger.createGenericTemplate(elements))
+    ).toEqual([
+      {
+        path: 'message.attachment.payload.elements',
+        message: 'must have at most 10 items, got 11',
+      },
+      {
+        path: 'message.attachment.payload.elements[1].title',
+        message: 'must be at most 80 characters, got 81',
+      },
+      {
+        path: 'message.attachment.payload.elements[1].imageUrl',
+        message: 'must be a URL with http or https scheme',
+      },
+      {
+        path: 'message.attachment.payload.elements[1].buttons[0].payload',
+        message: 'must be a phone number starting with +',
+      },
+    ]);
+  });
+
+  it('should check quick replies', () => {
+    const quickReplies = Array.from({ length: 14 }, (_, i) => ({
+      contentType: 'text' as const,
+      title: `${i}`,
+      payload: `${i}`,
+    }));
+
+    expect(
+      getMessageValidationIssues({
+        text: 'Pick a number',
+        quickReplies: [
+          ...quickReplies.slice(0, 13),
+          { contentType: 'text', title: '', payload: '13' },
+        ],
+      })
+    ).toEqual([
+      {
+        path: 'message.quickReplies',
+        message: 'must have at most 13 items, got 14',
+      },
+      {
+        path: 'message.quickReplies[13].title',
+        message: 'must not be empty',
+      },
+    ]);
+  });
+
+  it('should support snakecase keys', () => {
+    expect(
+      getMessageValidationIssues({
+        text: 'Hello',
+        // @ts-expect-error
+        quick_replies: [{ content_type: 'text', payload: 'RED' }],
+      })
+    ).toEqual([
+      {
+        path: 'message.quickReplies[0].title',
+        message: 'is required',
+      },
+    ]);
+  });
+
+  it('should check media urls and empty messages', () => {
+    expect(
+      getMessageValidationIssues(Messenger.createImage('file:///image.jpg'))
+    ).toEqual([
+      {
+        path: 'message.attachment.payload.url',
+        message: 'must be a URL with http or https scheme',
+      },
+    ]);
+    expect(getMessageValidationIssues({})).toEqual([
+      {
+        path: 'message',
+        message: 'must have either text or attachment',
+      },
+    ]);
+  });
+});
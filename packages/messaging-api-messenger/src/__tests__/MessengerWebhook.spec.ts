@@ -0,0 +1,324 @@
+import crypto from 'crypto';
+
+import { WebhookRequest } from 'messaging-api-common';
+
+import MessengerClient from '../MessengerClient';
+import MessengerWebhook from '../MessengerWebhook';
+
+const APP_SECRET = 'APP_SECRET';
+const VERIFY_TOKEN = 'VERIFY_TOKEN';
+
+const body = {
+  object: 'page',
+  entry: [
+    {
+      id: '1895382890692546',
+      time: 1458692752478,
+      messaging: [
+        {
+          sender: { id: '1412611362105802' },
+          recipient: { id: '1895382890692546' },
+          timestamp: 1458692752478,
+          message: {
+            mid: 'mid.1457764197618:41d102a3e1ae206a38',
+            text: 'hello',
+            quick_reply: { payload: 'QUICK_REPLY_PAYLOAD' },
+          },
+        },
+      ],
+    },
+    {
+      id: '1895382890692546',
+      time: 1458692752478,
+      standby: [
+        {
+          sender: { id: '1412611362105802' },
+          recipient: { id: '1895382890692546' },
+          timestamp: 1458692752478,
+          postback: { title: 'Start', payload: 'GET_STARTED' },
+        },
+      ],
+    },
+  ],
+};
+
+const client = new MessengerClient({
+  accessToken: 'ACCESS_TOKEN',
+  appSecret: APP_SECRET,
+});
+
+function createRequest(request: Partial<WebhookRequest> = {}): WebhookRequest {
+  const rawBody = JSON.stringify(body);
+  return {
+    method: 'POST',
+    url: '/webhooks/messenger',
+    path: '/webhooks/messenger',
+    query: {},
+    headers: {
+      'x-hub-signature-256': `sha256=${crypto
+        .createHmac('sha256', APP_SECRET)
+        .update(rawBody)
+        .digest('hex')}`,
+    },
+    rawBody: Buffer.from(rawBody),
+    ...request,
+  };
+}
+
+describe('#parseWebhookBody', () => {
+  it('should flatten messaging and standby events', () => {
+    expect(MessengerWebhook.parseWebhookBody(JSON.stringify(body))).toEqual([
+      {
+        type: 'message',
+        pageId: '1895382890692546',
+        isStandby: false,
+        sender: { id: '1412611362105802' },
+        recipient: { id: '1895382890692546' },
+        timestamp: 1458692752478,
+        message: {
+          mid: 'mid.1457764197618:41d102a3e1ae206a38',
+          text: 'hello',
+          quickReply: { payload: 'QUICK_REPLY_PAYLOAD' },
+        },
+      },
+      {
+        type: 'postback',
+        pageId: '1895382890692546',
+        isStandby: true,
+        sender: { id: '1412611362105802' },
+        recipient: { id: '1895382890692546' },
+        timestamp: 1458692752478,
+        postback: { title: 'Start', payload: 'GET_STARTED' },
+      },
+    ]);
+  });
+
+  it('should type events by their payload fields', () => {
+    const base = {
+      sender: { id: '1412611362105802' },
+      recipient: { id: '1895382890692546' },
+      timestamp: 1458692752478,
+    };
+
+    const events = MessengerWebhook.parseWebhookBody({
+      object: 'page',
+      entry: [
+        {
+          id: '1895382890692546',
+          time: 1458692752478,
+          messaging: [
+            { ...base, message: { mid: 'mid.1', text: 'hi', isEcho: true } },
+            { ...base, read: { watermark: 1458668856253 } },
+            {
+              ...base,
+              delivery: { mids: ['mid.1'], watermark: 1458668856253 },
+            },
+            {
+              ...base,
+              referral: {
+                ref: 'REF',
+                source: 'SHORTLINK',
+                type: 'OPEN_THREAD',
+              },
+            },
+            {
+              ...base,
+              optin: {
+                type: 'one_time_notif_req',
+                payload: 'PAYLOAD',
+                one_time_notif_token: 'TOKEN',
+              },
+            },
+            {
+              ...base,
+              pass_thread_control: { new_owner_app_id: '123456789' },
+            },
+            {
+              ...base,
+              take_thread_control: { previous_owner_app_id: '123456789' },
+            },
+            {
+              ...base,
+              request_thread_control: { requested_owner_app_id: 123456789 },
+            },
+            {
+              ...base,
+              reaction: {
+                reaction: 'love',
+                emoji: '\u{2764}\u{FE0F}',
+                action: 'react',
+                mid: 'mid.1',
+              },
+            },
+            { ...base, account_linking: { status: 'unlinked' } },
+          ],
+        },
+      ],
+    } as any);
+
+    expect(events.map((event) => event.type)).toEqual([
+      'echo',
+      'read',
+      'delivery',
+      'referral',
+      'optin',
+      'passThreadControl',
+      'takeThreadControl',
+      'requestThreadControl',
+      'reaction',
+      'unknown',
+    ]);
+    expect(events[4]).toMatchObject({
+      optin: {
+        type: 'one_time_notif_req',
+        payload: 'PAYLOAD',
+        oneTimeNotifToken: 'TOKEN',
+      },
+    });
+    expect(events[5]).toMatchObject({
+      passThreadControl: { newOwnerAppId: '123456789' },
+    });
+  });
+
+  it('should return an empty array when there is no entry', () => {
+    expect(
+      MessengerWebhook.parseWebhookBody({ object: 'page' } as any)
+    ).toEqual([]);
+  });
+});
+
+describe('#createEventDispatcher', () => {
+  it('should dispatch events to the handlers by types', async () => {
+    const handlers = {
+      message: jest.fn(),
+      default: jest.fn(),
+      standby: { postback: jest.fn() },
+    };
+
+    const dispatch = MessengerWebhook.createEventDispatcher(handlers);
+    const events = MessengerWebhook.parseWebhookBody(body as any);
+
+    await dispatch(events);
+
+    expect(handlers.message).toBeCalledWith(events[0]);
+    expect(handlers.standby.postback).toBeCalledWith(events[1]);
+    expect(handlers.default).not.toBeCalled();
+  });
+
+  it('should ignore standby events without standby handlers', async () => {
+    const handlers = { postback: jest.fn(), default: jest.fn() };
+
+    const dispatch = MessengerWebhook.createEventDispatcher(handlers);
+    const events = MessengerWebhook.parseWebhookBody(body as any);
+
+    await dispatch(events);
+
+    expect(handlers.postback).not.toBeCalled();
+    expect(handlers.default).toBeCalledTimes(1);
+    expect(handlers.default).toBeCalledWith(events[0]);
+  });
+
+  it('should handle events one by one in order', async () => {
+    const calls: string[] = [];
+
+    const dispatch = MessengerWebhook.createEventDispatcher({
+      message: async () => {
+        await Promise.resolve();
+        calls.push('message');
+      },
+      standby: {
+        default: () => {
+          calls.push('standby');
+        },
+      },
+    });
+
+    await dispatch(MessengerWebhook.parseWebhookBody(body as any));
+
+    expect(calls).toEqual(['message', 'standby']);
+  });
+});
+
+describe('#createWebhookPlatform', () => {
+  it('should answer the verification request', async () => {
+    const platform = MessengerWebhook.createWebhookPlatform(
+      client,
+      VERIFY_TOKEN
+    );
+
+    const query = {
+      'hub.mode': 'subscribe',
+      'hub.verify_token': VERIFY_TOKEN,
+      'hub.challenge': 'CHALLENGE',
+    };
+
+    expect(
+      await platform.handleRequest(createRequest({ method: 'GET', query }))
+    ).toEqual({ response: { status: 200, body: 'CHALLENGE' } });
+    expect(
+      await platform.handleRequest(
+        createRequest({
+          method: 'GET',
+          query: { ...query, 'hub.verify_token': 'WRONG_TOKEN' },
+        })
+      )
+    ).toEqual({ response: { status: 403 } });
+  });
+
+  it('should respond EVENT_RECEIVED with parsed events', async () => {
+    const platform = MessengerWebhook.createWebhookPlatform(
+      client,
+      VERIFY_TOKEN
+    );
+
+    const result = await platform.handleRequest(createRequest());
+
+    expect(result.response).toEqual({ status: 200, body: 'EVENT_RECEIVED' });
+    expect(result.events).toHaveLength(2);
+  });
+
+  it('should respond 401 when the signature is invalid', async () => {
+    const platform = MessengerWebhook.createWebhookPlatform(
+      client,
+      VERIFY_TOKEN
+    );
+
+    expect(
+      await platform.handleRequest(
+        createRequest({ headers: { 'x-hub-signature-256': 'sha256=invalid' } })
+      )
+    ).toEqual({ response: { status: 401 } });
+  });
+
+  it('should respond 400 when the body is malformed', async () => {
+    const platform = MessengerWebhook.createWebhookPlatform(
+      client,
+      VERIFY_TOKEN
+    );
+
+    expect(
+      await platform.handleRequest(
+        createRequest({
+          headers: {
+            'x-hub-signature-256': `sha256=${crypto
+              .createHmac('sha256', APP_SECRET)
+              .update('{')
+              .digest('hex')}`,
+          },
+          rawBody: Buffer.from('{'),
+        })
+      )
+    ).toEqual({ response: { status: 400 } });
+  });
+
+  it('should throw when appSecret is not provided', () => {
+    expect(() =>
+      MessengerWebhook.createWebhookPlatform(
+        new MessengerClient({ accessToken: 'ACCESS_TOKEN' }),
+        VERIFY_TOKEN
+      )
+    ).toThrow(
+      'MessengerWebhook: `appSecret` is required to verify webhook requests.'
+    );
+  });
+});
@@ -1,7 +1,31 @@
-import { Messenger, MessengerBatch, MessengerClient } from '..';
+import {
+  FacebookBatch,
+  FacebookClient,
+  InstagramClient,
+  InstagramWebhook,
+  MemoryNotificationTokenStore,
+  MessageValidationError,
+  Messenger,
+  MessengerBatch,
+  MessengerClient,
+  MessengerMockServer,
+  MessengerNotifications,
+  MessengerWebhook,
+  NotificationTokenError,
+} from '..';
 
 it('should export api correctly', () => {
+  expect(FacebookBatch).toBeDefined();
+  expect(FacebookClient).toBeDefined();
+  expect(InstagramClient).toBeDefined();
+  expect(InstagramWebhook).toBeDefined();
+  expect(MemoryNotificationTokenStore).toBeDefined();
+  expect(MessageValidationError).toBeDefined();
   expect(Messenger).toBeDefined();
   expect(MessengerBatch).toBeDefined();
   expect(MessengerClient).toBeDefined();
+  expect(MessengerMockServer).toBeDefined();
+  expect(MessengerNotifications).toBeDefined();
+  expect(MessengerWebhook).toBeDefined();
+  expect(NotificationTokenError).toBeDefined();
 });
@@ -1,5 +1,17 @@
+export { default as FacebookBatch } from './FacebookBatch';
+export { default as FacebookClient } from './FacebookClient';
+export { default as InstagramClient } from './InstagramClient';
+export { default as InstagramWebhook } from './InstagramWebhook';
+export { default as MessageValidationError } from './MessageValidationError';
+export { default as MemoryNotificationTokenStore } from './MemoryNotificationTokenStore';
 export { default as Messenger } from './Messenger';
 export { default as MessengerBatch } from './MessengerBatch';
 export { default as MessengerClient } from './MessengerClient';
+export { default as MessengerMockServer } from './MessengerMockServer';
+export { default as MessengerNotifications } from './MessengerNotifications';
+export { default as MessengerWebhook } from './MessengerWebhook';
+export { default as NotificationTokenError } from './NotificationTokenError';
 
+export * as FacebookTypes from './FacebookTypes';
+export * as InstagramTypes from './InstagramTypes';
 export * as MessengerTypes from './MessengerTypes';
@@ -0,0 +1,80 @@
+import url from 'url';
+
+import * as FacebookTypes from './FacebookTypes';
+
+type Cursor = {
+  after?: string;
+  until?: string;
+};
+
+/**
+ * Gets the cursor of the next page from `paging.cursors.after`, or from the `after` and `until` query params of `paging.next` on time-based edges without cursors.
+ */
+function getNextCursor(paging?: FacebookTypes.Paging): Cursor | undefined {
+  if (!paging || !paging.next) {
+    return undefined;
+  }
+
+  if (paging.cursors && paging.cursors.after) {
+    return { after: paging.cursors.after };
+  }
+
+  const { query } = url.parse(paging.next, true);
+  const after = typeof query.after === 'string' ? query.after : undefined;
+  const until = typeof query.until === 'string' ? query.until : undefined;
+
+  return after || until ? { after, until } : undefined;
+}
+
+/**
+ * Iterates items of the pages fetched one by one, following `paging.cursors.after`, or the `after` and `until` query params of `paging.next` on time-based edges, while `paging.next` exists. Breaking out of `for await` stops fetching the remaining pages.
+ *
+ * @param fetchPage - The function to fetch the page after the cursor (`after`, or `until` on time-based edges), with the number of items to fetch
+ * @param options - Optional `limit` of the total items and `pageSize` of each page
+ * @returns The async iterator of items
+ *
+ * @example
+ *
+ * ```js
+ * for await (const label of paginate(
+ *   ({ after, limit }) => client.get('/me/custom_labels', { after, limit }),
+ *   { limit: 100, pageSize: 25 }
+ * )) {
+ *   console.log(label.id);
+ * }
+ * ```
+ */
+export default async function* paginate<T>(
+  fetchPage: (
+    cursor: Cursor & { limit?: number }
+  ) => Promise<FacebookTypes.PagingResult<T>>,
+  { limit, pageSize }: FacebookTypes.PaginateOptions = {}
+): AsyncIterableIterator<T> {
+  let cursor: Cursor = {};
+  let remaining = limit === undefined ? Infinity : limit;
+
+  while (remaining > 0) {
+    // eslint-disable-next-line no-await-in-loop
+    const { data, paging } = await fetchPage({
+      ...cursor,
+      // don't fetch more items than the rest of the limit
+      limit:
+        remaining === Infinity
+          ? pageSize
+          : Math.min(pageSize === undefined ? remaining : pageSize, remaining),
+    });
+
+    const items = data.slice(0, remaining);
+    remaining -= items.length;
+
+    yield* items;
+
+    const nextCursor = getNextCursor(paging);
+
+    if (!nextCursor || data.length === 0) {
+      return;
+    }
+
+    cursor = nextCursor;
+  }
+}
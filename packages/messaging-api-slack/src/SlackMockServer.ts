@@ -0,0 +1,112 @@
+import {
+  MockRequest,
+  MockResponse,
+  MockServer,
+  camelcaseKeysDeep,
+} from 'messaging-api-common';
+
+import * as SlackTypes from './SlackTypes';
+
+const JSON_FIELDS = ['attachments', 'blocks'];
+
+function slackError(error: string): MockResponse {
+  return { body: { ok: false, error } };
+}
+
+// form fields are always strings, so restore the JSON and boolean fields
+function parseFormFields(
+  body: Record<string, string>
+): Record<string, unknown> {
+  return Object.keys(body).reduce<Record<string, unknown>>((acc, key) => {
+    const value = body[key];
+
+    if (JSON_FIELDS.includes(key)) {
+      try {
+        acc[key] = JSON.parse(value);
+      } catch (_) {
+        acc[key] = value;
+      }
+    } else if (value === 'true' || value === 'false') {
+      acc[key] = value === 'true';
+    } else {
+      acc[key] = value;
+    }
+
+    return acc;
+  }, {});
+}
+
+/**
+ * An in-process fake Slack Web API server which implements `chat.postMessage`. Sent messages are validated and recorded in `messages`.
+ *
+ * @example
+ * ```js
+ * const server = new SlackMockServer();
+ * const origin = await server.listen();
+ *
+ * const client = new SlackOAuthClient({ accessToken: ACCESS_TOKEN, origin });
+ *
+ * await client.chat.postMessage({ channel: 'C1234567890', text: 'Hello!' });
+ *
+ * server.messages;
+ * // [{ channel: 'C1234567890', text: 'Hello!' }]
+ * ```
+ */
+export default class SlackMockServer extends MockServer<
+  SlackTypes.MockSentMessage
+> {
+  private messageCount = 0;
+
+  constructor() {
+    super('slack');
+
+    this.route('POST', '/api/chat.postMessage', (request) =>
+      this.handlePostMessage(request)
+    );
+  }
+
+  private handlePostMessage(request: MockRequest): MockResponse {
+    const { token, ...fields } = parseFormFields(request.body || {});
+
+    if (!token) {
+      return slackError('not_authed');
+    }
+
+    if (!fields.channel) {
+      return slackError('channel_not_found');
+    }
+
+    if (!fields.text && !fields.attachments && !fields.blocks) {
+      return slackError('no_text');
+    }
+
+    if (
+      (fields.attachments !== undefined &&
+        !Array.isArray(fields.attachments)) ||
+      (fields.blocks !== undefined && !Array.isArray(fields.blocks))
+    ) {
+      return slackError('invalid_arguments');
+    }
+
+    const message = camelcaseKeysDeep(fields) as SlackTypes.MockSentMessage;
+    this.messages.push(message);
+
+    this.messageCount += 1;
+    const ts = `1500000000.${String(this.messageCount).padStart(6, '0')}`;
+
+    return {
+      body: {
+        ok: true,
+        channel: fields.channel,
+        ts,
+        message: {
+          type: 'message',
+          subtype: 'bot_message',
+          text: fields.text || '',
+          ts,
+          bot_id: 'B_MOCK',
+        },
+      },
+    };
+  }
+}
@@ -6,15 +6,89 @@ import invariant from 'ts-invariant';
 import warning from 'warning';
 import {
   OnRequestFunction,
+  RateLimitPolicy,
+  RateLimitRule,
+  RequestOptions,
+  RetryPolicy,
   camelcaseKeysDeep,
+  createCassetteAdapter,
+  createHmacDigest,
+  createRateLimitInterceptor,
+  createRateLimitNamespace,
+  createRedactor,
+  createRequestConfig,
   createRequestInterceptor,
+  createResponseInterceptor,
+  createRetryInterceptor,
+  safeCompare,
   snakecaseKeysDeep,
+  withRequestOptions,
 } from 'messaging-api-common';
 
 import * as SlackTypes from './SlackTypes';
 
 const DEFAULT_PAYLOAD_FIELDS_TO_STRINGIFY = ['attachments', 'blocks'];
 
+const FIVE_MINUTES_IN_SECONDS = 60 * 5;
+
+const retryPolicy: RetryPolicy = {
+  // methods like `users.info` and `conversations.list` only read data
+  isIdempotent: (config) =>
+    /\.(info|list|history|replies|members)$/.test(config.url || ''),
+};
+
+/**
+ * Rate limit tiers of Web API methods. Methods not listed here are not limited by default.
+ *
+ * @see https://api.slack.com/docs/rate-limits
+ */
+const METHOD_TIERS: Record<string, 1 | 2 | 3 | 4> = {
+  'conversations.list': 2,
+  'users.list': 2,
+  'chat.delete': 3,
+  'chat.deleteScheduledMessage': 3,
+  'chat.meMessage': 3,
+  'chat.scheduleMessage': 3,
+  'chat.scheduledMessages.list': 3,
+  'chat.unfurl': 3,
+  'chat.update': 3,
+  'conversations.history': 3,
+  'conversations.info': 3,
+  'conversations.replies': 3,
+  'chat.getPermalink': 4,
+  'conversations.members': 4,
+  'users.info': 4,
+  'views.open': 4,
+  'views.publish': 4,
+  'views.push': 4,
+  'views.update': 4,
+};
+
+// requests per minute of each tier
+const TIER_LIMITS = { 1: 1, 2: 20, 3: 50, 4: 100 };
+
+const rateLimitPolicy: RateLimitPolicy = {
+  // chat.postMessage allows one message per second per channel
+  perRecipient: { capacity: 1, interval: 1000 },
+  getRecipient: (config) => {
+    if (config.url !== 'chat.postMessage' || typeof config.data !== 'string') {
+      return undefined;
+    }
+    const { channel } = querystring.parse(config.data);
+    return typeof channel === 'string' ? channel : undefined;
+  },
+  rules: ([1, 2, 3, 4] as const).map(
+    (tier): RateLimitRule => ({
+      capacity: TIER_LIMITS[tier],
+      interval: 60 * 1000,
+      key: (config) =>
+        config.url && METHOD_TIERS[config.url] === tier
+          ? `method:${config.url}`
+          : undefined,
+    })
+  ),
+};
+
 function stringifyPayloadFields(
   payload: Record<string, any> = {},
   fields: Array<string> = DEFAULT_PAYLOAD_FIELDS_TO_STRINGIFY
@@ -51,6 +125,11 @@ export default class SlackOAuthClient {
    */
   readonly accessToken: string;
 
+  /**
+   * The signing secret used by the client.
+   */
+  readonly signingSecret?: string;
+
   /**
    * chat.* APIs.
    */
@@ -633,6 +712,7 @@ export default class SlackOAuthClient {
     );
 
     this.accessToken = config.accessToken;
+    this.signingSecret = config.signingSecret;
     this.onRequest = config.onRequest;
 
     // Web API
@@ -642,13 +722,90 @@ export default class SlackOAuthClient {
       headers: {
         'Content-Type': 'application/x-www-form-urlencoded',
       },
+      timeout: config.timeout,
+    });
+
+    const redact = createRedactor({
+      policy: { keys: ['token'], values: [this.accessToken] },
+      redact: config.redact,
     });
 
     this.axios.interceptors.request.use(
-      createRequestInterceptor({ onRequest: this.onRequest })
+      createRequestInterceptor({ onRequest: this.onRequest, redact })
     );
 
-    this.chat = {
+    if (config.cassette) {
+      this.axios.defaults.adapter = createCassetteAdapter({
+        cassette: config.cassette,
+        adapter: this.axios.defaults.adapter,
+      });
+    }
+
+    if (config.onResponse || config.onError) {
+      const responseInterceptor = createResponseInterceptor({
+        onResponse: config.onResponse,
+        onError: config.onError,
+        requestIdHeader: 'x-slack-req-id',
+      });
+      this.axios.interceptors.response.use(
+        responseInterceptor.onFulfilled,
+        responseInterceptor.onRejected
+      );
+    }
+
+    if (config.rateLimit) {
+      this.axios.interceptors.request.use(
+        createRateLimitInterceptor({
+          namespace: createRateLimitNamespace('slack', this.accessToken),
+          rateLimit: config.rateLimit,
+          policy: rateLimitPolicy,
+        })
+      );
+    }
+
+    if (config.retry) {
+      this.axios.interceptors.response.use(
+        undefined,
+        createRetryInterceptor({
+          axios: this.axios,
+          retry: config.retry,
+          policy: retryPolicy,
+        })
+      );
+    }
+
+    this.chat = this.createChat();
+    this.views = this.createViews();
+  }
+
+  /**
+   * Creates a view of the client whose requests carry the request options, so any method can be aborted or time out. The view shares the state of the client.
+   *
+   * @param options - The request options, e.g. `signal` and `timeout`.
+   * @returns The view of the client.
+   *
+   * @example
+   *
+   * ```js
+   * const controller = new AbortController();
+   *
+   * await client
+   *   .withRequestOptions({ signal: controller.signal, timeout: 5000 })
+   *   .postMessage(CHANNEL, 'Hello');
+   * ```
+   */
+  withRequestOptions(options: RequestOptions): this {
+    const view = withRequestOptions(this, options);
+
+    // the namespaces are bound to the client, so they are bound to the view again
+    return Object.defineProperties(view, {
+      chat: { value: view.createChat() },
+      views: { value: view.createViews() },
+    });
+  }
+
+  private createChat(): SlackOAuthClient['chat'] {
+    return {
       postMessage: this._postMessage.bind(this),
       postEphemeral: this._postEphemeral.bind(this),
       update: this._updateMessage.bind(this),
@@ -662,8 +819,10 @@ export default class SlackOAuthClient {
         list: this._getScheduledMessages.bind(this),
       },
     };
+  }
 
-    this.views = {
+  private createViews(): SlackOAuthClient['views'] {
+    return {
       open: this._openView.bind(this),
       publish: this._publishView.bind(this),
       push: this._pushView.bind(this),
@@ -671,9 +830,63 @@ export default class SlackOAuthClient {
     };
   }
 
+  /**
+   * Verifies the `X-Slack-Signature` header of a request sent from Slack.
+   *
+   * The signature is a hex encoded HMAC-SHA256 digest of `v0:{timestamp}:{rawBody}` using the signing secret as the key, prefixed with `v0=`. Requests with a timestamp older than five minutes are rejected to prevent replay attacks.
+   *
+   * @param rawBody - The raw request body.
+   * @param signature - The value of the `X-Slack-Signature` header.
+   * @param timestamp - The value of the `X-Slack-Request-Timestamp` header.
+   * @returns `true` if the signature is valid and the request is fresh.
+   *
+   * @see https://api.slack.com/authentication/verifying-requests-from-slack
+   *
+   * @example
+   *
+   * ```js
+   * client.verifySignature(
+   *   rawBody,
+   *   req.headers['x-slack-signature'],
+   *   req.headers['x-slack-request-timestamp']
+   * );
+   * ```
+   */
+  verifySignature(
+    rawBody: string | Buffer,
+    signature: string,
+    timestamp: string | number
+  ): boolean {
+    invariant(
+      this.signingSecret,
+      'SlackOAuthClient: `signingSecret` is required to verify the signature.'
+    );
+
+    if (typeof signature !== 'string') return false;
+
+    const requestTimestamp = Number(timestamp);
+    const now = Math.floor(Date.now() / 1000);
+
+    if (
+      Number.isNaN(requestTimestamp) ||
+      Math.abs(now - requestTimestamp) > FIVE_MINUTES_IN_SECONDS
+    ) {
+      return false;
+    }
+
+    const digest = createHmacDigest(
+      'sha256',
+      this.signingSecret as string,
+      `v0:${timestamp}:${rawBody.toString()}`
+    );
+
+    return safeCompare(`v0=${digest}`, signature);
+  }
+
   async callMethod(
     method: SlackTypes.AvailableMethod,
-    inputBody: Record<string, any> = {}
+    inputBody: Record<string, any> = {},
+    requestOptions: RequestOptions = {}
   ): Promise<SlackTypes.OAuthAPIResponse> {
     try {
       const body = {
@@ -683,7 +896,8 @@ export default class SlackOAuthClient {
 
       const response = await this.axios.post(
         method,
-        querystring.stringify(snakecaseKeysDeep(body) as any)
+        querystring.stringify(snakecaseKeysDeep(body) as any),
+        createRequestConfig(requestOptions)
       );
 
       const data = (camelcaseKeysDeep(
@@ -769,6 +983,7 @@ export default class SlackOAuthClient {
    *
    * @param channelId - Channel to get info on.
    * @param options - Optional arguments.
+   * @param requestOptions - Optional `signal` to abort the request and `timeout` to override the timeout of the client.
    *
    * @see https://api.slack.com/methods/conversations.members
    *
@@ -785,15 +1000,20 @@ export default class SlackOAuthClient {
    */
   getConversationMembers(
     channelId: string,
-    options?: SlackTypes.ConversationMembersOptions
+    options?: SlackTypes.ConversationMembersOptions,
+    requestOptions?: RequestOptions
   ): Promise<{
     members: string[];
     next?: string;
   }> {
-    return this.callMethod('conversations.members', {
-      channel: channelId,
-      ...options,
-    }).then((data) => ({
+    return this.callMethod(
+      'conversations.members',
+      {
+        channel: channelId,
+        ...options,
+      },
+      requestOptions
+    ).then((data) => ({
       members: data.members,
       next: data.responseMetadata && data.responseMetadata.nextCursor,
     }));
@@ -804,6 +1024,7 @@ export default class SlackOAuthClient {
    *
    * @param channelId - Channel to get info on.
    * @param options - Optional arguments.
+   * @param requestOptions - Optional `signal` to stop fetching the remaining pages and `timeout` of each page.
    *
    * @see https://api.slack.com/methods/conversations.members
    *
@@ -816,7 +1037,8 @@ export default class SlackOAuthClient {
    */
   async getAllConversationMembers(
     channelId: string,
-    options?: Omit<SlackTypes.ConversationMembersOptions, 'cursor'>
+    options?: Omit<SlackTypes.ConversationMembersOptions, 'cursor'>,
+    requestOptions?: RequestOptions
   ): Promise<string[]> {
     let allMembers: string[] = [];
     let continuationCursor;
@@ -829,10 +1051,14 @@ export default class SlackOAuthClient {
         members: string[];
         next?: string;
         // eslint-disable-next-line no-await-in-loop
-      } = await this.getConversationMembers(channelId, {
-        cursor: continuationCursor,
-        ...options,
-      });
+      } = await this.getConversationMembers(
+        channelId,
+        {
+          cursor: continuationCursor,
+          ...options,
+        },
+        requestOptions
+      );
 
       allMembers = allMembers.concat(members);
       continuationCursor = next;
@@ -845,6 +1071,7 @@ export default class SlackOAuthClient {
    * Lists all channels in a Slack team.
    *
    * @param options - Optional arguments.
+   * @param requestOptions - Optional `signal` to abort the request and `timeout` to override the timeout of the client.
    *
    * @see https://api.slack.com/methods/conversations.list
    *
@@ -871,21 +1098,25 @@ export default class SlackOAuthClient {
    * ```
    */
   getConversationList(
-    options?: SlackTypes.ConversationListOptions
+    options?: SlackTypes.ConversationListOptions,
+    requestOptions?: RequestOptions
   ): Promise<{
     channels: SlackTypes.Channel[];
     next?: string;
   }> {
-    return this.callMethod('conversations.list', options).then((data) => ({
-      channels: data.channels,
-      next: data.responseMetadata && data.responseMetadata.nextCursor,
-    }));
+    return this.callMethod('conversations.list', options, requestOptions).then(
+      (data) => ({
+        channels: data.channels,
+        next: data.responseMetadata && data.responseMetadata.nextCursor,
+      })
+    );
   }
 
   /**
    * Recursively lists all channels in a Slack team using cursor.
    *
    * @param options - Optional arguments.
+   * @param requestOptions - Optional `signal` to stop fetching the remaining pages and `timeout` of each page.
    *
    * @see https://api.slack.com/methods/conversations.list
    *
@@ -908,7 +1139,8 @@ export default class SlackOAuthClient {
    * ```
    */
   async getAllConversationList(
-    options?: Omit<SlackTypes.ConversationListOptions, 'cursor'>
+    options?: Omit<SlackTypes.ConversationListOptions, 'cursor'>,
+    requestOptions?: RequestOptions
   ): Promise<SlackTypes.Channel[]> {
     let allChannels: SlackTypes.Channel[] = [];
     let continuationCursor: string | undefined;
@@ -921,7 +1153,7 @@ export default class SlackOAuthClient {
         channels,
         next,
         // eslint-disable-next-line no-await-in-loop
-      } = await this.getConversationList(nextOptions);
+      } = await this.getConversationList(nextOptions, requestOptions);
       allChannels = allChannels.concat(channels);
       continuationCursor = next;
     } while (continuationCursor);
@@ -1202,6 +1434,7 @@ export default class SlackOAuthClient {
    *
    * @param options - Optional parameters.
    * @param options.cursor - Paginate through collections of data by setting the `cursor` parameter to a `nextCursor` attribute returned by a previous request's `responseMetadata`.
+   * @param requestOptions - Optional `signal` to abort the request and `timeout` to override the timeout of the client.
    *
    * @see https://api.slack.com/methods/users.list
    *
@@ -1219,20 +1452,26 @@ export default class SlackOAuthClient {
    * ```
    */
   getUserList(
-    options?: SlackTypes.UserListOptions
+    options?: SlackTypes.UserListOptions,
+    requestOptions?: RequestOptions
   ): Promise<{
     members: SlackTypes.User[];
     next?: string;
   }> {
-    return this.callMethod('users.list', options).then((data) => ({
-      members: data.members,
-      next: data.responseMetadata && data.responseMetadata.nextCursor,
-    }));
+    return this.callMethod('users.list', options, requestOptions).then(
+      (data) => ({
+        members: data.members,
+        next: data.responseMetadata && data.responseMetadata.nextCursor,
+      })
+    );
   }
 
   /**
    * Recursively lists all users in a Slack team using cursor.
    *
+   * @param options - Optional parameters.
+   * @param requestOptions - Optional `signal` to stop fetching the remaining pages and `timeout` of each page.
+   *
    * @see https://api.slack.com/methods/users.list
    *
    * @example
@@ -1246,7 +1485,8 @@ export default class SlackOAuthClient {
    * ```
    */
   async getAllUserList(
-    options?: Omit<SlackTypes.UserListOptions, 'cursor'>
+    options?: Omit<SlackTypes.UserListOptions, 'cursor'>,
+    requestOptions?: RequestOptions
   ): Promise<SlackTypes.User[]> {
     let allUsers: SlackTypes.User[] = [];
     let continuationCursor;
@@ -1259,10 +1499,13 @@ export default class SlackOAuthClient {
         members: SlackTypes.User[];
         next?: string;
         // eslint-disable-next-line no-await-in-loop
-      } = await this.getUserList({
-        cursor: continuationCursor,
-        ...options,
-      });
+      } = await this.getUserList(
+        {
+          cursor: continuationCursor,
+          ...options,
+        },
+        requestOptions
+      );
 
       allUsers = allUsers.concat(users);
       continuationCursor = next;
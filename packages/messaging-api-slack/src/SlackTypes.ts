@@ -1,4 +1,11 @@
-import { OnRequestFunction } from 'messaging-api-common';
+import {
+  CassetteOptions,
+  OnErrorFunction,
+  OnRequestFunction,
+  OnResponseFunction,
+  RateLimitOptions,
+  RetryOptions,
+} from 'messaging-api-common';
 
 export type Attachment = {
   fallback: string;
@@ -774,8 +781,48 @@ export type UserListOptions = {
 
 export type ClientConfig = {
   accessToken: string;
+
+  /**
+   * The signing secret of the Slack app, used to verify requests sent from Slack.
+   */
+  signingSecret?: string;
   origin?: string;
   onRequest?: OnRequestFunction;
+
+  /**
+   * The callback to be called with every successful response.
+   */
+  onResponse?: OnResponseFunction;
+
+  /**
+   * The callback to be called with every failed request.
+   */
+  onError?: OnErrorFunction;
+
+  /**
+   * Additional names of query parameters, headers and body fields to be redacted from `onRequest` payloads and error messages. Secrets of the platform, e.g. the access token, are always redacted.
+   */
+  redact?: string[];
+
+  /**
+   * The timeout of each request in milliseconds. Requests never time out if not provided. It can be overridden by the `timeout` option of paginating methods.
+   */
+  timeout?: number;
+
+  /**
+   * Records requests into a JSON cassette or replays them without sending requests, e.g. for offline testing.
+   */
+  cassette?: CassetteOptions;
+
+  /**
+   * Retries failed requests with exponential backoff. Requests are not retried if not provided.
+   */
+  retry?: RetryOptions;
+
+  /**
+   * Delays requests to stay under the rate limits of the platform. Requests are not limited if not provided.
+   */
+  rateLimit?: RateLimitOptions;
 };
 
 // chat.unfurl
@@ -870,3 +917,8 @@ export type PushViewOptions = {
    */
   view: View;
 };
+
+/**
+ * A message recorded by `SlackMockServer`.
+ */
+export type MockSentMessage = PostMessageOptions;
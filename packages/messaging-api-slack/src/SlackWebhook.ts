@@ -0,0 +1,132 @@
+import querystring from 'querystring';
+
+import invariant from 'ts-invariant';
+import {
+  WebhookMiddleware,
+  WebhookMiddlewareOptions,
+  WebhookPlatform,
+  WebhookRequest,
+  camelcaseKeysDeep,
+  createWebhookMiddleware as createPlatformWebhookMiddleware,
+} from 'messaging-api-common';
+
+import SlackOAuthClient from './SlackOAuthClient';
+
+type SlackRequestBody = Record<string, any>;
+
+/**
+ * Parses the body of a request sent from Slack. It can be an Events API request in JSON, an interactivity request with a JSON `payload` field, or a slash command request in form format.
+ *
+ * @param request - The webhook request
+ * @returns The camelcased request body
+ */
+function parseRequestBody(request: WebhookRequest): SlackRequestBody {
+  const rawBody = request.rawBody.toString();
+  const contentType = (request.headers['content-type'] || '') as string;
+
+  if (contentType.includes('application/json')) {
+    return camelcaseKeysDeep(JSON.parse(rawBody));
+  }
+
+  const body = querystring.parse(rawBody);
+
+  if (typeof body.payload === 'string') {
+    return camelcaseKeysDeep(JSON.parse(body.payload));
+  }
+
+  return camelcaseKeysDeep(body);
+}
+
+/**
+ * Creates a webhook platform adapter for Slack, which verifies the `X-Slack-Signature` header, answers the `url_verification` handshake and parses requests.
+ *
+ * @param client - The client with `signingSecret`
+ * @returns The platform adapter
+ */
+function createWebhookPlatform(
+  client: SlackOAuthClient
+): WebhookPlatform<SlackRequestBody> {
+  invariant(
+    client.signingSecret,
+    'SlackWebhook: `signingSecret` is required to verify webhook requests.'
+  );
+
+  return {
+    platform: 'slack',
+    methods: ['POST'],
+    handleRequest(request) {
+      if (request.method !== 'POST') {
+        return { response: { status: 405 } };
+      }
+
+      const signature = request.headers['x-slack-signature'] as string;
+      const timestamp = request.headers['x-slack-request-timestamp'] as string;
+
+      if (!client.verifySignature(request.rawBody, signature, timestamp)) {
+        return { response: { status: 401 } };
+      }
+
+      let body;
+      try {
+        body = parseRequestBody(request);
+      } catch (_) {
+        return { response: { status: 400 } };
+      }
+
+      if (body.type === 'url_verification') {
+        return {
+          response: { status: 200, body: { challenge: body.challenge } },
+        };
+      }
+
+      return { response: { status: 200 }, events: [body] };
+    },
+  };
+}
+
+/**
+ * Creates a webhook middleware for Express, Koa or Node.js http server to receive Events API, interactivity and slash command requests.
+ *
+ * The middleware verifies the signature using the signing secret of the client, answers the `url_verification` handshake, responds `200` immediately and then calls `onEvents` with the parsed request body.
+ *
+ * @param options - The options of the middleware
+ * @param options.client - The client with `signingSecret`
+ * @param options.onEvents - The callback to be called with parsed request bodies
+ * @param options.onError - The callback to be called when any error occurs
+ * @returns The middleware function
+ *
+ * @example
+ *
+ * ```js
+ * app.post(
+ *   '/webhooks/slack',
+ *   SlackWebhook.createWebhookMiddleware({
+ *     client,
+ *     onEvents: async ([body]) => {
+ *       if (body.type === 'event_callback') {
+ *         // handle body.event
+ *       }
+ *     },
+ *   })
+ * );
+ * ```
+ */
+function createWebhookMiddleware({
+  client,
+  ...options
+}: {
+  client: SlackOAuthClient;
+} & WebhookMiddlewareOptions<SlackRequestBody>): WebhookMiddleware {
+  return createPlatformWebhookMiddleware(
+    createWebhookPlatform(client),
+    options
+  );
+}
+
+const SlackWebhook = {
+  parseRequestBody,
+  createWebhookPlatform,
+  createWebhookMiddleware,
+};
+
+export default SlackWebhook;
@@ -2,9 +2,23 @@ import axios, { AxiosInstance } from 'axios';
 import invariant from 'ts-invariant';
 import warning from 'warning';
 import {
+  CassetteOptions,
+  OnErrorFunction,
   OnRequestFunction,
+  OnResponseFunction,
+  RateLimitOptions,
+  RateLimitPolicy,
+  RequestOptions,
+  RetryOptions,
+  createCassetteAdapter,
+  createRateLimitInterceptor,
+  createRateLimitNamespace,
+  createRedactor,
   createRequestInterceptor,
+  createResponseInterceptor,
+  createRetryInterceptor,
   snakecaseKeysDeep,
+  withRequestOptions,
 } from 'messaging-api-common';
 
 import * as SlackTypes from './SlackTypes';
@@ -12,8 +26,48 @@ import * as SlackTypes from './SlackTypes';
 interface ClientConfig {
   url: string;
   onRequest?: OnRequestFunction;
+
+  /**
+   * The callback to be called with every successful response.
+   */
+  onResponse?: OnResponseFunction;
+
+  /**
+   * The callback to be called with every failed request.
+   */
+  onError?: OnErrorFunction;
+
+  /**
+   * Additional names of query parameters, headers and body fields to be redacted from `onRequest` payloads and error messages. The secret of the webhook URL is always redacted.
+   */
+  redact?: string[];
+
+  /**
+   * The timeout of each request in milliseconds. Requests never time out if not provided.
+   */
+  timeout?: number;
+
+  /**
+   * Records requests into a JSON cassette or replays them without sending requests, e.g. for offline testing.
+   */
+  cassette?: CassetteOptions;
+
+  /**
+   * Retries failed requests with exponential backoff. Requests are not retried if not provided.
+   */
+  retry?: RetryOptions;
+
+  /**
+   * Delays requests to stay under the rate limit of incoming webhooks, which is one message per second. Requests are not limited if not provided.
+   */
+  rateLimit?: RateLimitOptions;
 }
 
+const rateLimitPolicy: RateLimitPolicy = {
+  // https://api.slack.com/docs/rate-limits#incoming-webhooks
+  global: { capacity: 1, interval: 1000 },
+};
+
 export default class SlackWebhookClient {
   /**
    * @deprecated Use `new SlackWebhookClient(...)` instead.
@@ -49,11 +103,76 @@ export default class SlackWebhookClient {
     this.axios = axios.create({
       baseURL: config.url,
       headers: { 'Content-Type': 'application/json' },
+      timeout: config.timeout,
+    });
+
+    const redact = createRedactor({
+      policy: {
+        // the last path segment of the incoming webhook URL is the secret
+        values: [config.url.split('/').pop()],
+      },
+      redact: config.redact,
     });
 
     this.axios.interceptors.request.use(
-      createRequestInterceptor({ onRequest: this.onRequest })
+      createRequestInterceptor({ onRequest: this.onRequest, redact })
     );
+
+    if (config.cassette) {
+      this.axios.defaults.adapter = createCassetteAdapter({
+        cassette: config.cassette,
+        adapter: this.axios.defaults.adapter,
+      });
+    }
+
+    if (config.onResponse || config.onError) {
+      const responseInterceptor = createResponseInterceptor({
+        onResponse: config.onResponse,
+        onError: config.onError,
+        requestIdHeader: 'x-slack-req-id',
+      });
+      this.axios.interceptors.response.use(
+        responseInterceptor.onFulfilled,
+        responseInterceptor.onRejected
+      );
+    }
+
+    if (config.rateLimit) {
+      this.axios.interceptors.request.use(
+        createRateLimitInterceptor({
+          namespace: createRateLimitNamespace('slack-webhook', config.url),
+          rateLimit: config.rateLimit,
+          policy: rateLimitPolicy,
+        })
+      );
+    }
+
+    if (config.retry) {
+      this.axios.interceptors.response.use(
+        undefined,
+        createRetryInterceptor({ axios: this.axios, retry: config.retry })
+      );
+    }
+  }
+
+  /**
+   * Creates a view of the client whose requests carry the request options, so any method can be aborted or time out. The view shares the state of the client.
+   *
+   * @param options - The request options, e.g. `signal` and `timeout`.
+   * @returns The view of the client.
+   *
+   * @example
+   *
+   * ```js
+   * const controller = new AbortController();
+   *
+   * await client
+   *   .withRequestOptions({ signal: controller.signal, timeout: 5000 })
+   *   .sendText('Hello');
+   * ```
+   */
+  withRequestOptions(options: RequestOptions): this {
+    return withRequestOptions(this, options);
   }
 
   /**
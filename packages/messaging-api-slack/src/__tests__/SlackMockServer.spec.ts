@@ -0,0 +1,54 @@
+import SlackMockServer from '../SlackMockServer';
+import SlackOAuthClient from '../SlackOAuthClient';
+
+const ACCESS_TOKEN = 'xoxb-ACCESS_TOKEN';
+const CHANNEL = 'C1234567890';
+
+let server: SlackMockServer;
+let client: SlackOAuthClient;
+
+beforeEach(async () => {
+  jest.useRealTimers();
+
+  server = new SlackMockServer();
+  const origin = await server.listen();
+
+  client = new SlackOAuthClient({ accessToken: ACCESS_TOKEN, origin });
+});
+
+afterEach(async () => {
+  await server.close();
+});
+
+it('should record sent messages', async () => {
+  const res = await client.chat.postMessage({
+    channel: CHANNEL,
+    text: 'Hello!',
+    attachments: [{ text: 'attachment', fallback: 'fallback' }],
+    asUser: true,
+  });
+
+  expect(res).toEqual(
+    expect.objectContaining({
+      ok: true,
+      channel: CHANNEL,
+      ts: '1500000000.000001',
+    })
+  );
+  expect(server.messages).toEqual([
+    {
+      channel: CHANNEL,
+      text: 'Hello!',
+      attachments: [{ text: 'attachment', fallback: 'fallback' }],
+      asUser: true,
+    },
+  ]);
+});
+
+it('should respond Slack errors for invalid payloads', async () => {
+  await expect(client.chat.postMessage({ channel: CHANNEL })).rejects.toThrow(
+    'Slack API - no_text'
+  );
+
+  expect(server.messages).toEqual([]);
+});
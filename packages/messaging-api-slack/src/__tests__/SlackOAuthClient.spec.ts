@@ -1,4 +1,6 @@
+import crypto from 'crypto';
 import querystring from 'querystring';
+import { EventEmitter } from 'events';
 
 import MockAdapter from 'axios-mock-adapter';
 
@@ -8,6 +10,25 @@ const TOKEN = 'xxxx-xxxxxxxxx-xxxx';
 const CHANNEL = 'C1234567890';
 const USER = 'U56781234';
 
+function createAbortController() {
+  const emitter = new EventEmitter();
+  const signal = {
+    aborted: false,
+    addEventListener: (type: 'abort', listener: () => void) =>
+      emitter.on(type, listener),
+    removeEventListener: (type: 'abort', listener: () => void) =>
+      emitter.removeListener(type, listener),
+  };
+
+  return {
+    signal,
+    abort: () => {
+      signal.aborted = true;
+      emitter.emit('abort');
+    },
+  };
+}
+
 const VIEW_PAYLOAD = {
   id: 'VMHU10V25',
   teamId: 'T8N4K1JN',
@@ -1711,6 +1732,32 @@ describe('#getAllUserList', () => {
 
     expect(res).toEqual(camelcaseMembers);
   });
+
+  it('should stop fetching the remaining pages when the signal is aborted', async () => {
+    const { client, mock } = createMock();
+    const controller = createAbortController();
+
+    mock.onPost('/users.list').replyOnce((config) => {
+      expect(config.timeout).toEqual(5000);
+      controller.abort();
+      return [
+        200,
+        {
+          ok: true,
+          members: [snakecaseMembers[0]],
+          response_metadata: { next_cursor: 'cursor1' },
+        },
+      ];
+    });
+
+    await expect(
+      client.getAllUserList(undefined, {
+        signal: controller.signal,
+        timeout: 5000,
+      })
+    ).rejects.toThrow('The operation was aborted.');
+    expect(mock.history.post).toHaveLength(1);
+  });
 });
 
 describe('#getUserInfo', () => {
@@ -2419,3 +2466,93 @@ describe('#getAllConversationList', () => {
     expect(res).toEqual(camelcaseChannels);
   });
 });
+
+describe('#verifySignature', () => {
+  const SIGNING_SECRET = '8f742231b10e8888abcd99yyyzzz85a5';
+  const RAW_BODY = 'token=xyzz0WbapA4vBCDEFasx0q6G&team_id=T1DC2JH3J';
+  const TIMESTAMP = '1531420618';
+
+  function sign(body: string, timestamp: string): string {
+    return `v0=${crypto
+      .createHmac('sha256', SIGNING_SECRET)
+      .update(`v0:${timestamp}:${body}`)
+      .digest('hex')}`;
+  }
+
+  beforeEach(() => {
+    jest.spyOn(Date, 'now').mockReturnValue(1531420618 * 1000);
+  });
+
+  it('should return true when the signature is valid', () => {
+    const client = new SlackOAuthClient({
+      accessToken: TOKEN,
+      signingSecret: SIGNING_SECRET,
+    });
+
+    expect(
+      client.verifySignature(RAW_BODY, sign(RAW_BODY, TIMESTAMP), TIMESTAMP)
+    ).toBe(true);
+  });
+
+  it('should return false when the signature is invalid', () => {
+    const client = new SlackOAuthClient({
+      accessToken: TOKEN,
+      signingSecret: SIGNING_SECRET,
+    });
+
+    expect(client.verifySignature(RAW_BODY, 'v0=invalid', TIMESTAMP)).toBe(
+      false
+    );
+  });
+
+  it('should return false when the timestamp is older than five minutes', () => {
+    const client = new SlackOAuthClient({
+      accessToken: TOKEN,
+      signingSecret: SIGNING_SECRET,
+    });
+
+    const timestamp = String(1531420618 - 60 * 5 - 1);
+
+    expect(
+      client.verifySignature(RAW_BODY, sign(RAW_BODY, timestamp), timestamp)
+    ).toBe(false);
+  });
+
+  it('should throw when signingSecret is not provided', () => {
+    const client = new SlackOAuthClient({
+      accessToken: TOKEN,
+    });
+
+    expect(() =>
+      client.verifySignature(RAW_BODY, sign(RAW_BODY, TIMESTAMP), TIMESTAMP)
+    ).toThrow(
+      'SlackOAuthClient: `signingSecret` is required to verify the signature.'
+    );
+  });
+});
+
+describe('#withRequestOptions', () => {
+  it('should abort any method when the signal is aborted', async () => {
+    const { client, mock } = createMock();
+    const controller = createAbortController();
+
+    mock.onPost('/chat.postMessage').reply((config) => {
+      expect(config.timeout).toEqual(5000);
+      return [200, { ok: true }];
+    });
+
+    const view = client.withRequestOptions({
+      signal: controller.signal,
+      timeout: 5000,
+    });
+
+    await view.chat.postMessage({ channel: 'C8763', text: 'hello' });
+
+    controller.abort();
+
+    await expect(
+      view.chat.postMessage({ channel: 'C8763', text: 'hello' })
+    ).rejects.toThrow('The operation was aborted.');
+    expect(mock.history.post).toHaveLength(1);
+  });
+});
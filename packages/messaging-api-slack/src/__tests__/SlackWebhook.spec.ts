@@ -0,0 +1,153 @@
+import crypto from 'crypto';
+import querystring from 'querystring';
+
+import { WebhookRequest } from 'messaging-api-common';
+
+import SlackOAuthClient from '../SlackOAuthClient';
+import SlackWebhook from '../SlackWebhook';
+
+const SIGNING_SECRET = '8f742231b10e8888abcd99yyyzzz85a5';
+const TIMESTAMP = '1531420618';
+
+const client = new SlackOAuthClient({
+  accessToken: 'xxxx-xxxxxxxxx-xxxx',
+  signingSecret: SIGNING_SECRET,
+});
+
+function createRequest(
+  rawBody: string,
+  contentType = 'application/json'
+): WebhookRequest {
+  return {
+    method: 'POST',
+    url: '/webhooks/slack',
+    path: '/webhooks/slack',
+    query: {},
+    headers: {
+      'content-type': contentType,
+      'x-slack-request-timestamp': TIMESTAMP,
+      'x-slack-signature': `v0=${crypto
+        .createHmac('sha256', SIGNING_SECRET)
+        .update(`v0:${TIMESTAMP}:${rawBody}`)
+        .digest('hex')}`,
+    },
+    rawBody: Buffer.from(rawBody),
+  };
+}
+
+beforeEach(() => {
+  jest.spyOn(Date, 'now').mockReturnValue(1531420618 * 1000);
+});
+
+describe('#parseRequestBody', () => {
+  it('should parse interactivity payload', () => {
+    const rawBody = querystring.stringify({
+      payload: JSON.stringify({
+        type: 'block_actions',
+        trigger_id: '12345.98765.abcd2358fdea',
+      }),
+    });
+
+    expect(
+      SlackWebhook.parseRequestBody(
+        createRequest(rawBody, 'application/x-www-form-urlencoded')
+      )
+    ).toEqual({
+      type: 'block_actions',
+      triggerId: '12345.98765.abcd2358fdea',
+    });
+  });
+
+  it('should parse slash command', () => {
+    const rawBody = querystring.stringify({
+      command: '/weather',
+      text: '94070',
+      response_url: 'https://hooks.slack.com/commands/1234/5678',
+    });
+
+    expect(
+      SlackWebhook.parseRequestBody(
+        createRequest(rawBody, 'application/x-www-form-urlencoded')
+      )
+    ).toEqual({
+      command: '/weather',
+      text: '94070',
+      responseUrl: 'https://hooks.slack.com/commands/1234/5678',
+    });
+  });
+});
+
+describe('#createWebhookPlatform', () => {
+  it('should answer the url_verification request', async () => {
+    const platform = SlackWebhook.createWebhookPlatform(client);
+
+    const result = await platform.handleRequest(
+      createRequest(
+        JSON.stringify({
+          token: 'Jhj5dZrVaK7ZwHHjRyZWjbDl',
+          challenge: 'CHALLENGE',
+          type: 'url_verification',
+        })
+      )
+    );
+
+    expect(result).toEqual({
+      response: { status: 200, body: { challenge: 'CHALLENGE' } },
+    });
+  });
+
+  it('should respond 200 with the event callback', async () => {
+    const platform = SlackWebhook.createWebhookPlatform(client);
+
+    const result = await platform.handleRequest(
+      createRequest(
+        JSON.stringify({
+          type: 'event_callback',
+          team_id: 'T061EG9R6',
+          event: { type: 'app_mention', text: 'hello' },
+        })
+      )
+    );
+
+    expect(result).toEqual({
+      response: { status: 200 },
+      events: [
+        {
+          type: 'event_callback',
+          teamId: 'T061EG9R6',
+          event: { type: 'app_mention', text: 'hello' },
+        },
+      ],
+    });
+  });
+
+  it('should respond 401 when the signature is invalid', async () => {
+    const platform = SlackWebhook.createWebhookPlatform(client);
+    const request = createRequest('{}');
+
+    expect(
+      await platform.handleRequest({
+        ...request,
+        headers: { ...request.headers, 'x-slack-signature': 'v0=invalid' },
+      })
+    ).toEqual({ response: { status: 401 } });
+  });
+
+  it('should respond 400 when the body is malformed', async () => {
+    const platform = SlackWebhook.createWebhookPlatform(client);
+
+    expect(await platform.handleRequest(createRequest('{'))).toEqual({
+      response: { status: 400 },
+    });
+  });
+
+  it('should throw when signingSecret is not provided', () => {
+    expect(() =>
+      SlackWebhook.createWebhookPlatform(
+        new SlackOAuthClient({ accessToken: 'xxxx-xxxxxxxxx-xxxx' })
+      )
+    ).toThrow(
+      'SlackWebhook: `signingSecret` is required to verify webhook requests.'
+    );
+  });
+});
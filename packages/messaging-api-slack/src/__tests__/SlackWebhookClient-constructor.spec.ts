@@ -98,7 +98,7 @@ describe('#onRequest', () => {
 
     expect(onRequest).toBeCalledWith({
       method: 'post',
-      url: 'https://hooks.slack.com/services/XXXXXXXX/YYYYYYYY/zzzzzZZZZZ/path',
+      url: 'https://hooks.slack.com/services/XXXXXXXX/YYYYYYYY/[REDACTED]/path',
       body: {
         x: 1,
       },
@@ -88,3 +88,18 @@ describe('sendAttachment', () => {
     expect(res).toEqual(reply);
   });
 });
+
+describe('#withRequestOptions', () => {
+  it('should apply the request options', async () => {
+    const { client, mock } = createMock();
+
+    mock.onPost('').reply((config) => {
+      expect(config.timeout).toEqual(5000);
+      return [200, 'ok'];
+    });
+
+    await client.withRequestOptions({ timeout: 5000 }).sendText('hello');
+
+    expect.assertions(1);
+  });
+});
@@ -1,6 +1,13 @@
-import { SlackOAuthClient, SlackWebhookClient } from '..';
+import {
+  SlackMockServer,
+  SlackOAuthClient,
+  SlackWebhook,
+  SlackWebhookClient,
+} from '..';
 
 it('should export api correctly', () => {
   expect(SlackWebhookClient).toBeDefined();
+  expect(SlackMockServer).toBeDefined();
   expect(SlackOAuthClient).toBeDefined();
+  expect(SlackWebhook).toBeDefined();
 });
@@ -1,4 +1,6 @@
+export { default as SlackMockServer } from './SlackMockServer';
 export { default as SlackOAuthClient } from './SlackOAuthClient';
+export { default as SlackWebhook } from './SlackWebhook';
 export { default as SlackWebhookClient } from './SlackWebhookClient';
 
 export * as SlackTypes from './SlackTypes';
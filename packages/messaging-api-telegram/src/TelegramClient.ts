@@ -1,5 +1,5 @@
 import AxiosError from 'axios-error';
-import axios, { AxiosInstance } from 'axios';
+import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
 import difference from 'lodash/difference';
 import invariant from 'ts-invariant';
 import isPlainObject from 'lodash/isPlainObject';
@@ -7,14 +7,73 @@ import pick from 'lodash/pick';
 import warning from 'warning';
 import {
   OnRequestFunction,
+  RateLimitPolicy,
+  RequestOptions,
+  RetryPolicy,
   camelcaseKeysDeep,
+  createCassetteAdapter,
+  createRateLimitInterceptor,
+  createRateLimitNamespace,
+  createRedactor,
+  createRequestConfig,
   createRequestInterceptor,
+  createResponseInterceptor,
+  createRetryInterceptor,
+  safeCompare,
   snakecase,
   snakecaseKeysDeep,
+  withRequestOptions,
 } from 'messaging-api-common';
 
 import * as TelegramTypes from './TelegramTypes';
 
+const retryPolicy: RetryPolicy = {
+  // methods like `getMe` and `getUpdates` only read data
+  isIdempotent: (config) => /^\/?get[A-Z]/.test(config.url || ''),
+
+  // Telegram responds how many seconds to wait in `parameters.retry_after` when flood control exceeded
+  getRetryAfter: (err) => {
+    const retryAfter =
+      err.response &&
+      err.response.data &&
+      err.response.data.parameters &&
+      err.response.data.parameters.retry_after;
+
+    return typeof retryAfter === 'number' ? retryAfter * 1000 : undefined;
+  },
+};
+
+function getChatId(config: AxiosRequestConfig): string | undefined {
+  // methods like `sendMessage`, `forwardMessage` and `copyMessage`
+  if (!/^\/?(send|forward|copy)[A-Z]/.test(config.url || '')) {
+    return undefined;
+  }
+
+  const chatId = config.data && config.data.chat_id;
+
+  return chatId !== undefined ? String(chatId) : undefined;
+}
+
+/**
+ * @see https://core.telegram.org/bots/faq#my-bot-is-hitting-limits-how-do-i-avoid-this
+ */
+const rateLimitPolicy: RateLimitPolicy = {
+  global: { capacity: 30, interval: 1000 },
+  perRecipient: { capacity: 1, interval: 1000 },
+  getRecipient: getChatId,
+  rules: [
+    {
+      // no more than 20 messages per minute in the same group
+      capacity: 20,
+      interval: 60 * 1000,
+      key: (config) => {
+        const chatId = getChatId(config);
+        return chatId && chatId.startsWith('-') ? `group:${chatId}` : undefined;
+      },
+    },
+  ],
+};
+
 export default class TelegramClient {
   /**
    * @deprecated Use `new TelegramClient(...)` instead.
@@ -37,6 +96,11 @@ export default class TelegramClient {
    */
   readonly accessToken: string;
 
+  /**
+   * The secret token used by the client.
+   */
+  readonly secretToken?: string;
+
   /**
    * The callback to be called when receiving requests.
    */
@@ -49,6 +113,7 @@ export default class TelegramClient {
     );
 
     this.accessToken = config.accessToken;
+    this.secretToken = config.secretToken;
     this.onRequest = config.onRequest;
     const { origin } = config;
 
@@ -59,18 +124,114 @@ export default class TelegramClient {
       headers: {
         'Content-Type': 'application/json',
       },
+      timeout: config.timeout,
+    });
+
+    const redact = createRedactor({
+      policy: { values: [this.accessToken] },
+      redact: config.redact,
     });
 
     this.axios.interceptors.request.use(
-      createRequestInterceptor({
-        onRequest: this.onRequest,
-      })
+      createRequestInterceptor({ onRequest: this.onRequest, redact })
+    );
+
+    if (config.cassette) {
+      this.axios.defaults.adapter = createCassetteAdapter({
+        cassette: config.cassette,
+        adapter: this.axios.defaults.adapter,
+      });
+    }
+
+    if (config.onResponse || config.onError) {
+      const responseInterceptor = createResponseInterceptor({
+        onResponse: config.onResponse,
+        onError: config.onError,
+      });
+      this.axios.interceptors.response.use(
+        responseInterceptor.onFulfilled,
+        responseInterceptor.onRejected
+      );
+    }
+
+    if (config.rateLimit) {
+      this.axios.interceptors.request.use(
+        createRateLimitInterceptor({
+          namespace: createRateLimitNamespace('telegram', this.accessToken),
+          rateLimit: config.rateLimit,
+          policy: rateLimitPolicy,
+        })
+      );
+    }
+
+    if (config.retry) {
+      this.axios.interceptors.response.use(
+        undefined,
+        createRetryInterceptor({
+          axios: this.axios,
+          retry: config.retry,
+          policy: retryPolicy,
+        })
+      );
+    }
+  }
+
+  /**
+   * Creates a view of the client whose requests carry the request options, so any method can be aborted or time out. The view shares the state of the client.
+   *
+   * @param options - The request options, e.g. `signal` and `timeout`.
+   * @returns The view of the client.
+   *
+   * @example
+   *
+   * ```js
+   * const controller = new AbortController();
+   *
+   * await client
+   *   .withRequestOptions({ signal: controller.signal, timeout: 5000 })
+   *   .sendMessage(CHAT_ID, 'Hello');
+   * ```
+   */
+  withRequestOptions(options: RequestOptions): this {
+    return withRequestOptions(this, options);
+  }
+
+  /**
+   * Verifies the `X-Telegram-Bot-Api-Secret-Token` header of a webhook request.
+   *
+   * @param secretToken - The value of the `X-Telegram-Bot-Api-Secret-Token` header.
+   * @returns `true` if the header matches the secret token of the client.
+   *
+   * @see https://core.telegram.org/bots/api#setwebhook
+   *
+   * @example
+   *
+   * ```js
+   * client.verifySecretToken(req.headers['x-telegram-bot-api-secret-token']);
+   * ```
+   */
+  verifySecretToken(secretToken: string): boolean {
+    invariant(
+      this.secretToken,
+      'TelegramClient: `secretToken` is required to verify the secret token header.'
     );
+
+    if (typeof secretToken !== 'string') return false;
+
+    return safeCompare(this.secretToken as string, secretToken);
   }
 
-  private async request(path: string, body: Record<string, any> = {}) {
+  private async request(
+    path: string,
+    body: Record<string, any> = {},
+    requestOptions: RequestOptions = {}
+  ) {
     try {
-      const response = await this.axios.post(path, snakecaseKeysDeep(body));
+      const response = await this.axios.post(
+        path,
+        snakecaseKeysDeep(body),
+        createRequestConfig(requestOptions)
+      );
 
       const { data, config, request } = response;
 
@@ -120,6 +281,7 @@ export default class TelegramClient {
    * @param options.limit - Limits the number of updates to be retrieved. Values between 1-100 are accepted. Defaults to 100.
    * @param options.timeout - Timeout in seconds for long polling. Defaults to 0, i.e. usual short polling. Should be positive, short polling should be used for testing purposes only.
    * @param options.allowedUpdates - A JSON-serialized list of the update types you want your bot to receive. For example, specify [“message”, “edited_channel_post”, “callback_query”] to only receive updates of these types.
+   * @param requestOptions - Optional `signal` to abort the long polling and `timeout` of the request in milliseconds, which should be longer than the polling timeout.
    * @returns An array of [Update](https://core.telegram.org/bots/api#update) objects is returned.
    *
    * @see https://core.telegram.org/bots/api#getupdates
@@ -155,11 +317,16 @@ export default class TelegramClient {
    * ```
    */
   getUpdates(
-    options?: TelegramTypes.GetUpdatesOption
+    options?: TelegramTypes.GetUpdatesOption,
+    requestOptions: RequestOptions = {}
   ): Promise<TelegramTypes.Update[]> {
-    return this.request('/getUpdates', {
-      ...options,
-    });
+    return this.request(
+      '/getUpdates',
+      {
+        ...options,
+      },
+      requestOptions
+    );
   }
 
   /**
@@ -0,0 +1,172 @@
+import {
+  MockRequest,
+  MockResponse,
+  MockServer,
+  camelcaseKeysDeep,
+  snakecaseKeysDeep,
+} from 'messaging-api-common';
+
+import * as TelegramTypes from './TelegramTypes';
+
+const PARSE_MODES = ['Markdown', 'MarkdownV2', 'HTML'];
+
+const BOT_ID = 1;
+
+function telegramError(description: string, errorCode = 400): MockResponse {
+  return {
+    status: errorCode,
+    body: { ok: false, error_code: errorCode, description },
+  };
+}
+
+function validateSendMessage(body: Record<string, any>): string | undefined {
+  if (body.chat_id === undefined || body.chat_id === '') {
+    return 'Bad Request: chat_id is empty';
+  }
+
+  if (typeof body.text !== 'string' || body.text.length === 0) {
+    return 'Bad Request: message text is empty';
+  }
+
+  if (body.text.length > 4096) {
+    return 'Bad Request: message is too long';
+  }
+
+  if (body.parse_mode !== undefined && !PARSE_MODES.includes(body.parse_mode)) {
+    return 'Bad Request: unsupported parse_mode';
+  }
+
+  return undefined;
+}
+
+/**
+ * An in-process fake Telegram Bot API server which implements `sendMessage` and `getUpdates`. Sent messages are validated and recorded in `messages`, and updates queued with `pushUpdate` are returned by `getUpdates`.
+ *
+ * @example
+ * ```js
+ * const server = new TelegramMockServer();
+ * const origin = await server.listen();
+ *
+ * const client = new TelegramClient({ accessToken: ACCESS_TOKEN, origin });
+ *
+ * server.pushUpdate({ message: { messageId: 1, date: 0, chat: { id: 1, type: 'private' }, text: 'hi' } });
+ *
+ * await client.getUpdates();
+ * await client.sendMessage(1, 'Hello!');
+ *
+ * server.messages;
+ * // [{ chatId: 1, text: 'Hello!' }]
+ * ```
+ */
+export default class TelegramMockServer extends MockServer<
+  TelegramTypes.MockSentMessage
+> {
+  /**
+   * Updates not confirmed by `getUpdates` yet.
+   */
+  readonly updates: TelegramTypes.Update[] = [];
+
+  private updateCount = 0;
+
+  private messageCount = 0;
+
+  constructor() {
+    super('telegram');
+
+    this.route('POST', '/bot:token/sendMessage', (request) =>
+      this.authorize(request, () => this.handleSendMessage(request.body || {}))
+    );
+    this.route('POST', '/bot:token/getUpdates', (request) =>
+      this.authorize(request, () => this.handleGetUpdates(request.body || {}))
+    );
+  }
+
+  /**
+   * Queues an update to be returned by `getUpdates`.
+   *
+   * @param update - The update without `updateId`, which is assigned incrementally.
+   * @returns The queued update
+   */
+  pushUpdate(
+    update: Omit<TelegramTypes.Update, 'updateId'>
+  ): TelegramTypes.Update {
+    this.updateCount += 1;
+
+    const queued = { ...update, updateId: this.updateCount };
+    this.updates.push(queued);
+
+    return queued;
+  }
+
+  /**
+   * Clears recorded requests, messages and queued updates.
+   */
+  reset(): void {
+    super.reset();
+    this.updates.splice(0, this.updates.length);
+  }
+
+  private authorize(
+    request: MockRequest,
+    handler: () => MockResponse
+  ): MockResponse {
+    if (!/^\d+:[\w-]+$/.test(request.params.token)) {
+      return telegramError('Unauthorized', 401);
+    }
+
+    return handler();
+  }
+
+  private handleSendMessage(body: Record<string, any>): MockResponse {
+    const error = validateSendMessage(body);
+
+    if (error) {
+      return telegramError(error);
+    }
+
+    this.messages.push(
+      camelcaseKeysDeep(body) as TelegramTypes.MockSentMessage
+    );
+
+    this.messageCount += 1;
+
+    return {
+      body: {
+        ok: true,
+        result: {
+          message_id: this.messageCount,
+          from: {
+            id: BOT_ID,
+            is_bot: true,
+            first_name: 'Mock Bot',
+            username: 'mock_bot',
+          },
+          chat: { id: body.chat_id, type: 'private' },
+          date: Math.floor(Date.now() / 1000),
+          text: body.text,
+        },
+      },
+    };
+  }
+
+  private handleGetUpdates(body: Record<string, any>): MockResponse {
+    const { offset, limit = 100 } = body;
+
+    // an update is confirmed as soon as getUpdates is called with a higher offset
+    if (typeof offset === 'number') {
+      const confirmed = this.updates.filter(
+        (update) => update.updateId < offset
+      );
+      this.updates.splice(0, confirmed.length);
+    }
+
+    return {
+      body: {
+        ok: true,
+        result: this.updates
+          .slice(0, limit)
+          .map((update) => snakecaseKeysDeep(update)),
+      },
+    };
+  }
+}
@@ -1,9 +1,56 @@
-import { OnRequestFunction } from 'messaging-api-common';
+import {
+  CassetteOptions,
+  OnErrorFunction,
+  OnRequestFunction,
+  OnResponseFunction,
+  RateLimitOptions,
+  RetryOptions,
+} from 'messaging-api-common';
 
 export type ClientConfig = {
   accessToken: string;
+
+  /**
+   * The secret token set by `setWebhook`, used to verify requests sent from Telegram.
+   */
+  secretToken?: string;
   origin?: string;
   onRequest?: OnRequestFunction;
+
+  /**
+   * The callback to be called with every successful response.
+   */
+  onResponse?: OnResponseFunction;
+
+  /**
+   * The callback to be called with every failed request.
+   */
+  onError?: OnErrorFunction;
+
+  /**
+   * Additional names of query parameters, headers and body fields to be redacted from `onRequest` payloads and error messages. Secrets of the platform, e.g. the access token, are always redacted.
+   */
+  redact?: string[];
+
+  /**
+   * The timeout of each request in milliseconds. Requests never time out if not provided.
+   */
+  timeout?: number;
+
+  /**
+   * Records requests into a JSON cassette or replays them without sending requests, e.g. for offline testing.
+   */
+  cassette?: CassetteOptions;
+
+  /**
+   * Retries failed requests with exponential backoff. Requests are not retried if not provided.
+   */
+  retry?: RetryOptions;
+
+  /**
+   * Delays requests to stay under the rate limits of the platform. Requests are not limited if not provided.
+   */
+  rateLimit?: RateLimitOptions;
 };
 
 export type Update = {
@@ -1438,6 +1485,11 @@ export type SetWebhookOption = {
    * Please note that this parameter doesn't affect updates created before the call to the setWebhook, so unwanted updates may be received for a short period of time.
    */
   allowedUpdates?: string[];
+
+  /**
+   * A secret token to be sent in a header “X-Telegram-Bot-Api-Secret-Token” in every webhook request, 1-256 characters. Only characters A-Z, a-z, 0-9, _ and - are allowed. The header is useful to ensure that the request comes from a webhook set by you.
+   */
+  secretToken?: string;
 };
 
 export type GetUpdatesOption = {
@@ -2545,3 +2597,11 @@ export type AddStickerToSetOption = {
    */
   maskPosition?: MaskPosition;
 };
+
+/**
+ * A message recorded by `TelegramMockServer`.
+ */
+export type MockSentMessage = {
+  chatId: number | string;
+  text: string;
+} & SendMessageOption;
@@ -0,0 +1,94 @@
+import {
+  WebhookMiddleware,
+  WebhookMiddlewareOptions,
+  WebhookPlatform,
+  camelcaseKeysDeep,
+  createWebhookMiddleware as createPlatformWebhookMiddleware,
+} from 'messaging-api-common';
+
+import TelegramClient from './TelegramClient';
+import * as TelegramTypes from './TelegramTypes';
+
+/**
+ * Creates a webhook platform adapter for Telegram, which verifies the `X-Telegram-Bot-Api-Secret-Token` header when the client has `secretToken`, and parses updates.
+ *
+ * @param client - The client
+ * @returns The platform adapter
+ */
+function createWebhookPlatform(
+  client: TelegramClient
+): WebhookPlatform<TelegramTypes.Update> {
+  return {
+    platform: 'telegram',
+    methods: ['POST'],
+    handleRequest(request) {
+      if (request.method !== 'POST') {
+        return { response: { status: 405 } };
+      }
+
+      if (
+        client.secretToken &&
+        !client.verifySecretToken(
+          request.headers['x-telegram-bot-api-secret-token'] as string
+        )
+      ) {
+        return { response: { status: 401 } };
+      }
+
+      let update;
+      try {
+        update = camelcaseKeysDeep(
+          JSON.parse(request.rawBody.toString())
+        ) as TelegramTypes.Update;
+      } catch (_) {
+        return { response: { status: 400 } };
+      }
+
+      return { response: { status: 200 }, events: [update] };
+    },
+  };
+}
+
+/**
+ * Creates a webhook middleware for Express, Koa or Node.js http server.
+ *
+ * The middleware verifies the secret token header when the client has `secretToken`, responds `200` immediately and then calls `onEvents` with the parsed update.
+ *
+ * @param options - The options of the middleware
+ * @param options.client - The client
+ * @param options.onEvents - The callback to be called with parsed updates
+ * @param options.onError - The callback to be called when any error occurs
+ * @returns The middleware function
+ *
+ * @example
+ *
+ * ```js
+ * app.post(
+ *   '/webhooks/telegram',
+ *   TelegramWebhook.createWebhookMiddleware({
+ *     client,
+ *     onEvents: async ([update]) => {
+ *       // handle update
+ *     },
+ *   })
+ * );
+ * ```
+ */
+function createWebhookMiddleware({
+  client,
+  ...options
+}: {
+  client: TelegramClient;
+} & WebhookMiddlewareOptions<TelegramTypes.Update>): WebhookMiddleware {
+  return createPlatformWebhookMiddleware(
+    createWebhookPlatform(client),
+    options
+  );
+}
+
+const TelegramWebhook = {
+  createWebhookPlatform,
+  createWebhookMiddleware,
+};
+
+export default TelegramWebhook;
@@ -172,8 +172,7 @@ describe('#onRequest', () => {
 
     expect(onRequest).toBeCalledWith({
       method: 'post',
-      url:
-        'https://api.telegram.org/bot123456:ABC-DEF1234ghIkl-zyx57W2v1u123ew11/path',
+      url: 'https://api.telegram.org/bot[REDACTED]/path',
       body: {
         x: 1,
       },
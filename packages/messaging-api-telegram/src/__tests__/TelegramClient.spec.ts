@@ -1,4 +1,10 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { EventEmitter } from 'events';
+
 import MockAdapter from 'axios-mock-adapter';
+import { MemoryRateLimitStore } from 'messaging-api-common';
 
 import TelegramClient from '../TelegramClient';
 
@@ -12,6 +18,25 @@ const createMock = (): { client: TelegramClient; mock: MockAdapter } => {
   return { client, mock };
 };
 
+function createAbortController() {
+  const emitter = new EventEmitter();
+  const signal = {
+    aborted: false,
+    addEventListener: (type: 'abort', listener: () => void) =>
+      emitter.on(type, listener),
+    removeEventListener: (type: 'abort', listener: () => void) =>
+      emitter.removeListener(type, listener),
+  };
+
+  return {
+    signal,
+    abort: () => {
+      signal.aborted = true;
+      emitter.emit('abort');
+    },
+  };
+}
+
 describe('webhooks', () => {
   describe('#getUpdates', () => {
     it('should response array of Update objects', async () => {
@@ -150,6 +175,24 @@ describe('webhooks', () => {
 
       expect(res).toEqual(result);
     });
+
+    it('should abort the long polling when the signal is aborted', async () => {
+      const { client, mock } = createMock();
+      const controller = createAbortController();
+
+      mock.onPost('/getUpdates', { timeout: 30 }).reply((config) => {
+        expect(config.timeout).toEqual(35000);
+        controller.abort();
+        return [200, { ok: true, result: [] }];
+      });
+
+      await expect(
+        client.getUpdates(
+          { timeout: 30 },
+          { signal: controller.signal, timeout: 35000 }
+        )
+      ).rejects.toThrow('The operation was aborted.');
+    });
   });
 
   describe('#getWebhookInfo', () => {
@@ -945,3 +988,192 @@ describe('Error', () => {
     expect(error.message).toEqual('Telegram API - 404 Not Found');
   });
 });
+
+describe('#verifySecretToken', () => {
+  it('should return true when the secret token matches', () => {
+    const client = new TelegramClient({
+      accessToken: ACCESS_TOKEN,
+      secretToken: 'SECRET_TOKEN',
+    });
+
+    expect(client.verifySecretToken('SECRET_TOKEN')).toBe(true);
+  });
+
+  it('should return false when the secret token does not match', () => {
+    const client = new TelegramClient({
+      accessToken: ACCESS_TOKEN,
+      secretToken: 'SECRET_TOKEN',
+    });
+
+    expect(client.verifySecretToken('WRONG_TOKEN')).toBe(false);
+  });
+
+  it('should throw when secretToken is not provided', () => {
+    const { client } = createMock();
+
+    expect(() => client.verifySecretToken('SECRET_TOKEN')).toThrow(
+      'TelegramClient: `secretToken` is required to verify the secret token header.'
+    );
+  });
+});
+
+describe('retry', () => {
+  beforeEach(() => {
+    jest.spyOn(global, 'setTimeout').mockImplementation(((
+      callback: () => void
+    ) => {
+      callback();
+      return 0;
+    }) as any);
+  });
+
+  it('should wait for retry_after when flood control exceeded', async () => {
+    const client = new TelegramClient({
+      accessToken: ACCESS_TOKEN,
+      retry: {},
+    });
+    const mock = new MockAdapter(client.axios);
+
+    mock
+      .onPost('/sendMessage')
+      .replyOnce(429, {
+        ok: false,
+        error_code: 429,
+        description: 'Too Many Requests: retry after 3',
+        parameters: { retry_after: 3 },
+      })
+      .onPost('/sendMessage')
+      .replyOnce(200, {
+        ok: true,
+        result: { message_id: 1, date: 1499402829, text: 'hi' },
+      });
+
+    await client.sendMessage(427770117, 'hi');
+
+    expect(mock.history.post).toHaveLength(2);
+    expect(setTimeout).toBeCalledWith(expect.any(Function), 3000);
+  });
+
+  it('should retry get methods on server errors', async () => {
+    const client = new TelegramClient({
+      accessToken: ACCESS_TOKEN,
+      retry: {},
+    });
+    const mock = new MockAdapter(client.axios);
+
+    mock
+      .onPost('/getMe')
+      .replyOnce(502)
+      .onPost('/getMe')
+      .replyOnce(200, {
+        ok: true,
+        result: { id: 313534466, first_name: 'first', is_bot: true },
+      });
+
+    await client.getMe();
+
+    expect(mock.history.post).toHaveLength(2);
+  });
+});
+
+describe('rate limit', () => {
+  beforeEach(() => {
+    jest.spyOn(global, 'setTimeout').mockImplementation(((
+      callback: () => void
+    ) => {
+      callback();
+      return 0;
+    }) as any);
+  });
+
+  it('should limit messages to the same chat to one per second', async () => {
+    const client = new TelegramClient({
+      accessToken: ACCESS_TOKEN,
+      rateLimit: { store: new MemoryRateLimitStore() },
+    });
+    const mock = new MockAdapter(client.axios);
+
+    mock.onPost('/sendMessage').reply(200, {
+      ok: true,
+      result: { message_id: 1, date: 1499402829, text: 'hi' },
+    });
+
+    await client.sendMessage(427770117, 'hi');
+    await client.sendMessage(313534466, 'hi');
+    expect(setTimeout).not.toBeCalled();
+
+    await client.sendMessage(427770117, 'hi');
+    expect(setTimeout).toBeCalledWith(expect.any(Function), expect.any(Number));
+  });
+});
+
+describe('cassette', () => {
+  it('should replay recorded responses regardless of the token', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'telegram-'));
+    const cassettePath = path.join(dir, 'getMe.json');
+    fs.writeFileSync(
+      cassettePath,
+      JSON.stringify({
+        interactions: [
+          {
+            request: {
+              method: 'post',
+              url: 'https://api.telegram.org/bot[REDACTED]/getMe',
+              headers: {},
+              body: {},
+            },
+            response: {
+              status: 200,
+              statusText: 'OK',
+              headers: {},
+              body: {
+                ok: true,
+                result: {
+                  id: 313534466,
+                  first_name: 'first',
+                  username: 'a_bot',
+                },
+              },
+            },
+          },
+        ],
+      })
+    );
+
+    const client = new TelegramClient({
+      accessToken: '654321:ANOTHER-TOKEN',
+      cassette: { path: cassettePath },
+    });
+
+    const result = await client.getMe();
+
+    expect(result).toEqual({
+      id: 313534466,
+      firstName: 'first',
+      username: 'a_bot',
+    });
+
+    fs.rmdirSync(dir, { recursive: true });
+  });
+});
+
+describe('#withRequestOptions', () => {
+  it('should apply the request options to all the apis', async () => {
+    const { client, mock } = createMock();
+
+    mock.onPost('/getMe').reply((config) => {
+      expect(config.timeout).toEqual(5000);
+      return [
+        200,
+        { ok: true, result: { id: 313534466, first_name: 'first' } },
+      ];
+    });
+
+    const view = client.withRequestOptions({ timeout: 5000 });
+
+    await view.getMe();
+
+    expect(view.accessToken).toEqual(client.accessToken);
+    expect.assertions(2);
+  });
+});
@@ -0,0 +1,75 @@
+import TelegramClient from '../TelegramClient';
+import TelegramMockServer from '../TelegramMockServer';
+import { ParseMode } from '../TelegramTypes';
+
+const ACCESS_TOKEN = '123456:ABC-DEF1234ghIkl-zyx57W2v1u123ew11';
+const CHAT_ID = 427770117;
+
+let server: TelegramMockServer;
+let client: TelegramClient;
+
+beforeEach(async () => {
+  jest.useRealTimers();
+
+  server = new TelegramMockServer();
+  const origin = await server.listen();
+
+  client = new TelegramClient({ accessToken: ACCESS_TOKEN, origin });
+});
+
+afterEach(async () => {
+  await server.close();
+});
+
+it('should record sent messages', async () => {
+  const message = await client.sendMessage(CHAT_ID, 'Hello!', {
+    parseMode: ParseMode.Markdown,
+  });
+
+  expect(message).toEqual(
+    expect.objectContaining({
+      messageId: 1,
+      chat: { id: CHAT_ID, type: 'private' },
+      text: 'Hello!',
+    })
+  );
+  expect(server.messages).toEqual([
+    { chatId: CHAT_ID, text: 'Hello!', parseMode: 'Markdown' },
+  ]);
+});
+
+it('should respond errors for invalid payloads', async () => {
+  await expect(client.sendMessage(CHAT_ID, '')).rejects.toThrow(
+    'Telegram API - 400 Bad Request: message text is empty'
+  );
+
+  expect(server.messages).toEqual([]);
+});
+
+it('should return queued updates until they are confirmed', async () => {
+  server.pushUpdate({
+    message: {
+      messageId: 1,
+      date: 1499402829,
+      chat: { id: CHAT_ID, type: 'private' },
+      text: 'hi',
+    },
+  });
+  server.pushUpdate({
+    callbackQuery: {
+      id: '1',
+      from: { id: CHAT_ID, isBot: false, firstName: 'first' },
+      chatInstance: '1',
+      data: 'data',
+    },
+  });
+
+  const updates = await client.getUpdates();
+
+  expect(updates.map((update) => update.updateId)).toEqual([1, 2]);
+  expect(updates[1].callbackQuery).toEqual(
+    expect.objectContaining({ chatInstance: '1', data: 'data' })
+  );
+  expect(await client.getUpdates({ offset: 2 })).toHaveLength(1);
+  expect(await client.getUpdates({ offset: 3 })).toEqual([]);
+});
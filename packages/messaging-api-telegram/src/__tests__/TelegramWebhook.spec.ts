@@ -0,0 +1,85 @@
+import { WebhookRequest } from 'messaging-api-common';
+
+import TelegramClient from '../TelegramClient';
+import TelegramWebhook from '../TelegramWebhook';
+
+const update = {
+  update_id: 141921689,
+  message: {
+    message_id: 666,
+    from: { id: 313534466, first_name: 'first', is_bot: false },
+    chat: { id: 313534466, type: 'private' },
+    date: 1499402829,
+    text: 'hi',
+  },
+};
+
+function createRequest(headers = {}): WebhookRequest {
+  return {
+    method: 'POST',
+    url: '/webhooks/telegram',
+    path: '/webhooks/telegram',
+    query: {},
+    headers,
+    rawBody: Buffer.from(JSON.stringify(update)),
+  };
+}
+
+describe('#createWebhookPlatform', () => {
+  it('should respond 200 with the camelcased update', async () => {
+    const platform = TelegramWebhook.createWebhookPlatform(
+      new TelegramClient({ accessToken: 'ACCESS_TOKEN' })
+    );
+
+    const result = await platform.handleRequest(createRequest());
+
+    expect(result.response).toEqual({ status: 200 });
+    expect(result.events).toEqual([
+      {
+        updateId: 141921689,
+        message: {
+          messageId: 666,
+          from: { id: 313534466, firstName: 'first', isBot: false },
+          chat: { id: 313534466, type: 'private' },
+          date: 1499402829,
+          text: 'hi',
+        },
+      },
+    ]);
+  });
+
+  it('should verify the secret token header when secretToken is provided', async () => {
+    const platform = TelegramWebhook.createWebhookPlatform(
+      new TelegramClient({
+        accessToken: 'ACCESS_TOKEN',
+        secretToken: 'SECRET_TOKEN',
+      })
+    );
+
+    expect(
+      (
+        await platform.handleRequest(
+          createRequest({ 'x-telegram-bot-api-secret-token': 'SECRET_TOKEN' })
+        )
+      ).response
+    ).toEqual({ status: 200 });
+    expect(
+      await platform.handleRequest(
+        createRequest({ 'x-telegram-bot-api-secret-token': 'WRONG_TOKEN' })
+      )
+    ).toEqual({ response: { status: 401 } });
+  });
+
+  it('should respond 400 when the body is malformed', async () => {
+    const platform = TelegramWebhook.createWebhookPlatform(
+      new TelegramClient({ accessToken: 'ACCESS_TOKEN' })
+    );
+
+    expect(
+      await platform.handleRequest({
+        ...createRequest(),
+        rawBody: Buffer.from('{'),
+      })
+    ).toEqual({ response: { status: 400 } });
+  });
+});
@@ -1,5 +1,7 @@
-import { TelegramClient } from '..';
+import { TelegramClient, TelegramMockServer, TelegramWebhook } from '..';
 
 it('should export api correctly', () => {
   expect(TelegramClient).toBeDefined();
+  expect(TelegramMockServer).toBeDefined();
+  expect(TelegramWebhook).toBeDefined();
 });
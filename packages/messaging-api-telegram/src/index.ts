@@ -1,3 +1,5 @@
 export { default as TelegramClient } from './TelegramClient';
+export { default as TelegramMockServer } from './TelegramMockServer';
+export { default as TelegramWebhook } from './TelegramWebhook';
 
 export * as TelegramTypes from './TelegramTypes';
@@ -4,16 +4,34 @@ import invariant from 'ts-invariant';
 import warning from 'warning';
 import {
   OnRequestFunction,
+  RateLimitPolicy,
+  RequestOptions,
   camelcaseKeysDeep,
+  createCassetteAdapter,
+  createHmacDigest,
+  createRateLimitInterceptor,
+  createRateLimitNamespace,
+  createRedactor,
   createRequestInterceptor,
+  createResponseInterceptor,
+  createRetryInterceptor,
   onRequest,
   pascalcaseKeysDeep,
+  safeCompare,
   snakecaseKeys,
   snakecaseKeysDeep,
+  withRequestOptions,
 } from 'messaging-api-common';
 
 import * as ViberTypes from './ViberTypes';
 
+const rateLimitPolicy: RateLimitPolicy = {
+  getRecipient: (config) =>
+    config.data && typeof config.data.receiver === 'string'
+      ? config.data.receiver
+      : undefined,
+};
+
 function transformMessageCase(message: ViberTypes.Message): any {
   const { keyboard, richMedia, ...others } = message as any;
 
@@ -80,10 +98,97 @@ export default class ViberClient {
         'Content-Type': 'application/json',
         'X-Viber-Auth-Token': this.accessToken,
       },
+      timeout: config.timeout,
+    });
+
+    const redact = createRedactor({
+      policy: { keys: ['x-viber-auth-token'], values: [this.accessToken] },
+      redact: config.redact,
     });
 
     this.axios.interceptors.request.use(
-      createRequestInterceptor({ onRequest: this.onRequest })
+      createRequestInterceptor({ onRequest: this.onRequest, redact })
+    );
+
+    if (config.cassette) {
+      this.axios.defaults.adapter = createCassetteAdapter({
+        cassette: config.cassette,
+        adapter: this.axios.defaults.adapter,
+      });
+    }
+
+    if (config.onResponse || config.onError) {
+      const responseInterceptor = createResponseInterceptor({
+        onResponse: config.onResponse,
+        onError: config.onError,
+      });
+      this.axios.interceptors.response.use(
+        responseInterceptor.onFulfilled,
+        responseInterceptor.onRejected
+      );
+    }
+
+    if (config.rateLimit) {
+      this.axios.interceptors.request.use(
+        createRateLimitInterceptor({
+          namespace: createRateLimitNamespace('viber', this.accessToken),
+          rateLimit: config.rateLimit,
+          policy: rateLimitPolicy,
+        })
+      );
+    }
+
+    if (config.retry) {
+      this.axios.interceptors.response.use(
+        undefined,
+        createRetryInterceptor({ axios: this.axios, retry: config.retry })
+      );
+    }
+  }
+
+  /**
+   * Creates a view of the client whose requests carry the request options, so any method can be aborted or time out. The view shares the state of the client.
+   *
+   * @param options - The request options, e.g. `signal` and `timeout`.
+   * @returns The view of the client.
+   *
+   * @example
+   *
+   * ```js
+   * const controller = new AbortController();
+   *
+   * await client
+   *   .withRequestOptions({ signal: controller.signal, timeout: 5000 })
+   *   .sendText(USER_ID, 'Hello');
+   * ```
+   */
+  withRequestOptions(options: RequestOptions): this {
+    return withRequestOptions(this, options);
+  }
+
+  /**
+   * Verifies the `X-Viber-Content-Signature` header of a callback request.
+   *
+   * The signature is a hex encoded HMAC-SHA256 digest of the raw request body using the access token as the key.
+   *
+   * @param rawBody - The raw request body.
+   * @param signature - The value of the `X-Viber-Content-Signature` header.
+   * @returns `true` if the signature is valid.
+   *
+   * @see https://developers.viber.com/docs/api/rest-bot-api/#callbacks
+   *
+   * @example
+   *
+   * ```js
+   * client.verifySignature(rawBody, req.headers['x-viber-content-signature']);
+   * ```
+   */
+  verifySignature(rawBody: string | Buffer, signature: string): boolean {
+    if (typeof signature !== 'string') return false;
+
+    return safeCompare(
+      createHmacDigest('sha256', this.accessToken, rawBody),
+      signature
     );
   }
 
@@ -0,0 +1,107 @@
+import {
+  MockRequest,
+  MockResponse,
+  MockServer,
+  camelcaseKeysDeep,
+} from 'messaging-api-common';
+
+import * as ViberTypes from './ViberTypes';
+
+const REQUIRED_MESSAGE_FIELDS: Record<string, string[]> = {
+  text: ['text'],
+  picture: ['text', 'media'],
+  video: ['media', 'size'],
+  file: ['media', 'size', 'file_name'],
+  contact: ['contact'],
+  location: ['location'],
+  url: ['media'],
+  sticker: ['sticker_id'],
+  rich_media: ['rich_media'],
+};
+
+function viberError(status: number, statusMessage: string): MockResponse {
+  // Viber responds errors with status 200 and a non-zero status in the body
+  return { body: { status, status_message: statusMessage } };
+}
+
+function validateSendMessage(body: Record<string, any>): string | undefined {
+  if (!body.receiver) {
+    return 'receiver is required';
+  }
+
+  if (!body.sender || !body.sender.name) {
+    return 'sender.name is required';
+  }
+
+  if (body.sender.name.length > 28) {
+    return 'sender.name must be less than 28 characters';
+  }
+
+  const requiredFields = REQUIRED_MESSAGE_FIELDS[body.type];
+
+  if (!requiredFields) {
+    return `invalid type: ${body.type}`;
+  }
+
+  const missingField = requiredFields.find(
+    (field) => body[field] === undefined || body[field] === ''
+  );
+
+  return missingField ? `${missingField} is required` : undefined;
+}
+
+/**
+ * An in-process fake Viber REST API server which implements `send_message`. Sent messages are validated and recorded in `messages`.
+ *
+ * @example
+ * ```js
+ * const server = new ViberMockServer();
+ * const origin = await server.listen();
+ *
+ * const client = new ViberClient({ accessToken: ACCESS_TOKEN, sender, origin });
+ *
+ * await client.sendText(USER_ID, 'Hello!');
+ *
+ * server.messages;
+ * // [{ receiver: USER_ID, sender, type: 'text', text: 'Hello!' }]
+ * ```
+ */
+export default class ViberMockServer extends MockServer<
+  ViberTypes.MockSentMessage
+> {
+  private messageCount = 0;
+
+  constructor() {
+    super('viber');
+
+    this.route('POST', '/pa/send_message', (request) =>
+      this.handleSendMessage(request)
+    );
+  }
+
+  private handleSendMessage(request: MockRequest): MockResponse {
+    if (!request.headers['x-viber-auth-token']) {
+      return viberError(2, 'invalidAuthToken');
+    }
+
+    const body = request.body || {};
+    const error = validateSendMessage(body);
+
+    if (error) {
+      return viberError(3, error);
+    }
+
+    this.messages.push(camelcaseKeysDeep(body) as ViberTypes.MockSentMessage);
+
+    this.messageCount += 1;
+
+    return {
+      body: {
+        status: 0,
+        status_message: 'ok',
+        message_token: this.messageCount,
+        chat_hostname: 'SN-CHAT-MOCK_',
+      },
+    };
+  }
+}
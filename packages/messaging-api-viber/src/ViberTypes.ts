@@ -1,10 +1,52 @@
-import { OnRequestFunction } from 'messaging-api-common';
+import {
+  CassetteOptions,
+  OnErrorFunction,
+  OnRequestFunction,
+  OnResponseFunction,
+  RateLimitOptions,
+  RetryOptions,
+} from 'messaging-api-common';
 
 export type ClientConfig = {
   accessToken: string;
   sender: Sender;
   origin?: string;
   onRequest?: OnRequestFunction;
+
+  /**
+   * The callback to be called with every successful response.
+   */
+  onResponse?: OnResponseFunction;
+
+  /**
+   * The callback to be called with every failed request.
+   */
+  onError?: OnErrorFunction;
+
+  /**
+   * Additional names of query parameters, headers and body fields to be redacted from `onRequest` payloads and error messages. Secrets of the platform, e.g. the access token, are always redacted.
+   */
+  redact?: string[];
+
+  /**
+   * The timeout of each request in milliseconds. Requests never time out if not provided.
+   */
+  timeout?: number;
+
+  /**
+   * Records requests into a JSON cassette or replays them without sending requests, e.g. for offline testing.
+   */
+  cassette?: CassetteOptions;
+
+  /**
+   * Retries failed requests with exponential backoff. Requests are not retried if not provided.
+   */
+  retry?: RetryOptions;
+
+  /**
+   * Delays requests to stay under the rate limits of the platform. Requests are not limited if not provided.
+   */
+  rateLimit?: RateLimitOptions;
 };
 
 export type SucceededResponseData<T extends object> = {
@@ -367,3 +409,11 @@ export type KeyboardButtonMediaPlayer = {
   thumbnailURL?: string;
   loop?: boolean;
 };
+
+/**
+ * A message recorded by `ViberMockServer`.
+ */
+export type MockSentMessage = {
+  receiver: string;
+  sender: Sender;
+} & Message;
@@ -0,0 +1,97 @@
+import {
+  WebhookMiddleware,
+  WebhookMiddlewareOptions,
+  WebhookPlatform,
+  camelcaseKeysDeep,
+  createWebhookMiddleware as createPlatformWebhookMiddleware,
+} from 'messaging-api-common';
+
+import ViberClient from './ViberClient';
+
+type ViberCallback = Record<string, any>;
+
+/**
+ * Creates a webhook platform adapter for Viber, which verifies the `X-Viber-Content-Signature` header, answers the `webhook` callback and parses callbacks.
+ *
+ * @param client - The client
+ * @returns The platform adapter
+ */
+function createWebhookPlatform(
+  client: ViberClient
+): WebhookPlatform<ViberCallback> {
+  return {
+    platform: 'viber',
+    methods: ['POST'],
+    handleRequest(request) {
+      if (request.method !== 'POST') {
+        return { response: { status: 405 } };
+      }
+
+      const signature = request.headers['x-viber-content-signature'] as string;
+
+      if (!client.verifySignature(request.rawBody, signature)) {
+        return { response: { status: 401 } };
+      }
+
+      let callback;
+      try {
+        callback = camelcaseKeysDeep(
+          JSON.parse(request.rawBody.toString())
+        ) as ViberCallback;
+      } catch (_) {
+        return { response: { status: 400 } };
+      }
+
+      // the `webhook` callback is sent when calling `setWebhook`, and only needs a 200 response
+      if (callback.event === 'webhook') {
+        return { response: { status: 200 } };
+      }
+
+      return { response: { status: 200 }, events: [callback] };
+    },
+  };
+}
+
+/**
+ * Creates a webhook middleware for Express, Koa or Node.js http server.
+ *
+ * The middleware verifies the signature using the access token of the client, answers the `webhook` callback, responds `200` immediately and then calls `onEvents` with the parsed callback.
+ *
+ * @param options - The options of the middleware
+ * @param options.client - The client
+ * @param options.onEvents - The callback to be called with parsed callbacks
+ * @param options.onError - The callback to be called when any error occurs
+ * @returns The middleware function
+ *
+ * @example
+ *
+ * ```js
+ * app.post(
+ *   '/webhooks/viber',
+ *   ViberWebhook.createWebhookMiddleware({
+ *     client,
+ *     onEvents: async ([callback]) => {
+ *       // handle callback
+ *     },
+ *   })
+ * );
+ * ```
+ */
+function createWebhookMiddleware({
+  client,
+  ...options
+}: {
+  client: ViberClient;
+} & WebhookMiddlewareOptions<ViberCallback>): WebhookMiddleware {
+  return createPlatformWebhookMiddleware(
+    createWebhookPlatform(client),
+    options
+  );
+}
+
+const ViberWebhook = {
+  createWebhookPlatform,
+  createWebhookMiddleware,
+};
+
+export default ViberWebhook;
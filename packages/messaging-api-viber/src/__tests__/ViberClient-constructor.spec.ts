@@ -167,8 +167,7 @@ describe('#onRequest', () => {
       headers: {
         'Content-Type': 'application/json',
         Accept: 'application/json, text/plain, */*',
-        'X-Viber-Auth-Token':
-          '445da6az1s345z78-dazcczb2542zv51a-e0vc5fva17480im9',
+        'X-Viber-Auth-Token': '[REDACTED]',
       },
     });
   });
@@ -1,3 +1,5 @@
+import crypto from 'crypto';
+
 import MockAdapter from 'axios-mock-adapter';
 
 import ViberClient from '../ViberClient';
@@ -991,3 +993,44 @@ describe('get online', () => {
     });
   });
 });
+
+describe('#withRequestOptions', () => {
+  it('should apply the request options to all the apis', async () => {
+    const { client, mock } = createMock();
+
+    mock.onPost('/get_account_info').reply((config) => {
+      expect(config.timeout).toEqual(5000);
+      return [200, { status: 0, status_message: 'ok' }];
+    });
+
+    const view = client.withRequestOptions({ timeout: 5000 });
+
+    await view.getAccountInfo();
+
+    expect(view.accessToken).toEqual(client.accessToken);
+    expect.assertions(2);
+  });
+});
+
+describe('signature', () => {
+  describe('#verifySignature', () => {
+    const RAW_BODY = '{"event":"webhook","timestamp":1457764197627}';
+
+    it('should return true when the signature is valid', () => {
+      const { client } = createMock();
+
+      const signature = crypto
+        .createHmac('sha256', AUTH_TOKEN)
+        .update(RAW_BODY)
+        .digest('hex');
+
+      expect(client.verifySignature(RAW_BODY, signature)).toBe(true);
+    });
+
+    it('should return false when the signature is invalid', () => {
+      const { client } = createMock();
+
+      expect(client.verifySignature(RAW_BODY, 'invalid')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import ViberClient from '../ViberClient';
+import ViberMockServer from '../ViberMockServer';
+
+const ACCESS_TOKEN = 'ACCESS_TOKEN';
+const USER_ID = '01234567890A=';
+const SENDER = { name: 'John McClane', avatar: 'http://avatar.example.com' };
+
+let server: ViberMockServer;
+let client: ViberClient;
+
+beforeEach(async () => {
+  jest.useRealTimers();
+
+  server = new ViberMockServer();
+  const origin = await server.listen();
+
+  client = new ViberClient({
+    accessToken: ACCESS_TOKEN,
+    sender: SENDER,
+    origin,
+  });
+});
+
+afterEach(async () => {
+  await server.close();
+});
+
+it('should record sent messages', async () => {
+  const res = await client.sendText(USER_ID, 'Hello!', {
+    keyboard: {
+      type: 'keyboard',
+      buttons: [{ actionType: 'reply', actionBody: 'yes', text: 'Yes' }],
+    },
+  });
+
+  expect(res).toEqual(expect.objectContaining({ status: 0, messageToken: 1 }));
+  expect(server.messages).toEqual([
+    {
+      receiver: USER_ID,
+      sender: SENDER,
+      type: 'text',
+      text: 'Hello!',
+      keyboard: {
+        type: 'keyboard',
+        buttons: [{ actionType: 'reply', actionBody: 'yes', text: 'Yes' }],
+      },
+    },
+  ]);
+});
+
+it('should respond Viber errors for invalid payloads', async () => {
+  await expect(
+    client.sendPicture(USER_ID, { text: 'Photo', media: '' } as any)
+  ).rejects.toThrow('Viber API - media is required');
+
+  expect(server.messages).toEqual([]);
+});
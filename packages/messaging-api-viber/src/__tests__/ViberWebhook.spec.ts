@@ -0,0 +1,100 @@
+import crypto from 'crypto';
+
+import { WebhookRequest } from 'messaging-api-common';
+
+import ViberClient from '../ViberClient';
+import ViberWebhook from '../ViberWebhook';
+
+const AUTH_TOKEN = '445da6az1s345z78-dazcczb2542zv51a-e0vc5fva17480im9';
+
+const client = new ViberClient({
+  accessToken: AUTH_TOKEN,
+  sender: {
+    name: 'John McClane',
+    avatar: 'http://avatar.example.com',
+  },
+});
+
+function createRequest(
+  body: Record<string, any>,
+  signature?: string
+): WebhookRequest {
+  const rawBody = JSON.stringify(body);
+  return {
+    method: 'POST',
+    url: '/webhooks/viber',
+    path: '/webhooks/viber',
+    query: {},
+    headers: {
+      'x-viber-content-signature':
+        signature ||
+        crypto.createHmac('sha256', AUTH_TOKEN).update(rawBody).digest('hex'),
+    },
+    rawBody: Buffer.from(rawBody),
+  };
+}
+
+describe('#createWebhookPlatform', () => {
+  it('should respond 200 without events to the webhook callback', async () => {
+    const platform = ViberWebhook.createWebhookPlatform(client);
+
+    expect(
+      await platform.handleRequest(
+        createRequest({
+          event: 'webhook',
+          timestamp: 1457764197627,
+          message_token: 241256543215,
+        })
+      )
+    ).toEqual({ response: { status: 200 } });
+  });
+
+  it('should respond 200 with the camelcased callback', async () => {
+    const platform = ViberWebhook.createWebhookPlatform(client);
+
+    const result = await platform.handleRequest(
+      createRequest({
+        event: 'message',
+        timestamp: 1457764197627,
+        message_token: 4912661846655238145,
+        sender: { id: '01234567890A=', name: 'John McClane' },
+        message: { type: 'text', text: 'a message to the service' },
+      })
+    );
+
+    expect(result.response).toEqual({ status: 200 });
+    expect(result.events).toEqual([
+      {
+        event: 'message',
+        timestamp: 1457764197627,
+        messageToken: 4912661846655238145,
+        sender: { id: '01234567890A=', name: 'John McClane' },
+        message: { type: 'text', text: 'a message to the service' },
+      },
+    ]);
+  });
+
+  it('should respond 401 when the signature is invalid', async () => {
+    const platform = ViberWebhook.createWebhookPlatform(client);
+
+    expect(
+      await platform.handleRequest(
+        createRequest({ event: 'webhook' }, 'invalid')
+      )
+    ).toEqual({ response: { status: 401 } });
+  });
+
+  it('should respond 400 when the body is malformed', async () => {
+    const platform = ViberWebhook.createWebhookPlatform(client);
+
+    expect(
+      await platform.handleRequest({
+        ...createRequest(
+          {},
+          crypto.createHmac('sha256', AUTH_TOKEN).update('{').digest('hex')
+        ),
+        rawBody: Buffer.from('{'),
+      })
+    ).toEqual({ response: { status: 400 } });
+  });
+});
@@ -1,5 +1,7 @@
-import { ViberClient } from '..';
+import { ViberClient, ViberMockServer, ViberWebhook } from '..';
 
 it('should export api correctly', () => {
   expect(ViberClient).toBeDefined();
+  expect(ViberMockServer).toBeDefined();
+  expect(ViberWebhook).toBeDefined();
 });
@@ -1,3 +1,5 @@
 export { default as ViberClient } from './ViberClient';
+export { default as ViberMockServer } from './ViberMockServer';
+export { default as ViberWebhook } from './ViberWebhook';
 
 export * as ViberTypes from './ViberTypes';
@@ -1,3 +1,4 @@
+import crypto from 'crypto';
 import fs from 'fs';
 
 import AxiosError from 'axios-error';
@@ -7,14 +8,31 @@ import invariant from 'ts-invariant';
 import warning from 'warning';
 import {
   OnRequestFunction,
+  RateLimitPolicy,
+  RequestOptions,
   camelcaseKeys,
+  createCassetteAdapter,
+  createRateLimitInterceptor,
+  createRateLimitNamespace,
+  createRedactor,
   createRequestInterceptor,
+  createResponseInterceptor,
+  createRetryInterceptor,
   onRequest,
+  safeCompare,
   snakecaseKeys,
+  withRequestOptions,
 } from 'messaging-api-common';
 
 import * as WechatTypes from './WechatTypes';
 
+const rateLimitPolicy: RateLimitPolicy = {
+  getRecipient: (config) =>
+    config.data && typeof config.data.touser === 'string'
+      ? config.data.touser
+      : undefined,
+};
+
 function throwErrorIfAny(response: AxiosResponse): AxiosResponse {
   const { errcode, errmsg } = response.data;
   if (!errcode || errcode === 0) return response;
@@ -48,6 +66,11 @@ export default class WechatClient {
    */
   accessToken = '';
 
+  /**
+   * The token used to verify requests sent from WeChat.
+   */
+  readonly token?: string;
+
   /**
    * The callback to be called when receiving requests.
    */
@@ -76,6 +99,7 @@ export default class WechatClient {
 
     this.appId = config.appId;
     this.appSecret = config.appSecret;
+    this.token = config.token;
     this.onRequest = config.onRequest || onRequest;
     const { origin } = config;
 
@@ -84,13 +108,131 @@ export default class WechatClient {
       headers: {
         'Content-Type': 'application/json',
       },
+      timeout: config.timeout,
+    });
+
+    const redact = createRedactor({
+      policy: { keys: ['access_token', 'secret'], values: [config.appSecret] },
+      redact: config.redact,
     });
 
     this.axios.interceptors.request.use(
-      createRequestInterceptor({
-        onRequest: this.onRequest,
-      })
+      createRequestInterceptor({ onRequest: this.onRequest, redact })
     );
+
+    if (config.cassette) {
+      this.axios.defaults.adapter = createCassetteAdapter({
+        cassette: config.cassette,
+        adapter: this.axios.defaults.adapter,
+      });
+    }
+
+    if (config.onResponse || config.onError) {
+      const responseInterceptor = createResponseInterceptor({
+        onResponse: config.onResponse,
+        onError: config.onError,
+      });
+      this.axios.interceptors.response.use(
+        responseInterceptor.onFulfilled,
+        responseInterceptor.onRejected
+      );
+    }
+
+    if (config.rateLimit) {
+      this.axios.interceptors.request.use(
+        createRateLimitInterceptor({
+          namespace: createRateLimitNamespace('wechat', this.appId),
+          rateLimit: config.rateLimit,
+          policy: rateLimitPolicy,
+        })
+      );
+    }
+
+    if (config.retry) {
+      this.axios.interceptors.response.use(
+        undefined,
+        createRetryInterceptor({ axios: this.axios, retry: config.retry })
+      );
+    }
+  }
+
+  /**
+   * Creates a view of the client whose requests carry the request options, so any method can be aborted or time out. The view shares the state of the client, including the access token refreshed through the view.
+   *
+   * @param options - The request options, e.g. `signal` and `timeout`.
+   * @returns The view of the client.
+   *
+   * @example
+   *
+   * ```js
+   * const controller = new AbortController();
+   *
+   * await client
+   *   .withRequestOptions({ signal: controller.signal, timeout: 5000 })
+   *   .sendText(USER_ID, 'Hello');
+   * ```
+   */
+  withRequestOptions(options: RequestOptions): this {
+    const view = withRequestOptions(this, options);
+
+    // the token refreshed by the view is written to the client instead of shadowing it on the view
+    return Object.defineProperties(view, {
+      accessToken: {
+        get: () => this.accessToken,
+        set: (accessToken: string) => {
+          this.accessToken = accessToken;
+        },
+      },
+      tokenExpiresAt: {
+        get: () => this.tokenExpiresAt,
+        set: (tokenExpiresAt: number) => {
+          this.tokenExpiresAt = tokenExpiresAt;
+        },
+      },
+    });
+  }
+
+  /**
+   * 验证消息的确来自微信服务器
+   *
+   * The signature is a SHA1 digest of the lexicographically sorted token, timestamp and nonce.
+   *
+   * @param params - The query parameters of the request.
+   * @param params.signature - The `signature` query parameter.
+   * @param params.timestamp - The `timestamp` query parameter.
+   * @param params.nonce - The `nonce` query parameter.
+   * @returns `true` if the signature is valid.
+   *
+   * @see https://developers.weixin.qq.com/doc/offiaccount/Basic_Information/Access_Overview.html
+   *
+   * @example
+   *
+   * ```js
+   * client.verifySignature({
+   *   signature: req.query.signature,
+   *   timestamp: req.query.timestamp,
+   *   nonce: req.query.nonce,
+   * });
+   * ```
+   */
+  verifySignature({
+    signature,
+    timestamp,
+    nonce,
+  }: WechatTypes.SignatureParams): boolean {
+    invariant(
+      this.token,
+      'WechatClient: `token` is required to verify the signature.'
+    );
+
+    if (typeof signature !== 'string') return false;
+
+    const digest = crypto
+      .createHash('sha1')
+      .update([this.token, timestamp, nonce].sort().join(''))
+      .digest('hex');
+
+    return safeCompare(digest, signature);
   }
 
   private async refreshToken(): Promise<void> {
@@ -242,61 +384,7 @@ export default class WechatClient {
    * @see https://developers.weixin.qq.com/doc/offiaccount/Message_Management/Service_Center_messages.html#7
    */
   async sendRawBody(
-    body: {
-      touser: string;
-    } & WechatTypes.SendMessageOptions &
-      (
-        | {
-            msgtype: 'text';
-            text: {
-              content: string;
-            };
-          }
-        | {
-            msgtype: 'image';
-            image: {
-              mediaId: string;
-            };
-          }
-        | {
-            msgtype: 'voice';
-            voice: {
-              mediaId: string;
-            };
-          }
-        | {
-            msgtype: 'video';
-            video: WechatTypes.Video;
-          }
-        | {
-            msgtype: 'music';
-            music: WechatTypes.Music;
-          }
-        | {
-            msgtype: 'news';
-            news: WechatTypes.News;
-          }
-        | {
-            msgtype: 'mpnews';
-            mpnews: {
-              mediaId: string;
-            };
-          }
-        | {
-            msgtype: 'msgmenu';
-            msgmenu: WechatTypes.MsgMenu;
-          }
-        | {
-            msgtype: 'wxcard';
-            wxcard: {
-              cardId: string;
-            };
-          }
-        | {
-            msgtype: 'miniprogrampage';
-            miniprogrampage: WechatTypes.MiniProgramPage;
-          }
-      )
+    body: WechatTypes.CustomerServiceMessage
   ): Promise<WechatTypes.SucceededResponseData> {
     await this.refreshTokenWhenExpired();
 
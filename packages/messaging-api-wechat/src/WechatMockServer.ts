@@ -0,0 +1,160 @@
+import {
+  MockRequest,
+  MockResponse,
+  MockServer,
+  camelcaseKeysDeep,
+} from 'messaging-api-common';
+
+import * as WechatTypes from './WechatTypes';
+
+const MESSAGE_TYPES = [
+  'text',
+  'image',
+  'voice',
+  'video',
+  'music',
+  'news',
+  'mpnews',
+  'msgmenu',
+  'wxcard',
+  'miniprogrampage',
+];
+
+const EXPIRES_IN = 7200;
+
+function wechatError(errcode: number, errmsg: string): MockResponse {
+  // WeChat responds errors with status 200 and a non-zero errcode in the body
+  return { body: { errcode, errmsg } };
+}
+
+function validateMessage(
+  body: Record<string, any>
+): [number, string] | undefined {
+  if (!body.touser) {
+    return [40003, 'invalid openid'];
+  }
+
+  if (!MESSAGE_TYPES.includes(body.msgtype)) {
+    return [40008, 'invalid message type'];
+  }
+
+  if (!body[body.msgtype]) {
+    return [47001, 'data format error'];
+  }
+
+  if (body.msgtype === 'text' && !body.text.content) {
+    return [44004, 'empty content'];
+  }
+
+  return undefined;
+}
+
+/**
+ * An in-process fake WeChat Official Account API server which implements the access token API and the customer service message API. Access tokens issued by the server are required to send messages. Sent messages are validated and recorded in `messages`.
+ *
+ * @example
+ * ```js
+ * const server = new WechatMockServer({ appId: APP_ID, appSecret: APP_SECRET });
+ * const origin = await server.listen();
+ *
+ * const client = new WechatClient({ appId: APP_ID, appSecret: APP_SECRET, origin });
+ *
+ * await client.sendText(OPEN_ID, 'Hello!');
+ *
+ * server.messages;
+ * // [{ touser: OPEN_ID, msgtype: 'text', text: { content: 'Hello!' } }]
+ * ```
+ */
+export default class WechatMockServer extends MockServer<
+  WechatTypes.MockSentMessage
+> {
+  /**
+   * Access tokens issued by the server.
+   */
+  readonly accessTokens = new Set<string>();
+
+  private appId?: string;
+
+  private appSecret?: string;
+
+  /**
+   * @param options - The credentials accepted by the server. Any credentials are accepted if not provided.
+   * @param options.appId - The app ID
+   * @param options.appSecret - The app secret
+   */
+  constructor({
+    appId,
+    appSecret,
+  }: { appId?: string; appSecret?: string } = {}) {
+    super('wechat');
+
+    this.appId = appId;
+    this.appSecret = appSecret;
+
+    this.route('GET', '/cgi-bin/token', (request) => this.handleToken(request));
+    this.route('POST', '/cgi-bin/message/custom/send', (request) =>
+      this.authorize(request, () => this.handleSend(request.body || {}))
+    );
+  }
+
+  /**
+   * Clears recorded requests, messages and issued access tokens.
+   */
+  reset(): void {
+    super.reset();
+    this.accessTokens.clear();
+  }
+
+  private authorize(
+    request: MockRequest,
+    handler: () => MockResponse
+  ): MockResponse {
+    const accessToken = request.query.access_token;
+
+    if (!accessToken) {
+      return wechatError(41001, 'access_token missing');
+    }
+
+    if (!this.accessTokens.has(accessToken as string)) {
+      return wechatError(
+        40001,
+        'invalid credential, access_token is invalid or not latest'
+      );
+    }
+
+    return handler();
+  }
+
+  private handleToken(request: MockRequest): MockResponse {
+    const { grant_type: grantType, appid, secret } = request.query;
+
+    if (grantType !== 'client_credential') {
+      return wechatError(40002, 'invalid grant_type');
+    }
+
+    if (!appid || (this.appId && appid !== this.appId)) {
+      return wechatError(40013, 'invalid appid');
+    }
+
+    if (!secret || (this.appSecret && secret !== this.appSecret)) {
+      return wechatError(40125, 'invalid appsecret');
+    }
+
+    const accessToken = `MOCK_ACCESS_TOKEN_${this.accessTokens.size + 1}`;
+    this.accessTokens.add(accessToken);
+
+    return { body: { access_token: accessToken, expires_in: EXPIRES_IN } };
+  }
+
+  private handleSend(body: Record<string, any>): MockResponse {
+    const error = validateMessage(body);
+
+    if (error) {
+      return wechatError(...error);
+    }
+
+    this.messages.push(camelcaseKeysDeep(body) as WechatTypes.MockSentMessage);
+
+    return { body: { errcode: 0, errmsg: 'ok' } };
+  }
+}
@@ -1,10 +1,63 @@
-import { OnRequestFunction } from 'messaging-api-common';
+import {
+  CassetteOptions,
+  OnErrorFunction,
+  OnRequestFunction,
+  OnResponseFunction,
+  RateLimitOptions,
+  RetryOptions,
+} from 'messaging-api-common';
 
 export type ClientConfig = {
   appId: string;
   appSecret: string;
+
+  /**
+   * The token configured on the server config page, used to verify requests sent from WeChat.
+   */
+  token?: string;
   origin?: string;
   onRequest?: OnRequestFunction;
+
+  /**
+   * The callback to be called with every successful response.
+   */
+  onResponse?: OnResponseFunction;
+
+  /**
+   * The callback to be called with every failed request.
+   */
+  onError?: OnErrorFunction;
+
+  /**
+   * Additional names of query parameters, headers and body fields to be redacted from `onRequest` payloads and error messages. Secrets of the platform, e.g. the access token, are always redacted.
+   */
+  redact?: string[];
+
+  /**
+   * The timeout of each request in milliseconds. Requests never time out if not provided.
+   */
+  timeout?: number;
+
+  /**
+   * Records requests into a JSON cassette or replays them without sending requests, e.g. for offline testing.
+   */
+  cassette?: CassetteOptions;
+
+  /**
+   * Retries failed requests with exponential backoff. Requests are not retried if not provided.
+   */
+  retry?: RetryOptions;
+
+  /**
+   * Delays requests to stay under the rate limits of the platform. Requests are not limited if not provided.
+   */
+  rateLimit?: RateLimitOptions;
+};
+
+export type SignatureParams = {
+  signature: string;
+  timestamp: string;
+  nonce: string;
 };
 
 export type SucceededResponseData = {
@@ -88,3 +141,69 @@ export type SendMessageOptions = {
     kfAccount: string;
   };
 };
+
+/**
+ * The body of a customer service message.
+ *
+ * @see https://developers.weixin.qq.com/doc/offiaccount/Message_Management/Service_Center_messages.html#7
+ */
+export type CustomerServiceMessage = {
+  touser: string;
+} & SendMessageOptions &
+  (
+    | {
+        msgtype: 'text';
+        text: {
+          content: string;
+        };
+      }
+    | {
+        msgtype: 'image';
+        image: {
+          mediaId: string;
+        };
+      }
+    | {
+        msgtype: 'voice';
+        voice: {
+          mediaId: string;
+        };
+      }
+    | {
+        msgtype: 'video';
+        video: Video;
+      }
+    | {
+        msgtype: 'music';
+        music: Music;
+      }
+    | {
+        msgtype: 'news';
+        news: News;
+      }
+    | {
+        msgtype: 'mpnews';
+        mpnews: {
+          mediaId: string;
+        };
+      }
+    | {
+        msgtype: 'msgmenu';
+        msgmenu: MsgMenu;
+      }
+    | {
+        msgtype: 'wxcard';
+        wxcard: {
+          cardId: string;
+        };
+      }
+    | {
+        msgtype: 'miniprogrampage';
+        miniprogrampage: MiniProgramPage;
+      }
+  );
+
+/**
+ * A message recorded by `WechatMockServer`.
+ */
+export type MockSentMessage = CustomerServiceMessage;
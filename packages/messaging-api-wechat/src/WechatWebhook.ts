@@ -0,0 +1,178 @@
+import invariant from 'ts-invariant';
+import {
+  WebhookMiddleware,
+  WebhookMiddlewareOptions,
+  WebhookPlatform,
+  WebhookRequest,
+  camelcaseKeysDeep,
+  createWebhookMiddleware as createPlatformWebhookMiddleware,
+} from 'messaging-api-common';
+
+import WechatClient from './WechatClient';
+
+type WechatMessage = Record<string, any>;
+
+const ELEMENT_REGEXP = /<(\w+)>([\s\S]*?)<\/\1>/g;
+const CDATA_REGEXP = /^<!\[CDATA\[([\s\S]*)\]\]>$/;
+
+function parseXmlElements(xml: string): Record<string, any> {
+  const result: Record<string, any> = {};
+  const regexp = new RegExp(ELEMENT_REGEXP.source, 'g');
+
+  let match = regexp.exec(xml);
+  while (match) {
+    const [, key, content] = match;
+    const trimmed = content.trim();
+    const cdata = CDATA_REGEXP.exec(trimmed);
+
+    let value;
+    if (cdata) {
+      value = cdata[1];
+    } else if (/^<\w+>/.test(trimmed)) {
+      value = parseXmlElements(trimmed);
+    } else {
+      value = trimmed;
+    }
+
+    // repeated elements, e.g. `<item>` in `PicList`, are collected into an array
+    if (key in result) {
+      result[key] = ([] as any[]).concat(result[key], value);
+    } else {
+      result[key] = value;
+    }
+
+    match = regexp.exec(xml);
+  }
+
+  return result;
+}
+
+/**
+ * Parses the XML body of a message pushed from WeChat. Values are kept as strings, so 64-bit IDs like `MsgId` won't lose precision.
+ *
+ * Messages encrypted in the safe mode are not supported.
+ *
+ * @param body - The raw XML request body
+ * @returns The camelcased message
+ *
+ * @example
+ *
+ * ```js
+ * WechatWebhook.parseMessage(rawBody);
+ * // {
+ * //   toUserName: 'toUser',
+ * //   fromUserName: 'fromUser',
+ * //   createTime: '1348831860',
+ * //   msgType: 'text',
+ * //   content: 'this is a test',
+ * //   msgId: '1234567890123456',
+ * // }
+ * ```
+ */
+function parseMessage(body: string | Buffer): WechatMessage {
+  const { xml } = parseXmlElements(body.toString());
+
+  return camelcaseKeysDeep(xml || {}) as WechatMessage;
+}
+
+function verifyRequest(client: WechatClient, request: WebhookRequest): boolean {
+  const { signature, timestamp, nonce } = request.query;
+
+  return client.verifySignature({
+    signature: signature as string,
+    timestamp: timestamp as string,
+    nonce: nonce as string,
+  });
+}
+
+/**
+ * Creates a webhook platform adapter for WeChat, which verifies the `signature` query, answers the `echostr` handshake and parses messages.
+ *
+ * @param client - The client with `token`
+ * @returns The platform adapter
+ */
+function createWebhookPlatform(
+  client: WechatClient
+): WebhookPlatform<WechatMessage> {
+  invariant(
+    client.token,
+    'WechatWebhook: `token` is required to verify webhook requests.'
+  );
+
+  return {
+    platform: 'wechat',
+    methods: ['GET', 'POST'],
+    handleRequest(request) {
+      if (request.method !== 'GET' && request.method !== 'POST') {
+        return { response: { status: 405 } };
+      }
+
+      if (!verifyRequest(client, request)) {
+        return { response: { status: 401 } };
+      }
+
+      if (request.method === 'GET') {
+        return {
+          response: { status: 200, body: request.query.echostr as string },
+        };
+      }
+
+      const message = parseMessage(request.rawBody);
+
+      // the body without the `<xml>` root element isn't a message
+      if (Object.keys(message).length === 0) {
+        return { response: { status: 400 } };
+      }
+
+      return {
+        response: { status: 200, body: 'success' },
+        events: [message],
+      };
+    },
+  };
+}
+
+/**
+ * Creates a webhook middleware for Express, Koa or Node.js http server.
+ *
+ * The middleware verifies the signature using the token of the client, answers the `echostr` verification request, responds `success` immediately and then calls `onEvents` with the parsed message.
+ *
+ * @param options - The options of the middleware
+ * @param options.client - The client with `token`
+ * @param options.onEvents - The callback to be called with parsed messages
+ * @param options.onError - The callback to be called when any error occurs
+ * @returns The middleware function
+ *
+ * @example
+ *
+ * ```js
+ * app.use(
+ *   '/webhooks/wechat',
+ *   WechatWebhook.createWebhookMiddleware({
+ *     client,
+ *     onEvents: async ([message]) => {
+ *       // handle message
+ *     },
+ *   })
+ * );
+ * ```
+ */
+function createWebhookMiddleware({
+  client,
+  ...options
+}: {
+  client: WechatClient;
+} & WebhookMiddlewareOptions<WechatMessage>): WebhookMiddleware {
+  return createPlatformWebhookMiddleware(
+    createWebhookPlatform(client),
+    options
+  );
+}
+
+const WechatWebhook = {
+  parseMessage,
+  createWebhookPlatform,
+  createWebhookMiddleware,
+};
+
+export default WechatWebhook;
@@ -162,4 +162,38 @@ describe('#onRequest', () => {
       },
     });
   });
+  it('should redact secrets before calling onRequest', async () => {
+    const onRequest = jest.fn();
+    const client = new WechatClient({
+      appId: APP_ID,
+      appSecret: APP_SECRET,
+      onRequest,
+      redact: ['openid'],
+    });
+
+    const mock = new MockAdapter(client.axios);
+
+    mock.onAny().reply(200, {});
+
+    await client.axios.get(
+      `/token?grant_type=client_credential&appid=${APP_ID}&secret=${APP_SECRET}`
+    );
+    await client.axios.post('/path?access_token=ACCESS_TOKEN', {
+      openid: 'OPENID',
+    });
+
+    expect(onRequest).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({
+        url: `https://api.weixin.qq.com/cgi-bin/token?grant_type=client_credential&appid=${APP_ID}&secret=[REDACTED]`,
+      })
+    );
+    expect(onRequest).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({
+        url: 'https://api.weixin.qq.com/cgi-bin/path?access_token=[REDACTED]',
+        body: { openid: '[REDACTED]' },
+      })
+    );
+  });
 });
@@ -1,3 +1,5 @@
+import crypto from 'crypto';
+
 import MockAdapter from 'axios-mock-adapter';
 
 import WechatClient from '../WechatClient';
@@ -607,3 +609,82 @@ describe('send api', () => {
     });
   });
 });
+
+describe('#withRequestOptions', () => {
+  it('should apply the request options to all the apis', async () => {
+    const { client, mock } = createMock();
+
+    mock
+      .onPost(`/message/custom/send?access_token=${ACCESS_TOKEN}`)
+      .reply((config) => {
+        expect(config.timeout).toEqual(5000);
+        return [200, { errcode: 0, errmsg: 'ok' }];
+      });
+
+    await client
+      .withRequestOptions({ timeout: 5000 })
+      .sendText(RECIPIENT_ID, 'Hello!');
+
+    expect.assertions(1);
+  });
+
+  it('should share the token refreshed by the view with the client', async () => {
+    const { client, mock } = createMock();
+
+    mock
+      .onPost(`/message/custom/send?access_token=${ACCESS_TOKEN}`)
+      .reply(200, { errcode: 0, errmsg: 'ok' });
+
+    await client
+      .withRequestOptions({ timeout: 5000 })
+      .sendText(RECIPIENT_ID, 'Hello!');
+    await client.sendText(RECIPIENT_ID, 'Hello!');
+
+    expect(client.accessToken).toEqual(ACCESS_TOKEN);
+    expect(mock.history.get).toHaveLength(1);
+  });
+});
+
+describe('signature', () => {
+  describe('#verifySignature', () => {
+    const TOKEN = 'TOKEN';
+    const TIMESTAMP = '1413192605';
+    const NONCE = '1320562132';
+    const SIGNATURE = crypto
+      .createHash('sha1')
+      .update([TOKEN, TIMESTAMP, NONCE].sort().join(''))
+      .digest('hex');
+
+    it('should return true when the signature is valid', () => {
+      const client = new WechatClient({
+        appId: APP_ID,
+        appSecret: APP_SECRET,
+        token: TOKEN,
+      });
+
+      expect(
+        client.verifySignature({
+          signature: SIGNATURE,
+          timestamp: TIMESTAMP,
+          nonce: NONCE,
+        })
+      ).toBe(true);
+    });
+
+    it('should return false when the signature is invalid', () => {
+      const client = new WechatClient({
+        appId: APP_ID,
+        appSecret: APP_SECRET,
+        token: TOKEN,
+      });
+
+      expect(
+        client.verifySignature({
+          signature: SIGNATURE,
+          timestamp: TIMESTAMP,
+          nonce: '0',
+        })
+      ).toBe(false);
+    });
+  });
+});
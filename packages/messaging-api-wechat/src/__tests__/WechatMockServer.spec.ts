@@ -0,0 +1,62 @@
+import WechatClient from '../WechatClient';
+import WechatMockServer from '../WechatMockServer';
+
+const APP_ID = 'APP_ID';
+const APP_SECRET = 'APP_SECRET';
+const OPEN_ID = 'OPEN_ID';
+
+let server: WechatMockServer;
+let origin: string;
+
+beforeEach(async () => {
+  jest.useRealTimers();
+
+  server = new WechatMockServer({ appId: APP_ID, appSecret: APP_SECRET });
+  origin = await server.listen();
+});
+
+afterEach(async () => {
+  await server.close();
+});
+
+it('should issue access tokens and record sent messages', async () => {
+  const client = new WechatClient({
+    appId: APP_ID,
+    appSecret: APP_SECRET,
+    origin,
+  });
+
+  await client.sendText(OPEN_ID, 'Hello!');
+  await client.sendImage(OPEN_ID, 'MEDIA_ID');
+
+  expect(server.accessTokens.size).toEqual(1);
+  expect(server.messages).toEqual([
+    { touser: OPEN_ID, msgtype: 'text', text: { content: 'Hello!' } },
+    { touser: OPEN_ID, msgtype: 'image', image: { mediaId: 'MEDIA_ID' } },
+  ]);
+});
+
+it('should reject invalid credentials', async () => {
+  const client = new WechatClient({
+    appId: APP_ID,
+    appSecret: 'WRONG_SECRET',
+    origin,
+  });
+
+  await expect(client.sendText(OPEN_ID, 'Hello!')).rejects.toThrow(
+    'WeChat API - 40125 invalid appsecret'
+  );
+  expect(server.messages).toEqual([]);
+});
+
+it('should respond WeChat errors for invalid payloads', async () => {
+  const client = new WechatClient({
+    appId: APP_ID,
+    appSecret: APP_SECRET,
+    origin,
+  });
+
+  await expect(client.sendText(OPEN_ID, '')).rejects.toThrow(
+    'WeChat API - 44004 empty content'
+  );
+});
@@ -0,0 +1,136 @@
+import crypto from 'crypto';
+
+import { WebhookRequest } from 'messaging-api-common';
+
+import WechatClient from '../WechatClient';
+import WechatWebhook from '../WechatWebhook';
+
+const TOKEN = 'TOKEN';
+const TIMESTAMP = '1409304348';
+const NONCE = 'xxxxxx';
+
+const XML = `<xml>
+  <ToUserName><![CDATA[toUser]]></ToUserName>
+  <FromUserName><![CDATA[fromUser]]></FromUserName>
+  <CreateTime>1348831860</CreateTime>
+  <MsgType><![CDATA[text]]></MsgType>
+  <Content><![CDATA[this is a <test>]]></Content>
+  <MsgId>1234567890123456789</MsgId>
+</xml>`;
+
+const client = new WechatClient({
+  appId: 'APP_ID',
+  appSecret: 'APP_SECRET',
+  token: TOKEN,
+});
+
+function createRequest(request: Partial<WebhookRequest> = {}): WebhookRequest {
+  return {
+    method: 'POST',
+    url: '/webhooks/wechat',
+    path: '/webhooks/wechat',
+    query: {
+      signature: crypto
+        .createHash('sha1')
+        .update([TOKEN, TIMESTAMP, NONCE].sort().join(''))
+        .digest('hex'),
+      timestamp: TIMESTAMP,
+      nonce: NONCE,
+    },
+    headers: { 'content-type': 'text/xml' },
+    rawBody: Buffer.from(XML),
+    ...request,
+  };
+}
+
+describe('#parseMessage', () => {
+  it('should parse the xml message', () => {
+    expect(WechatWebhook.parseMessage(XML)).toEqual({
+      toUserName: 'toUser',
+      fromUserName: 'fromUser',
+      createTime: '1348831860',
+      msgType: 'text',
+      content: 'this is a <test>',
+      msgId: '1234567890123456789',
+    });
+  });
+
+  it('should parse nested and repeated elements', () => {
+    expect(
+      WechatWebhook.parseMessage(`<xml>
+        <MsgType><![CDATA[event]]></MsgType>
+        <SendPicsInfo>
+          <Count>2</Count>
+          <PicList>
+            <item><PicMd5Sum><![CDATA[aaa]]></PicMd5Sum></item>
+            <item><PicMd5Sum><![CDATA[bbb]]></PicMd5Sum></item>
+          </PicList>
+        </SendPicsInfo>
+      </xml>`)
+    ).toEqual({
+      msgType: 'event',
+      sendPicsInfo: {
+        count: '2',
+        picList: {
+          item: [{ picMd5Sum: 'aaa' }, { picMd5Sum: 'bbb' }],
+        },
+      },
+    });
+  });
+});
+
+describe('#createWebhookPlatform', () => {
+  it('should answer the echostr verification request', async () => {
+    const platform = WechatWebhook.createWebhookPlatform(client);
+    const request = createRequest();
+
+    expect(
+      await platform.handleRequest({
+        ...request,
+        method: 'GET',
+        query: { ...request.query, echostr: 'ECHOSTR' },
+      })
+    ).toEqual({ response: { status: 200, body: 'ECHOSTR' } });
+  });
+
+  it('should respond success with the parsed message', async () => {
+    const platform = WechatWebhook.createWebhookPlatform(client);
+
+    const result = await platform.handleRequest(createRequest());
+
+    expect(result.response).toEqual({ status: 200, body: 'success' });
+    expect(result.events).toEqual([
+      expect.objectContaining({ msgType: 'text', content: 'this is a <test>' }),
+    ]);
+  });
+
+  it('should respond 401 when the signature is invalid', async () => {
+    const platform = WechatWebhook.createWebhookPlatform(client);
+    const request = createRequest();
+
+    expect(
+      await platform.handleRequest({
+        ...request,
+        query: { ...request.query, signature: 'invalid' },
+      })
+    ).toEqual({ response: { status: 401 } });
+  });
+
+  it('should respond 400 when the body is not a xml message', async () => {
+    const platform = WechatWebhook.createWebhookPlatform(client);
+
+    expect(
+      await platform.handleRequest(
+        createRequest({ rawBody: Buffer.from('not a message') })
+      )
+    ).toEqual({ response: { status: 400 } });
+  });
+
+  it('should throw when token is not provided', () => {
+    expect(() =>
+      WechatWebhook.createWebhookPlatform(
+        new WechatClient({ appId: 'APP_ID', appSecret: 'APP_SECRET' })
+      )
+    ).toThrow('WechatWebhook: `token` is required to verify webhook requests.');
+  });
+});
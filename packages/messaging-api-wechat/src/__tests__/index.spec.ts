@@ -1,5 +1,7 @@
-import { WechatClient } from '..';
+import { WechatClient, WechatMockServer, WechatWebhook } from '..';
 
 it('should export api correctly', () => {
   expect(WechatClient).toBeDefined();
+  expect(WechatMockServer).toBeDefined();
+  expect(WechatWebhook).toBeDefined();
 });
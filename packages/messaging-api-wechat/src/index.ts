@@ -1,3 +1,5 @@
 export { default as WechatClient } from './WechatClient';
+export { default as WechatMockServer } from './WechatMockServer';
+export { default as WechatWebhook } from './WechatWebhook';
 
 export * as WechatTypes from './WechatTypes';